@@ -1,16 +1,34 @@
-import { ChatAnthropic } from "@langchain/anthropic";
-import { AIMessage, BaseMessage, HumanMessage } from "@langchain/core/messages";
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
 import {
   ChatPromptTemplate,
   MessagesPlaceholder,
 } from "@langchain/core/prompts";
-import { StateGraph, Annotation } from "@langchain/langgraph";
+import {
+  StateGraph,
+  Annotation,
+  BaseCheckpointSaver,
+  Command,
+  interrupt,
+} from "@langchain/langgraph";
 import { ToolNode } from "@langchain/langgraph/prebuilt";
 import { MongoDBSaver } from "@langchain/langgraph-checkpoint-mongodb";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
-import { Runnable } from "@langchain/core/runnables";
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { Runnable, RunnableConfig } from "@langchain/core/runnables";
 import { MongoClient } from "mongodb";
+import { randomUUID } from "crypto";
+import { SpanKind } from "@opentelemetry/api";
 import { employeeLookupTool } from "./tools/employee-lookup";
+import { employeeFilterTool } from "./tools/employee-filter";
+import { hrAnalyticsTool } from "./tools/hr-analytics";
+import { orgChartTool } from "./tools/org-chart";
+import { teamBuilderTool } from "./tools/team-builder";
+import { fetchMoreResultsTool } from "./tools/fetch-more-results";
 import { StructuredToolInterface } from "@langchain/core/tools";
 import retry from "async-retry";
 import "dotenv/config";
@@ -21,11 +39,44 @@ import {
   WorkflowError,
 } from "./config/errors";
 import { logger } from "../utils/logger";
+import { getRequestId } from "../utils/request-context";
+import {
+  agentRunDuration,
+  modelCallDuration,
+  retriesTotal,
+} from "../utils/metrics";
+import { withSpan } from "../utils/tracing";
+import { createChatModel, getChatModelName } from "./providers/chat-models";
+import { contentToText, timestampedMessagesReducer } from "./messages";
+import { createEmbeddingModel } from "./providers/embeddings";
+import { CachedQueryEmbeddings } from "./providers/cached-embeddings";
+import { MeteredEmbeddings } from "./providers/metered-embeddings";
+import {
+  createEmployeeVectorIndex,
+  EmployeeVectorIndex,
+} from "../db/vector-index";
+import { recordThreadExchange } from "../db/threads";
+import { getUsageCollection, saveUsage } from "../db/usage";
+import {
+  parseToolBudgets,
+  ResultCursorStore,
+  withResultBudget,
+} from "./result-budget";
+import { withToolMetrics } from "./tool-metrics";
+import { ANONYMOUS_CALLER, Caller } from "./policy/caller";
+import { getUsageSettings, readChatUsage, UsageMeter } from "./usage";
+import {
+  ApprovalDecision,
+  findSensitiveToolCalls,
+  PendingApproval,
+  RecordedApprovalDecision,
+} from "./approval";
 
 // Node names for the workflow graph
 enum NodeNames {
   START = "__start__",
   AGENT = "agent",
+  APPROVAL = "approval",
   TOOLS = "tools",
   END = "__end__",
 }
@@ -46,22 +97,93 @@ interface AgentState {
   messages: BaseMessage[];
 }
 
-// Initialize static components
-const model = new ChatAnthropic({
-  model: "claude-3-5-sonnet-20240620",
-  temperature: 0,
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+// The chat model is created on first use so that importing this module does
+// not require provider credentials
+let chatModel: BaseChatModel | undefined;
+
+function getChatModel(): BaseChatModel {
+  if (!chatModel) {
+    chatModel = createChatModel();
+  }
+  return chatModel;
+}
+
+// Embeddings client (with its query cache) and vector index, built once and
+// shared by every run and the employee routes rather than reconnecting
+let employeeSearch:
+  | {
+      client: MongoClient;
+      embeddings: EmbeddingsInterface;
+      // Model name embeddings usage is priced by
+      embeddingsModel: string;
+      vectorIndex: EmployeeVectorIndex;
+    }
+  | undefined;
+
+/**
+ * Returns the shared embeddings client and employee vector index, creating
+ * them on first use or when the MongoDB client changes
+ */
+export function getEmployeeSearch(client: MongoClient) {
+  if (employeeSearch?.client !== client) {
+    const { embeddings, model, dimensions } = createEmbeddingModel();
+    employeeSearch = {
+      client,
+      embeddings: new CachedQueryEmbeddings(
+        embeddings,
+        CONFIG.EMBEDDING_CACHE_SIZE
+      ),
+      embeddingsModel: model,
+      vectorIndex: createEmployeeVectorIndex(client, dimensions),
+    };
+  }
+  return employeeSearch;
+}
+
+// Truncated tool results outlive a single run, so the model can page
+// through them on a later turn
+let resultBudgets:
+  | { store: ResultCursorStore; budgets: Map<string, number> }
+  | undefined;
+
+function getResultBudgets() {
+  if (!resultBudgets) {
+    resultBudgets = {
+      store: new ResultCursorStore(
+        CONFIG.RESULT_CURSOR_TTL_MS,
+        CONFIG.RESULT_CURSOR_MAX_ENTRIES
+      ),
+      budgets: parseToolBudgets(CONFIG.TOOL_RESULT_TOKEN_BUDGETS),
+    };
+  }
+  return resultBudgets;
+}
 
 function getEmployeeCollection(client: MongoClient) {
   const db = client.db(CONFIG.DATABASE_NAME);
-  return db.collection("employees");
+  return db.collection(CONFIG.EMPLOYEES_COLLECTION_NAME);
+}
+
+/**
+ * Maps a failure to the outcome label of the run and model call metrics
+ */
+function errorOutcome(error: unknown): string {
+  if (
+    error instanceof ModelTimeoutError ||
+    (error instanceof Error &&
+      (error.name === "TimeoutError" || /timeout/i.test(error.message)))
+  ) {
+    return "timeout";
+  }
+  return error instanceof ValidationError ? "invalid" : "error";
 }
 
 async function callModel(
   state: AgentState,
   tools: StructuredToolInterface[],
-  model: Runnable
+  model: Runnable,
+  config?: RunnableConfig,
+  meter?: UsageMeter
 ) {
   try {
     const prompt = ChatPromptTemplate.fromMessages([
@@ -77,24 +199,69 @@ async function callModel(
     });
     logger.debug(`API call: ${formattedPrompt.length} messages`);
 
-    const result = await retry(
-      async () => {
-        const timeoutPromise = new Promise((_, reject) =>
-          setTimeout(
-            () => reject(new Error("Model timeout")),
-            CONFIG.MODEL_TIMEOUT
-          )
-        );
-        return Promise.race([model.invoke(formattedPrompt), timeoutPromise]);
-      },
+    const modelName = getChatModelName();
+    const { result, usage } = await withSpan(
+      `chat ${modelName}`,
       {
-        retries: CONFIG.MAX_MODEL_RETRIES,
-        factor: CONFIG.RETRY_FACTOR,
-        minTimeout: CONFIG.RETRY_MIN_TIMEOUT,
-        maxTimeout: CONFIG.RETRY_MAX_TIMEOUT,
+        "gen_ai.operation.name": "chat",
+        "gen_ai.system": CONFIG.MODEL_PROVIDER,
+        "gen_ai.request.model": modelName,
+      },
+      async (span) => {
+        const response = await retry(
+          (_bail, attempt) =>
+            withSpan(
+              "chat attempt",
+              { "retry.attempt": attempt },
+              async () => {
+                let timer: NodeJS.Timeout | undefined;
+                const timeoutPromise = new Promise<never>((_, reject) => {
+                  timer = setTimeout(
+                    () => reject(new Error("Model timeout")),
+                    CONFIG.MODEL_TIMEOUT
+                  );
+                });
+                const endCall = modelCallDuration.startTimer({
+                  provider: CONFIG.MODEL_PROVIDER,
+                });
+                try {
+                  const response = await Promise.race([
+                    model.invoke(formattedPrompt, config),
+                    timeoutPromise,
+                  ]);
+                  endCall({ outcome: "success" });
+                  return response;
+                } catch (error) {
+                  endCall({ outcome: errorOutcome(error) });
+                  throw error;
+                } finally {
+                  // Don't keep the process alive once the model has answered
+                  clearTimeout(timer);
+                }
+              },
+              SpanKind.CLIENT
+            ),
+          {
+            retries: CONFIG.MAX_MODEL_RETRIES,
+            factor: CONFIG.RETRY_FACTOR,
+            minTimeout: CONFIG.RETRY_MIN_TIMEOUT,
+            maxTimeout: CONFIG.RETRY_MAX_TIMEOUT,
+            onRetry: () => retriesTotal.inc({ operation: "model" }),
+          }
+        );
+        const usage = readChatUsage(response, formattedPrompt, modelName);
+        span.setAttributes({
+          "gen_ai.response.model": usage.model,
+          "gen_ai.usage.input_tokens": usage.input_tokens,
+          "gen_ai.usage.output_tokens": usage.output_tokens,
+        });
+        return { result: response, usage };
       }
     );
-    logger.debug(`API response tokens: ${result.content.length}`);
+    meter?.record("chat", usage.model, usage);
+    logger.debug(
+      `API response: ${usage.input_tokens} input and ${usage.output_tokens} output tokens${usage.estimated ? " (estimated)" : ""}`
+    );
 
     return { messages: [result] };
   } catch (error) {
@@ -108,45 +275,123 @@ async function callModel(
 
 function shouldContinue(state: AgentState): string {
   const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
-  return lastMessage.tool_calls?.length ? NodeNames.TOOLS : NodeNames.END;
+  if (!lastMessage.tool_calls?.length) {
+    return NodeNames.END;
+  }
+  return findSensitiveToolCalls(lastMessage.tool_calls).length
+    ? NodeNames.APPROVAL
+    : NodeNames.TOOLS;
+}
+
+/**
+ * Pauses the run until an approver decides on the sensitive tool calls of the
+ * last AI message, then runs them as approved or edited, or reports the
+ * rejection back to the agent
+ */
+function reviewToolCalls(state: AgentState) {
+  const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
+  const toolCalls = lastMessage.tool_calls ?? [];
+
+  const decision = interrupt<PendingApproval, RecordedApprovalDecision>({
+    tool_calls: findSensitiveToolCalls(toolCalls),
+  });
+  logger.info(
+    `Tool call approval decision: ${decision.action} by ${decision.approver_id}`
+  );
+
+  if (decision.action === "approve") {
+    return new Command({ goto: NodeNames.TOOLS });
+  }
+
+  if (decision.action === "edit") {
+    const edits = new Map(decision.tool_calls.map((edit) => [edit.id, edit]));
+    // Same id, so the reducer replaces the original message
+    const edited = new AIMessage({
+      id: lastMessage.id,
+      content: lastMessage.content,
+      tool_calls: toolCalls.map((call) => ({
+        ...call,
+        args: edits.get(call.id ?? "")?.args ?? call.args,
+      })),
+    });
+    return new Command({
+      goto: NodeNames.TOOLS,
+      update: { messages: [edited] },
+    });
+  }
+
+  // Every tool call needs a result, so the whole batch is rejected
+  const reason = decision.reason ? `: ${decision.reason}` : "";
+  return new Command({
+    goto: NodeNames.AGENT,
+    update: {
+      messages: toolCalls.map(
+        (call) =>
+          new ToolMessage({
+            tool_call_id: call.id ?? "",
+            name: call.name,
+            content: `Tool call rejected by an approver${reason}. Do not retry it; tell the user the request was not approved.`,
+          })
+      ),
+    },
+  });
 }
 
 /**
  * Creates and compiles the LangGraph workflow
  * @param tools - Array of tools to be used by the agent
  * @param model - The language model
- * @param client - MongoDB client for checkpointing
+ * @param checkpointer - Saver used to persist state between graph runs
+ * @param meter - Records the tokens each model response used
  * @returns Compiled workflow application
  */
-function createWorkflow(
+export function createWorkflow(
   tools: StructuredToolInterface[],
   model: BaseChatModel,
-  client: MongoClient
+  checkpointer: BaseCheckpointSaver,
+  meter?: UsageMeter
 ) {
-  // Define the graph state
+  // Define the graph state; messages with a known id are replaced, so an
+  // approver's edits overwrite the original tool call message. Each message
+  // is stamped with when it entered the thread, for the history endpoint.
   const GraphState = Annotation.Root({
     messages: Annotation<BaseMessage[]>({
-      reducer: (x, y) => x.concat(y),
+      reducer: timestampedMessagesReducer,
+      default: () => [],
     }),
   });
 
   // Bind tools to the model
   const boundModel = model.bindTools!(tools);
+  const toolNode = new ToolNode<typeof GraphState.State>(tools);
 
   // Create the workflow graph
   const workflow = new StateGraph(GraphState)
-    .addNode(NodeNames.AGENT, (state) => callModel(state, tools, boundModel))
-    .addNode(NodeNames.TOOLS, new ToolNode<typeof GraphState.State>(tools))
+    .addNode(NodeNames.AGENT, (state, config) =>
+      withSpan(
+        `langgraph.node ${NodeNames.AGENT}`,
+        { "langgraph.node": NodeNames.AGENT },
+        () => callModel(state, tools, boundModel, config, meter)
+      )
+    )
+    .addNode(NodeNames.APPROVAL, reviewToolCalls, {
+      ends: [NodeNames.TOOLS, NodeNames.AGENT],
+    })
+    .addNode(NodeNames.TOOLS, (state, config) =>
+      withSpan(
+        `langgraph.node ${NodeNames.TOOLS}`,
+        { "langgraph.node": NodeNames.TOOLS },
+        () => toolNode.invoke(state, config)
+      )
+    )
     .addEdge(NodeNames.START, NodeNames.AGENT)
-    .addConditionalEdges(NodeNames.AGENT, shouldContinue)
+    .addConditionalEdges(NodeNames.AGENT, shouldContinue, [
+      NodeNames.APPROVAL,
+      NodeNames.TOOLS,
+      NodeNames.END,
+    ])
     .addEdge(NodeNames.TOOLS, NodeNames.AGENT);
 
-  // Initialize the MongoDB memory to persist state between graph runs
-  const checkpointer = new MongoDBSaver({
-    client,
-    dbName: CONFIG.DATABASE_NAME,
-  });
-
   // Compile and return the workflow
   return workflow.compile({ checkpointer });
 }
@@ -176,70 +421,433 @@ function validateInputs(query: string, thread_id: string): void {
   }
 }
 
-export async function callAgent(
+/**
+ * Creates the MongoDB memory used to persist state between graph runs
+ * @param client - MongoDB client
+ * @returns Checkpoint saver writing into the HR database
+ */
+export function createCheckpointer(client: MongoClient) {
+  return new MongoDBSaver({
+    client,
+    dbName: CONFIG.DATABASE_NAME,
+    checkpointCollectionName: CONFIG.CHECKPOINT_COLLECTION_NAME,
+    checkpointWritesCollectionName: CONFIG.CHECKPOINT_WRITES_COLLECTION_NAME,
+  });
+}
+
+/**
+ * Builds the tool set and compiled workflow for a single agent run
+ * @param client - MongoDB client used for tools and checkpointing
+ * @param meter - Records the run's model and embeddings usage
+ * @returns Compiled workflow application
+ */
+function createAgentApp(client: MongoClient, meter?: UsageMeter) {
+  const collection = getEmployeeCollection(client);
+  const { embeddings, embeddingsModel, vectorIndex } =
+    getEmployeeSearch(client);
+  const employeeLookup = employeeLookupTool(
+    collection,
+    vectorIndex,
+    meter
+      ? new MeteredEmbeddings(embeddings, embeddingsModel, meter)
+      : embeddings
+  );
+  const { store, budgets } = getResultBudgets();
+  const tools: StructuredToolInterface[] = [
+    ...[
+      employeeLookup,
+      employeeFilterTool(collection),
+      hrAnalyticsTool(collection),
+      orgChartTool(collection),
+      teamBuilderTool(collection),
+    ].map((tool) =>
+      withResultBudget(
+        tool,
+        store,
+        budgets.get(tool.name) ?? CONFIG.TOOL_RESULT_TOKEN_BUDGET
+      )
+    ),
+    fetchMoreResultsTool(store),
+  ].map(withToolMetrics);
+
+  return createWorkflow(
+    tools,
+    getChatModel(),
+    createCheckpointer(client),
+    meter
+  );
+}
+
+/**
+ * Updates the thread metadata after a successful exchange. Bookkeeping
+ * failures are logged rather than failing a run that already completed.
+ * @param messageCount - Messages in the thread's checkpointed state
+ */
+async function recordExchange(
   client: MongoClient,
-  query: string,
-  thread_id: string
+  thread_id: string,
+  messageCount: number
 ) {
   try {
-    // Validate inputs
-    validateInputs(query, thread_id);
+    await recordThreadExchange(client, thread_id, messageCount);
+  } catch (error) {
+    logger.warn("Failed to record thread exchange:", error);
+  }
+}
 
-    const collection = getEmployeeCollection(client);
-    const employeeLookup = employeeLookupTool(collection);
-    const tools: StructuredToolInterface[] = [employeeLookup];
+// Usage of one request, written once the run ends whether or not it
+// succeeded, since failed runs can still have called the model
+interface RunUsage {
+  request_id: string;
+  meter: UsageMeter;
+}
 
-    // Create the workflow using the extracted function
-    const app = createWorkflow(tools, model, client);
+// Usage records share the HTTP request id, so they can be matched to logs
+const createRunUsage = (): RunUsage => ({
+  request_id: getRequestId() ?? randomUUID(),
+  meter: new UsageMeter(getUsageSettings().prices),
+});
 
-    const finalState = await retry(
-      async () => {
-        const timeoutPromise = new Promise((_, reject) =>
-          setTimeout(
-            () => reject(new Error("Workflow timeout")),
-            CONFIG.WORKFLOW_TIMEOUT
-          )
+/**
+ * Stores the usage of a run. Bookkeeping failures are logged rather than
+ * failing the run.
+ */
+async function recordUsage(
+  client: MongoClient,
+  usage: RunUsage,
+  thread_id: string,
+  caller: Caller
+) {
+  try {
+    const record = await saveUsage(getUsageCollection(client), usage.meter, {
+      request_id: usage.request_id,
+      thread_id,
+      caller,
+    });
+    if (record) {
+      logger.info(
+        `Request ${record.request_id} used ${record.total_tokens} tokens ($${record.cost_usd.toFixed(6)})`
+      );
+    }
+  } catch (error) {
+    logger.warn("Failed to record token usage:", error);
+  }
+}
+
+/**
+ * Maps an agent failure to the message shown to the user
+ * @param error - The error raised while running the agent
+ * @returns User-facing error message
+ */
+function describeAgentError(error: unknown): string {
+  if (error instanceof ValidationError) {
+    return `Validation Error: ${error.message}`;
+  }
+
+  if (error instanceof ModelTimeoutError) {
+    return "The request timed out. Please try again with a simpler query.";
+  }
+
+  if (error instanceof WorkflowError) {
+    return "There was an issue processing your request. Please try again.";
+  }
+
+  // For any other unexpected errors
+  return "Sorry, something went wrong while processing your request. Please try again later.";
+}
+
+// Responses often quote employee records, so their text is debug-only
+function logResponse(kind: string, response: string): void {
+  logger.info(`${kind} response: ${response.length} characters`);
+  logger.debug(`${kind} response: ${response}`);
+}
+
+// Outcome of an agent run returned to the routes
+export interface AgentResult {
+  response: string;
+  // Present when the run paused for a human to review sensitive tool calls
+  pendingApproval?: PendingApproval;
+}
+
+const APPROVAL_REQUIRED_RESPONSE =
+  "This request needs approval from an HR approver before it can continue.";
+
+type AgentApp = ReturnType<typeof createAgentApp>;
+
+// Outcome label of a completed run
+const resultOutcome = (result: AgentResult) =>
+  result.pendingApproval ? "approval_required" : "success";
+
+/**
+ * Reads the approval request the thread is paused on, if any
+ */
+async function readPendingApproval(
+  app: AgentApp,
+  thread_id: string
+): Promise<PendingApproval | null> {
+  const state = await app.getState({ configurable: { thread_id } });
+  const interrupts = state.tasks.flatMap((task) => task.interrupts);
+  return interrupts.length ? (interrupts[0].value as PendingApproval) : null;
+}
+
+/**
+ * Invokes the workflow with retries and a timeout, then reads the outcome
+ * from the thread's latest state
+ * @param client - MongoDB client used for tools and checkpointing
+ * @param input - New messages, or a Command resuming an interrupted run
+ * @param thread_id - The thread identifier
+ * @param caller - Identity and role the tools apply their policies to
+ * @param meter - Records the run's model and embeddings usage
+ */
+async function runAgent(
+  client: MongoClient,
+  input: { messages: BaseMessage[] } | Command,
+  thread_id: string,
+  caller: Caller,
+  meter: UsageMeter
+): Promise<AgentResult> {
+  const app = createAgentApp(client, meter);
+
+  const finalState = await retry(
+    async () => {
+      let timer: NodeJS.Timeout | undefined;
+      const timeoutPromise = new Promise((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error("Workflow timeout")),
+          CONFIG.WORKFLOW_TIMEOUT
         );
-        return Promise.race([
-          app.invoke(
-            { messages: [new HumanMessage(query)] },
-            {
-              recursionLimit: CONFIG.RECURSION_LIMIT,
-              configurable: { thread_id: thread_id },
-            }
-          ),
+      });
+      try {
+        return await Promise.race([
+          app.invoke(input, {
+            recursionLimit: CONFIG.RECURSION_LIMIT,
+            configurable: { thread_id: thread_id, caller },
+          }),
           timeoutPromise,
         ]);
-      },
-      {
-        retries: CONFIG.MAX_WORKFLOW_RETRIES,
-        factor: CONFIG.RETRY_FACTOR,
-        minTimeout: CONFIG.RETRY_MIN_TIMEOUT,
-        maxTimeout: CONFIG.RETRY_MAX_TIMEOUT,
+      } finally {
+        // Don't keep the process alive once the run has finished
+        clearTimeout(timer);
       }
+    },
+    {
+      retries: CONFIG.MAX_WORKFLOW_RETRIES,
+      factor: CONFIG.RETRY_FACTOR,
+      minTimeout: CONFIG.RETRY_MIN_TIMEOUT,
+      maxTimeout: CONFIG.RETRY_MAX_TIMEOUT,
+      onRetry: () => retriesTotal.inc({ operation: "workflow" }),
+    }
+  );
+
+  const pendingApproval = await readPendingApproval(app, thread_id);
+  if (pendingApproval) {
+    logger.info(
+      `Run paused for approval of ${pendingApproval.tool_calls.length} tool call(s)`
     );
+    return { response: APPROVAL_REQUIRED_RESPONSE, pendingApproval };
+  }
+
+  // A run paused for approval finishes its exchange when it is resumed
+  const { messages } = finalState as AgentState;
+  await recordExchange(client, thread_id, messages.length);
+  return { response: contentToText(messages[messages.length - 1].content) };
+}
 
-    const finalStateTyped = finalState as { messages: BaseMessage[] };
-    const finalMessage =
-      finalStateTyped.messages[finalStateTyped.messages.length - 1].content;
-    logger.info(`Final response: ${finalMessage}`);
-    return finalMessage;
+export async function callAgent(
+  client: MongoClient,
+  query: string,
+  thread_id: string,
+  caller: Caller = ANONYMOUS_CALLER
+): Promise<AgentResult> {
+  const usage = createRunUsage();
+  const endRun = agentRunDuration.startTimer({ mode: "invoke" });
+  try {
+    // Validate inputs
+    validateInputs(query, thread_id);
+
+    const result = await runAgent(
+      client,
+      { messages: [new HumanMessage(query)] },
+      thread_id,
+      caller,
+      usage.meter
+    );
+    endRun({ outcome: resultOutcome(result) });
+    logResponse("Final", result.response);
+    return result;
+  } catch (error) {
+    endRun({ outcome: errorOutcome(error) });
+    logger.error("Error in callAgent:", error);
+    return { response: describeAgentError(error) };
+  } finally {
+    await recordUsage(client, usage, thread_id, caller);
+  }
+}
+
+/**
+ * Returns the sensitive tool calls a thread is waiting on, if any
+ * @param client - MongoDB client used for checkpointing
+ * @param thread_id - The thread identifier
+ */
+export async function getPendingApproval(
+  client: MongoClient,
+  thread_id: string
+): Promise<PendingApproval | null> {
+  return readPendingApproval(createAgentApp(client), thread_id);
+}
+
+/**
+ * Continues a run paused for approval from its checkpoint. The resumed tool
+ * calls run with the thread owner's role, since their results land in the
+ * owner's conversation; the approver only makes the decision.
+ * @param client - MongoDB client used for tools and checkpointing
+ * @param thread_id - The thread identifier
+ * @param decision - Approve, edit or reject the pending tool calls
+ * @param owner - Thread owner the run acts for and is charged to
+ * @param approver - Caller who made the decision
+ */
+export async function resumeAgent(
+  client: MongoClient,
+  thread_id: string,
+  decision: ApprovalDecision,
+  owner: Caller,
+  approver: Caller
+): Promise<AgentResult> {
+  const usage = createRunUsage();
+  const endRun = agentRunDuration.startTimer({ mode: "resume" });
+  try {
+    const resume: RecordedApprovalDecision = {
+      ...decision,
+      approver_id: approver.id,
+    };
+    const result = await runAgent(
+      client,
+      new Command({ resume }),
+      thread_id,
+      owner,
+      usage.meter
+    );
+    endRun({ outcome: resultOutcome(result) });
+    logResponse("Resumed", result.response);
+    return result;
   } catch (error) {
-   logger.error("Error in callAgent:", error);
+    endRun({ outcome: errorOutcome(error) });
+    logger.error("Error in resumeAgent:", error);
+    return { response: describeAgentError(error) };
+  } finally {
+    await recordUsage(client, usage, thread_id, owner);
+  }
+}
 
-    if (error instanceof ValidationError) {
-      return `Validation Error: ${error.message}`;
+// Events emitted while streaming an agent run
+export type AgentStreamEvent =
+  | { type: "token"; content: string }
+  | { type: "tool_start"; runId: string; tool: string; input: unknown }
+  | { type: "tool_end"; runId: string; tool: string; output: string }
+  | {
+      type: "final";
+      threadId: string;
+      response: string;
+      pendingApproval?: PendingApproval;
     }
+  | { type: "error"; threadId: string; message: string };
+
+/**
+ * Runs the agent and yields token deltas from the agent node, tool start/end
+ * events from the tools node and a final event carrying the thread id.
+ * Streamed runs are not retried because partial output has already been sent.
+ * @param client - MongoDB client used for tools and checkpointing
+ * @param query - The user query string
+ * @param thread_id - The thread identifier
+ * @param caller - Identity and role the tools apply their policies to
+ * @param signal - Optional signal to abort the run (e.g. client disconnect)
+ */
+export async function* streamAgent(
+  client: MongoClient,
+  query: string,
+  thread_id: string,
+  caller: Caller = ANONYMOUS_CALLER,
+  signal?: AbortSignal
+): AsyncGenerator<AgentStreamEvent> {
+  const usage = createRunUsage();
+  const endRun = agentRunDuration.startTimer({ mode: "stream" });
+  // Stays "aborted" if the client stops reading before the run ends
+  let outcome = "aborted";
+  try {
+    validateInputs(query, thread_id);
+
+    const app = createAgentApp(client, usage.meter);
+    const timeoutSignal = AbortSignal.timeout(CONFIG.WORKFLOW_TIMEOUT);
+    const runConfig = {
+      recursionLimit: CONFIG.RECURSION_LIMIT,
+      configurable: { thread_id: thread_id, caller },
+      signal: signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal,
+    };
 
-    if (error instanceof ModelTimeoutError) {
-      return "The request timed out. Please try again with a simpler query.";
+    const events = app.streamEvents(
+      { messages: [new HumanMessage(query)] },
+      { ...runConfig, version: "v2" }
+    );
+
+    for await (const event of events) {
+      const node = event.metadata?.langgraph_node;
+
+      if (event.event === "on_chat_model_stream" && node === NodeNames.AGENT) {
+        const content = contentToText(event.data.chunk?.content ?? "");
+        if (content) {
+          yield { type: "token", content };
+        }
+      } else if (event.event === "on_tool_start" && node === NodeNames.TOOLS) {
+        yield {
+          type: "tool_start",
+          runId: event.run_id,
+          tool: event.name,
+          input: event.data.input,
+        };
+      } else if (event.event === "on_tool_end" && node === NodeNames.TOOLS) {
+        const output = event.data.output;
+        yield {
+          type: "tool_end",
+          runId: event.run_id,
+          tool: event.name,
+          output:
+            typeof output?.content === "string"
+              ? output.content
+              : JSON.stringify(output),
+        };
+      }
     }
 
-    if (error instanceof WorkflowError) {
-      return "There was an issue processing your request. Please try again.";
+    const pendingApproval = await readPendingApproval(app, thread_id);
+    if (pendingApproval) {
+      outcome = "approval_required";
+      yield {
+        type: "final",
+        threadId: thread_id,
+        response: APPROVAL_REQUIRED_RESPONSE,
+        pendingApproval,
+      };
+      return;
     }
 
-    // For any other unexpected errors
-    return "Sorry, something went wrong while processing your request. Please try again later.";
+    const finalState = await app.getState(runConfig);
+    const messages = (finalState.values as AgentState).messages;
+    const response = contentToText(messages[messages.length - 1].content);
+    logResponse("Final streamed", response);
+    await recordExchange(client, thread_id, messages.length);
+    outcome = "success";
+    yield { type: "final", threadId: thread_id, response };
+  } catch (error) {
+    logger.error("Error in streamAgent:", error);
+    const timedOut = error instanceof Error && error.name === "TimeoutError";
+    outcome = signal?.aborted ? "aborted" : errorOutcome(error);
+    yield {
+      type: "error",
+      threadId: thread_id,
+      message: describeAgentError(timedOut ? new ModelTimeoutError() : error),
+    };
+  } finally {
+    endRun({ outcome });
+    await recordUsage(client, usage, thread_id, caller);
   }
 }
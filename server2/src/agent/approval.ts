@@ -0,0 +1,125 @@
+import { ToolCall } from "@langchain/core/messages/tool";
+import { CONFIG } from "./config/config";
+import { Caller, Role } from "./policy/caller";
+import { ANALYTICS_REPORTS, AnalyticsReportName } from "./tools/hr-analytics";
+
+// A rule marking calls to a tool as needing human approval
+export interface SensitiveToolRule {
+  tool: string;
+  reason: string;
+  matches(args: Record<string, unknown>): boolean;
+}
+
+// A tool call waiting for an approver
+export interface PendingToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  reason: string;
+}
+
+// Payload raised by the approval node and returned by the pending endpoint
+export interface PendingApproval {
+  tool_calls: PendingToolCall[];
+}
+
+// What an approver decided about the pending tool calls
+export type ApprovalDecision =
+  | { action: "approve" }
+  | {
+      action: "edit";
+      tool_calls: { id: string; args: Record<string, unknown> }[];
+    }
+  | { action: "reject"; reason?: string };
+
+// A decision as the approval node receives it, with who made it
+export type RecordedApprovalDecision = ApprovalDecision & {
+  approver_id: string;
+};
+
+// Roles allowed to approve, edit or reject pending tool calls on any thread
+export const APPROVER_ROLES: readonly Role[] = ["hr", "admin"];
+
+export const canApprove = (caller: Caller) =>
+  APPROVER_ROLES.includes(caller.role);
+
+// Questions touching these fields need an approver before the data is read
+const RESTRICTED_FIELDS_PATTERN =
+  /salar(y|ies)|compensation|\bpay\b|date[ _]of[ _]birth|\bdob\b|birthday|emergency[ _]contact/i;
+
+// Employee fields those questions are about, for tools that name fields
+const RESTRICTED_FIELDS = [
+  "job_details.salary",
+  "date_of_birth",
+  "emergency_contact",
+];
+
+const readsRestrictedField = (fields: readonly string[]) =>
+  fields.some((field) =>
+    RESTRICTED_FIELDS.some(
+      (restricted) =>
+        field === restricted || field.startsWith(`${restricted}.`)
+    )
+  );
+
+const BULK_EXPORT_PATTERN = /\b(export|dump|all employees|every employee)\b/i;
+
+// Rules are checked in order; the first match gives the reason shown
+export const SENSITIVE_TOOL_RULES: SensitiveToolRule[] = [
+  {
+    tool: "employee_lookup",
+    reason:
+      "Query targets restricted fields (salary, date of birth or emergency contact)",
+    matches: (args) =>
+      RESTRICTED_FIELDS_PATTERN.test(String(args.query ?? "")),
+  },
+  {
+    tool: "employee_lookup",
+    reason: "Bulk export of employee records",
+    matches: (args) =>
+      BULK_EXPORT_PATTERN.test(String(args.query ?? "")) ||
+      Number(args.n) > CONFIG.BULK_EXPORT_THRESHOLD,
+  },
+  {
+    tool: "employee_filter",
+    reason: "Bulk export of employee records",
+    matches: (args) => Number(args.limit) > CONFIG.BULK_EXPORT_THRESHOLD,
+  },
+  {
+    tool: "hr_analytics",
+    reason:
+      "Report aggregates restricted fields (salary, date of birth or emergency contact)",
+    matches: (args) =>
+      readsRestrictedField(
+        ANALYTICS_REPORTS[args.report as AnalyticsReportName]?.fields ?? []
+      ),
+  },
+];
+
+/**
+ * Returns the tool calls that match a sensitive tool rule
+ * @param toolCalls - Tool calls requested by the model
+ * @param rules - Rules to check, defaults to SENSITIVE_TOOL_RULES
+ */
+export function findSensitiveToolCalls(
+  toolCalls: ToolCall[],
+  rules: SensitiveToolRule[] = SENSITIVE_TOOL_RULES
+): PendingToolCall[] {
+  return toolCalls.flatMap((call) => {
+    const rule = rules.find(
+      (candidate) =>
+        candidate.tool === call.name && candidate.matches(call.args)
+    );
+    if (!rule) {
+      return [];
+    }
+    return [
+      {
+        id: call.id ?? "",
+        name: call.name,
+        args: call.args,
+        reason: rule.reason,
+      },
+    ];
+  });
+}
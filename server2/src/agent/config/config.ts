@@ -1,7 +1,31 @@
+// Reads a numeric environment variable, falling back when unset or invalid
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && !Number.isNaN(value) ? value : fallback;
+}
+
+// Splits a comma separated environment variable into trimmed entries
+function listFromEnv(name: string, fallback: string[] = []): string[] {
+  const entries = (process.env[name] ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return entries.length ? entries : fallback;
+}
+
 // Configuration constants
 export const CONFIG = {
   // Database configuration
   DATABASE_NAME: "hr_database",
+  EMPLOYEES_COLLECTION_NAME: "employees",
+  EMPLOYEE_AUDIT_COLLECTION_NAME: "employee_audit",
+  EMPLOYEE_ID_INDEX_NAME: "employee_id_unique",
+  REPORTING_MANAGER_INDEX_NAME: "reporting_manager",
+  THREADS_COLLECTION_NAME: "threads",
+  USAGE_COLLECTION_NAME: "usage",
+  RATE_LIMIT_COLLECTION_NAME: "rate_limits",
+  CHECKPOINT_COLLECTION_NAME: "checkpoints",
+  CHECKPOINT_WRITES_COLLECTION_NAME: "checkpoint_writes",
 
   // Timeout values (in milliseconds)
   MODEL_TIMEOUT: 10000,
@@ -18,4 +42,128 @@ export const CONFIG = {
   RECURSION_LIMIT: 5,
   MAX_QUERY_LENGTH: 1000,
   MAX_THREAD_ID_LENGTH: 100,
+
+  // Lookup and filter calls asking for more results than this need approval
+  BULK_EXPORT_THRESHOLD: 50,
+
+  // Deepest management chain or reporting tree the org chart follows
+  ORG_MAX_DEPTH: 20,
+
+  // Most employees team_builder considers for one plan, split across roles
+  TEAM_BUILDER_MAX_CANDIDATES: 200,
+
+  // Server-side time limit for hr_analytics aggregations (in milliseconds)
+  ANALYTICS_MAX_TIME_MS: 5000,
+
+  // Tool outputs larger than this many (estimated) tokens are cut to a first
+  // page plus a cursor for fetch_more_results. Per-tool overrides are
+  // "tool_name:tokens" entries.
+  TOOL_RESULT_TOKEN_BUDGET: numberFromEnv("TOOL_RESULT_TOKEN_BUDGET", 2000),
+  TOOL_RESULT_TOKEN_BUDGETS: listFromEnv("TOOL_RESULT_TOKEN_BUDGETS"),
+  // How long and how many truncated results are kept for paging
+  RESULT_CURSOR_TTL_MS: 15 * 60 * 1000,
+  RESULT_CURSOR_MAX_ENTRIES: 1000,
+
+  // Chat model used by the agent (anthropic, openai, openai-compatible, fake)
+  MODEL_PROVIDER: process.env.MODEL_PROVIDER || "anthropic",
+  MODEL_NAME: process.env.MODEL_NAME, // Falls back to the provider default
+  MODEL_TEMPERATURE: numberFromEnv("MODEL_TEMPERATURE", 0),
+  MODEL_MAX_TOKENS: numberFromEnv("MODEL_MAX_TOKENS", 4096),
+
+  // Chat model used to generate synthetic seed data
+  SEED_MODEL_PROVIDER: process.env.SEED_MODEL_PROVIDER || "openai",
+  SEED_MODEL_NAME: process.env.SEED_MODEL_NAME,
+  SEED_MODEL_TEMPERATURE: numberFromEnv("SEED_MODEL_TEMPERATURE", 0.7),
+
+  // Embeddings used for the employee vector index (openai, local)
+  EMBEDDINGS_PROVIDER: process.env.EMBEDDINGS_PROVIDER || "openai",
+  EMBEDDINGS_MODEL: process.env.EMBEDDINGS_MODEL,
+  // Falls back to the provider's native vector size
+  EMBEDDINGS_DIMENSIONS: process.env.EMBEDDINGS_DIMENSIONS
+    ? Number(process.env.EMBEDDINGS_DIMENSIONS)
+    : undefined,
+
+  // Vector index backend for employee summaries (qdrant, atlas, memory)
+  VECTOR_INDEX_BACKEND: process.env.VECTOR_INDEX_BACKEND || "qdrant",
+  QDRANT_COLLECTION_NAME: "employees",
+  ATLAS_VECTOR_COLLECTION_NAME: "employee_vectors",
+  ATLAS_VECTOR_INDEX_NAME: "employee_vector_index",
+
+  // Background indexer following the employees change stream; needs a
+  // replica set or Atlas cluster. Off by default: writes re-embed inline.
+  VECTOR_SYNC_ENABLED: process.env.VECTOR_SYNC_ENABLED === "true",
+  VECTOR_SYNC_STATE_COLLECTION_NAME: "vector_sync_state",
+  VECTOR_SYNC_RETRY_DELAY_MS: 5000,
+  // Employees embedded per embedDocuments call when re-indexing, importing
+  // or applying a burst of changes
+  EMBEDDING_BATCH_SIZE: numberFromEnv("EMBEDDING_BATCH_SIZE", 100),
+
+  // Most rows one employee import file may hold
+  IMPORT_MAX_ROWS: numberFromEnv("IMPORT_MAX_ROWS", 10000),
+
+  // employee_lookup bounds: results per call unless the model asks for more,
+  // and the cosine similarity a vector hit needs to be returned at all
+  LOOKUP_DEFAULT_RESULTS: 10,
+  LOOKUP_MIN_VECTOR_SCORE: numberFromEnv("LOOKUP_MIN_VECTOR_SCORE", 0.2),
+  // Query embeddings kept in the LRU cache (0 disables it)
+  EMBEDDING_CACHE_SIZE: numberFromEnv("EMBEDDING_CACHE_SIZE", 500),
+
+  // Hybrid employee retrieval: MongoDB text index plus the vector index,
+  // merged with reciprocal rank fusion. A weight of 0 disables that leg.
+  EMPLOYEE_TEXT_INDEX_NAME: "employee_text_index",
+  HYBRID_VECTOR_WEIGHT: numberFromEnv("HYBRID_VECTOR_WEIGHT", 1),
+  HYBRID_KEYWORD_WEIGHT: numberFromEnv("HYBRID_KEYWORD_WEIGHT", 1),
+  HYBRID_RRF_K: numberFromEnv("HYBRID_RRF_K", 60),
+
+  // Authentication: static API keys as "key:user_id:role" entries, and/or
+  // JWTs signed with a local HS256 secret or RS256 public key (PEM or path)
+  API_KEYS: listFromEnv("API_KEYS"),
+  JWT_HS256_SECRET: process.env.JWT_HS256_SECRET,
+  JWT_RS256_PUBLIC_KEY: process.env.JWT_RS256_PUBLIC_KEY,
+  JWT_ISSUER: process.env.JWT_ISSUER,
+  JWT_AUDIENCE: process.env.JWT_AUDIENCE,
+  // Local development only: every request runs as an anonymous employee
+  AUTH_DISABLED: process.env.AUTH_DISABLED === "true",
+
+  // Token usage accounting. Prices are USD per million input and output
+  // tokens as "model:input:output" entries, added to or replacing the
+  // built-in table; models without a price are recorded at no cost
+  MODEL_PRICES: listFromEnv("MODEL_PRICES"),
+  // Daily per-user limits, reset at midnight UTC (0 = unlimited). Overrides
+  // are "user_id:tokens:cost_usd" entries; an empty field keeps the default
+  USAGE_DAILY_TOKEN_QUOTA: numberFromEnv("USAGE_DAILY_TOKEN_QUOTA", 0),
+  USAGE_DAILY_COST_QUOTA: numberFromEnv("USAGE_DAILY_COST_QUOTA", 0),
+  USAGE_QUOTAS: listFromEnv("USAGE_QUOTAS"),
+
+  // Sliding-window rate limits on chat runs, per API key or client IP.
+  // Per-route overrides are "METHOD /route:requests:window_seconds" entries.
+  RATE_LIMIT_ENABLED: process.env.RATE_LIMIT_ENABLED !== "false",
+  // memory for a single instance, mongo to share counts between instances
+  RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE || "memory",
+  RATE_LIMIT_REQUESTS: numberFromEnv("RATE_LIMIT_REQUESTS", 30),
+  RATE_LIMIT_WINDOW_SECONDS: numberFromEnv("RATE_LIMIT_WINDOW_SECONDS", 60),
+  RATE_LIMITS: listFromEnv("RATE_LIMITS"),
+
+  // Agent runs executing at once in this process (0 = unlimited), and how
+  // many more may wait, and for how long, before getting a 503
+  MAX_CONCURRENT_RUNS: numberFromEnv("MAX_CONCURRENT_RUNS", 8),
+  MAX_QUEUED_RUNS: numberFromEnv("MAX_QUEUED_RUNS", 32),
+  RUN_QUEUE_TIMEOUT_MS: numberFromEnv("RUN_QUEUE_TIMEOUT_MS", 30000),
+
+  // Field names masked in log entries, on top of email, phone_number,
+  // salary and date_of_birth
+  LOG_REDACT_FIELDS: listFromEnv("LOG_REDACT_FIELDS"),
+
+  // OpenTelemetry tracing: spans go over OTLP when OTEL_EXPORTER_OTLP_ENDPOINT
+  // or OTEL_EXPORTER_OTLP_TRACES_ENDPOINT is set, otherwise to TRACE_FILE
+  TRACING_ENABLED: process.env.TRACING_ENABLED !== "false",
+  TRACE_FILE: process.env.TRACE_FILE || "logs/traces.jsonl",
+  SERVICE_NAME: process.env.OTEL_SERVICE_NAME || "hr-agent-server",
+
+  // Origins allowed to call the API from a browser; none by default
+  CORS_ORIGINS: listFromEnv("CORS_ORIGINS"),
+
+  // Base URL for OpenAI-compatible servers such as Ollama
+  OPENAI_COMPATIBLE_BASE_URL:
+    process.env.OPENAI_COMPATIBLE_BASE_URL || "http://localhost:11434/v1",
 } as const;
@@ -1,13 +1,23 @@
+import { CONFIG } from "./config";
+import { getChatModelRequiredEnv } from "../providers/chat-models";
+import { getEmbeddingsRequiredEnv } from "../providers/embeddings";
+import { getVectorIndexRequiredEnv } from "../../db/vector-index";
+import { parseToolBudgets } from "../result-budget";
+import { getUsageSettings } from "../usage";
+import { getRateLimitOptions } from "../../middleware/rate-limit";
+import { RATE_LIMIT_STORES } from "../../db/rate-limits";
+
 export function validateEnvironmentVariables() {
   const requiredVars = [
     "MONGODB_ATLAS_URI",
-    "ANTHROPIC_API_KEY",
-    "OPENAI_API_KEY",
-    "QDRANT_URL",
-    "QDRANT_API_KEY",
+    ...getChatModelRequiredEnv(CONFIG.MODEL_PROVIDER),
+    ...getEmbeddingsRequiredEnv(CONFIG.EMBEDDINGS_PROVIDER),
+    ...getVectorIndexRequiredEnv(CONFIG.VECTOR_INDEX_BACKEND),
   ];
 
-  const missingVars = requiredVars.filter((varName) => !process.env[varName]);
+  const missingVars = [...new Set(requiredVars)].filter(
+    (varName) => !process.env[varName]
+  );
 
   if (missingVars.length > 0) {
     throw new Error(
@@ -15,5 +25,25 @@ export function validateEnvironmentVariables() {
     );
   }
 
+  const hasCredentials =
+    CONFIG.API_KEYS.length > 0 ||
+    Boolean(CONFIG.JWT_HS256_SECRET || CONFIG.JWT_RS256_PUBLIC_KEY);
+  if (!hasCredentials && !CONFIG.AUTH_DISABLED) {
+    throw new Error(
+      "No credentials configured: set API_KEYS, JWT_HS256_SECRET or " +
+        "JWT_RS256_PUBLIC_KEY (or AUTH_DISABLED=true for local development)"
+    );
+  }
+
+  // Throws on malformed entries
+  parseToolBudgets(CONFIG.TOOL_RESULT_TOKEN_BUDGETS);
+  getUsageSettings();
+  getRateLimitOptions();
+  if (!RATE_LIMIT_STORES.includes(CONFIG.RATE_LIMIT_STORE)) {
+    throw new Error(
+      `Unknown RATE_LIMIT_STORE "${CONFIG.RATE_LIMIT_STORE}"; use ${RATE_LIMIT_STORES.join(" or ")}`
+    );
+  }
+
   console.log("Environment variables validated successfully");
 }
@@ -30,3 +30,46 @@ export class WorkflowError extends AgentError {
     this.name = "WorkflowError";
   }
 }
+
+export class ConfigurationError extends AgentError {
+  constructor(message: string) {
+    super(message, "CONFIGURATION_ERROR", 500);
+    this.name = "ConfigurationError";
+  }
+}
+
+export class AuthenticationError extends AgentError {
+  constructor(message: string = "Authentication required") {
+    super(message, "AUTHENTICATION_ERROR", 401);
+    this.name = "AuthenticationError";
+  }
+}
+
+export class ConflictError extends AgentError {
+  constructor(message: string) {
+    super(message, "CONFLICT", 409);
+    this.name = "ConflictError";
+  }
+}
+
+export class QuotaExceededError extends AgentError {
+  constructor(
+    message: string,
+    // Seconds until the quota resets, sent as Retry-After
+    public retryAfter: number
+  ) {
+    super(message, "QUOTA_EXCEEDED", 429);
+    this.name = "QuotaExceededError";
+  }
+}
+
+export class ServerBusyError extends AgentError {
+  constructor(
+    message: string,
+    // Seconds a client should wait before trying again
+    public retryAfter: number
+  ) {
+    super(message, "SERVER_BUSY", 503);
+    this.name = "ServerBusyError";
+  }
+}
@@ -0,0 +1,105 @@
+import { BaseMessage } from "@langchain/core/messages";
+import { BaseCheckpointSaver } from "@langchain/langgraph";
+import {
+  messageTimestamp,
+  SerializedMessage,
+  serializeMessage,
+} from "./messages";
+
+export interface HistoryOptions {
+  // Only return messages with an index lower than this cursor
+  before?: number;
+  // Maximum number of messages to return
+  limit: number;
+}
+
+export interface ThreadHistoryPage {
+  threadId: string;
+  total: number;
+  messages: SerializedMessage[];
+  hasMore: boolean;
+  // Cursor for the next (older) page, or null once the oldest is returned
+  nextBefore: number | null;
+}
+
+const messagesOf = (values: unknown): BaseMessage[] =>
+  (values as { messages?: BaseMessage[] })?.messages ?? [];
+
+/**
+ * Works out when each message was first persisted by walking the thread's
+ * checkpoints from oldest to newest. Only needed for messages written
+ * before they were stamped with a timestamp.
+ * @returns Timestamp per message index
+ */
+async function messageTimestamps(
+  checkpointer: BaseCheckpointSaver,
+  threadId: string
+): Promise<string[]> {
+  const checkpoints: { ts: string; count: number }[] = [];
+  for await (const tuple of checkpointer.list({
+    configurable: { thread_id: threadId },
+  })) {
+    checkpoints.push({
+      ts: tuple.checkpoint.ts,
+      count: messagesOf(tuple.checkpoint.channel_values).length,
+    });
+  }
+
+  const timestamps: string[] = [];
+  checkpoints
+    .sort((a, b) => a.ts.localeCompare(b.ts))
+    .forEach(({ ts, count }) => {
+      while (timestamps.length < count) {
+        timestamps.push(ts);
+      }
+    });
+  return timestamps;
+}
+
+/**
+ * Reads the ordered message list of a thread from its latest checkpoint.
+ * Pages run backwards from the newest message, `before` being the index of
+ * the oldest message already received.
+ * @param checkpointer - Saver holding the thread's checkpoints
+ * @param threadId - The thread identifier
+ * @param options - Pagination cursor and page size
+ * @returns The requested page, or null if the thread has no checkpoint
+ */
+export async function getThreadHistory(
+  checkpointer: BaseCheckpointSaver,
+  threadId: string,
+  options: HistoryOptions
+): Promise<ThreadHistoryPage | null> {
+  const latest = await checkpointer.getTuple({
+    configurable: { thread_id: threadId },
+  });
+  if (!latest) {
+    return null;
+  }
+
+  const messages = messagesOf(latest.checkpoint.channel_values);
+  const end = Math.min(options.before ?? messages.length, messages.length);
+  const start = Math.max(end - options.limit, 0);
+  const page = messages.slice(start, end);
+
+  // Messages carry their own timestamp; only older threads need the walk
+  const checkpointTimestamps = page.every(messageTimestamp)
+    ? []
+    : await messageTimestamps(checkpointer, threadId);
+
+  return {
+    threadId,
+    total: messages.length,
+    messages: page.map((message, offset) =>
+      serializeMessage(
+        message,
+        start + offset,
+        messageTimestamp(message) ??
+          checkpointTimestamps[start + offset] ??
+          latest.checkpoint.ts
+      )
+    ),
+    hasMore: start > 0,
+    nextBefore: start > 0 ? start : null,
+  };
+}
@@ -0,0 +1,100 @@
+import { AIMessage, BaseMessage, ToolMessage } from "@langchain/core/messages";
+import { Messages, messagesStateReducer } from "@langchain/langgraph";
+
+// Stable JSON shape of a conversation message returned by the API
+export interface SerializedMessage {
+  index: number;
+  id: string | null;
+  type: string;
+  content: string;
+  timestamp: string | null;
+  tool_calls?: { id: string | null; name: string; args: unknown }[];
+  tool_call_id?: string;
+  tool_name?: string;
+}
+
+/**
+ * Extracts plain text from message content, which may be a string or a list
+ * of content blocks (Anthropic streams text and tool input as blocks)
+ */
+export function contentToText(content: BaseMessage["content"]): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  return content
+    .map((block) =>
+      block.type === "text" && typeof block.text === "string" ? block.text : ""
+    )
+    .join("");
+}
+
+// Metadata key holding when a message entered its thread. Providers never
+// read response_metadata back, so the stamp stays out of model requests.
+const TIMESTAMP_KEY = "timestamp";
+
+// When the message entered its thread, if it was stamped
+export const messageTimestamp = (message: BaseMessage): string | undefined =>
+  message.response_metadata?.[TIMESTAMP_KEY];
+
+/**
+ * messagesStateReducer that also stamps each new message with the time it
+ * entered the thread. Messages replaced by id, such as an approver's edit,
+ * keep the time of the message they replace.
+ */
+export function timestampedMessagesReducer(
+  left: BaseMessage[],
+  right: Messages
+): BaseMessage[] {
+  const now = new Date().toISOString();
+  const previous = new Map(
+    left.map((message) => [message.id, messageTimestamp(message)])
+  );
+  return messagesStateReducer(left, right).map((message) => {
+    if (messageTimestamp(message)) {
+      return message;
+    }
+    message.response_metadata = {
+      ...message.response_metadata,
+      [TIMESTAMP_KEY]: previous.get(message.id) ?? now,
+    };
+    return message;
+  });
+}
+
+/**
+ * Converts a LangChain message into the API message shape
+ * @param message - Message from the graph state
+ * @param index - Position of the message in the thread
+ * @param timestamp - When the message was checkpointed, if known
+ */
+export function serializeMessage(
+  message: BaseMessage,
+  index: number,
+  timestamp: string | null
+): SerializedMessage {
+  const serialized: SerializedMessage = {
+    index,
+    id: message.id ?? null,
+    type: message.getType(),
+    content: contentToText(message.content),
+    timestamp,
+  };
+
+  const toolCalls = (message as AIMessage).tool_calls;
+  if (message.getType() === "ai" && toolCalls?.length) {
+    serialized.tool_calls = toolCalls.map((call) => ({
+      id: call.id ?? null,
+      name: call.name,
+      args: call.args,
+    }));
+  }
+
+  if (message.getType() === "tool") {
+    serialized.tool_call_id = (message as ToolMessage).tool_call_id;
+    if (message.name) {
+      serialized.tool_name = message.name;
+    }
+  }
+
+  return serialized;
+}
@@ -0,0 +1,30 @@
+import { RunnableConfig } from "@langchain/core/runnables";
+
+// Caller roles, from least to most privileged
+export const ROLES = ["employee", "manager", "hr", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+// Identity of whoever made the request, carried into the graph config
+export interface Caller {
+  id: string;
+  role: Role;
+  // Fingerprint of the API key the request authenticated with
+  key_id?: string;
+}
+
+// Used when a run carries no caller, so tools fail closed
+export const ANONYMOUS_CALLER: Caller = { id: "anonymous", role: "employee" };
+
+export const isRole = (value: unknown): value is Role =>
+  ROLES.includes(value as Role);
+
+/**
+ * Reads the caller from a graph or tool run config
+ * @param config - Config passed to a node or tool
+ * @returns The caller, or the least privileged caller if none is set
+ */
+export function getCaller(config?: RunnableConfig): Caller {
+  const caller = config?.configurable?.caller as Caller | undefined;
+  return caller && isRole(caller.role) ? caller : ANONYMOUS_CALLER;
+}
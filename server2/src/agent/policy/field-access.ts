@@ -0,0 +1,172 @@
+import { Role } from "./caller";
+
+// Fields a role may read ("*" for everything) and fields shown only as masked
+export interface FieldAccessRule {
+  allow: string[];
+  mask: string[];
+}
+
+// Fields a tool may return for one role: real values and masked placeholders
+export interface FieldAccess {
+  project: string[];
+  mask: string[];
+}
+
+export const MASKED_VALUE = "[REDACTED]";
+
+const EMPLOYEE_FIELDS = [
+  "employee_id",
+  "first_name",
+  "last_name",
+  "job_details.job_title",
+  "job_details.department",
+  "work_location",
+  "contact_details.email",
+  "reporting_manager",
+  "skills",
+];
+
+const MANAGER_FIELDS = [
+  ...EMPLOYEE_FIELDS,
+  "job_details.hire_date",
+  "job_details.employment_type",
+  "contact_details.phone_number",
+  "performance_reviews",
+];
+
+/**
+ * Field-level access policy for employee records, by caller role.
+ * Paths use MongoDB dot notation; a path grants access to all its children.
+ */
+export const FIELD_ACCESS_POLICY: Record<Role, FieldAccessRule> = {
+  employee: {
+    allow: EMPLOYEE_FIELDS,
+    mask: [],
+  },
+  manager: {
+    allow: MANAGER_FIELDS,
+    mask: ["job_details.salary"],
+  },
+  hr: {
+    allow: [
+      ...MANAGER_FIELDS,
+      "job_details",
+      "contact_details",
+      "date_of_birth",
+      "address",
+      "benefits",
+      "emergency_contact",
+      "notes",
+    ],
+    mask: [],
+  },
+  admin: {
+    allow: ["*"],
+    mask: [],
+  },
+};
+
+const covers = (parent: string, path: string) =>
+  parent === path || path.startsWith(`${parent}.`);
+
+// Removes paths already covered by an ancestor (MongoDB rejects both)
+const collapsePaths = (paths: string[]) =>
+  [...new Set(paths)].filter(
+    (path) => !paths.some((other) => other !== path && covers(other, path))
+  );
+
+// Paths of `requested` that `granted` gives access to, at the finer level
+function intersectPaths(requested: string[], granted: string[]): string[] {
+  if (granted.includes("*")) {
+    return collapsePaths(requested);
+  }
+  const paths = requested.flatMap((path) =>
+    granted.flatMap((grant) => {
+      if (covers(grant, path)) return [path];
+      if (covers(path, grant)) return [grant];
+      return [];
+    })
+  );
+  return collapsePaths(paths);
+}
+
+/**
+ * Decides which of the fields a tool wants it may return for a role
+ * @param role - Caller role
+ * @param requested - Fields the tool would like to return
+ * @param policy - Policy to apply, defaults to FIELD_ACCESS_POLICY
+ */
+export function resolveFieldAccess(
+  role: Role,
+  requested: string[],
+  policy: Record<Role, FieldAccessRule> = FIELD_ACCESS_POLICY
+): FieldAccess {
+  const rule = policy[role];
+  const mask = intersectPaths(requested, rule.mask);
+  const project = intersectPaths(requested, rule.allow).filter(
+    (path) => !mask.some((masked) => covers(masked, path))
+  );
+  return { project, mask };
+}
+
+/**
+ * Checks whether a role may read a field in full
+ */
+export function isFieldVisible(
+  role: Role,
+  path: string,
+  policy: Record<Role, FieldAccessRule> = FIELD_ACCESS_POLICY
+): boolean {
+  const rule = policy[role];
+  const allowed =
+    rule.allow.includes("*") || rule.allow.some((grant) => covers(grant, path));
+  return allowed && !rule.mask.some((masked) => covers(masked, path));
+}
+
+/**
+ * Builds the MongoDB projection for a resolved field access. Masked fields
+ * are not fetched at all.
+ */
+export function buildProjection(access: FieldAccess): Record<string, 0 | 1> {
+  return {
+    ...Object.fromEntries(access.project.map((path) => [path, 1 as const])),
+    _id: 0,
+  };
+}
+
+const getPath = (doc: Record<string, any>, path: string) =>
+  path.split(".").reduce<any>((value, key) => value?.[key], doc);
+
+function setPath(doc: Record<string, any>, path: string, value: unknown) {
+  const keys = path.split(".");
+  let target = doc;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof target[key] !== "object" || target[key] === null) {
+      target[key] = {};
+    }
+    target = target[key];
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Copies only the permitted fields of a document and adds placeholders for
+ * masked ones. Anything else the document carries is dropped, so a wider
+ * database result cannot leak restricted fields.
+ */
+export function redactDocument(
+  doc: Record<string, any>,
+  access: FieldAccess
+): Record<string, any> {
+  const redacted: Record<string, any> = {};
+  for (const path of access.project) {
+    const value = getPath(doc, path);
+    if (value !== undefined) {
+      setPath(redacted, path, value);
+    }
+  }
+  for (const path of access.mask) {
+    setPath(redacted, path, MASKED_VALUE);
+  }
+  return redacted;
+}
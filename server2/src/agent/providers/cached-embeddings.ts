@@ -0,0 +1,62 @@
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+
+const normalizeQuery = (query: string) => query.replace(/\s+/g, " ").trim();
+
+/**
+ * Wraps an embeddings client with a least-recently-used cache of query
+ * vectors, so repeated questions skip the embeddings API. Concurrent
+ * requests for the same query share one call; failed calls are not cached.
+ * Document embeddings pass straight through.
+ */
+export class CachedQueryEmbeddings implements EmbeddingsInterface {
+  // Map iteration order doubles as recency order, oldest first
+  private readonly cache = new Map<string, Promise<number[]>>();
+  hits = 0;
+  misses = 0;
+
+  constructor(
+    private readonly embeddings: EmbeddingsInterface,
+    private readonly maxSize: number
+  ) {}
+
+  get size() {
+    return this.cache.size;
+  }
+
+  // True if the query is cached or already being embedded
+  has(query: string): boolean {
+    return this.cache.has(normalizeQuery(query));
+  }
+
+  embedDocuments(documents: string[]): Promise<number[][]> {
+    return this.embeddings.embedDocuments(documents);
+  }
+
+  embedQuery(query: string): Promise<number[]> {
+    const key = normalizeQuery(query);
+    const cached = this.cache.get(key);
+    if (cached) {
+      this.hits++;
+      // Re-insert to mark as most recently used
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return cached;
+    }
+
+    this.misses++;
+    const vector = this.embeddings.embedQuery(key);
+    if (this.maxSize <= 0) {
+      return vector;
+    }
+    this.cache.set(key, vector);
+    vector.catch(() => {
+      if (this.cache.get(key) === vector) {
+        this.cache.delete(key);
+      }
+    });
+    if (this.cache.size > this.maxSize) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    return vector;
+  }
+}
@@ -0,0 +1,126 @@
+import { ChatAnthropic } from "@langchain/anthropic";
+import { ChatOpenAI } from "@langchain/openai";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { CONFIG } from "../config/config";
+import { ConfigurationError } from "../config/errors";
+import { ScriptedChatModel } from "./fake-chat-model";
+
+export interface ChatModelOptions {
+  provider: string;
+  model?: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+interface ChatModelProvider {
+  // Model used when no model name is configured
+  defaultModel: string;
+  // Environment variables the provider needs at runtime
+  requiredEnv: string[];
+  create(options: ChatModelOptions & { model: string }): BaseChatModel;
+}
+
+// Registry of supported chat model providers, keyed by MODEL_PROVIDER value
+const CHAT_MODEL_PROVIDERS: Record<string, ChatModelProvider> = {
+  anthropic: {
+    defaultModel: "claude-3-5-sonnet-20240620",
+    requiredEnv: ["ANTHROPIC_API_KEY"],
+    create: ({ model, temperature, maxTokens }) =>
+      new ChatAnthropic({
+        model,
+        temperature,
+        maxTokens,
+        apiKey: process.env.ANTHROPIC_API_KEY,
+      }),
+  },
+  openai: {
+    defaultModel: "gpt-4o-mini",
+    requiredEnv: ["OPENAI_API_KEY"],
+    create: ({ model, temperature, maxTokens }) =>
+      new ChatOpenAI({
+        model,
+        temperature,
+        maxTokens,
+        apiKey: process.env.OPENAI_API_KEY,
+      }),
+  },
+  // Any server implementing the OpenAI chat completions API (Ollama, vLLM...)
+  "openai-compatible": {
+    defaultModel: "llama3.1",
+    requiredEnv: [],
+    create: ({ model, temperature, maxTokens }) =>
+      new ChatOpenAI({
+        model,
+        temperature,
+        maxTokens,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+        configuration: { baseURL: CONFIG.OPENAI_COMPATIBLE_BASE_URL },
+      }),
+  },
+  // Deterministic offline model for tests and local development
+  fake: {
+    defaultModel: "scripted",
+    requiredEnv: [],
+    create: () => new ScriptedChatModel(),
+  },
+};
+
+function getProvider(name: string): ChatModelProvider {
+  const provider = CHAT_MODEL_PROVIDERS[name];
+  if (!provider) {
+    throw new ConfigurationError(
+      `Unknown chat model provider "${name}". Expected one of: ${Object.keys(
+        CHAT_MODEL_PROVIDERS
+      ).join(", ")}`
+    );
+  }
+  return provider;
+}
+
+/**
+ * Creates a chat model from the provider registry
+ * @param options - Overrides for the configured provider, model and sampling
+ * @returns Chat model instance
+ * @throws ConfigurationError if the provider is unknown
+ */
+export function createChatModel(
+  options: Partial<ChatModelOptions> = {}
+): BaseChatModel {
+  const resolved = {
+    provider: CONFIG.MODEL_PROVIDER,
+    model: CONFIG.MODEL_NAME,
+    temperature: CONFIG.MODEL_TEMPERATURE,
+    maxTokens: CONFIG.MODEL_MAX_TOKENS,
+    ...options,
+  };
+  const provider = getProvider(resolved.provider);
+  return provider.create({
+    ...resolved,
+    model: resolved.model || provider.defaultModel,
+  });
+}
+
+/**
+ * Returns the model name a chat model is created with
+ * @param options - Overrides for the configured provider and model
+ * @throws ConfigurationError if the provider is unknown
+ */
+export function getChatModelName(
+  options: Partial<Pick<ChatModelOptions, "provider" | "model">> = {}
+): string {
+  const { provider, model } = {
+    provider: CONFIG.MODEL_PROVIDER,
+    model: CONFIG.MODEL_NAME,
+    ...options,
+  };
+  return model || getProvider(provider).defaultModel;
+}
+
+/**
+ * Lists the environment variables a chat model provider needs
+ * @param name - Provider name
+ * @throws ConfigurationError if the provider is unknown
+ */
+export function getChatModelRequiredEnv(name: string): string[] {
+  return getProvider(name).requiredEnv;
+}
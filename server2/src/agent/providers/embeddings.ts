@@ -0,0 +1,98 @@
+import { OpenAIEmbeddings } from "@langchain/openai";
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { CONFIG } from "../config/config";
+import { ConfigurationError } from "../config/errors";
+import { HashedNGramEmbeddings } from "./hashed-embeddings";
+
+// An embeddings client together with the size of the vectors it produces
+export interface EmbeddingModel {
+  provider: string;
+  // Model name usage is priced by
+  model: string;
+  dimensions: number;
+  embeddings: EmbeddingsInterface;
+}
+
+export interface EmbeddingModelOptions {
+  provider: string;
+  model?: string;
+  dimensions?: number;
+}
+
+interface EmbeddingsProvider {
+  requiredEnv: string[];
+  create(options: EmbeddingModelOptions): EmbeddingModel;
+}
+
+// Native output sizes of the OpenAI embedding models
+const OPENAI_DIMENSIONS: Record<string, number> = {
+  "text-embedding-ada-002": 1536,
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+};
+
+// Registry of supported embeddings providers, keyed by EMBEDDINGS_PROVIDER value
+const EMBEDDINGS_PROVIDERS: Record<string, EmbeddingsProvider> = {
+  openai: {
+    requiredEnv: ["OPENAI_API_KEY"],
+    create: ({ provider, model = "text-embedding-ada-002", dimensions }) => ({
+      provider,
+      model,
+      // Only text-embedding-3 models accept a custom dimension
+      dimensions: dimensions ?? OPENAI_DIMENSIONS[model] ?? 1536,
+      embeddings: new OpenAIEmbeddings({ model, dimensions }),
+    }),
+  },
+  // Deterministic hashed n-gram vectors, no network or API key needed
+  local: {
+    requiredEnv: [],
+    create: ({ provider, dimensions }) => {
+      const embeddings = new HashedNGramEmbeddings({ dimensions });
+      return {
+        provider,
+        model: "hashed-ngram",
+        dimensions: embeddings.dimensions,
+        embeddings,
+      };
+    },
+  },
+};
+
+function getProvider(name: string): EmbeddingsProvider {
+  const provider = EMBEDDINGS_PROVIDERS[name];
+  if (!provider) {
+    throw new ConfigurationError(
+      `Unknown embeddings provider "${name}". Expected one of: ${Object.keys(
+        EMBEDDINGS_PROVIDERS
+      ).join(", ")}`
+    );
+  }
+  return provider;
+}
+
+/**
+ * Creates an embeddings client from the provider registry
+ * @param options - Overrides for the configured provider, model and dimension
+ * @returns Embeddings client and its vector dimension
+ * @throws ConfigurationError if the provider is unknown
+ */
+export function createEmbeddingModel(
+  options: Partial<EmbeddingModelOptions> = {}
+): EmbeddingModel {
+  const resolved = {
+    provider: CONFIG.EMBEDDINGS_PROVIDER,
+    model: CONFIG.EMBEDDINGS_MODEL,
+    dimensions: CONFIG.EMBEDDINGS_DIMENSIONS,
+    ...options,
+  };
+  return getProvider(resolved.provider).create(resolved);
+}
+
+/**
+ * Lists the environment variables an embeddings provider needs
+ * @param name - Provider name
+ * @throws ConfigurationError if the provider is unknown
+ */
+export function getEmbeddingsRequiredEnv(name: string): string[] {
+  return getProvider(name).requiredEnv;
+}
@@ -0,0 +1,147 @@
+import {
+  BaseChatModel,
+  BaseChatModelParams,
+  BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+
+// A scripted model turn: plain text, or tool calls to emit
+export type ScriptedResponse =
+  | string
+  | {
+      content?: string;
+      toolCalls: { name: string; args: Record<string, unknown> }[];
+    };
+
+export interface ScriptedChatModelParams extends BaseChatModelParams {
+  // Responses returned in order; once exhausted the default behaviour applies
+  responses?: ScriptedResponse[];
+}
+
+// Script position shared between a model and the copies created by bindTools
+interface ScriptState {
+  responses: ScriptedResponse[];
+  turn: number;
+}
+
+const messageText = (message: BaseMessage) =>
+  typeof message.content === "string"
+    ? message.content
+    : JSON.stringify(message.content);
+
+/**
+ * Deterministic chat model that needs no network access.
+ *
+ * Scripted responses are replayed in order. Without a script, the model calls
+ * the first bound tool with the latest user message as `query`, then answers
+ * with the tool output prefixed by FINAL ANSWER.
+ */
+export class ScriptedChatModel extends BaseChatModel {
+  private state: ScriptState;
+  private toolNames: string[] = [];
+
+  static lc_name() {
+    return "ScriptedChatModel";
+  }
+
+  constructor(fields: ScriptedChatModelParams = {}) {
+    super(fields);
+    this.state = { responses: fields.responses ?? [], turn: 0 };
+  }
+
+  _llmType() {
+    return "scripted-fake";
+  }
+
+  bindTools(tools: BindToolsInput[]) {
+    const bound = new ScriptedChatModel();
+    bound.state = this.state;
+    bound.toolNames = tools.map((tool) => (tool as { name: string }).name);
+    return bound;
+  }
+
+  private nextResponse(messages: BaseMessage[]): AIMessageChunk {
+    const turn = this.state.turn++;
+    const scripted = this.state.responses[turn];
+
+    if (typeof scripted === "string") {
+      return new AIMessageChunk({ content: scripted });
+    }
+    if (scripted) {
+      return new AIMessageChunk({
+        content: scripted.content ?? "",
+        tool_call_chunks: scripted.toolCalls.map((call, index) => ({
+          name: call.name,
+          args: JSON.stringify(call.args),
+          id: `call_${turn}_${index}`,
+          index,
+          type: "tool_call_chunk" as const,
+        })),
+      });
+    }
+
+    const last = messages[messages.length - 1];
+    if (last instanceof ToolMessage || last?.getType() === "tool") {
+      return new AIMessageChunk({
+        content: `FINAL ANSWER: ${messageText(last)}`,
+      });
+    }
+    if (this.toolNames.length > 0 && last?.getType() === "human") {
+      return new AIMessageChunk({
+        content: "",
+        tool_call_chunks: [
+          {
+            name: this.toolNames[0],
+            args: JSON.stringify({ query: messageText(last) }),
+            id: `call_${turn}_0`,
+            index: 0,
+            type: "tool_call_chunk",
+          },
+        ],
+      });
+    }
+    return new AIMessageChunk({
+      content: `FINAL ANSWER: ${last ? messageText(last) : ""}`,
+    });
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const chunk = this.nextResponse(messages);
+    const message = new AIMessage({
+      content: chunk.content,
+      tool_calls: chunk.tool_calls,
+    });
+    return {
+      generations: [{ message, text: messageText(message) }],
+    };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    _options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const chunk = this.nextResponse(messages);
+    const generation = new ChatGenerationChunk({
+      message: chunk,
+      text: messageText(chunk),
+    });
+    // Reported like a provider's token, so streamEvents emits it
+    await runManager?.handleLLMNewToken(
+      generation.text,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { chunk: generation }
+    );
+    yield generation;
+  }
+}
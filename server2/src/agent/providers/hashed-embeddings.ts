@@ -0,0 +1,72 @@
+import { Embeddings, EmbeddingsParams } from "@langchain/core/embeddings";
+
+export interface HashedNGramEmbeddingsParams extends EmbeddingsParams {
+  // Length of the produced vectors
+  dimensions?: number;
+  // Character n-gram size used alongside whole words
+  ngramSize?: number;
+}
+
+// 32-bit FNV-1a hash, stable across processes and platforms
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic offline embedder based on the hashing trick.
+ *
+ * Each lower-cased word and each character n-gram of that word is hashed into
+ * a bucket of the vector, with the sign taken from a second hash to reduce
+ * collisions. Vectors are L2-normalised, so cosine similarity reflects shared
+ * vocabulary. Good enough for local development and CI, not for production.
+ */
+export class HashedNGramEmbeddings extends Embeddings {
+  readonly dimensions: number;
+  private readonly ngramSize: number;
+
+  constructor(fields: HashedNGramEmbeddingsParams = {}) {
+    super(fields);
+    this.dimensions = fields.dimensions ?? 256;
+    this.ngramSize = fields.ngramSize ?? 3;
+  }
+
+  private features(text: string): string[] {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features: string[] = [];
+    for (const word of words) {
+      features.push(`w:${word}`);
+      const padded = `^${word}$`;
+      for (let i = 0; i + this.ngramSize <= padded.length; i++) {
+        features.push(`c:${padded.slice(i, i + this.ngramSize)}`);
+      }
+    }
+    return features;
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const feature of this.features(text)) {
+      const bucket = fnv1a(feature) % this.dimensions;
+      const sign = fnv1a(`sign:${feature}`) & 1 ? 1 : -1;
+      vector[bucket] += sign;
+    }
+
+    const norm = Math.sqrt(
+      vector.reduce((sum, value) => sum + value * value, 0)
+    );
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((document) => this.embed(document));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+}
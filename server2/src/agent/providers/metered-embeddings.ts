@@ -0,0 +1,48 @@
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { estimateTokens } from "../result-budget";
+import { UsageMeter } from "../usage";
+
+// Embeddings clients that can tell whether a query would be served from a
+// cache, like CachedQueryEmbeddings
+type MaybeCachedEmbeddings = EmbeddingsInterface & {
+  has?(query: string): boolean;
+};
+
+/**
+ * Records the tokens sent to an embeddings client on a usage meter. The
+ * embeddings APIs report no usage through LangChain, so tokens are
+ * estimated from the text. Queries answered from the cache cost nothing.
+ */
+export class MeteredEmbeddings implements EmbeddingsInterface {
+  constructor(
+    private readonly embeddings: MaybeCachedEmbeddings,
+    private readonly model: string,
+    private readonly meter: UsageMeter
+  ) {}
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    const vectors = await this.embeddings.embedDocuments(documents);
+    this.meter.record("embedding", this.model, {
+      input_tokens: documents.reduce(
+        (total, document) => total + estimateTokens(document),
+        0
+      ),
+      output_tokens: 0,
+      estimated: true,
+    });
+    return vectors;
+  }
+
+  async embedQuery(query: string): Promise<number[]> {
+    const cached = this.embeddings.has?.(query) ?? false;
+    const vector = await this.embeddings.embedQuery(query);
+    if (!cached) {
+      this.meter.record("embedding", this.model, {
+        input_tokens: estimateTokens(query),
+        output_tokens: 0,
+        estimated: true,
+      });
+    }
+    return vector;
+  }
+}
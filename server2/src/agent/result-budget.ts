@@ -0,0 +1,216 @@
+import { randomUUID } from "crypto";
+import { DynamicStructuredTool, tool } from "@langchain/core/tools";
+import { RunnableConfig } from "@langchain/core/runnables";
+import { ConfigurationError } from "./config/errors";
+import { logger } from "../utils/logger";
+import { getCaller } from "./policy/caller";
+
+// Rough token count; ~4 characters per token holds for English and JSON
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Parses "tool_name:tokens" entries into per-tool result budgets
+ * @param entries - Configured budget entries
+ * @throws ConfigurationError for malformed entries or non-positive budgets
+ */
+export function parseToolBudgets(
+  entries: readonly string[]
+): Map<string, number> {
+  const budgets = new Map<string, number>();
+  for (const entry of entries) {
+    const [name, tokens] = entry.split(":");
+    const budget = Number(tokens);
+    if (!name || !Number.isInteger(budget) || budget <= 0) {
+      throw new ConfigurationError(
+        'TOOL_RESULT_TOKEN_BUDGETS entries must look like "tool_name:tokens"'
+      );
+    }
+    budgets.set(name, budget);
+  }
+  return budgets;
+}
+
+/**
+ * Takes items from the start of the list until the next one would exceed
+ * the budget. The first item is always taken, so paging makes progress
+ * even when a single result is larger than the budget.
+ * @returns Number of items that fit
+ */
+export function countWithinBudget(items: unknown[], budget: number): number {
+  let tokens = 0;
+  for (let index = 0; index < items.length; index++) {
+    tokens += estimateTokens(JSON.stringify(items[index]));
+    if (tokens > budget && index > 0) {
+      return index;
+    }
+  }
+  return items.length;
+}
+
+// Results held back from the model, readable only by the caller who ran
+// the original tool call
+interface StoredResults {
+  owner: string;
+  tool: string;
+  items: unknown[];
+  budget: number;
+  expiresAt: number;
+}
+
+// A page of results sent to the model instead of an oversized tool output
+export interface ResultPage {
+  tool: string;
+  results: unknown[];
+  offset: number;
+  total: number;
+  // Pass to fetch_more_results for the next page, null on the last page
+  next_cursor: string | null;
+  summary: string;
+}
+
+/**
+ * Keeps truncated tool results in memory so fetch_more_results can page
+ * through them. Entries expire after the TTL and the oldest are evicted
+ * beyond maxEntries. Cursors encode their offset, so fetching the same
+ * cursor twice returns the same page.
+ */
+export class ResultCursorStore {
+  // Map iteration order doubles as age order, oldest first
+  private readonly entries = new Map<string, StoredResults>();
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntries: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get size() {
+    return this.entries.size;
+  }
+
+  /**
+   * Stores the full results and returns the first page
+   */
+  save(
+    owner: string,
+    tool: string,
+    items: unknown[],
+    budget: number
+  ): ResultPage {
+    this.evictExpired();
+    const id = randomUUID();
+    this.entries.set(id, {
+      owner,
+      tool,
+      items,
+      budget,
+      expiresAt: this.now() + this.ttlMs,
+    });
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+    return this.page(id, 0);
+  }
+
+  /**
+   * Returns the page a cursor points at, or null if it is unknown, expired
+   * or belongs to another caller
+   */
+  fetch(cursor: string, owner: string): ResultPage | null {
+    this.evictExpired();
+    const [id, offsetText] = cursor.split(".");
+    const offset = Number(offsetText);
+    const entry = this.entries.get(id);
+    if (
+      !entry ||
+      entry.owner !== owner ||
+      !Number.isInteger(offset) ||
+      offset < 0 ||
+      offset >= entry.items.length
+    ) {
+      return null;
+    }
+    return this.page(id, offset);
+  }
+
+  private page(id: string, offset: number): ResultPage {
+    const { tool, items, budget } = this.entries.get(id)!;
+    const count = countWithinBudget(items.slice(offset), budget);
+    const end = offset + count;
+    const next_cursor = end < items.length ? `${id}.${end}` : null;
+    return {
+      tool,
+      results: items.slice(offset, end),
+      offset,
+      total: items.length,
+      next_cursor,
+      summary:
+        `Showing results ${offset + 1}-${end} of ${items.length} from ` +
+        `${tool} (limited to ${budget} tokens).` +
+        (next_cursor
+          ? ` Call fetch_more_results with cursor "${next_cursor}" only if ` +
+            "the remaining results are needed."
+          : " These are the last results."),
+    };
+  }
+
+  private evictExpired() {
+    const now = this.now();
+    for (const [id, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Wraps a tool so outputs larger than its token budget are cut down to a
+ * first page plus a cursor. Only JSON array outputs can be paged; other
+ * oversized outputs pass through with a warning. The inner tool's function
+ * is called directly, so each call stays one tool run and run events only
+ * ever carry the budgeted output.
+ * @param inner - Tool whose JSON string output is budgeted
+ * @param store - Where the full results are kept for fetch_more_results
+ * @param budget - Most tokens the tool's output may take in the context
+ */
+export function withResultBudget(
+  inner: DynamicStructuredTool,
+  store: ResultCursorStore,
+  budget: number
+): DynamicStructuredTool {
+  return tool(
+    async (input: unknown, config: RunnableConfig) => {
+      const output: string = await inner.func(input, undefined, config);
+      const tokens = estimateTokens(output);
+      if (tokens <= budget) {
+        return output;
+      }
+
+      let results: unknown;
+      try {
+        results = JSON.parse(output);
+      } catch {
+        results = undefined;
+      }
+      if (!Array.isArray(results)) {
+        logger.warn(
+          `${inner.name} output of ~${tokens} tokens exceeds its budget of ${budget} but cannot be paged`
+        );
+        return output;
+      }
+
+      const { id } = getCaller(config);
+      const page = store.save(id, inner.name, results, budget);
+      logger.info(
+        `Truncated ${inner.name} output from ~${tokens} tokens to ${page.results.length} of ${page.total} results (budget ${budget})`
+      );
+      return JSON.stringify(page);
+    },
+    {
+      name: inner.name,
+      description: inner.description,
+      schema: inner.schema,
+    }
+  ) as DynamicStructuredTool;
+}
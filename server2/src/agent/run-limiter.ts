@@ -0,0 +1,101 @@
+import { CONFIG } from "./config/config";
+import { ServerBusyError } from "./config/errors";
+
+export interface RunLimiterOptions {
+  // Runs executing at once; 0 or less means unlimited
+  maxConcurrent: number;
+  // Runs that may wait for a slot; more are refused at once
+  maxQueued: number;
+  // How long a run waits for a slot before it is refused
+  queueTimeoutMs: number;
+}
+
+interface Waiter {
+  start: () => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Caps how many agent runs execute at once, protecting the model provider
+ * quota. Runs beyond the cap wait in a bounded first-in first-out queue;
+ * when the queue is full, or a run waits too long, it fails with a
+ * ServerBusyError.
+ */
+export class RunLimiter {
+  private active = 0;
+  private readonly queue: Waiter[] = [];
+
+  constructor(
+    private readonly options: RunLimiterOptions = {
+      maxConcurrent: CONFIG.MAX_CONCURRENT_RUNS,
+      maxQueued: CONFIG.MAX_QUEUED_RUNS,
+      queueTimeoutMs: CONFIG.RUN_QUEUE_TIMEOUT_MS,
+    }
+  ) {}
+
+  // Runs executing now
+  get running(): number {
+    return this.active;
+  }
+
+  // Runs waiting for a slot
+  get waiting(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Runs a task once a slot is free, and frees the slot when it settles
+   * @throws ServerBusyError if no slot frees up in time
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    const { maxConcurrent, maxQueued, queueTimeoutMs } = this.options;
+    if (maxConcurrent <= 0 || this.active < maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+    const retryAfter = Math.max(1, Math.ceil(queueTimeoutMs / 1000));
+    if (this.queue.length >= maxQueued) {
+      return Promise.reject(
+        new ServerBusyError(
+          `Too many agent runs in progress (${this.active} running, ${this.queue.length} waiting)`,
+          retryAfter
+        )
+      );
+    }
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        start: resolve,
+        timer: setTimeout(() => {
+          this.queue.splice(this.queue.indexOf(waiter), 1);
+          reject(
+            new ServerBusyError(
+              `No agent run slot freed up within ${queueTimeoutMs}ms`,
+              retryAfter
+            )
+          );
+        }, queueTimeoutMs),
+      };
+      this.queue.push(waiter);
+    });
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      // The slot passes straight to the next run, so active stays the same
+      clearTimeout(next.timer);
+      next.start();
+    } else {
+      this.active--;
+    }
+  }
+}
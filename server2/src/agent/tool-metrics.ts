@@ -0,0 +1,54 @@
+import { DynamicStructuredTool, tool } from "@langchain/core/tools";
+import { RunnableConfig } from "@langchain/core/runnables";
+import { toolCallDuration, toolCallsTotal } from "../utils/metrics";
+
+/**
+ * Checks for the `{"error": "..."}` payload tools return when they catch
+ * their own failures, so the model can read what went wrong
+ */
+function isToolErrorOutput(output: unknown): boolean {
+  if (typeof output !== "string" || !output.trimStart().startsWith("{")) {
+    return false;
+  }
+  try {
+    return typeof JSON.parse(output)?.error === "string";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wraps a tool so each call is counted by outcome and timed in the
+ * tool_calls_total and tool_call_duration_seconds metrics. Calls that
+ * throw or return an error payload count as errors; either is passed on
+ * unchanged. The inner tool's function is timed directly rather than
+ * invoked, so the call is not reported as a second, nested tool run.
+ * @param inner - Tool to measure
+ */
+export function withToolMetrics(
+  inner: DynamicStructuredTool
+): DynamicStructuredTool {
+  return tool(
+    async (input: unknown, config: RunnableConfig) => {
+      const end = toolCallDuration.startTimer({ tool: inner.name });
+      try {
+        const output = await inner.func(input, undefined, config);
+        toolCallsTotal.inc({
+          tool: inner.name,
+          outcome: isToolErrorOutput(output) ? "error" : "success",
+        });
+        return output;
+      } catch (error) {
+        toolCallsTotal.inc({ tool: inner.name, outcome: "error" });
+        throw error;
+      } finally {
+        end();
+      }
+    },
+    {
+      name: inner.name,
+      description: inner.description,
+      schema: inner.schema,
+    }
+  ) as DynamicStructuredTool;
+}
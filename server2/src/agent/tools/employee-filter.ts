@@ -0,0 +1,189 @@
+import { tool } from "@langchain/core/tools";
+import { Collection, Filter, Document } from "mongodb";
+import { z } from "zod";
+import { logger } from "../../utils/logger";
+import { equalsIgnoreCase, escapeRegex } from "../../utils/regex";
+import { getCaller, Role } from "../policy/caller";
+import {
+  buildProjection,
+  isFieldVisible,
+  redactDocument,
+  resolveFieldAccess,
+} from "../policy/field-access";
+import { EMPLOYEE_LOOKUP_FIELDS } from "./employee-lookup";
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+  .describe("Date as YYYY-MM-DD");
+
+export const EmployeeFilterSchema = z.object({
+  department: z.string().optional().describe("Department, e.g. Engineering"),
+  job_title: z
+    .string()
+    .optional()
+    .describe("Text the job title contains, e.g. Developer"),
+  nearest_office: z.string().optional().describe("Office city, e.g. Berlin"),
+  is_remote: z.boolean().optional().describe("Whether they work remotely"),
+  skills: z
+    .array(z.string())
+    .optional()
+    .describe('Skills to match, e.g. ["Swift", "Kotlin"]'),
+  skills_match: z
+    .enum(["any", "all"])
+    .optional()
+    .default("any")
+    .describe("Match employees with any or all of the skills"),
+  hired_after: isoDate.optional().describe("Earliest hire date, inclusive"),
+  hired_before: isoDate.optional().describe("Latest hire date, inclusive"),
+  employment_type: z
+    .string()
+    .optional()
+    .describe("Employment type, e.g. Full-time or Contract"),
+  manager: z
+    .string()
+    .optional()
+    .describe("employee_id of the reporting manager"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .default(25)
+    .describe("Maximum number of employees to return"),
+});
+
+export type EmployeeFilterCriteria = z.input<typeof EmployeeFilterSchema>;
+
+// Employee field each criterion filters on
+const CRITERIA_FIELDS: Record<string, string> = {
+  department: "job_details.department",
+  job_title: "job_details.job_title",
+  nearest_office: "work_location.nearest_office",
+  is_remote: "work_location.is_remote",
+  skills: "skills",
+  hired_after: "job_details.hire_date",
+  hired_before: "job_details.hire_date",
+  employment_type: "job_details.employment_type",
+  manager: "reporting_manager",
+};
+
+/**
+ * Compiles filter criteria into a MongoDB query. Every value is matched
+ * literally (strings are regex-escaped, never used as operators), so model
+ * input cannot change the shape of the query.
+ * @param criteria - Parsed filter criteria
+ * @returns Query for the `employees` collection
+ */
+export function buildEmployeeFilter(
+  criteria: EmployeeFilterCriteria
+): Filter<Document> {
+  const filter: Filter<Document> = {};
+
+  if (criteria.department) {
+    filter["job_details.department"] = equalsIgnoreCase(criteria.department);
+  }
+  if (criteria.job_title) {
+    filter["job_details.job_title"] = new RegExp(
+      escapeRegex(criteria.job_title.trim()),
+      "i"
+    );
+  }
+  if (criteria.nearest_office) {
+    filter["work_location.nearest_office"] = equalsIgnoreCase(
+      criteria.nearest_office
+    );
+  }
+  if (criteria.is_remote !== undefined) {
+    filter["work_location.is_remote"] = criteria.is_remote;
+  }
+  if (criteria.skills?.length) {
+    const skills = criteria.skills.map(equalsIgnoreCase);
+    filter.skills =
+      criteria.skills_match === "all" ? { $all: skills } : { $in: skills };
+  }
+  // Hire dates are stored as YYYY-MM-DD strings, which sort chronologically
+  if (criteria.hired_after || criteria.hired_before) {
+    filter["job_details.hire_date"] = {
+      ...(criteria.hired_after && { $gte: criteria.hired_after }),
+      ...(criteria.hired_before && { $lte: criteria.hired_before }),
+    };
+  }
+  if (criteria.employment_type) {
+    filter["job_details.employment_type"] = equalsIgnoreCase(
+      criteria.employment_type
+    );
+  }
+  if (criteria.manager) {
+    filter.reporting_manager = criteria.manager.trim();
+  }
+
+  return filter;
+}
+
+/**
+ * Lists the criteria a role may not filter on. Filtering on a field leaks
+ * its values just like returning it, so the same policy applies.
+ */
+export function findRestrictedCriteria(
+  role: Role,
+  criteria: EmployeeFilterCriteria
+): string[] {
+  return Object.entries(CRITERIA_FIELDS)
+    .filter(
+      ([criterion]) =>
+        criteria[criterion as keyof EmployeeFilterCriteria] !== undefined
+    )
+    .filter(([, field]) => !isFieldVisible(role, field))
+    .map(([criterion]) => criterion);
+}
+
+export const employeeFilterTool = (collection: Collection) =>
+  tool(
+    async (input: unknown, config) => {
+      const criteria = EmployeeFilterSchema.parse(input);
+      logger.info(
+        `Employee filter tool called with: ${JSON.stringify(criteria)}`
+      );
+
+      try {
+        const { role } = getCaller(config);
+        const restricted = findRestrictedCriteria(role, criteria);
+        if (restricted.length) {
+          return JSON.stringify({
+            error: `Your role cannot filter by: ${restricted.join(", ")}`,
+          });
+        }
+
+        const filter = buildEmployeeFilter(criteria);
+        const fieldAccess = resolveFieldAccess(role, EMPLOYEE_LOOKUP_FIELDS);
+        const employees = await collection
+          .find(filter, { projection: buildProjection(fieldAccess) })
+          .sort({ employee_id: 1 })
+          .limit(criteria.limit)
+          .toArray();
+
+        const results = employees.map((employeeData) => {
+          const employee = redactDocument(employeeData, fieldAccess);
+          // Add computed department field for easier access
+          if (employee.job_details?.department) {
+            employee.department = employee.job_details.department;
+          }
+          return employee;
+        });
+
+        logger.info(`Employee filter matched ${results.length} employees`);
+        return JSON.stringify(results);
+      } catch (error) {
+        logger.error("Error in employee filter tool:", error);
+        return JSON.stringify({ error: (error as Error).message });
+      }
+    },
+    {
+      name: "employee_filter",
+      description:
+        "Finds employees matching exact criteria such as department, office, remote status, skills, hire date range, employment type or manager. Prefer it over employee_lookup when the question lists concrete conditions.",
+      schema: EmployeeFilterSchema,
+    }
+  );
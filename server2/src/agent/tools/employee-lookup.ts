@@ -1,94 +1,227 @@
-import { OpenAIEmbeddings } from "@langchain/openai";
 import { tool } from "@langchain/core/tools";
-import { QdrantClient } from "@qdrant/js-client-rest";
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
 import { Collection } from "mongodb";
+import { Attributes, SpanKind } from "@opentelemetry/api";
 import { z } from "zod";
 import "dotenv/config";
 import { logger } from "../../utils/logger";
+import { withSpan } from "../../utils/tracing";
+import { CONFIG } from "../config/config";
+import { EmployeeVectorIndex } from "../../db/vector-index";
+import { searchEmployeesByKeyword } from "../../db/keyword-search";
+import { RankedLeg, reciprocalRankFusion } from "../../db/rank-fusion";
+import { EMPLOYEE_SUMMARY_FIELDS } from "../../db/employee";
+import { getCaller } from "../policy/caller";
+import {
+  buildProjection,
+  isFieldVisible,
+  redactDocument,
+  resolveFieldAccess,
+} from "../policy/field-access";
 
-export const employeeLookupTool = (collection: Collection) =>
+// Fields the lookup returns, before the caller's field access policy applies
+export const EMPLOYEE_LOOKUP_FIELDS = [
+  "employee_id",
+  "first_name",
+  "last_name",
+  "job_details",
+  "work_location",
+  "contact_details",
+  "skills",
+];
+
+// Fusion weights and damping for the vector and keyword result lists, and
+// the similarity a vector hit needs to count at all
+export interface EmployeeLookupOptions {
+  vectorWeight: number;
+  keywordWeight: number;
+  k: number;
+  minVectorScore: number;
+}
+
+const DEFAULT_LOOKUP_OPTIONS: EmployeeLookupOptions = {
+  vectorWeight: CONFIG.HYBRID_VECTOR_WEIGHT,
+  keywordWeight: CONFIG.HYBRID_KEYWORD_WEIGHT,
+  k: CONFIG.HYBRID_RRF_K,
+  minVectorScore: CONFIG.LOOKUP_MIN_VECTOR_SCORE,
+};
+
+export const employeeLookupTool = (
+  collection: Collection,
+  vectorIndex: EmployeeVectorIndex,
+  embeddings: EmbeddingsInterface,
+  options: EmployeeLookupOptions = DEFAULT_LOOKUP_OPTIONS
+) =>
   tool(
-    async (input: unknown) => {
+    async (input: unknown, config) => {
       logger.debug(`Employee lookup tool input: ${JSON.stringify(input)}`);
-      const { query, n = 100 } = input as { query: string; n?: number };
+      const { query, n = CONFIG.LOOKUP_DEFAULT_RESULTS } = input as {
+        query: string;
+        n?: number;
+      };
       logger.info(`Employee lookup tool called with query: "${query}"`);
 
+      // Span attributes for the backends the lookup calls
+      const vectorSpanAttributes = (
+        operation: string,
+        extra: Attributes = {}
+      ) => ({
+        "db.system.name": vectorIndex.backend,
+        "db.operation.name": operation,
+        ...extra,
+      });
+      const mongoSpanAttributes = (operation: string, extra: Attributes) => ({
+        "db.system.name": "mongodb",
+        "db.collection.name": collection.collectionName,
+        "db.operation.name": operation,
+        ...extra,
+      });
+
       try {
-        // Initialize embeddings
-        const embeddings = new OpenAIEmbeddings();
+        const legs: RankedLeg[] = [];
+        const summaries = new Map<string, string>();
 
-        // Embed the query
-        const queryEmbedding = await embeddings.embedQuery(query);
-        logger.debug(
-          `Query embedded successfully, vector length: ${queryEmbedding.length}`
-        );
+        if (options.vectorWeight > 0) {
+          // Embed the query
+          const queryEmbedding = await withSpan(
+            "embeddings embed_query",
+            { "gen_ai.operation.name": "embeddings" },
+            () => embeddings.embedQuery(query),
+            SpanKind.CLIENT
+          );
+          logger.debug(
+            `Query embedded successfully, vector length: ${queryEmbedding.length}`
+          );
 
-        // Initialize Qdrant client
-        const qdrantClient = new QdrantClient({
-          url: process.env.QDRANT_URL,
-          apiKey: process.env.QDRANT_API_KEY,
-        });
+          logger.debug(`Searching ${vectorIndex.backend} index for: ${query}`);
+          // Search for similar vectors
+          const searchResult = await withSpan(
+            `${vectorIndex.backend} search`,
+            vectorSpanAttributes("search", { "db.query.limit": n }),
+            () => vectorIndex.search(queryEmbedding, n),
+            SpanKind.CLIENT
+          );
+          logger.debug(
+            `${vectorIndex.backend} search returned ${searchResult.length} results`
+          );
 
-        logger.debug(`Searching Qdrant for: ${query}`);
-        // Search for similar vectors
-        const searchResult = await qdrantClient.search("employees", {
-          vector: queryEmbedding,
-          limit: n,
-          with_payload: true,
-        });
+          if (searchResult.length === 0) {
+            // Log the index size to tell an empty index from a poor match
+            try {
+              const indexSize = await withSpan(
+                `${vectorIndex.backend} count`,
+                vectorSpanAttributes("count"),
+                () => vectorIndex.count(),
+                SpanKind.CLIENT
+              );
+              logger.debug(`Vector index contains ${indexSize} points`);
+            } catch (error) {
+              logger.warn("Error counting vector index points:", error);
+            }
+          }
 
-        logger.debug(`Qdrant search returned ${searchResult.length} results`);
+          // Weak matches only add noise and tokens
+          const relevant = searchResult.filter(
+            (match) => match.score >= options.minVectorScore
+          );
+          relevant.forEach((match) =>
+            summaries.set(match.employee_id, match.summary)
+          );
+          legs.push({
+            name: "vector",
+            weight: options.vectorWeight,
+            results: relevant,
+          });
+        }
 
-        if (searchResult.length === 0) {
-          // Try to get collection info to debug
+        if (options.keywordWeight > 0) {
+          // Exact tokens (ids, surnames, rare skills) that embeddings blur;
+          // a missing text index degrades to vector-only results
           try {
-            const collectionInfo = await qdrantClient.getCollection(
-              "employees"
+            const keywordResult = await withSpan(
+              `mongodb find ${collection.collectionName}`,
+              mongoSpanAttributes("find", { "db.query.summary": "$text" }),
+              () => searchEmployeesByKeyword(collection, query, n),
+              SpanKind.CLIENT
+            );
+            logger.debug(
+              `Keyword search returned ${keywordResult.length} results`
             );
-            logger.debug("Collection info:", collectionInfo);
+            legs.push({
+              name: "keyword",
+              weight: options.keywordWeight,
+              results: keywordResult,
+            });
           } catch (error) {
-            logger.warn("Error getting collection info:", error);
+            logger.warn("Keyword search failed, using vector results:", error);
           }
         }
 
-        // Define projection to fetch only necessary fields for performance
-        const employeeProjection = {
-          employee_id: 1,
-          first_name: 1,
-          last_name: 1,
-          job_details: 1,
-          work_location: 1,
-          contact_details: 1,
-          skills: 1,
-          department: 1, // Add computed field for easier access
-          _id: 0, // Exclude MongoDB _id field
-        };
-
-        // For each result, fetch the employee data from MongoDB using employee_id with projection
-        const enrichedResults = await Promise.all(
-          searchResult.map(async (point) => {
-            const employeeId = point.payload?.employee_id;
-            logger.debug(`Looking up employee: ${employeeId}`);
-            const employeeData = await collection.findOne(
-              { employee_id: employeeId },
-              { projection: employeeProjection }
-            );
+        const fusedResults = reciprocalRankFusion(legs, options.k);
+        const searchResult = fusedResults.slice(0, n);
 
-            // Add computed department field for easier access
-            if (employeeData) {
-              (employeeData as any).department =
-                employeeData.job_details?.department;
-            }
+        // Only fetch the fields the caller's role may see; restricted fields
+        // never leave the database and masked ones are replaced below
+        const { role } = getCaller(config);
+        const fieldAccess = resolveFieldAccess(role, EMPLOYEE_LOOKUP_FIELDS);
+        const employeeProjection = buildProjection(fieldAccess);
+        // The summary mentions date of birth, reviews and notes
+        const includeSummary = EMPLOYEE_SUMMARY_FIELDS.every((field) =>
+          isFieldVisible(role, field)
+        );
+        logger.debug(
+          `Employee lookup for role ${role}: ${fieldAccess.project.length} fields, ${fieldAccess.mask.length} masked`
+        );
 
-            logger.debug(`Found employee data: ${!!employeeData}`);
-            return {
-              score: point.score,
-              summary: point.payload?.summary,
-              employee: employeeData,
-            };
-          })
+        // Hydrate every hit with a single query, then restore fused order
+        const employeeIds = searchResult.map((match) => match.employee_id);
+        const employees = searchResult.length
+          ? await withSpan(
+              `mongodb find ${collection.collectionName}`,
+              mongoSpanAttributes("find", { "db.query.summary": "$in" }),
+              () =>
+                collection
+                  .find(
+                    { employee_id: { $in: employeeIds } },
+                    { projection: employeeProjection }
+                  )
+                  .toArray(),
+              SpanKind.CLIENT
+            )
+          : [];
+        const employeesById = new Map(
+          employees.map((employeeData) => [
+            employeeData.employee_id,
+            employeeData,
+          ])
         );
 
+        const enrichedResults = searchResult.flatMap((match) => {
+          const employeeData = employeesById.get(match.employee_id);
+          if (!employeeData) {
+            // Index entry for a deleted employee
+            logger.debug(`No employee data for ${match.employee_id}`);
+            return [];
+          }
+
+          const employee = redactDocument(employeeData, fieldAccess);
+          // Add computed department field for easier access
+          if (employee.job_details?.department) {
+            employee.department = employee.job_details.department;
+          }
+
+          const summary = summaries.get(match.employee_id);
+          return [
+            {
+              score: match.score,
+              vector_score: match.leg_scores.vector ?? null,
+              keyword_score: match.leg_scores.keyword ?? null,
+              ...(includeSummary && summary && { summary }),
+              employee,
+            },
+          ];
+        });
+
         logger.info(`Returning ${enrichedResults.length} enriched results`);
         return JSON.stringify(enrichedResults);
       } catch (error) {
@@ -98,14 +231,18 @@ export const employeeLookupTool = (collection: Collection) =>
     },
     {
       name: "employee_lookup",
-      description: "Gathers employee details from the HR database",
+      description:
+        "Gathers employee details from the HR database, matching both the meaning of the query and exact terms such as employee ids, names and skills",
       schema: z.object({
         query: z.string().describe("The search query"),
         n: z
           .number()
+          .int()
+          .min(1)
+          .max(100)
           .optional()
-          .default(100)
-          .describe("Number of results to return"),
+          .default(CONFIG.LOOKUP_DEFAULT_RESULTS)
+          .describe("Maximum number of results to return"),
       }),
     }
   );
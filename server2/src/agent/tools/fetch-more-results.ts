@@ -0,0 +1,36 @@
+import { tool } from "@langchain/core/tools";
+import { z } from "zod";
+import { logger } from "../../utils/logger";
+import { getCaller } from "../policy/caller";
+import { ResultCursorStore } from "../result-budget";
+
+export const fetchMoreResultsTool = (store: ResultCursorStore) =>
+  tool(
+    async (input: unknown, config) => {
+      const { cursor } = input as { cursor: string };
+      logger.info(`Fetch more results tool called with cursor: ${cursor}`);
+
+      const page = store.fetch(cursor, getCaller(config).id);
+      if (!page) {
+        return JSON.stringify({
+          error:
+            "Unknown or expired cursor; run the original tool call again instead",
+        });
+      }
+      logger.debug(
+        `Returning ${page.results.length} more ${page.tool} results from offset ${page.offset}`
+      );
+      return JSON.stringify(page);
+    },
+    {
+      name: "fetch_more_results",
+      description:
+        "Returns the next page of a tool result that was truncated to fit the context. Pass the next_cursor from the truncated result. Only use it when the results already shown are not enough to answer.",
+      schema: z.object({
+        cursor: z
+          .string()
+          .min(1)
+          .describe("next_cursor value from a truncated tool result"),
+      }),
+    }
+  );
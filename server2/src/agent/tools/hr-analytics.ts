@@ -0,0 +1,270 @@
+import { tool } from "@langchain/core/tools";
+import { Collection, Document } from "mongodb";
+import { z } from "zod";
+import { CONFIG } from "../config/config";
+import { logger } from "../../utils/logger";
+import { equalsIgnoreCase } from "../../utils/regex";
+import { getCaller, Role } from "../policy/caller";
+import { isFieldVisible } from "../policy/field-access";
+
+// A whitelisted aggregation over the employees collection
+export interface AnalyticsReport {
+  description: string;
+  // Employee fields the report reads; the caller must be able to see each
+  fields: string[];
+  // Output columns, in table order
+  columns: string[];
+  // Stages run after the optional department match; never from model input
+  stages: Document[];
+}
+
+// Compact tabular result returned to the model
+export interface AnalyticsTable {
+  report: string;
+  department?: string;
+  columns: string[];
+  rows: unknown[][];
+}
+
+const round = (expression: unknown) => ({ $round: [expression, 2] });
+
+// Groups on a field and counts employees, largest groups first
+const headcountBy = (field: string, column: string): Document[] => [
+  { $group: { _id: `$${field}`, headcount: { $sum: 1 } } },
+  { $sort: { headcount: -1, _id: 1 } },
+  { $project: { _id: 0, [column]: "$_id", headcount: 1 } },
+];
+
+const TENURE_BOUNDARIES = [0, 1, 3, 5, 10];
+
+export const ANALYTICS_REPORTS = {
+  headcount_by_department: {
+    description: "Number of employees per department",
+    fields: ["job_details.department"],
+    columns: ["department", "headcount"],
+    stages: headcountBy("job_details.department", "department"),
+  },
+  headcount_by_office: {
+    description: "Number of employees per nearest office",
+    fields: ["work_location.nearest_office"],
+    columns: ["office", "headcount"],
+    stages: headcountBy("work_location.nearest_office", "office"),
+  },
+  headcount_by_employment_type: {
+    description: "Number of employees per employment type",
+    fields: ["job_details.employment_type"],
+    columns: ["employment_type", "headcount"],
+    stages: headcountBy("job_details.employment_type", "employment_type"),
+  },
+  salary_by_department: {
+    description: "Salary count, average, minimum and maximum per department",
+    fields: [
+      "job_details.department",
+      "job_details.salary",
+      "job_details.currency",
+    ],
+    columns: ["department", "currency", "employees", "average", "min", "max"],
+    stages: [
+      {
+        $group: {
+          _id: {
+            department: "$job_details.department",
+            currency: "$job_details.currency",
+          },
+          employees: { $sum: 1 },
+          average: { $avg: "$job_details.salary" },
+          min: { $min: "$job_details.salary" },
+          max: { $max: "$job_details.salary" },
+        },
+      },
+      { $sort: { "_id.department": 1, "_id.currency": 1 } },
+      {
+        $project: {
+          _id: 0,
+          department: "$_id.department",
+          currency: "$_id.currency",
+          employees: 1,
+          average: round("$average"),
+          min: 1,
+          max: 1,
+        },
+      },
+    ],
+  },
+  remote_ratio: {
+    description: "Share of remote employees per office",
+    fields: ["work_location.nearest_office", "work_location.is_remote"],
+    columns: ["office", "employees", "remote", "remote_ratio"],
+    stages: [
+      {
+        $group: {
+          _id: "$work_location.nearest_office",
+          employees: { $sum: 1 },
+          remote: {
+            $sum: { $cond: ["$work_location.is_remote", 1, 0] },
+          },
+        },
+      },
+      { $sort: { _id: 1 } },
+      {
+        $project: {
+          _id: 0,
+          office: "$_id",
+          employees: 1,
+          remote: 1,
+          remote_ratio: round({ $divide: ["$remote", "$employees"] }),
+        },
+      },
+    ],
+  },
+  tenure_distribution: {
+    description: "Employees bucketed by years since hire date",
+    fields: ["job_details.hire_date"],
+    columns: ["tenure_years", "headcount"],
+    stages: [
+      {
+        $project: {
+          tenure: {
+            $dateDiff: {
+              startDate: {
+                $dateFromString: {
+                  dateString: "$job_details.hire_date",
+                  onError: null,
+                  onNull: null,
+                },
+              },
+              endDate: "$$NOW",
+              unit: "year",
+            },
+          },
+        },
+      },
+      // Missing or unparseable hire dates are left out
+      { $match: { tenure: { $ne: null } } },
+      {
+        $bucket: {
+          groupBy: "$tenure",
+          boundaries: TENURE_BOUNDARIES,
+          default: `${TENURE_BOUNDARIES[TENURE_BOUNDARIES.length - 1]}+`,
+          output: { headcount: { $sum: 1 } },
+        },
+      },
+      { $project: { _id: 0, tenure_years: "$_id", headcount: 1 } },
+    ],
+  },
+  performance_by_department: {
+    description: "Average performance review rating per department",
+    fields: ["job_details.department", "performance_reviews"],
+    columns: ["department", "reviews", "average_rating"],
+    stages: [
+      { $unwind: "$performance_reviews" },
+      {
+        $group: {
+          _id: "$job_details.department",
+          reviews: { $sum: 1 },
+          average_rating: { $avg: "$performance_reviews.rating" },
+        },
+      },
+      { $sort: { average_rating: -1, _id: 1 } },
+      {
+        $project: {
+          _id: 0,
+          department: "$_id",
+          reviews: 1,
+          average_rating: round("$average_rating"),
+        },
+      },
+    ],
+  },
+} satisfies Record<string, AnalyticsReport>;
+
+export type AnalyticsReportName = keyof typeof ANALYTICS_REPORTS;
+
+const REPORT_NAMES = Object.keys(ANALYTICS_REPORTS) as [
+  AnalyticsReportName,
+  ...AnalyticsReportName[],
+];
+
+/**
+ * Lists the fields a report reads that the role may not see. Aggregates
+ * leak the underlying values, so a report is refused unless every field
+ * is visible in full.
+ */
+export function findRestrictedReportFields(
+  role: Role,
+  report: AnalyticsReport
+): string[] {
+  return report.fields.filter((field) => !isFieldVisible(role, field));
+}
+
+/**
+ * Builds the aggregation pipeline for a whitelisted report
+ * @param report - The report template
+ * @param department - Optional department to restrict the report to
+ */
+export function buildAnalyticsPipeline(
+  report: AnalyticsReport,
+  department?: string
+): Document[] {
+  const match = department
+    ? [{ $match: { "job_details.department": equalsIgnoreCase(department) } }]
+    : [];
+  return [...match, ...report.stages];
+}
+
+export const hrAnalyticsTool = (collection: Collection) =>
+  tool(
+    async (input: unknown, config) => {
+      const { report: name, department } = input as {
+        report: AnalyticsReportName;
+        department?: string;
+      };
+      logger.info(`HR analytics tool called for report: ${name}`);
+
+      try {
+        const report: AnalyticsReport = ANALYTICS_REPORTS[name];
+        const { role } = getCaller(config);
+        const restricted = findRestrictedReportFields(role, report);
+        if (restricted.length) {
+          return JSON.stringify({
+            error: `Your role cannot run ${name}: it reads ${restricted.join(
+              ", "
+            )}`,
+          });
+        }
+
+        const documents = await collection
+          .aggregate(buildAnalyticsPipeline(report, department), {
+            maxTimeMS: CONFIG.ANALYTICS_MAX_TIME_MS,
+          })
+          .toArray();
+
+        const table: AnalyticsTable = {
+          report: name,
+          ...(department && { department }),
+          columns: report.columns,
+          rows: documents.map((row) =>
+            report.columns.map((column) => row[column] ?? null)
+          ),
+        };
+        logger.info(`HR analytics ${name} returned ${table.rows.length} rows`);
+        return JSON.stringify(table);
+      } catch (error) {
+        logger.error("Error in HR analytics tool:", error);
+        return JSON.stringify({ error: (error as Error).message });
+      }
+    },
+    {
+      name: "hr_analytics",
+      description: `Runs a predefined aggregate report over all employees and returns a compact table. Use it for counts, ratios and averages instead of fetching records. Reports: ${REPORT_NAMES.map(
+        (name) => `${name} (${ANALYTICS_REPORTS[name].description})`
+      ).join("; ")}.`,
+      schema: z.object({
+        report: z.enum(REPORT_NAMES).describe("The report to run"),
+        department: z
+          .string()
+          .optional()
+          .describe("Restrict the report to one department"),
+      }),
+    }
+  );
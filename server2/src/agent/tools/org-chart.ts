@@ -0,0 +1,68 @@
+import { tool } from "@langchain/core/tools";
+import { Collection } from "mongodb";
+import { z } from "zod";
+import { logger } from "../../utils/logger";
+import { findLowestCommonManager, getOrgChart } from "../../db/org-chart";
+import { getCaller } from "../policy/caller";
+
+export const orgChartTool = (collection: Collection) =>
+  tool(
+    async (input: unknown, config) => {
+      const {
+        employee_id,
+        other_employee_id,
+        depth = 1,
+      } = input as {
+        employee_id: string;
+        other_employee_id?: string;
+        depth?: number;
+      };
+      logger.info(`Org chart tool called for ${employee_id}`);
+
+      try {
+        const { role } = getCaller(config);
+        if (other_employee_id) {
+          const result = await findLowestCommonManager(
+            collection,
+            employee_id,
+            other_employee_id,
+            role
+          );
+          return JSON.stringify(
+            result ?? { error: "One of the employees does not exist" }
+          );
+        }
+
+        const chart = await getOrgChart(collection, employee_id, {
+          role,
+          depth,
+        });
+        return JSON.stringify(
+          chart ?? { error: `Employee ${employee_id} does not exist` }
+        );
+      } catch (error) {
+        logger.error("Error in org chart tool:", error);
+        return JSON.stringify({ error: (error as Error).message });
+      }
+    },
+    {
+      name: "org_chart",
+      description:
+        "Looks up the reporting structure around an employee: the chain of command up to the top, direct and indirect reports, and span of control. With other_employee_id it finds the lowest manager both employees share.",
+      schema: z.object({
+        employee_id: z.string().describe("employee_id to centre the chart on"),
+        other_employee_id: z
+          .string()
+          .optional()
+          .describe("Second employee_id, to find their lowest common manager"),
+        depth: z
+          .number()
+          .int()
+          .min(0)
+          .max(5)
+          .optional()
+          .default(1)
+          .describe("Levels of reports to list, 1 for direct reports only"),
+      }),
+    }
+  );
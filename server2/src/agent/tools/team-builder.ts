@@ -0,0 +1,369 @@
+import { tool } from "@langchain/core/tools";
+import { Collection, Document, Filter } from "mongodb";
+import { z } from "zod";
+import { CONFIG } from "../config/config";
+import { logger } from "../../utils/logger";
+import { equalsIgnoreCase, escapeRegex } from "../../utils/regex";
+import { getCaller } from "../policy/caller";
+import { isFieldVisible } from "../policy/field-access";
+
+const RoleRequirementSchema = z.object({
+  role: z.string().min(1).describe("Role to staff, e.g. iOS Developer"),
+  skills: z
+    .array(z.string().min(1))
+    .default([])
+    .describe('Skills the role needs, e.g. ["Swift", "UIKit"]'),
+  count: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .default(1)
+    .describe("Number of people needed in this role"),
+  job_title: z
+    .string()
+    .optional()
+    .describe("Text a suitable job title contains, defaults to the role"),
+});
+
+export const TeamBuilderSchema = z.object({
+  roles: z
+    .array(RoleRequirementSchema)
+    .min(1)
+    .max(10)
+    .describe("Roles the team needs"),
+  department: z
+    .string()
+    .optional()
+    .describe("Only staff the team from this department"),
+});
+
+export type RoleRequirement = z.infer<typeof RoleRequirementSchema>;
+
+// Employee fields the planner reads
+export interface TeamCandidate {
+  employee_id: string;
+  first_name?: string;
+  last_name?: string;
+  job_details?: { job_title?: string; department?: string };
+  skills?: string[];
+  performance_reviews?: { rating: number }[];
+}
+
+export interface TeamMember {
+  employee_id: string;
+  name: string;
+  job_title?: string;
+  department?: string;
+  matched_skills: string[];
+  missing_skills: string[];
+  average_rating?: number;
+  score: number;
+}
+
+export interface TeamPlan {
+  roles: {
+    role: string;
+    requested: number;
+    members: TeamMember[];
+  }[];
+  // Required skills no member of the role brings
+  skill_gaps: { role: string; skill: string }[];
+  // Seats no suitable candidate was left for
+  open_positions: { role: string; count: number }[];
+}
+
+// Score weights: a matching skill outweighs a matching title, which
+// outweighs the best possible rating
+const SKILL_WEIGHT = 10;
+const TITLE_WEIGHT = 5;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const averageRating = (candidate: TeamCandidate) => {
+  const ratings = (candidate.performance_reviews ?? []).map((r) => r.rating);
+  return ratings.length
+    ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length
+    : undefined;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function scoreCandidate(
+  requirement: RoleRequirement,
+  candidate: TeamCandidate,
+  useRatings: boolean
+): TeamMember | null {
+  const skills = new Set((candidate.skills ?? []).map(normalize));
+  const matched = requirement.skills.filter((skill) =>
+    skills.has(normalize(skill))
+  );
+  const title = normalize(candidate.job_details?.job_title ?? "");
+  const titleMatches = title.includes(
+    normalize(requirement.job_title ?? requirement.role)
+  );
+  if (!matched.length && !titleMatches) {
+    return null;
+  }
+
+  const rating = useRatings ? averageRating(candidate) : undefined;
+  return {
+    employee_id: candidate.employee_id,
+    name: [candidate.first_name, candidate.last_name]
+      .filter(Boolean)
+      .join(" "),
+    job_title: candidate.job_details?.job_title,
+    department: candidate.job_details?.department,
+    matched_skills: matched,
+    missing_skills: requirement.skills.filter(
+      (skill) => !matched.includes(skill)
+    ),
+    ...(rating !== undefined && { average_rating: round(rating) }),
+    score: round(
+      matched.length * SKILL_WEIGHT +
+        (titleMatches ? TITLE_WEIGHT : 0) +
+        (rating ?? 0)
+    ),
+  };
+}
+
+/**
+ * Staffs the requested roles from the candidates. Every (role, candidate)
+ * pairing is scored, then seats are filled best score first so nobody is
+ * booked twice. Ties fall back to role order and employee_id, so the same
+ * data always gives the same plan.
+ * @param requirements - Roles with their skills and head count
+ * @param candidates - Employees who may join the team
+ * @param useRatings - Whether performance ratings may influence the plan
+ */
+export function planTeam(
+  requirements: RoleRequirement[],
+  candidates: TeamCandidate[],
+  useRatings: boolean
+): TeamPlan {
+  const pairings = requirements
+    .flatMap((requirement, roleIndex) =>
+      candidates.flatMap((candidate) => {
+        const member = scoreCandidate(requirement, candidate, useRatings);
+        return member ? [{ roleIndex, member }] : [];
+      })
+    )
+    .sort(
+      (a, b) =>
+        b.member.score - a.member.score ||
+        a.roleIndex - b.roleIndex ||
+        a.member.employee_id.localeCompare(b.member.employee_id)
+    );
+
+  const roles = requirements.map((requirement) => ({
+    role: requirement.role,
+    requested: requirement.count,
+    members: [] as TeamMember[],
+  }));
+  const booked = new Set<string>();
+  for (const { roleIndex, member } of pairings) {
+    const role = roles[roleIndex];
+    const seatsLeft = role.members.length < role.requested;
+    if (!seatsLeft || booked.has(member.employee_id)) {
+      continue;
+    }
+    booked.add(member.employee_id);
+    role.members.push(member);
+  }
+
+  return {
+    roles,
+    skill_gaps: requirements.flatMap((requirement, index) => {
+      const covered = new Set(
+        roles[index].members.flatMap((member) =>
+          member.matched_skills.map(normalize)
+        )
+      );
+      return requirement.skills
+        .filter((skill) => !covered.has(normalize(skill)))
+        .map((skill) => ({ role: requirement.role, skill }));
+    }),
+    open_positions: roles
+      .filter((role) => role.members.length < role.requested)
+      .map((role) => ({
+        role: role.role,
+        count: role.requested - role.members.length,
+      })),
+  };
+}
+
+// Employees with any required skill or a matching job title
+function buildCandidateFilter(
+  requirements: RoleRequirement[],
+  department?: string
+): Filter<Document> {
+  const skills = requirements.flatMap((requirement) =>
+    requirement.skills.map(equalsIgnoreCase)
+  );
+  const titles = requirements.map(
+    (requirement) =>
+      new RegExp(
+        escapeRegex((requirement.job_title ?? requirement.role).trim()),
+        "i"
+      )
+  );
+  return {
+    $or: [
+      ...(skills.length ? [{ skills: { $in: skills } }] : []),
+      { "job_details.job_title": { $in: titles } },
+    ],
+    ...(department && {
+      "job_details.department": equalsIgnoreCase(department),
+    }),
+  };
+}
+
+// Same score as scoreCandidate, computed by the database so each role's
+// best candidates are read first
+function relevanceExpression(
+  requirement: RoleRequirement,
+  useRatings: boolean
+): Document {
+  const skills = {
+    $map: {
+      input: { $ifNull: ["$skills", []] },
+      in: { $toLower: { $trim: { input: "$$this" } } },
+    },
+  };
+  return {
+    $add: [
+      {
+        $multiply: [
+          {
+            $size: {
+              $setIntersection: [skills, requirement.skills.map(normalize)],
+            },
+          },
+          SKILL_WEIGHT,
+        ],
+      },
+      {
+        $cond: [
+          {
+            $regexMatch: {
+              input: { $ifNull: ["$job_details.job_title", ""] },
+              regex: escapeRegex(
+                normalize(requirement.job_title ?? requirement.role)
+              ),
+              options: "i",
+            },
+          },
+          TITLE_WEIGHT,
+          0,
+        ],
+      },
+      ...(useRatings
+        ? [{ $ifNull: [{ $avg: "$performance_reviews.rating" }, 0] }]
+        : []),
+    ],
+  };
+}
+
+/**
+ * Builds the candidate query: every role reads its own best matches, so no
+ * role goes unstaffed because another filled the pool. Each role reads one
+ * more than its share, which tells whether matches were left out.
+ */
+export function buildCandidatePipeline(
+  requirements: RoleRequirement[],
+  department: string | undefined,
+  useRatings: boolean,
+  perRole: number
+): Document[] {
+  const projection = {
+    _id: 0,
+    employee_id: 1,
+    first_name: 1,
+    last_name: 1,
+    "job_details.job_title": 1,
+    "job_details.department": 1,
+    skills: 1,
+    ...(useRatings && { "performance_reviews.rating": 1 }),
+  };
+  return [
+    { $match: buildCandidateFilter(requirements, department) },
+    {
+      $facet: Object.fromEntries(
+        requirements.map((requirement, index) => [
+          `role_${index}`,
+          [
+            {
+              $addFields: {
+                relevance: relevanceExpression(requirement, useRatings),
+              },
+            },
+            { $sort: { relevance: -1, employee_id: 1 } },
+            { $limit: perRole + 1 },
+            { $project: projection },
+          ],
+        ])
+      ),
+    },
+  ];
+}
+
+export const teamBuilderTool = (collection: Collection) =>
+  tool(
+    async (input: unknown, config) => {
+      const { roles, department } = TeamBuilderSchema.parse(input);
+      logger.info(
+        `Team builder tool called for roles: ${roles
+          .map((role) => `${role.count}x ${role.role}`)
+          .join(", ")}`
+      );
+
+      try {
+        // Ratings are only used when the caller may see them, otherwise the
+        // ranking would reveal them
+        const { role } = getCaller(config);
+        const useRatings = isFieldVisible(role, "performance_reviews");
+        const perRole = Math.ceil(
+          CONFIG.TEAM_BUILDER_MAX_CANDIDATES / roles.length
+        );
+        const [pools = {}] = await collection
+          .aggregate<Record<string, TeamCandidate[]>>(
+            buildCandidatePipeline(roles, department, useRatings, perRole)
+          )
+          .toArray();
+        const byId = new Map<string, TeamCandidate>();
+        let truncated = false;
+        for (const pool of Object.values(pools)) {
+          truncated ||= pool.length > perRole;
+          for (const candidate of pool.slice(0, perRole)) {
+            byId.set(candidate.employee_id, candidate);
+          }
+        }
+        const candidates = [...byId.values()];
+        logger.debug(
+          `Team builder considering ${candidates.length} employees`
+        );
+
+        const plan = planTeam(roles, candidates, useRatings);
+        if (!truncated) {
+          return JSON.stringify(plan);
+        }
+        return JSON.stringify({
+          ...plan,
+          candidate_pool: {
+            considered: candidates.length,
+            truncated: true,
+            note: `More employees matched than the ${perRole} best per role that were considered; narrow the roles or department to consider others.`,
+          },
+        });
+      } catch (error) {
+        logger.error("Error in team builder tool:", error);
+        return JSON.stringify({ error: (error as Error).message });
+      }
+    },
+    {
+      name: "team_builder",
+      description:
+        "Builds a team for a project: assigns the best matching employees to each required role by skills, job title and performance, never booking anyone twice, and lists the skill gaps and open positions left over.",
+      schema: TeamBuilderSchema,
+    }
+  );
@@ -0,0 +1,331 @@
+import { AIMessage, BaseMessage } from "@langchain/core/messages";
+import { CONFIG } from "./config/config";
+import { ConfigurationError, QuotaExceededError } from "./config/errors";
+import { contentToText } from "./messages";
+import { Caller } from "./policy/caller";
+import { estimateTokens } from "./result-budget";
+import { logger } from "../utils/logger";
+
+export type UsageKind = "chat" | "embedding";
+
+// USD per million input and output tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Prices used unless MODEL_PRICES overrides them. Local and scripted
+// models are free; any other model without a price is recorded at no cost
+// with a warning.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "text-embedding-ada-002": { input: 0.1, output: 0 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "hashed-ngram": { input: 0, output: 0 },
+  scripted: { input: 0, output: 0 },
+};
+
+/**
+ * Parses "model:input:output" price entries. The prices are the last two
+ * fields, so model names may contain colons (e.g. "llama3.1:8b:0:0").
+ * @param entries - Configured price entries
+ * @throws ConfigurationError for malformed entries or negative prices
+ */
+export function parseModelPrices(
+  entries: readonly string[]
+): Map<string, ModelPrice> {
+  const prices = new Map<string, ModelPrice>();
+  for (const entry of entries) {
+    const fields = entry.split(":");
+    const output = Number(fields.pop());
+    const input = Number(fields.pop());
+    const model = fields.join(":");
+    if (!model || !(input >= 0) || !(output >= 0)) {
+      throw new ConfigurationError(
+        'MODEL_PRICES entries must look like "model:input_per_1m:output_per_1m"'
+      );
+    }
+    prices.set(model, { input, output });
+  }
+  return prices;
+}
+
+/**
+ * Looks up model prices. Providers report dated model names such as
+ * "gpt-4o-mini-2024-07-18", so a name without an exact entry takes the
+ * longest listed prefix.
+ */
+export class PriceTable {
+  // Models already warned about, so a missing price is logged once
+  private readonly unpriced = new Set<string>();
+
+  constructor(private readonly prices: Map<string, ModelPrice>) {}
+
+  find(model: string): ModelPrice | undefined {
+    const exact = this.prices.get(model);
+    if (exact) {
+      return exact;
+    }
+    let match: string | undefined;
+    for (const name of this.prices.keys()) {
+      if (model.startsWith(name) && name.length > (match?.length ?? 0)) {
+        match = name;
+      }
+    }
+    return match ? this.prices.get(match) : undefined;
+  }
+
+  cost(model: string, inputTokens: number, outputTokens: number): number {
+    const price = this.find(model);
+    if (!price) {
+      if (!this.unpriced.has(model)) {
+        this.unpriced.add(model);
+        logger.warn(`No price for model "${model}"; recording its usage at $0`);
+      }
+      return 0;
+    }
+    return (inputTokens * price.input + outputTokens * price.output) / 1e6;
+  }
+}
+
+// Tokens one model used during a request
+export interface ModelUsage {
+  kind: UsageKind;
+  model: string;
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  // Counted from text length because the provider reported no usage
+  estimated: boolean;
+}
+
+export interface UsageTotals {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+}
+
+export interface TokenCounts {
+  input_tokens: number;
+  output_tokens: number;
+  estimated?: boolean;
+}
+
+/**
+ * Adds up the tokens and cost of every model call made for one request
+ */
+export class UsageMeter {
+  private readonly models = new Map<string, ModelUsage>();
+
+  constructor(private readonly prices: PriceTable) {}
+
+  record(kind: UsageKind, model: string, counts: TokenCounts): void {
+    const key = `${kind}:${model}`;
+    const usage = this.models.get(key) ?? {
+      kind,
+      model,
+      calls: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      cost_usd: 0,
+      estimated: false,
+    };
+    usage.calls++;
+    usage.input_tokens += counts.input_tokens;
+    usage.output_tokens += counts.output_tokens;
+    usage.cost_usd += this.prices.cost(
+      model,
+      counts.input_tokens,
+      counts.output_tokens
+    );
+    usage.estimated ||= Boolean(counts.estimated);
+    this.models.set(key, usage);
+  }
+
+  get entries(): ModelUsage[] {
+    return [...this.models.values()].map((usage) => ({ ...usage }));
+  }
+
+  get totals(): UsageTotals {
+    const totals = { input_tokens: 0, output_tokens: 0, cost_usd: 0 };
+    for (const usage of this.models.values()) {
+      totals.input_tokens += usage.input_tokens;
+      totals.output_tokens += usage.output_tokens;
+      totals.cost_usd += usage.cost_usd;
+    }
+    return {
+      ...totals,
+      total_tokens: totals.input_tokens + totals.output_tokens,
+    };
+  }
+}
+
+/**
+ * Reads the token usage of a chat model response. Providers that report no
+ * usage get an estimate from the prompt and response text.
+ * @param message - The model response
+ * @param prompt - Messages the model was called with
+ * @param fallbackModel - Configured model name, used when the response does
+ * not name its model
+ */
+export function readChatUsage(
+  message: AIMessage,
+  prompt: BaseMessage[],
+  fallbackModel: string
+): TokenCounts & { model: string } {
+  const metadata = message.response_metadata ?? {};
+  const model = String(metadata.model_name ?? metadata.model ?? fallbackModel);
+  const usage = message.usage_metadata;
+  if (usage) {
+    return {
+      model,
+      input_tokens: usage.input_tokens,
+      output_tokens: usage.output_tokens,
+    };
+  }
+  return {
+    model,
+    input_tokens: estimateTokens(
+      prompt.map((entry) => contentToText(entry.content)).join("\n")
+    ),
+    output_tokens: estimateTokens(
+      contentToText(message.content) + JSON.stringify(message.tool_calls ?? [])
+    ),
+    estimated: true,
+  };
+}
+
+// Daily limits for one API key or user; 0 means unlimited
+export interface UsageQuota {
+  tokens: number;
+  cost_usd: number;
+}
+
+/**
+ * Parses "id:tokens:cost_usd" quota overrides, the id being an API key id
+ * or a user id. An empty field keeps the default for that limit and 0
+ * lifts it.
+ * @param entries - Configured override entries
+ * @param defaults - Quota applied to everyone without an override
+ * @throws ConfigurationError for malformed entries or negative limits
+ */
+export function parseUsageQuotas(
+  entries: readonly string[],
+  defaults: UsageQuota
+): Map<string, UsageQuota> {
+  const quotas = new Map<string, UsageQuota>();
+  const limit = (value: string | undefined, fallback: number) =>
+    value ? Number(value) : fallback;
+  for (const entry of entries) {
+    const fields = entry.split(":");
+    const cost = fields.pop();
+    const tokens = fields.pop();
+    const id = fields.join(":");
+    const quota = {
+      tokens: limit(tokens, defaults.tokens),
+      cost_usd: limit(cost, defaults.cost_usd),
+    };
+    if (!id || !(quota.tokens >= 0) || !(quota.cost_usd >= 0)) {
+      throw new ConfigurationError(
+        'USAGE_QUOTAS entries must look like "id:tokens:cost_usd"'
+      );
+    }
+    quotas.set(id, quota);
+  }
+  return quotas;
+}
+
+// Quotas count usage since midnight UTC
+export function startOfUtcDay(now: Date): Date {
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  );
+}
+
+/**
+ * Rejects a caller who has used up a daily quota. A run that starts under
+ * the quota is allowed to finish, so usage may end slightly above it.
+ * @param used - The caller's usage since midnight UTC
+ * @param quota - The caller's daily limits
+ * @param now - Current time, used for the reset time
+ * @throws QuotaExceededError once either limit is reached
+ */
+export function checkQuota(
+  used: Pick<UsageTotals, "total_tokens" | "cost_usd">,
+  quota: UsageQuota,
+  now: Date = new Date()
+): void {
+  const resetsAt = new Date(startOfUtcDay(now).getTime() + 86400000);
+  const retryAfter = Math.ceil((resetsAt.getTime() - now.getTime()) / 1000);
+  const resets = `It resets at ${resetsAt.toISOString()}.`;
+
+  if (quota.tokens > 0 && used.total_tokens >= quota.tokens) {
+    throw new QuotaExceededError(
+      `Daily token quota of ${quota.tokens} exceeded (used ${used.total_tokens}). ${resets}`,
+      retryAfter
+    );
+  }
+  if (quota.cost_usd > 0 && used.cost_usd >= quota.cost_usd) {
+    throw new QuotaExceededError(
+      `Daily cost quota of $${quota.cost_usd.toFixed(2)} exceeded (used $${used.cost_usd.toFixed(4)}). ${resets}`,
+      retryAfter
+    );
+  }
+}
+
+// Quota overrides by key or user id, and the default for everyone else
+interface QuotaSettings {
+  quotas: Map<string, UsageQuota>;
+  quota: UsageQuota;
+}
+
+// Price table and quotas parsed from CONFIG on first use
+let usageSettings:
+  | { prices: PriceTable; quotas: Map<string, UsageQuota>; quota: UsageQuota }
+  | undefined;
+
+/**
+ * Returns the configured price table and quotas
+ * @throws ConfigurationError for malformed MODEL_PRICES or USAGE_QUOTAS
+ */
+export function getUsageSettings() {
+  if (!usageSettings) {
+    const quota = {
+      tokens: CONFIG.USAGE_DAILY_TOKEN_QUOTA,
+      cost_usd: CONFIG.USAGE_DAILY_COST_QUOTA,
+    };
+    usageSettings = {
+      prices: new PriceTable(
+        new Map([
+          ...Object.entries(DEFAULT_MODEL_PRICES),
+          ...parseModelPrices(CONFIG.MODEL_PRICES),
+        ])
+      ),
+      quotas: parseUsageQuotas(CONFIG.USAGE_QUOTAS, quota),
+      quota,
+    };
+  }
+  return usageSettings;
+}
+
+/**
+ * Returns the daily quota of a caller: the override of the API key they
+ * used, then the override of their user id, then the default
+ */
+export function getQuota(
+  caller: Caller,
+  { quotas, quota }: QuotaSettings = getUsageSettings()
+): UsageQuota {
+  return (
+    (caller.key_id !== undefined && quotas.get(caller.key_id)) ||
+    quotas.get(caller.id) ||
+    quota
+  );
+}
@@ -0,0 +1,562 @@
+import {
+  AnyBulkWriteOperation,
+  Document,
+  MongoBulkWriteError,
+} from "mongodb";
+import { z } from "zod";
+import { CONFIG } from "../agent/config/config";
+import { ValidationError } from "../agent/config/errors";
+import { Caller } from "../agent/policy/caller";
+import { logger } from "../utils/logger";
+import { Employee, EmployeeSchema } from "./employee";
+import {
+  diffFields,
+  EMPLOYEE_RECORD_FIELDS,
+  EmployeeAuditEntry,
+  EmployeeStore,
+} from "./employee-store";
+import { indexEmployees } from "./vector-index";
+
+export const IMPORT_FORMATS = ["csv", "json", "jsonl"] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+// CSV header to employee field path, e.g. { "Salary": "job_details.salary" }.
+// Headers without an entry are used as field paths themselves.
+export type ColumnMapping = Record<string, string>;
+
+// One record read from an import file. `row` is where a person would look
+// it up: the spreadsheet row for CSV (the header is row 1), the line for
+// JSONL and the 1-based array position for JSON.
+export interface ImportRow {
+  row: number;
+  record?: unknown;
+  // Set instead of record when the row could not be read at all
+  error?: string;
+}
+
+export interface ParsedImport {
+  rows: ImportRow[];
+  warnings: string[];
+}
+
+export interface ImportRowError {
+  row: number;
+  employee_id?: string;
+  errors: string[];
+}
+
+// Outcome of an import; in a dry run the counts are what would happen
+export interface ImportReport {
+  dry_run: boolean;
+  total: number;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  errors: ImportRowError[];
+  warnings: string[];
+}
+
+export interface ImportOptions {
+  // Validate and report without writing anything
+  dryRun?: boolean;
+  // Replace employees whose employee_id already exists instead of
+  // rejecting those rows
+  upsert?: boolean;
+}
+
+// Operations per bulkWrite call
+const WRITE_BATCH_SIZE = 500;
+
+// A validated row that changes the collection
+interface PendingWrite {
+  row: number;
+  employee: Employee;
+  action: "create" | "update";
+  changed_fields: string[];
+}
+
+type FailRow = (
+  row: number,
+  employeeId: string | undefined,
+  error: string
+) => void;
+
+const TRUE_VALUES = ["true", "yes", "y", "1"];
+const FALSE_VALUES = ["false", "no", "n", "0"];
+
+// Separator for list cells such as skills, which may contain commas
+const LIST_SEPARATOR = ";";
+
+/**
+ * Splits CSV text into records of cells (RFC 4180: quoted cells may hold
+ * commas, line breaks and doubled quotes)
+ * @throws ValidationError if a quoted cell is never closed
+ */
+export function parseCsv(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let quoteStartRecord = 0;
+
+  const text = content.replace(/^\uFEFF/, "");
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+      quoteStartRecord = records.length + 1;
+    } else if (char === ",") {
+      record.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      records.push([...record, cell]);
+      record = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new ValidationError(
+      `Unterminated quoted cell starting on row ${quoteStartRecord}`
+    );
+  }
+  if (cell || record.length) {
+    records.push([...record, cell]);
+  }
+  return records;
+}
+
+// Follows a dot path through the employee schema
+function schemaAtPath(path: string): z.ZodType | undefined {
+  let schema: z.ZodType | undefined = EmployeeSchema;
+  for (const key of path.split(".")) {
+    if (!(schema instanceof z.ZodObject)) return undefined;
+    schema = (schema.shape as Record<string, z.ZodType>)[key];
+  }
+  return schema;
+}
+
+const parseJsonCell = (cell: string): unknown => {
+  try {
+    return JSON.parse(cell);
+  } catch {
+    return cell;
+  }
+};
+
+/**
+ * Turns a CSV cell into the type its field expects. Values that do not
+ * convert are kept as text so validation reports them.
+ */
+function coerceCell(schema: z.ZodType, cell: string): unknown {
+  const value = cell.trim();
+  if (schema instanceof z.ZodNullable) {
+    return value ? coerceCell(schema.unwrap() as z.ZodType, cell) : null;
+  }
+  if (schema instanceof z.ZodNumber) {
+    return value && !Number.isNaN(Number(value)) ? Number(value) : cell;
+  }
+  if (schema instanceof z.ZodBoolean) {
+    const lower = value.toLowerCase();
+    if (TRUE_VALUES.includes(lower)) return true;
+    if (FALSE_VALUES.includes(lower)) return false;
+    return cell;
+  }
+  if (schema instanceof z.ZodArray) {
+    if (!value) return [];
+    // Lists of strings are ";" separated, lists of objects are JSON
+    return schema.element instanceof z.ZodString
+      ? value
+          .split(LIST_SEPARATOR)
+          .map((entry) => entry.trim())
+          .filter(Boolean)
+      : parseJsonCell(value);
+  }
+  if (schema instanceof z.ZodObject) {
+    return value ? parseJsonCell(value) : undefined;
+  }
+  return cell;
+}
+
+function setPath(
+  record: Record<string, unknown>,
+  path: string,
+  value: unknown
+) {
+  const keys = path.split(".");
+  let target = record;
+  for (const key of keys.slice(0, -1)) {
+    target[key] ??= {};
+    target = target[key] as Record<string, unknown>;
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+function parseCsvImport(
+  content: string,
+  mapping: ColumnMapping
+): ParsedImport {
+  const [header, ...records] = parseCsv(content);
+  if (!header?.some((cell) => cell.trim())) {
+    throw new ValidationError("The CSV file has no header row");
+  }
+  const warnings: string[] = [];
+
+  for (const [column, path] of Object.entries(mapping)) {
+    if (!schemaAtPath(path)) {
+      throw new ValidationError(
+        `Column mapping for "${column}" targets unknown field "${path}"`
+      );
+    }
+    if (!header.some((cell) => cell.trim() === column)) {
+      warnings.push(`Mapped column "${column}" is not in the file`);
+    }
+  }
+
+  const columns: { index: number; path: string; schema: z.ZodType }[] = [];
+  header.forEach((cell, index) => {
+    const name = cell.trim();
+    const path = mapping[name] ?? name;
+    const schema = schemaAtPath(path);
+    if (!schema) {
+      warnings.push(`Ignoring column "${name}": no employee field "${path}"`);
+      return;
+    }
+    if (columns.some((column) => column.path === path)) {
+      throw new ValidationError(`More than one column maps to "${path}"`);
+    }
+    columns.push({ index, path, schema });
+  });
+
+  const rows: ImportRow[] = [];
+  records.forEach((cells, i) => {
+    // Blank lines are skipped but still count as rows
+    if (cells.length === 1 && !cells[0].trim()) return;
+    const row = i + 2;
+    if (cells.length !== header.length) {
+      rows.push({
+        row,
+        error: `Expected ${header.length} cells, found ${cells.length}`,
+      });
+      return;
+    }
+    const record: Record<string, unknown> = {};
+    for (const { index, path, schema } of columns) {
+      const value = coerceCell(schema, cells[index]);
+      if (value !== undefined) setPath(record, path, value);
+    }
+    rows.push({ row, record });
+  });
+  return { rows, warnings };
+}
+
+function parseJsonImport(content: string): ParsedImport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new ValidationError(`Invalid JSON: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new ValidationError("A JSON import must be an array of employees");
+  }
+  return {
+    rows: parsed.map((record, i) => ({ row: i + 1, record })),
+    warnings: [],
+  };
+}
+
+function parseJsonlImport(content: string): ParsedImport {
+  const rows: ImportRow[] = [];
+  content.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      rows.push({ row: i + 1, record: JSON.parse(line) });
+    } catch (error) {
+      rows.push({
+        row: i + 1,
+        error: `Invalid JSON: ${(error as Error).message}`,
+      });
+    }
+  });
+  return { rows, warnings: [] };
+}
+
+/**
+ * Reads the records of an import file. Rows are not validated here; a row
+ * that cannot be read at all carries an error instead of a record.
+ * @param content - File contents
+ * @param format - csv, json (an array of employees) or jsonl
+ * @param mapping - CSV header to field path overrides
+ * @throws ValidationError if the file as a whole cannot be read or holds
+ * more than IMPORT_MAX_ROWS rows
+ */
+export function parseImportFile(
+  content: string,
+  format: ImportFormat,
+  mapping: ColumnMapping = {}
+): ParsedImport {
+  const parsed =
+    format === "csv"
+      ? parseCsvImport(content, mapping)
+      : format === "json"
+        ? parseJsonImport(content)
+        : parseJsonlImport(content);
+  if (parsed.rows.length > CONFIG.IMPORT_MAX_ROWS) {
+    throw new ValidationError(
+      `Import files are limited to ${CONFIG.IMPORT_MAX_ROWS} rows, found ${parsed.rows.length}`
+    );
+  }
+  return parsed;
+}
+
+const formatIssue = (issue: z.core.$ZodIssue) =>
+  `${issue.path.join(".") || "record"}: ${issue.message}`;
+
+/**
+ * Explains why an employee's reporting_manager cannot be saved, given the
+ * manager of every employee after the import
+ */
+function managerProblem(
+  managers: Map<string, string | null>,
+  employee: Employee
+): string | null {
+  const { employee_id: employeeId, reporting_manager: managerId } = employee;
+  if (!managerId) return null;
+  if (managerId === employeeId) {
+    return `${employeeId} cannot report to themselves`;
+  }
+  if (!managers.has(managerId)) {
+    return `Reporting manager ${managerId} does not exist`;
+  }
+  const visited = new Set<string>();
+  let current = managers.get(managerId);
+  while (current && !visited.has(current)) {
+    if (current === employeeId) {
+      return `${managerId} reports to ${employeeId}, so ${employeeId} cannot report to them`;
+    }
+    visited.add(current);
+    current = managers.get(current);
+  }
+  return null;
+}
+
+/**
+ * Validates import rows and upserts the valid ones by employee_id. Rows are
+ * checked against EmployeeSchema, for duplicate ids within the file and for
+ * reporting managers that exist (in the collection or the file) without
+ * closing a cycle. Invalid rows are reported and skipped; the rest are
+ * written, audited and embedded in batches.
+ * @param store - Collections and, when the change stream indexer is off,
+ * the vector index to embed into
+ * @param parsed - Rows and warnings from parseImportFile
+ * @param actor - Who the audit entries name
+ */
+export async function importEmployees(
+  store: EmployeeStore,
+  { rows, warnings }: ParsedImport,
+  actor: Caller,
+  { dryRun = false, upsert = false }: ImportOptions = {}
+): Promise<ImportReport> {
+  const errors = new Map<number, ImportRowError>();
+  const fail: FailRow = (row, employeeId, error) => {
+    const entry = errors.get(row) ?? {
+      row,
+      employee_id: employeeId,
+      errors: [],
+    };
+    entry.errors.push(error);
+    errors.set(row, entry);
+  };
+
+  let candidates: { row: number; employee: Employee }[] = [];
+  const firstRows = new Map<string, number>();
+  for (const { row, record, error } of rows) {
+    const recordId = (record as { employee_id?: unknown } | undefined)
+      ?.employee_id;
+    const employeeId = typeof recordId === "string" ? recordId : undefined;
+    if (error) {
+      fail(row, employeeId, error);
+      continue;
+    }
+    const result = EmployeeSchema.safeParse(record);
+    if (!result.success) {
+      result.error.issues.forEach((issue) =>
+        fail(row, employeeId, formatIssue(issue))
+      );
+      continue;
+    }
+    const firstRow = firstRows.get(result.data.employee_id);
+    if (firstRow !== undefined) {
+      fail(
+        row,
+        employeeId,
+        `Duplicate employee_id, first used on row ${firstRow}`
+      );
+      continue;
+    }
+    firstRows.set(result.data.employee_id, row);
+    candidates.push({ row, employee: result.data });
+  }
+
+  const existing = new Map<string, Document>();
+  for await (const doc of store.employees.find(
+    { employee_id: { $in: [...firstRows.keys()] } },
+    { projection: { _id: 0 } }
+  )) {
+    existing.set(doc.employee_id, doc);
+  }
+  if (!upsert) {
+    candidates = candidates.filter(({ row, employee }) => {
+      if (!existing.has(employee.employee_id)) return true;
+      fail(
+        row,
+        employee.employee_id,
+        `Employee ${employee.employee_id} already exists; import with upsert to replace it`
+      );
+      return false;
+    });
+  }
+
+  // Rejecting a row can strand rows reporting to it, so check until stable
+  const savedManagers = new Map<string, string | null>();
+  for await (const doc of store.employees.find(
+    {},
+    { projection: { _id: 0, employee_id: 1, reporting_manager: 1 } }
+  )) {
+    savedManagers.set(doc.employee_id, doc.reporting_manager ?? null);
+  }
+  for (;;) {
+    const managers = new Map(savedManagers);
+    for (const { employee } of candidates) {
+      managers.set(employee.employee_id, employee.reporting_manager);
+    }
+    const accepted = candidates.filter(({ row, employee }) => {
+      const problem = managerProblem(managers, employee);
+      if (problem) fail(row, employee.employee_id, problem);
+      return !problem;
+    });
+    if (accepted.length === candidates.length) break;
+    candidates = accepted;
+  }
+
+  const writes: PendingWrite[] = [];
+  let unchanged = 0;
+  for (const { row, employee } of candidates) {
+    const saved = existing.get(employee.employee_id);
+    const changedFields = saved
+      ? diffFields(saved, employee)
+      : EMPLOYEE_RECORD_FIELDS;
+    if (!changedFields.length) {
+      unchanged++;
+      continue;
+    }
+    writes.push({
+      row,
+      employee,
+      action: saved ? "update" : "create",
+      changed_fields: changedFields,
+    });
+  }
+
+  const written = dryRun
+    ? writes
+    : await writeEmployees(store, writes, actor, fail);
+  const report: ImportReport = {
+    dry_run: dryRun,
+    total: rows.length,
+    inserted: written.filter((write) => write.action === "create").length,
+    updated: written.filter((write) => write.action === "update").length,
+    unchanged,
+    failed: errors.size,
+    errors: [...errors.values()].sort((a, b) => a.row - b.row),
+    warnings,
+  };
+  logger.info(
+    `Employee import${dryRun ? " (dry run)" : ""}: ${report.inserted} inserted, ${report.updated} updated, ${report.unchanged} unchanged, ${report.failed} failed`
+  );
+  return report;
+}
+
+/**
+ * Upserts the records in batches, then audits and embeds the ones that were
+ * saved. Rows the server rejects are passed to `fail`.
+ * @returns The writes that were saved
+ */
+async function writeEmployees(
+  store: EmployeeStore,
+  writes: PendingWrite[],
+  actor: Caller,
+  fail: FailRow
+): Promise<PendingWrite[]> {
+  const saved: PendingWrite[] = [];
+  for (let i = 0; i < writes.length; i += WRITE_BATCH_SIZE) {
+    const batch = writes.slice(i, i + WRITE_BATCH_SIZE);
+    const operations: AnyBulkWriteOperation[] = batch.map(({ employee }) => ({
+      replaceOne: {
+        filter: { employee_id: employee.employee_id },
+        replacement: employee,
+        upsert: true,
+      },
+    }));
+    const failed = new Set<number>();
+    try {
+      await store.employees.bulkWrite(operations, { ordered: false });
+    } catch (error) {
+      if (!(error instanceof MongoBulkWriteError)) throw error;
+      for (const writeError of [error.writeErrors].flat()) {
+        const { row, employee } = batch[writeError.index];
+        failed.add(writeError.index);
+        fail(row, employee.employee_id, `Write failed: ${writeError.errmsg}`);
+      }
+    }
+    saved.push(...batch.filter((_, index) => !failed.has(index)));
+  }
+
+  if (saved.length) {
+    const at = new Date();
+    await store.audit.insertMany(
+      saved.map(
+        ({ employee, action, changed_fields }): EmployeeAuditEntry => ({
+          employee_id: employee.employee_id,
+          action,
+          changed_fields,
+          actor: { id: actor.id, role: actor.role },
+          at,
+        })
+      )
+    );
+  }
+
+  // As with single writes, a failed embedding leaves the records saved
+  if (store.vectors) {
+    const { index, embeddings } = store.vectors;
+    try {
+      for (let i = 0; i < saved.length; i += CONFIG.EMBEDDING_BATCH_SIZE) {
+        await indexEmployees(
+          index,
+          embeddings,
+          saved
+            .slice(i, i + CONFIG.EMBEDDING_BATCH_SIZE)
+            .map(({ employee }) => employee)
+        );
+      }
+    } catch (error) {
+      logger.warn("Failed to update the vector index after an import:", error);
+    }
+  }
+  return saved;
+}
@@ -0,0 +1,368 @@
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { Collection, Document, Filter, MongoServerError } from "mongodb";
+import { CONFIG } from "../agent/config/config";
+import { ConflictError, ValidationError } from "../agent/config/errors";
+import { Caller, Role } from "../agent/policy/caller";
+import {
+  buildProjection,
+  redactDocument,
+  resolveFieldAccess,
+} from "../agent/policy/field-access";
+import { logger } from "../utils/logger";
+import { Employee, EmployeeSchema } from "./employee";
+import { EmployeeVectorIndex, indexEmployees } from "./vector-index";
+
+// Every top-level field of an employee record, before field access applies
+export const EMPLOYEE_RECORD_FIELDS = Object.keys(EmployeeSchema.shape);
+
+// One write to an employee record. Only the changed field paths are kept,
+// so the trail never copies salaries or other personal data.
+export interface EmployeeAuditEntry {
+  employee_id: string;
+  action: "create" | "update" | "delete";
+  changed_fields: string[];
+  actor: { id: string; role: Role };
+  at: Date;
+}
+
+export interface EmployeeStore {
+  employees: Collection;
+  audit: Collection<EmployeeAuditEntry>;
+  // Writes re-embed into this index when set; left out while the change
+  // stream indexer keeps the index in sync instead
+  vectors?: {
+    index: EmployeeVectorIndex;
+    embeddings: EmbeddingsInterface;
+  };
+}
+
+export interface PageOptions {
+  limit: number;
+  offset: number;
+}
+
+const DUPLICATE_KEY_CODE = 11000;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Applies a PATCH body to a record: nested objects are merged key by key,
+ * arrays and other values replace what was there
+ */
+export function mergeEmployeePatch(
+  existing: Record<string, unknown>,
+  patch: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...existing };
+  for (const [key, value] of Object.entries(patch)) {
+    merged[key] =
+      isPlainObject(value) && isPlainObject(existing[key])
+        ? mergeEmployeePatch(existing[key], value)
+        : value;
+  }
+  return merged;
+}
+
+/**
+ * Lists the dot paths whose values differ between two records, stopping at
+ * arrays and other non-object values
+ */
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  prefix = ""
+): string[] {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return keys.flatMap((key) => {
+    const path = `${prefix}${key}`;
+    const [a, b] = [before[key], after[key]];
+    if (isPlainObject(a) && isPlainObject(b)) {
+      return diffFields(a, b, `${path}.`);
+    }
+    return JSON.stringify(a) === JSON.stringify(b) ? [] : [path];
+  });
+}
+
+/**
+ * Creates the unique index that keeps employee_id a key. Fails if the
+ * collection already holds duplicates.
+ * @param collection - The employees collection
+ */
+export async function ensureEmployeeIdIndex(
+  collection: Collection
+): Promise<void> {
+  await collection.createIndex(
+    { employee_id: 1 },
+    { name: CONFIG.EMPLOYEE_ID_INDEX_NAME, unique: true }
+  );
+}
+
+/**
+ * Checks that a reporting manager exists and is not the employee or one of
+ * their direct or indirect reports, which would close a reporting cycle
+ * @throws ValidationError if the reference is invalid
+ */
+async function assertValidManager(
+  collection: Collection,
+  employeeId: string,
+  managerId: string
+): Promise<void> {
+  if (managerId === employeeId) {
+    throw new ValidationError(`${employeeId} cannot report to themselves`);
+  }
+  const [manager] = await collection
+    .aggregate([
+      { $match: { employee_id: managerId } },
+      {
+        $graphLookup: {
+          from: collection.collectionName,
+          startWith: "$reporting_manager",
+          connectFromField: "reporting_manager",
+          connectToField: "employee_id",
+          as: "chain",
+          maxDepth: CONFIG.ORG_MAX_DEPTH - 1,
+        },
+      },
+      { $project: { _id: 0, employee_id: 1, "chain.employee_id": 1 } },
+    ])
+    .toArray();
+  if (!manager) {
+    throw new ValidationError(`Reporting manager ${managerId} does not exist`);
+  }
+  if (
+    manager.chain.some(
+      (person: Document) => person.employee_id === employeeId
+    )
+  ) {
+    throw new ValidationError(
+      `${managerId} reports to ${employeeId}, so ${employeeId} cannot report to them`
+    );
+  }
+}
+
+async function recordAudit(
+  store: EmployeeStore,
+  entry: Omit<EmployeeAuditEntry, "at" | "actor"> & { actor: Caller }
+) {
+  await store.audit.insertOne({
+    ...entry,
+    actor: { id: entry.actor.id, role: entry.actor.role },
+    at: new Date(),
+  });
+}
+
+// Vector index failures are logged rather than failing a saved write; the
+// next write or re-seed repairs the point
+async function syncVector(
+  store: EmployeeStore,
+  employee: Employee | null,
+  removedId?: string
+) {
+  if (!store.vectors) return;
+  try {
+    if (removedId) {
+      await store.vectors.index.delete([removedId]);
+    }
+    if (employee) {
+      await indexEmployees(store.vectors.index, store.vectors.embeddings, [
+        employee,
+      ]);
+    }
+  } catch (error) {
+    logger.warn("Failed to update the vector index after a write:", error);
+  }
+}
+
+/**
+ * Lists employees matching a filter, ordered by employee_id, with only the
+ * fields the role may see
+ * @returns One page of records and the total number of matches
+ */
+export async function listEmployees(
+  collection: Collection,
+  filter: Filter<Document>,
+  role: Role,
+  { limit, offset }: PageOptions
+): Promise<{ employees: Record<string, unknown>[]; total: number }> {
+  const fieldAccess = resolveFieldAccess(role, EMPLOYEE_RECORD_FIELDS);
+  const [documents, total] = await Promise.all([
+    collection
+      .find(filter, { projection: buildProjection(fieldAccess) })
+      .sort({ employee_id: 1 })
+      .skip(offset)
+      .limit(limit)
+      .toArray(),
+    collection.countDocuments(filter),
+  ]);
+  return {
+    employees: documents.map((doc) => redactDocument(doc, fieldAccess)),
+    total,
+  };
+}
+
+/**
+ * Reads one employee with only the fields the role may see
+ * @returns The record, or null if the employee does not exist
+ */
+export async function getEmployee(
+  collection: Collection,
+  employeeId: string,
+  role: Role
+): Promise<Record<string, unknown> | null> {
+  const fieldAccess = resolveFieldAccess(role, EMPLOYEE_RECORD_FIELDS);
+  const doc = await collection.findOne(
+    { employee_id: employeeId },
+    { projection: buildProjection(fieldAccess) }
+  );
+  return doc && redactDocument(doc, fieldAccess);
+}
+
+/**
+ * Inserts a validated employee, indexes it and records the write
+ * @throws ConflictError if the employee_id is taken
+ * @throws ValidationError if the reporting manager is invalid
+ */
+export async function createEmployee(
+  store: EmployeeStore,
+  employee: Employee,
+  actor: Caller
+): Promise<Employee> {
+  if (employee.reporting_manager) {
+    await assertValidManager(
+      store.employees,
+      employee.employee_id,
+      employee.reporting_manager
+    );
+  }
+  try {
+    // insertOne adds _id to the document it is given
+    await store.employees.insertOne({ ...employee });
+  } catch (error) {
+    if (
+      error instanceof MongoServerError &&
+      error.code === DUPLICATE_KEY_CODE
+    ) {
+      throw new ConflictError(
+        `Employee ${employee.employee_id} already exists`
+      );
+    }
+    throw error;
+  }
+  await recordAudit(store, {
+    employee_id: employee.employee_id,
+    action: "create",
+    changed_fields: EMPLOYEE_RECORD_FIELDS,
+    actor,
+  });
+  await syncVector(store, employee);
+  return employee;
+}
+
+/**
+ * Merges a partial update into an employee, validates the result as a whole
+ * and saves it. employee_id is the record's key and cannot change.
+ * @returns The updated record, or null if the employee does not exist
+ * @throws ZodError if the merged record is not a valid employee
+ * @throws ValidationError for an employee_id change or invalid manager
+ */
+export async function updateEmployee(
+  store: EmployeeStore,
+  employeeId: string,
+  patch: Record<string, unknown>,
+  actor: Caller
+): Promise<Employee | null> {
+  if (patch.employee_id !== undefined && patch.employee_id !== employeeId) {
+    throw new ValidationError("employee_id cannot be changed");
+  }
+  const existing = await store.employees.findOne(
+    { employee_id: employeeId },
+    { projection: { _id: 0 } }
+  );
+  if (!existing) {
+    return null;
+  }
+
+  const updated = EmployeeSchema.parse(mergeEmployeePatch(existing, patch));
+  const changedFields = diffFields(existing, updated);
+  if (!changedFields.length) {
+    return updated;
+  }
+  if (
+    updated.reporting_manager &&
+    updated.reporting_manager !== existing.reporting_manager
+  ) {
+    await assertValidManager(
+      store.employees,
+      employeeId,
+      updated.reporting_manager
+    );
+  }
+
+  const { matchedCount } = await store.employees.replaceOne(
+    { employee_id: employeeId },
+    updated
+  );
+  if (!matchedCount) {
+    return null;
+  }
+  await recordAudit(store, {
+    employee_id: employeeId,
+    action: "update",
+    changed_fields: changedFields,
+    actor,
+  });
+  await syncVector(store, updated);
+  return updated;
+}
+
+/**
+ * Deletes an employee who manages nobody, removes their vector and records
+ * the write
+ * @returns Whether the employee existed
+ * @throws ConflictError if employees still report to them
+ */
+export async function deleteEmployee(
+  store: EmployeeStore,
+  employeeId: string,
+  actor: Caller
+): Promise<boolean> {
+  const reports = await store.employees.countDocuments({
+    reporting_manager: employeeId,
+  });
+  if (reports) {
+    throw new ConflictError(
+      `${employeeId} still manages ${reports} employee(s); reassign them first`
+    );
+  }
+  const { deletedCount } = await store.employees.deleteOne({
+    employee_id: employeeId,
+  });
+  if (!deletedCount) {
+    return false;
+  }
+  await recordAudit(store, {
+    employee_id: employeeId,
+    action: "delete",
+    changed_fields: [],
+    actor,
+  });
+  await syncVector(store, null, employeeId);
+  return true;
+}
+
+/**
+ * Reads the audit trail of one employee, newest first
+ */
+export async function listEmployeeAudit(
+  audit: Collection<EmployeeAuditEntry>,
+  employeeId: string,
+  { limit, offset }: PageOptions
+): Promise<EmployeeAuditEntry[]> {
+  return audit
+    .find({ employee_id: employeeId }, { projection: { _id: 0 } })
+    .sort({ at: -1 })
+    .skip(offset)
+    .limit(limit)
+    .toArray();
+}
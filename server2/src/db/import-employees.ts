@@ -0,0 +1,85 @@
+import { readFile } from "fs/promises";
+import { extname } from "path";
+import { parseArgs } from "util";
+import { MongoClient } from "mongodb";
+import "dotenv/config";
+import { logger } from "../utils/logger";
+import { CONFIG } from "../agent/config/config";
+import { Caller } from "../agent/policy/caller";
+import { createEmbeddingModel } from "../agent/providers/embeddings";
+import { createEmployeeVectorIndex } from "./vector-index";
+import {
+  ColumnMapping,
+  ImportFormat,
+  IMPORT_FORMATS,
+  importEmployees,
+  parseImportFile,
+} from "./employee-import";
+import { EmployeeAuditEntry, EmployeeStore } from "./employee-store";
+
+const USAGE =
+  "Usage: npm run import -- <file> [--format csv|json|jsonl] [--mapping mapping.json] [--dry-run] [--upsert]";
+
+// Audit entries name this caller for command line imports
+const CLI_CALLER: Caller = { id: "import-cli", role: "admin" };
+
+const isImportFormat = (value: string): value is ImportFormat =>
+  IMPORT_FORMATS.includes(value as ImportFormat);
+
+async function importFile(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      format: { type: "string" },
+      mapping: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      upsert: { type: "boolean", default: false },
+    },
+  });
+  const [file] = positionals;
+  // The format defaults to the file extension
+  const format = values.format ?? extname(file ?? "").slice(1).toLowerCase();
+  if (!file || !isImportFormat(format)) {
+    throw new Error(USAGE);
+  }
+  const mapping: ColumnMapping = values.mapping
+    ? JSON.parse(await readFile(values.mapping, "utf8"))
+    : {};
+  const parsed = parseImportFile(await readFile(file, "utf8"), format, mapping);
+
+  const client = new MongoClient(process.env.MONGODB_ATLAS_URI as string);
+  try {
+    await client.connect();
+    const db = client.db(CONFIG.DATABASE_NAME);
+    const store: EmployeeStore = {
+      employees: db.collection(CONFIG.EMPLOYEES_COLLECTION_NAME),
+      audit: db.collection<EmployeeAuditEntry>(
+        CONFIG.EMPLOYEE_AUDIT_COLLECTION_NAME
+      ),
+    };
+    // The change stream indexer embeds imported records when it is running
+    if (!CONFIG.VECTOR_SYNC_ENABLED) {
+      const { embeddings, dimensions } = createEmbeddingModel();
+      store.vectors = {
+        index: createEmployeeVectorIndex(client, dimensions),
+        embeddings,
+      };
+    }
+
+    const report = await importEmployees(store, parsed, CLI_CALLER, {
+      dryRun: values["dry-run"],
+      upsert: values.upsert,
+    });
+    console.log(JSON.stringify(report, null, 2));
+    if (report.failed) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await client.close();
+  }
+}
+
+importFile().catch((error) => {
+  logger.error("Error importing employees:", error);
+  process.exitCode = 1;
+});
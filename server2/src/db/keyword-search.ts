@@ -0,0 +1,87 @@
+import { Collection, MongoServerError } from "mongodb";
+import { CONFIG } from "../agent/config/config";
+
+// A keyword search hit, scored by MongoDB's text relevance
+export interface EmployeeKeywordMatch {
+  employee_id: string;
+  score: number;
+}
+
+// Text fields the keyword leg searches, with their relative weights. Every
+// role sees the results and their scores, so only fields every role may read
+// belong here: a match on a hidden field would reveal what it contains.
+export const EMPLOYEE_TEXT_INDEX_WEIGHTS = {
+  employee_id: 10,
+  first_name: 5,
+  last_name: 5,
+  "job_details.job_title": 3,
+  skills: 3,
+};
+
+// MongoDB refuses to redefine an existing index under the same name
+const INDEX_CONFLICT_CODES = [85, 86];
+
+/**
+ * Creates the employees text index if it does not exist yet. MongoDB allows
+ * a single text index per collection, so it covers every searchable field.
+ * An index built over other fields, such as one from before notes were
+ * removed, is dropped and rebuilt.
+ * @param collection - The employees collection
+ */
+export async function ensureEmployeeTextIndex(
+  collection: Collection
+): Promise<void> {
+  const create = () =>
+    collection.createIndex(
+      Object.fromEntries(
+        Object.keys(EMPLOYEE_TEXT_INDEX_WEIGHTS).map((field) => [
+          field,
+          "text",
+        ])
+      ),
+      {
+        name: CONFIG.EMPLOYEE_TEXT_INDEX_NAME,
+        weights: EMPLOYEE_TEXT_INDEX_WEIGHTS,
+        default_language: "english",
+      }
+    );
+  try {
+    await create();
+  } catch (error) {
+    if (
+      !(error instanceof MongoServerError) ||
+      !INDEX_CONFLICT_CODES.includes(Number(error.code))
+    ) {
+      throw error;
+    }
+    await collection.dropIndex(CONFIG.EMPLOYEE_TEXT_INDEX_NAME);
+    await create();
+  }
+}
+
+/**
+ * Finds employees whose indexed text contains the query terms, best first
+ * @param collection - The employees collection
+ * @param query - Free text; exact tokens such as employee ids match too
+ * @param limit - Maximum number of matches
+ */
+export async function searchEmployeesByKeyword(
+  collection: Collection,
+  query: string,
+  limit: number
+): Promise<EmployeeKeywordMatch[]> {
+  const matches = await collection
+    .find(
+      { $text: { $search: query } },
+      {
+        projection: { _id: 0, employee_id: 1, score: { $meta: "textScore" } },
+      }
+    )
+    .sort({ score: { $meta: "textScore" } })
+    .limit(limit)
+    .toArray();
+  return matches.map((match) => ({
+    employee_id: match.employee_id,
+    score: match.score,
+  }));
+}
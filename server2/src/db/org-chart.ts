@@ -0,0 +1,332 @@
+import { Collection, Document } from "mongodb";
+import { CONFIG } from "../agent/config/config";
+import { Role } from "../agent/policy/caller";
+import {
+  buildProjection,
+  redactDocument,
+  resolveFieldAccess,
+} from "../agent/policy/field-access";
+
+// Fields shown for each person in the org chart
+export const ORG_CHART_FIELDS = [
+  "employee_id",
+  "first_name",
+  "last_name",
+  "job_details.job_title",
+  "job_details.department",
+  "reporting_manager",
+];
+
+// One person in the org chart
+export interface OrgPerson {
+  employee_id: string;
+  name?: string;
+  job_title?: string;
+  department?: string;
+  reporting_manager: string | null;
+}
+
+export interface OrgTreeNode extends OrgPerson {
+  reports: OrgTreeNode[];
+}
+
+export interface OrgChart {
+  employee: OrgPerson;
+  // Direct manager first, top of the hierarchy last
+  chain: OrgPerson[];
+  // Direct reports, each with their own reports down to the requested depth
+  reports: OrgTreeNode[];
+  span_of_control: { direct: number; total: number };
+  // Data problems found on the way: cycles, dangling or truncated references
+  issues: string[];
+}
+
+export interface OrgChartOptions {
+  role: Role;
+  // Levels of reports in the tree, 1 for direct reports only; the span of
+  // control always counts every level
+  depth?: number;
+}
+
+type RankedDocument = Document & { depth: number };
+
+function toPerson(doc: Document, role: Role): OrgPerson {
+  const visible = redactDocument(
+    doc,
+    resolveFieldAccess(role, ORG_CHART_FIELDS)
+  );
+  const name = [visible.first_name, visible.last_name]
+    .filter(Boolean)
+    .join(" ");
+  return {
+    employee_id: doc.employee_id,
+    ...(name && { name }),
+    ...(visible.job_details?.job_title && {
+      job_title: visible.job_details.job_title,
+    }),
+    ...(visible.job_details?.department && {
+      department: visible.job_details.department,
+    }),
+    reporting_manager: doc.reporting_manager ?? null,
+  };
+}
+
+// Paths fetched for each person in the chart
+function chartPaths(role: Role): string[] {
+  const { _id, ...fields } = buildProjection(
+    resolveFieldAccess(role, ORG_CHART_FIELDS)
+  );
+  // The hierarchy cannot be walked without the ids, whatever the policy
+  return [
+    ...new Set([...Object.keys(fields), "employee_id", "reporting_manager"]),
+  ];
+}
+
+const toProjection = (paths: string[]): Document => ({
+  _id: 0,
+  ...Object.fromEntries(paths.map((path) => [path, 1])),
+});
+
+// Reports below the chart's depth are only counted
+const COUNT_PROJECTION = toProjection(["employee_id", "reporting_manager"]);
+
+/**
+ * Orders the $graphLookup management chain and stops it at a cycle or a
+ * reference to a manager that does not exist
+ */
+function resolveChain(
+  root: Document,
+  found: RankedDocument[],
+  issues: string[]
+): Document[] {
+  const byId = new Map(found.map((doc) => [doc.employee_id, doc]));
+  const chain: Document[] = [];
+  const seen = new Set<string>([root.employee_id]);
+  let managerId: string | null = root.reporting_manager ?? null;
+
+  while (managerId) {
+    if (seen.has(managerId)) {
+      issues.push(`Reporting cycle: ${managerId} is its own indirect manager`);
+      break;
+    }
+    const manager = byId.get(managerId);
+    if (!manager) {
+      issues.push(
+        chain.length >= CONFIG.ORG_MAX_DEPTH
+          ? `Management chain truncated after ${CONFIG.ORG_MAX_DEPTH} levels`
+          : `Dangling reference: manager ${managerId} does not exist`
+      );
+      break;
+    }
+    seen.add(managerId);
+    chain.push(manager);
+    managerId = manager.reporting_manager ?? null;
+  }
+  return chain;
+}
+
+/**
+ * Builds the reports tree under the root. Every node is attached once, so a
+ * cycle back through the root cannot recurse.
+ */
+function buildReportsTree(
+  root: Document,
+  reports: Document[],
+  role: Role
+): OrgTreeNode[] {
+  const children = new Map<string, Document[]>();
+  for (const report of reports) {
+    const siblings = children.get(report.reporting_manager) ?? [];
+    siblings.push(report);
+    children.set(report.reporting_manager, siblings);
+  }
+
+  const attached = new Set<string>([root.employee_id]);
+  const build = (managerId: string): OrgTreeNode[] =>
+    (children.get(managerId) ?? [])
+      .filter((doc) => !attached.has(doc.employee_id))
+      .sort((a, b) => a.employee_id.localeCompare(b.employee_id))
+      .map((doc) => {
+        attached.add(doc.employee_id);
+        return { ...toPerson(doc, role), reports: build(doc.employee_id) };
+      });
+  return build(root.employee_id);
+}
+
+/**
+ * Fetches an employee with their management chain, resolved by a
+ * $graphLookup up to the top of the hierarchy
+ * @returns The employee, their managers from the direct one up and any data
+ * issues, or null if the employee does not exist
+ */
+async function fetchWithChain(
+  collection: Collection,
+  employeeId: string,
+  role: Role
+): Promise<{ root: Document; chain: Document[]; issues: string[] } | null> {
+  const paths = chartPaths(role);
+  const [root] = await collection
+    .aggregate([
+      { $match: { employee_id: employeeId } },
+      {
+        $graphLookup: {
+          from: collection.collectionName,
+          startWith: "$reporting_manager",
+          connectFromField: "reporting_manager",
+          connectToField: "employee_id",
+          as: "chain",
+          depthField: "depth",
+          maxDepth: CONFIG.ORG_MAX_DEPTH - 1,
+        },
+      },
+      {
+        $project: {
+          ...toProjection(paths),
+          ...Object.fromEntries(paths.map((path) => [`chain.${path}`, 1])),
+          "chain.depth": 1,
+        },
+      },
+    ])
+    .toArray();
+  if (!root) {
+    return null;
+  }
+  const issues: string[] = [];
+  return { root, chain: resolveChain(root, root.chain, issues), issues };
+}
+
+/**
+ * Walks the direct and indirect reports of an employee one level at a time.
+ * Levels within the chart's depth are fetched with the chart fields; deeper
+ * levels only with their ids, to count them. What is held in memory grows
+ * with the chart shown rather than with the employee's whole organisation.
+ * @returns Reports within the depth and the number of reports per level
+ */
+async function fetchReports(
+  collection: Collection,
+  root: Document,
+  depth: number,
+  role: Role,
+  issues: string[]
+): Promise<{ reports: Document[]; levels: number[] }> {
+  const chartProjection = toProjection(chartPaths(role));
+  const seen = new Set<string>([root.employee_id]);
+  const reports: Document[] = [];
+  const levels: number[] = [];
+  let managers: string[] = [root.employee_id];
+
+  while (managers.length && levels.length < CONFIG.ORG_MAX_DEPTH) {
+    const inChart = levels.length < depth;
+    const found = await collection
+      .find(
+        { reporting_manager: { $in: managers } },
+        { projection: inChart ? chartProjection : COUNT_PROJECTION }
+      )
+      .toArray();
+    if (found.some((doc) => doc.employee_id === root.employee_id)) {
+      issues.push(
+        `Reporting cycle: ${root.employee_id} reports to one of their own reports`
+      );
+    }
+    const level = found.filter((doc) => !seen.has(doc.employee_id));
+    level.forEach((doc) => seen.add(doc.employee_id));
+    if (inChart) {
+      reports.push(...level);
+    }
+    if (level.length) {
+      levels.push(level.length);
+    }
+    managers = level.map((doc) => doc.employee_id);
+  }
+  if (managers.length) {
+    issues.push(
+      `Reports may be truncated after ${CONFIG.ORG_MAX_DEPTH} levels`
+    );
+  }
+  return { reports, levels };
+}
+
+/**
+ * Creates the index the report walk and the manager checks look employees up
+ * by. Without it every level of an org chart scans the whole collection.
+ * @param collection - The employees collection
+ */
+export async function ensureReportingManagerIndex(
+  collection: Collection
+): Promise<void> {
+  await collection.createIndex(
+    { reporting_manager: 1 },
+    { name: CONFIG.REPORTING_MANAGER_INDEX_NAME }
+  );
+}
+
+/**
+ * Resolves an employee's place in the hierarchy: the chain of command up to
+ * the top, and the reports below down to the requested depth
+ * @param collection - The employees collection
+ * @param employeeId - The employee to centre the chart on
+ * @param options - Caller role for field access and depth of the tree
+ * @returns The org chart, or null if the employee does not exist
+ */
+export async function getOrgChart(
+  collection: Collection,
+  employeeId: string,
+  { role, depth = 1 }: OrgChartOptions
+): Promise<OrgChart | null> {
+  const found = await fetchWithChain(collection, employeeId, role);
+  if (!found) {
+    return null;
+  }
+  const { root, chain, issues } = found;
+  const { reports, levels } = await fetchReports(
+    collection,
+    root,
+    depth,
+    role,
+    issues
+  );
+
+  return {
+    employee: toPerson(root, role),
+    chain: chain.map((doc) => toPerson(doc, role)),
+    reports: buildReportsTree(root, reports, role),
+    span_of_control: {
+      direct: levels[0] ?? 0,
+      total: levels.reduce((sum, count) => sum + count, 0),
+    },
+    issues,
+  };
+}
+
+/**
+ * Finds the lowest manager two employees have in common. If one manages
+ * the other, that employee is the answer.
+ * @returns The common manager (null if their chains never meet) and any
+ * data issues, or null if either employee does not exist
+ */
+export async function findLowestCommonManager(
+  collection: Collection,
+  employeeId: string,
+  otherEmployeeId: string,
+  role: Role
+): Promise<{ manager: OrgPerson | null; issues: string[] } | null> {
+  const [first, second] = await Promise.all([
+    fetchWithChain(collection, employeeId, role),
+    fetchWithChain(collection, otherEmployeeId, role),
+  ]);
+  if (!first || !second) {
+    return null;
+  }
+
+  const secondIds = new Set(
+    [second.root, ...second.chain].map((doc) => doc.employee_id)
+  );
+  const manager =
+    [first.root, ...first.chain].find((doc) =>
+      secondIds.has(doc.employee_id)
+    ) ?? null;
+  return {
+    manager: manager && toPerson(manager, role),
+    issues: [...new Set([...first.issues, ...second.issues])],
+  };
+}
@@ -0,0 +1,47 @@
+// One ranked result list to fuse, best match first
+export interface RankedLeg {
+  name: string;
+  weight: number;
+  results: { employee_id: string; score: number }[];
+}
+
+// A fused result with the fused score and each leg's own score
+export interface FusedResult {
+  employee_id: string;
+  score: number;
+  leg_scores: Record<string, number | null>;
+}
+
+/**
+ * Merges ranked lists with weighted reciprocal rank fusion: each list adds
+ * weight / (k + rank) for every employee it returns. Ranks are used rather
+ * than raw scores, so cosine similarities and text scores need no scaling.
+ * @param legs - Result lists with their weights
+ * @param k - Damping constant; larger values flatten the rank curve
+ * @returns Results ordered by fused score, ties by employee_id
+ */
+export function reciprocalRankFusion(
+  legs: RankedLeg[],
+  k: number
+): FusedResult[] {
+  const fused = new Map<string, FusedResult>();
+  for (const leg of legs) {
+    leg.results.forEach((result, index) => {
+      const entry = fused.get(result.employee_id) ?? {
+        employee_id: result.employee_id,
+        score: 0,
+        leg_scores: Object.fromEntries(legs.map(({ name }) => [name, null])),
+      };
+      // Duplicates within a leg only count at their best rank
+      if (entry.leg_scores[leg.name] !== null) {
+        return;
+      }
+      entry.score += leg.weight / (k + index + 1);
+      entry.leg_scores[leg.name] = result.score;
+      fused.set(result.employee_id, entry);
+    });
+  }
+  return [...fused.values()].sort(
+    (a, b) => b.score - a.score || a.employee_id.localeCompare(b.employee_id)
+  );
+}
@@ -0,0 +1,161 @@
+import { Collection, MongoClient, MongoServerError } from "mongodb";
+import { CONFIG } from "../agent/config/config";
+import { ConfigurationError } from "../agent/config/errors";
+
+// Requests a client made in the current fixed window and the one before it
+export interface WindowCounts {
+  current: number;
+  previous: number;
+}
+
+/**
+ * Counts requests per client key in fixed windows, from which the rate
+ * limiter estimates a sliding window
+ */
+export interface RateLimitStore {
+  /**
+   * Counts one request in the window starting at windowStart
+   * @returns The counts including this request
+   */
+  hit(
+    key: string,
+    windowStart: number,
+    windowMs: number
+  ): Promise<WindowCounts>;
+}
+
+interface MemoryWindow {
+  windowStart: number;
+  windowMs: number;
+  current: number;
+  previous: number;
+}
+
+/**
+ * Keeps counts in the server process. Every instance counts on its own, so
+ * use it for a single instance only.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly windows = new Map<string, MemoryWindow>();
+  private lastSweep = 0;
+
+  async hit(
+    key: string,
+    windowStart: number,
+    windowMs: number
+  ): Promise<WindowCounts> {
+    this.sweep(windowStart);
+    const window = this.windows.get(key);
+    if (!window || window.windowStart < windowStart - windowMs) {
+      // New client, or idle for more than a whole window
+      this.windows.set(key, { windowStart, windowMs, current: 1, previous: 0 });
+      return { current: 1, previous: 0 };
+    }
+    if (window.windowStart < windowStart) {
+      window.previous = window.current;
+      window.current = 0;
+      window.windowStart = windowStart;
+    }
+    window.current += 1;
+    return { current: window.current, previous: window.previous };
+  }
+
+  // Drops clients that no longer affect any decision, at most once a minute
+  private sweep(now: number): void {
+    if (now - this.lastSweep < 60_000) {
+      return;
+    }
+    this.lastSweep = now;
+    for (const [key, window] of this.windows) {
+      if (window.windowStart + 2 * window.windowMs <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+// One client's count in one window; MongoDB drops it once it expires
+export interface RateLimitWindow {
+  _id: string;
+  count: number;
+  expires_at: Date;
+}
+
+const DUPLICATE_KEY = 11000;
+
+/**
+ * Keeps counts in MongoDB, so every instance enforces the same limits
+ */
+export class MongoRateLimitStore implements RateLimitStore {
+  constructor(private readonly collection: Collection<RateLimitWindow>) {}
+
+  async hit(
+    key: string,
+    windowStart: number,
+    windowMs: number
+  ): Promise<WindowCounts> {
+    const [current, previous] = await Promise.all([
+      this.increment(`${key}|${windowStart}`, windowStart + 2 * windowMs),
+      this.collection.findOne({ _id: `${key}|${windowStart - windowMs}` }),
+    ]);
+    return { current, previous: previous?.count ?? 0 };
+  }
+
+  private async increment(id: string, expiresAt: number): Promise<number> {
+    const update = () =>
+      this.collection.findOneAndUpdate(
+        { _id: id },
+        {
+          $inc: { count: 1 },
+          $setOnInsert: { expires_at: new Date(expiresAt) },
+        },
+        { upsert: true, returnDocument: "after" }
+      );
+    try {
+      return (await update())?.count ?? 1;
+    } catch (error) {
+      // Two first requests raced to insert the window; the loser updates it
+      if (error instanceof MongoServerError && error.code === DUPLICATE_KEY) {
+        return (await update())?.count ?? 1;
+      }
+      throw error;
+    }
+  }
+}
+
+export function getRateLimitCollection(client: MongoClient) {
+  return client
+    .db(CONFIG.DATABASE_NAME)
+    .collection<RateLimitWindow>(CONFIG.RATE_LIMIT_COLLECTION_NAME);
+}
+
+/**
+ * Creates the TTL index that removes expired windows
+ */
+export async function ensureRateLimitIndexes(
+  collection: Collection<RateLimitWindow>
+): Promise<void> {
+  await collection.createIndex({ expires_at: 1 }, { expireAfterSeconds: 0 });
+}
+
+export const RATE_LIMIT_STORES = ["memory", "mongo"];
+
+/**
+ * Creates the store named by RATE_LIMIT_STORE
+ * @throws ConfigurationError for unknown store names
+ */
+export function createRateLimitStore(
+  client: MongoClient,
+  store: string = CONFIG.RATE_LIMIT_STORE
+): RateLimitStore {
+  switch (store) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    case "mongo":
+      return new MongoRateLimitStore(getRateLimitCollection(client));
+    default:
+      throw new ConfigurationError(
+        `Unknown RATE_LIMIT_STORE "${store}"; use ${RATE_LIMIT_STORES.join(" or ")}`
+      );
+  }
+}
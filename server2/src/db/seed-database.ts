@@ -1,205 +1,151 @@
-import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
+import { readFile } from "fs/promises";
+import { parseArgs } from "util";
 import { JsonOutputParser } from "@langchain/core/output_parsers";
-import { QdrantClient } from "@qdrant/js-client-rest";
 import { MongoClient } from "mongodb";
 import { z } from "zod";
 import "dotenv/config";
 import { logger } from "../utils/logger";
+import { CONFIG } from "../agent/config/config";
+import { createChatModel } from "../agent/providers/chat-models";
+import { createEmbeddingModel } from "../agent/providers/embeddings";
+import { Employee } from "./employee";
+import { createEmployeeVectorIndex, indexEmployees } from "./vector-index";
+import { ensureEmployeeTextIndex } from "./keyword-search";
+import { ensureEmployeeIdIndex } from "./employee-store";
+import { ensureReportingManagerIndex } from "./org-chart";
+import { generateEmployees, SyntheticOrgOptions } from "./synthetic-data";
 
 const client = new MongoClient(process.env.MONGODB_ATLAS_URI as string);
 
-const llm = new ChatOpenAI({
-  modelName: "gpt-4o-mini",
-  temperature: 0.7,
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-const EmployeeSchema = z.object({
-  employee_id: z.string(),
-  first_name: z.string(),
-  last_name: z.string(),
-  date_of_birth: z.string(),
-  address: z.object({
-    street: z.string(),
-    city: z.string(),
-    state: z.string(),
-    postal_code: z.string(),
-    country: z.string(),
-  }),
-  contact_details: z.object({
-    email: z.string().email(),
-    phone_number: z.string(),
-  }),
-  job_details: z.object({
-    job_title: z.string(),
-    department: z.string(),
-    hire_date: z.string(),
-    employment_type: z.string(),
-    salary: z.number(),
-    currency: z.string(),
-  }),
-  work_location: z.object({
-    nearest_office: z.string(),
-    is_remote: z.boolean(),
-  }),
-  reporting_manager: z.string().nullable(),
-  skills: z.array(z.string()),
-  performance_reviews: z.array(
-    z.object({
-      review_date: z.string(),
-      rating: z.number(),
-      comments: z.string(),
-    })
-  ),
-  benefits: z.object({
-    health_insurance: z.string(),
-    retirement_plan: z.string(),
-    paid_time_off: z.number(),
-  }),
-  emergency_contact: z.object({
-    name: z.string(),
-    relationship: z.string(),
-    phone_number: z.string(),
-  }),
-  notes: z.string(),
-});
-
-type Employee = z.infer<typeof EmployeeSchema>;
-
-const parser = new JsonOutputParser();
-
-async function generateSyntheticData(): Promise<Employee[]> {
-  const prompt = `You are a helpful assistant that generates employee data. Generate 20 fictional employee records with EXACTLY these field structures:
-
-Each employee must have:
-- employee_id: string (like "E001")
-- first_name: string
-- last_name: string
-- date_of_birth: string (YYYY-MM-DD format)
-- address: object with {street: string, city: string, state: string, postal_code: string, country: string}
-- contact_details: object with {email: string, phone_number: string}
-- job_details: object with {job_title: string, department: string, hire_date: string (YYYY-MM-DD), employment_type: string, salary: number, currency: string}
-- work_location: object with {nearest_office: string, is_remote: boolean}
-- reporting_manager: string or null
-- skills: array of strings
-- performance_reviews: array of objects with {review_date: string (YYYY-MM-DD), rating: number, comments: string}
-- benefits: object with {health_insurance: string, retirement_plan: string, paid_time_off: number}
-- emergency_contact: object with {name: string, relationship: string, phone_number: string}
-- notes: string
-
-Ensure variety in departments, job titles, and realistic values. Return ONLY a valid JSON array of employee objects with no additional text or formatting.`;
-
-  logger.info("Generating synthetic data...");
-
-  const response = await llm.invoke(prompt);
-  const content = response.content as string;
-
-  // Extract JSON from markdown code blocks if present
-  let jsonString = content;
-  const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/);
-  if (jsonMatch) {
-    jsonString = jsonMatch[1];
-  } else {
-    // Try to find JSON array directly
-    const arrayMatch = content.match(/\[[\s\S]*\]/);
-    if (arrayMatch) {
-      jsonString = arrayMatch[0];
-    }
-  }
+// Employees described to the model per notes request
+const NOTES_BATCH_SIZE = 20;
 
-  // Parse the JSON response
-  let parsed;
-  try {
-    parsed = JSON.parse(jsonString);
-  } catch (error) {
-   logger.error("Failed to parse LLM response as JSON:", error);
-   logger.debug("Extracted content:", jsonString);
-   logger.debug("Raw content:", content);
-    throw new Error("LLM did not return valid JSON");
-  }
+// Documents per insertMany call
+const INSERT_BATCH_SIZE = 1000;
+
+const NotesSchema = z.record(z.string(), z.string());
 
-  return z.array(EmployeeSchema).parse(parsed);
+/**
+ * Asks the seed model to rewrite the generated notes. Only notes change, so
+ * the records stay valid and reproducible apart from this text; a batch the
+ * model gets wrong keeps its generated notes.
+ */
+async function enrichNotes(employees: Employee[]): Promise<void> {
+  const llm = createChatModel({
+    provider: CONFIG.SEED_MODEL_PROVIDER,
+    model: CONFIG.SEED_MODEL_NAME,
+    temperature: CONFIG.SEED_MODEL_TEMPERATURE,
+  });
+  const parser = new JsonOutputParser();
+
+  for (let i = 0; i < employees.length; i += NOTES_BATCH_SIZE) {
+    const batch = employees.slice(i, i + NOTES_BATCH_SIZE);
+    const profiles = batch.map((employee) => ({
+      employee_id: employee.employee_id,
+      job_title: employee.job_details.job_title,
+      department: employee.job_details.department,
+      skills: employee.skills,
+      latest_rating: employee.performance_reviews[0]?.rating ?? null,
+    }));
+    const prompt = `Write one or two sentences of HR notes for each of these fictional employees. Mention their strengths or current focus; do not invent personal data. Return ONLY a JSON object mapping each employee_id to its notes.
+
+${JSON.stringify(profiles)}`;
+
+    try {
+      const notes = NotesSchema.parse(
+        await parser.invoke(await llm.invoke(prompt))
+      );
+      for (const employee of batch) {
+        employee.notes = notes[employee.employee_id] ?? employee.notes;
+      }
+    } catch (error) {
+      logger.warn(
+        `Keeping generated notes for ${batch[0].employee_id}-${batch[batch.length - 1].employee_id}:`,
+        error
+      );
+    }
+  }
 }
 
-async function createEmployeeSummary(employee: Employee): Promise<string> {
-  return new Promise((resolve) => {
-    const jobDetails = `${employee.job_details.job_title} in ${employee.job_details.department}`;
-    const skills = employee.skills.join(", ");
-    const performanceReviews = employee.performance_reviews
-      .map(
-        (review) =>
-          `Rated ${review.rating} on ${review.review_date}: ${review.comments}`
-      )
-      .join(" ");
-    const basicInfo = `${employee.first_name} ${employee.last_name}, born on ${employee.date_of_birth}`;
-    const workLocation = `Works at ${employee.work_location.nearest_office}, Remote: ${employee.work_location.is_remote}`;
-    const notes = employee.notes;
-
-    const summary = `${basicInfo}. Job: ${jobDetails}. Skills: ${skills}. Reviews: ${performanceReviews}. Location: ${workLocation}. Notes: ${notes}`;
-
-    resolve(summary);
+// Reads the org shape from --org, with --count and --seed on top
+async function readOrgOptions(): Promise<{
+  options: SyntheticOrgOptions;
+  llmNotes: boolean;
+}> {
+  const { values } = parseArgs({
+    options: {
+      count: { type: "string" },
+      seed: { type: "string" },
+      org: { type: "string" },
+      "llm-notes": { type: "boolean", default: false },
+    },
   });
+  const options: SyntheticOrgOptions = values.org
+    ? JSON.parse(await readFile(values.org, "utf8"))
+    : {};
+  if (values.count) options.count = Number(values.count);
+  if (values.seed) options.seed = Number(values.seed);
+  return { options, llmNotes: values["llm-notes"] };
 }
 
 async function seedDatabase(): Promise<void> {
   try {
+    const { options, llmNotes } = await readOrgOptions();
+    const employees = generateEmployees(options);
+    logger.info(`Generated ${employees.length} employees`);
+    if (llmNotes) {
+      logger.info("Enriching notes with the seed model...");
+      await enrichNotes(employees);
+    }
+
     await client.connect();
     await client.db("admin").command({ ping: 1 });
     logger.info(
       "Pinged your deployment. You successfully connected to MongoDB!"
     );
 
-    const db = client.db("hr_database");
-    const collection = db.collection("employees");
+    const db = client.db(CONFIG.DATABASE_NAME);
+    const collection = db.collection(CONFIG.EMPLOYEES_COLLECTION_NAME);
 
     await collection.deleteMany({});
 
-    const syntheticData = await generateSyntheticData();
-
-    // Store full employee data in MongoDB
-    await collection.insertMany(syntheticData);
+    // Store full employee data in MongoDB; insertMany adds _id to the
+    // documents it is given, so it gets copies
+    for (let i = 0; i < employees.length; i += INSERT_BATCH_SIZE) {
+      await collection.insertMany(
+        employees
+          .slice(i, i + INSERT_BATCH_SIZE)
+          .map((employee) => ({ ...employee }))
+      );
+    }
+    await ensureEmployeeTextIndex(collection);
+    await ensureEmployeeIdIndex(collection);
+    await ensureReportingManagerIndex(collection);
     logger.info("Employee data stored in MongoDB");
 
     // Initialize embeddings
-    const embeddings = new OpenAIEmbeddings();
+    const { embeddings, dimensions } = createEmbeddingModel();
 
-    // Initialize Qdrant client
-    const qdrantClient = new QdrantClient({
-      url: process.env.QDRANT_URL,
-      apiKey: process.env.QDRANT_API_KEY,
-    });
+    // Recreate the vector index so it matches the new data and dimensions
+    const vectorIndex = createEmployeeVectorIndex(client, dimensions);
+    await vectorIndex.ensureIndex({ recreate: true });
 
-    // Create collection if it doesn't exist
-    try {
-      await qdrantClient.createCollection("employees", {
-        vectors: { size: 1536, distance: "Cosine" }, // OpenAI embeddings are 1536 dimensions
-      });
-    } catch (error) {
-      // Collection might already exist
-      logger.warn("Collection might already exist:", error);
+    if (vectorIndex.backend === "memory") {
+      logger.warn(
+        "The memory vector index is not persisted; the server rebuilds it from MongoDB on startup"
+      );
     }
 
-    // Prepare points for Qdrant
-    const points = [];
-    for (let i = 0; i < syntheticData.length; i++) {
-      const record = syntheticData[i];
-      const summary = await createEmployeeSummary(record);
-      const embedding = await embeddings.embedQuery(summary);
-
-      points.push({
-        id: i + 1, // Use index as ID
-        vector: embedding,
-        payload: {
-          employee_id: record.employee_id,
-          summary: summary,
-        },
-      });
+    let indexed = 0;
+    for (let i = 0; i < employees.length; i += CONFIG.EMBEDDING_BATCH_SIZE) {
+      indexed += await indexEmployees(
+        vectorIndex,
+        embeddings,
+        employees.slice(i, i + CONFIG.EMBEDDING_BATCH_SIZE)
+      );
     }
 
-    // Upsert points to Qdrant
-    await qdrantClient.upsert("employees", { points });
-
-    logger.info("Vector data stored in Qdrant");
+    logger.info(`${indexed} vectors stored in ${vectorIndex.backend} index`);
     logger.info("Database seeding completed");
   } catch (error) {
     logger.error("Error seeding database:", error);
@@ -0,0 +1,497 @@
+import { z } from "zod";
+import { Employee } from "./employee";
+
+// Where employees work; the office decides address and salary currency
+const OfficeSchema = z.object({
+  name: z.string(),
+  city: z.string(),
+  state: z.string(),
+  postal_code: z.string(),
+  country: z.string(),
+  currency: z.string(),
+  weight: z.number().positive().default(1),
+});
+
+const WeightedSkillSchema = z.object({
+  name: z.string(),
+  weight: z.number().positive().default(1),
+});
+
+const DepartmentSchema = z.object({
+  name: z.string(),
+  // Share of the org, relative to the other departments
+  weight: z.number().positive(),
+  // Titles of individual contributors; heads and managers are derived
+  job_titles: z.array(z.string()).min(1),
+  skills: z.array(WeightedSkillSchema).min(1),
+  // Yearly salary of an individual contributor before level and spread
+  base_salary: z.number().positive(),
+});
+
+const DEFAULT_OFFICES: z.output<typeof OfficeSchema>[] = [
+  {
+    name: "New York",
+    city: "New York",
+    state: "NY",
+    postal_code: "10001",
+    country: "USA",
+    currency: "USD",
+    weight: 3,
+  },
+  {
+    name: "San Francisco",
+    city: "San Francisco",
+    state: "CA",
+    postal_code: "94105",
+    country: "USA",
+    currency: "USD",
+    weight: 2,
+  },
+  {
+    name: "London",
+    city: "London",
+    state: "England",
+    postal_code: "EC1A 1BB",
+    country: "UK",
+    currency: "GBP",
+    weight: 2,
+  },
+  {
+    name: "Berlin",
+    city: "Berlin",
+    state: "Berlin",
+    postal_code: "10115",
+    country: "Germany",
+    currency: "EUR",
+    weight: 1,
+  },
+];
+
+const DEFAULT_DEPARTMENTS: z.output<typeof DepartmentSchema>[] = [
+  {
+    name: "Engineering",
+    weight: 40,
+    job_titles: [
+      "Software Engineer",
+      "Senior Software Engineer",
+      "iOS Developer",
+      "Data Engineer",
+      "DevOps Engineer",
+      "QA Engineer",
+    ],
+    skills: [
+      { name: "JavaScript", weight: 5 },
+      { name: "TypeScript", weight: 5 },
+      { name: "Python", weight: 4 },
+      { name: "Go", weight: 2 },
+      { name: "Java", weight: 2 },
+      { name: "Swift", weight: 1 },
+      { name: "Kotlin", weight: 1 },
+      { name: "SQL", weight: 3 },
+      { name: "AWS", weight: 3 },
+      { name: "Kubernetes", weight: 2 },
+      { name: "React", weight: 3 },
+    ],
+    base_salary: 110000,
+  },
+  {
+    name: "Sales",
+    weight: 20,
+    job_titles: ["Account Executive", "Sales Representative", "Sales Engineer"],
+    skills: [
+      { name: "Negotiation", weight: 4 },
+      { name: "Salesforce", weight: 3 },
+      { name: "Lead Generation", weight: 3 },
+      { name: "Presentation", weight: 2 },
+      { name: "CRM", weight: 2 },
+    ],
+    base_salary: 75000,
+  },
+  {
+    name: "Marketing",
+    weight: 12,
+    job_titles: ["Marketing Specialist", "Content Writer", "SEO Analyst"],
+    skills: [
+      { name: "SEO", weight: 3 },
+      { name: "Copywriting", weight: 3 },
+      { name: "Google Analytics", weight: 2 },
+      { name: "Social Media", weight: 2 },
+      { name: "Brand Strategy", weight: 1 },
+    ],
+    base_salary: 70000,
+  },
+  {
+    name: "Finance",
+    weight: 10,
+    job_titles: ["Financial Analyst", "Accountant", "Controller"],
+    skills: [
+      { name: "Excel", weight: 4 },
+      { name: "Financial Modeling", weight: 3 },
+      { name: "SAP", weight: 2 },
+      { name: "Forecasting", weight: 2 },
+      { name: "SQL", weight: 1 },
+    ],
+    base_salary: 85000,
+  },
+  {
+    name: "Human Resources",
+    weight: 8,
+    job_titles: ["HR Generalist", "Recruiter", "HR Business Partner"],
+    skills: [
+      { name: "Recruiting", weight: 3 },
+      { name: "Employee Relations", weight: 3 },
+      { name: "Workday", weight: 2 },
+      { name: "Compensation", weight: 1 },
+    ],
+    base_salary: 68000,
+  },
+  {
+    name: "Operations",
+    weight: 10,
+    job_titles: ["Operations Analyst", "Project Manager", "Office Manager"],
+    skills: [
+      { name: "Project Management", weight: 3 },
+      { name: "Process Improvement", weight: 2 },
+      { name: "Jira", weight: 2 },
+      { name: "Vendor Management", weight: 1 },
+    ],
+    base_salary: 72000,
+  },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Shape of an org to generate; every field has a default
+export const SyntheticOrgSchema = z.object({
+  count: z.number().int().min(20).max(50000).default(20),
+  seed: z.number().int().default(1),
+  // Ages, hire dates and review histories are computed up to this day
+  reference_date: z.string().regex(DATE_PATTERN).default("2025-01-01"),
+  departments: z.array(DepartmentSchema).min(1).default(DEFAULT_DEPARTMENTS),
+  offices: z.array(OfficeSchema).min(1).default(DEFAULT_OFFICES),
+  remote_ratio: z.number().min(0).max(1).default(0.2),
+  skills_per_employee: z
+    .object({
+      min: z.number().int().min(0),
+      max: z.number().int().min(0),
+    })
+    .refine(({ min, max }) => min <= max, "min must not exceed max")
+    .default({ min: 2, max: 5 }),
+  reviews: z
+    .object({
+      // Yearly reviews, counting back from the last hire anniversary
+      max_per_employee: z.number().int().min(0).max(20),
+      // Relative frequency of ratings 1 to 5
+      rating_weights: z.array(z.number().nonnegative()).length(5),
+    })
+    .default({ max_per_employee: 3, rating_weights: [1, 3, 10, 12, 5] }),
+  // Span of control: reports per manager before another manager is used
+  max_direct_reports: z.number().int().min(2).max(50).default(8),
+});
+
+export type SyntheticOrgOptions = z.input<typeof SyntheticOrgSchema>;
+
+type SyntheticOrg = z.output<typeof SyntheticOrgSchema>;
+
+const FIRST_NAMES = (
+  "Olivia Liam Emma Noah Ava Elijah Sophia James Isabella Lucas Mia " +
+  "Mateo Amelia Henry Harper Aiden Evelyn Kai Aria Ravi Priya Wei " +
+  "Mei Hiro Yuki Fatima Omar Leila Diego Lucia Jonas Lena Kwame " +
+  "Amara Sven Ingrid Mateus Ana Tariq Noor"
+).split(" ");
+
+const LAST_NAMES = (
+  "Smith Johnson Williams Brown Jones Garcia Miller Davis Rodriguez " +
+  "Martinez Lopez Wilson Anderson Thomas Taylor Moore Lee Patel Khan " +
+  "Chen Wang Kim Nguyen Tanaka Sato Muller Schmidt Fischer Rossi " +
+  "Silva Okafor Mensah Haddad Novak Larsen Berg Costa Ali Cohen " +
+  "Murphy"
+).split(" ");
+
+const STREET_NAMES = (
+  "Main St,Oak Ave,Maple Dr,Park Rd,Cedar Ln,Elm St,Lake View," +
+  "Hill Rd,River St,Station Rd"
+).split(",");
+
+const RELATIONSHIPS = ["Spouse", "Partner", "Parent", "Sibling", "Friend"];
+
+const EMPLOYMENT_TYPES = [
+  { name: "Full-time", weight: 85 },
+  { name: "Part-time", weight: 10 },
+  { name: "Contract", weight: 5 },
+];
+
+const HEALTH_PLANS = ["Basic", "Standard", "Premium"];
+
+// Review comments by rating, 1 to 5
+const REVIEW_COMMENTS = [
+  ["Did not meet expectations", "Needs a performance improvement plan"],
+  ["Partially met expectations", "Needs support on delivery"],
+  ["Met expectations", "Solid and reliable contributor"],
+  ["Exceeded expectations", "Strong impact on the team"],
+  ["Outstanding performance", "Role model for the department"],
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32). The same
+ * seed always yields the same sequence of numbers in [0, 1).
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Draws values from a seeded generator
+class Picker {
+  constructor(private readonly random: () => number) {}
+
+  int(min: number, max: number): number {
+    return min + Math.floor(this.random() * (max - min + 1));
+  }
+
+  chance(probability: number): boolean {
+    return this.random() < probability;
+  }
+
+  one<T>(items: readonly T[]): T {
+    return items[Math.floor(this.random() * items.length)];
+  }
+
+  weighted<T extends { weight: number }>(items: readonly T[]): T {
+    const total = items.reduce((sum, item) => sum + item.weight, 0);
+    let target = this.random() * total;
+    for (const item of items) {
+      target -= item.weight;
+      if (target < 0) return item;
+    }
+    return items[items.length - 1];
+  }
+
+  // Picks up to `count` distinct items, favouring heavier ones
+  weightedSample<T extends { weight: number }>(
+    items: readonly T[],
+    count: number
+  ): T[] {
+    const remaining = [...items];
+    const picked: T[] = [];
+    while (picked.length < count && remaining.length) {
+      const item = this.weighted(remaining);
+      picked.push(item);
+      remaining.splice(remaining.indexOf(item), 1);
+    }
+    return picked;
+  }
+
+  digits(length: number): string {
+    return Array.from({ length }, () => this.int(0, 9)).join("");
+  }
+}
+
+/**
+ * Splits `total` into whole shares proportional to the weights, handing
+ * the remainder to the largest fractions
+ */
+export function apportion(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((a, b) => a + b, 0);
+  const exact = weights.map((weight) => (weight / sum) * total);
+  const shares = exact.map(Math.floor);
+  const order = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+  let left = total - shares.reduce((a, b) => a + b, 0);
+  for (const { index } of order) {
+    if (left-- <= 0) break;
+    shares[index]++;
+  }
+  return shares;
+}
+
+const formatDate = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+const addYears = (date: string, years: number) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return formatDate(Date.UTC(year + years, month - 1, Math.min(day, 28)));
+};
+
+// One generated employee before its record is built
+interface Slot {
+  department?: SyntheticOrg["departments"][number];
+  managerIndex: number | null;
+  reports: number;
+  level: "ceo" | "head" | "manager" | "individual";
+}
+
+/**
+ * Lays out the reporting tree. Index 0 is the CEO, each department's head
+ * reports to the CEO and everyone else to an earlier member of their
+ * department, filling managers up to the span of control breadth first.
+ * Managers always come before their reports, so the tree has no cycles.
+ */
+function layOutOrg(org: SyntheticOrg): Slot[] {
+  const slots: Slot[] = [{ managerIndex: null, reports: 0, level: "ceo" }];
+  const sizes = apportion(
+    org.count - 1,
+    org.departments.map((department) => department.weight)
+  );
+  org.departments.forEach((department, d) => {
+    // Members of this department that can still take reports
+    const open: number[] = [];
+    for (let i = 0; i < sizes[d]; i++) {
+      const managerIndex = i === 0 ? 0 : open[0];
+      const slot: Slot = {
+        department,
+        managerIndex,
+        reports: 0,
+        level: i === 0 ? "head" : "individual",
+      };
+      const manager = slots[managerIndex];
+      manager.reports++;
+      if (manager.level === "individual") manager.level = "manager";
+      if (i > 0 && manager.reports >= org.max_direct_reports) open.shift();
+      open.push(slots.length);
+      slots.push(slot);
+    }
+  });
+  return slots;
+}
+
+const SALARY_LEVELS: Record<Slot["level"], number> = {
+  ceo: 3,
+  head: 1.8,
+  manager: 1.35,
+  individual: 1,
+};
+
+/**
+ * Generates a synthetic org that passes EmployeeSchema, without network
+ * access. The same options and seed always give the same records.
+ * `reporting_manager` always names an earlier employee, so every manager
+ * exists and the hierarchy has a single root and no cycles.
+ * @param options - Org size, seed and distributions; see SyntheticOrgSchema
+ * @throws ZodError if the options are invalid
+ */
+export function generateEmployees(
+  options: SyntheticOrgOptions = {}
+): Employee[] {
+  const org = SyntheticOrgSchema.parse(options);
+  const pick = new Picker(createRandom(org.seed));
+  const idWidth = Math.max(3, String(org.count).length);
+  const employeeId = (index: number) =>
+    `E${String(index + 1).padStart(idWidth, "0")}`;
+  const referenceMs = Date.parse(org.reference_date);
+
+  return layOutOrg(org).map((slot, index): Employee => {
+    const id = employeeId(index);
+    const first = pick.one(FIRST_NAMES);
+    const last = pick.one(LAST_NAMES);
+    const office = pick.weighted(org.offices);
+    const department = slot.department?.name ?? "Executive";
+
+    const age = pick.int(22, 64);
+    const birthMs = referenceMs - (age * 365 + pick.int(0, 364)) * DAY_MS;
+    // Hired at 21 or later, within the last 20 years
+    const earliestHireMs = Math.max(
+      birthMs + 21 * 365 * DAY_MS,
+      referenceMs - 20 * 365 * DAY_MS
+    );
+    const hireMs = pick.int(earliestHireMs, referenceMs);
+    const hireDate = formatDate(hireMs);
+
+    const jobTitle =
+      slot.level === "ceo"
+        ? "Chief Executive Officer"
+        : slot.level === "head"
+          ? `Head of ${department}`
+          : slot.level === "manager"
+            ? `${department} Manager`
+            : pick.one(slot.department!.job_titles);
+    const baseSalary = slot.department?.base_salary ?? 150000;
+    const spread = pick.int(85, 125) / 100;
+    const salary =
+      Math.round((baseSalary * SALARY_LEVELS[slot.level] * spread) / 500) * 500;
+
+    const skills = slot.department
+      ? pick
+          .weightedSample(
+            slot.department.skills,
+            pick.int(org.skills_per_employee.min, org.skills_per_employee.max)
+          )
+          .map((skill) => skill.name)
+      : ["Leadership", "Strategy"];
+
+    // One review per full year employed, most recent first
+    const yearsEmployed = Math.floor((referenceMs - hireMs) / (365 * DAY_MS));
+    const reviewCount = Math.min(yearsEmployed, org.reviews.max_per_employee);
+    const performanceReviews = Array.from({ length: reviewCount }, (_, i) => {
+      const { rating } = pick.weighted(
+        org.reviews.rating_weights.map((weight, r) => ({
+          rating: r + 1,
+          weight,
+        }))
+      );
+      return {
+        review_date: addYears(hireDate, yearsEmployed - i),
+        rating,
+        comments: pick.one(REVIEW_COMMENTS[rating - 1]),
+      };
+    });
+
+    return {
+      employee_id: id,
+      first_name: first,
+      last_name: last,
+      date_of_birth: formatDate(birthMs),
+      address: {
+        street: `${pick.int(1, 999)} ${pick.one(STREET_NAMES)}`,
+        city: office.city,
+        state: office.state,
+        postal_code: office.postal_code,
+        country: office.country,
+      },
+      contact_details: {
+        email: `${first}.${last}.${id}@example.com`.toLowerCase(),
+        phone_number: `+1-555-${pick.digits(3)}-${pick.digits(4)}`,
+      },
+      job_details: {
+        job_title: jobTitle,
+        department,
+        hire_date: hireDate,
+        employment_type:
+          slot.level === "individual"
+            ? pick.weighted(EMPLOYMENT_TYPES).name
+            : "Full-time",
+        salary,
+        currency: office.currency,
+      },
+      work_location: {
+        nearest_office: office.name,
+        is_remote: pick.chance(org.remote_ratio),
+      },
+      reporting_manager:
+        slot.managerIndex === null ? null : employeeId(slot.managerIndex),
+      skills,
+      performance_reviews: performanceReviews,
+      benefits: {
+        health_insurance: pick.one(HEALTH_PLANS),
+        retirement_plan: office.country === "USA" ? "401k" : "Pension",
+        paid_time_off: pick.int(15, 30),
+      },
+      emergency_contact: {
+        name: `${pick.one(FIRST_NAMES)} ${last}`,
+        relationship: pick.one(RELATIONSHIPS),
+        phone_number: `+1-555-${pick.digits(3)}-${pick.digits(4)}`,
+      },
+      notes: `${jobTitle} in ${department}, based in ${office.name}${
+        slot.reports ? `, managing ${slot.reports} direct reports` : ""
+      }. Joined in ${hireDate.slice(0, 4)}.`,
+    };
+  });
+}
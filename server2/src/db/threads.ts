@@ -0,0 +1,204 @@
+import { MongoClient } from "mongodb";
+import { CONFIG } from "../agent/config/config";
+import { ANONYMOUS_CALLER, Caller, Role } from "../agent/policy/caller";
+
+// Metadata kept for every conversation thread
+export interface ThreadRecord {
+  thread_id: string;
+  // Id of the user who started the thread; nobody else can see it
+  user_id: string;
+  // Role of the owner when the thread started; resumed runs apply it
+  user_role?: Role;
+  // API key the owner started the thread with; resumed runs count against it
+  user_key_id?: string;
+  title: string;
+  created_at: Date;
+  updated_at: Date;
+  // Messages in the conversation, counting tool calls and their results
+  message_count: number;
+  archived: boolean;
+}
+
+export interface ListThreadsOptions {
+  archived: boolean;
+  limit: number;
+  offset: number;
+}
+
+const MAX_TITLE_LENGTH = 60;
+
+function getThreadsCollection(client: MongoClient) {
+  return client
+    .db(CONFIG.DATABASE_NAME)
+    .collection<ThreadRecord>(CONFIG.THREADS_COLLECTION_NAME);
+}
+
+/**
+ * Derives a short title from the opening message of a conversation:
+ * whitespace is collapsed and long messages are cut at a word boundary
+ * @param query - First user message of the thread
+ */
+export function generateThreadTitle(query: string): string {
+  const text = query.replace(/\s+/g, " ").trim();
+  if (!text) {
+    return "New conversation";
+  }
+  if (text.length <= MAX_TITLE_LENGTH) {
+    return text;
+  }
+
+  // A space right after the limit still counts as a word boundary
+  const lastSpace = text.lastIndexOf(" ", MAX_TITLE_LENGTH);
+  const title = text.slice(
+    0,
+    lastSpace > MAX_TITLE_LENGTH / 2 ? lastSpace : MAX_TITLE_LENGTH
+  );
+  return `${title.replace(/[\s.,;:!?-]+$/, "")}…`;
+}
+
+/**
+ * Creates a thread owned by the user starting it, titled from its first
+ * message. Called before the first run so the owner is bound even if that
+ * run fails.
+ * @param client - MongoDB client
+ * @param threadId - The new thread identifier
+ * @param owner - Caller starting the conversation
+ * @param query - First user message of the thread
+ */
+export async function createThread(
+  client: MongoClient,
+  threadId: string,
+  owner: Caller,
+  query: string
+): Promise<void> {
+  const now = new Date();
+  await getThreadsCollection(client).insertOne({
+    thread_id: threadId,
+    user_id: owner.id,
+    user_role: owner.role,
+    ...(owner.key_id !== undefined && { user_key_id: owner.key_id }),
+    title: generateThreadTitle(query),
+    created_at: now,
+    updated_at: now,
+    message_count: 0,
+    archived: false,
+  });
+}
+
+/**
+ * Looks up a thread owned by a user
+ * @param userId - Owner to match, or null to accept any owner
+ * @returns The thread, or null if it does not exist or belongs to someone
+ * else, so callers cannot tell the two apart
+ */
+export async function findThread(
+  client: MongoClient,
+  threadId: string,
+  userId: string | null
+): Promise<ThreadRecord | null> {
+  return getThreadsCollection(client).findOne(
+    userId === null
+      ? { thread_id: threadId }
+      : { thread_id: threadId, user_id: userId },
+    { projection: { _id: 0 } }
+  );
+}
+
+/**
+ * Returns the caller a thread's runs act for. Threads recorded without a
+ * role get the least privileged one, so they fail closed.
+ */
+export const getThreadOwner = (thread: ThreadRecord): Caller => ({
+  id: thread.user_id,
+  role: thread.user_role ?? ANONYMOUS_CALLER.role,
+  ...(thread.user_key_id !== undefined && { key_id: thread.user_key_id }),
+});
+
+/**
+ * Records a completed user/assistant exchange on a thread
+ * @param client - MongoDB client
+ * @param threadId - The thread identifier
+ * @param messageCount - Messages in the thread's checkpointed state
+ */
+export async function recordThreadExchange(
+  client: MongoClient,
+  threadId: string,
+  messageCount: number
+): Promise<void> {
+  await getThreadsCollection(client).updateOne(
+    { thread_id: threadId },
+    { $set: { updated_at: new Date(), message_count: messageCount } }
+  );
+}
+
+/**
+ * Lists a user's threads, most recently updated first
+ * @param client - MongoDB client
+ * @param userId - Owner of the threads
+ * @param options - Archived filter and pagination
+ */
+export async function listThreads(
+  client: MongoClient,
+  userId: string,
+  options: ListThreadsOptions
+): Promise<{ threads: ThreadRecord[]; total: number }> {
+  const collection = getThreadsCollection(client);
+  const filter = { user_id: userId, archived: options.archived };
+  const [threads, total] = await Promise.all([
+    collection
+      .find(filter, { projection: { _id: 0 } })
+      .sort({ updated_at: -1 })
+      .skip(options.offset)
+      .limit(options.limit)
+      .toArray(),
+    collection.countDocuments(filter),
+  ]);
+  return { threads, total };
+}
+
+/**
+ * Updates the title and/or archived flag of a user's thread
+ * @returns The updated thread, or null if the user has no such thread
+ */
+export async function updateThread(
+  client: MongoClient,
+  threadId: string,
+  userId: string,
+  changes: { title?: string; archived?: boolean }
+): Promise<ThreadRecord | null> {
+  return getThreadsCollection(client).findOneAndUpdate(
+    { thread_id: threadId, user_id: userId },
+    { $set: { ...changes, updated_at: new Date() } },
+    { returnDocument: "after", projection: { _id: 0 } }
+  );
+}
+
+/**
+ * Deletes a user's thread together with every checkpoint and pending write
+ * MongoDBSaver stored for it
+ * @returns True if the thread was deleted, false if the user has no such
+ * thread
+ */
+export async function deleteThread(
+  client: MongoClient,
+  threadId: string,
+  userId: string
+): Promise<boolean> {
+  const db = client.db(CONFIG.DATABASE_NAME);
+  const { deletedCount } = await getThreadsCollection(client).deleteOne({
+    thread_id: threadId,
+    user_id: userId,
+  });
+  if (deletedCount === 0) {
+    return false;
+  }
+  await Promise.all([
+    db
+      .collection(CONFIG.CHECKPOINT_COLLECTION_NAME)
+      .deleteMany({ thread_id: threadId }),
+    db
+      .collection(CONFIG.CHECKPOINT_WRITES_COLLECTION_NAME)
+      .deleteMany({ thread_id: threadId }),
+  ]);
+  return true;
+}
@@ -0,0 +1,222 @@
+import { Collection, Filter, MongoClient } from "mongodb";
+import { CONFIG } from "../agent/config/config";
+import { Caller, Role } from "../agent/policy/caller";
+import {
+  checkQuota,
+  getQuota,
+  ModelUsage,
+  startOfUtcDay,
+  UsageMeter,
+  UsageTotals,
+} from "../agent/usage";
+
+// Token usage and cost of one chat, continue or resume request
+export interface UsageRecord extends UsageTotals {
+  request_id: string;
+  thread_id: string;
+  user_id: string;
+  role: Role;
+  // Fingerprint of the API key used, absent for JWT callers
+  key_id?: string;
+  at: Date;
+  models: ModelUsage[];
+}
+
+export const USAGE_GROUPS = ["day", "thread", "user", "key"] as const;
+
+export type UsageGroup = (typeof USAGE_GROUPS)[number];
+
+export interface UsageReportOptions {
+  group_by: UsageGroup;
+  // Inclusive range of UTC days
+  from: Date;
+  to: Date;
+  user_id?: string;
+  thread_id?: string;
+  limit: number;
+}
+
+export interface UsageReportRow extends UsageTotals {
+  // Day as YYYY-MM-DD, thread id, user id or key fingerprint
+  group: string;
+  requests: number;
+}
+
+// Value each report group is keyed by
+const GROUP_KEYS: Record<UsageGroup, unknown> = {
+  day: { $dateToString: { format: "%Y-%m-%d", date: "$at" } },
+  thread: "$thread_id",
+  user: "$user_id",
+  key: { $ifNull: ["$key_id", "jwt"] },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getUsageCollection(client: MongoClient) {
+  return client
+    .db(CONFIG.DATABASE_NAME)
+    .collection<UsageRecord>(CONFIG.USAGE_COLLECTION_NAME);
+}
+
+/**
+ * Creates the indexes quota checks and reports filter on
+ */
+export async function ensureUsageIndexes(
+  collection: Collection<UsageRecord>
+): Promise<void> {
+  await collection.createIndex({ user_id: 1, at: -1 });
+  await collection.createIndex({ key_id: 1, at: -1 });
+  await collection.createIndex({ at: -1 });
+  await collection.createIndex({ thread_id: 1 });
+}
+
+/**
+ * Stores what a request used, attributed to its thread, user and API key.
+ * Requests that made no model or embeddings call are not stored.
+ * @returns The stored record, or null if nothing was used
+ */
+export async function saveUsage(
+  collection: Collection<UsageRecord>,
+  meter: UsageMeter,
+  request: { request_id: string; thread_id: string; caller: Caller }
+): Promise<UsageRecord | null> {
+  const models = meter.entries;
+  if (!models.length) {
+    return null;
+  }
+  const { caller } = request;
+  const record: UsageRecord = {
+    request_id: request.request_id,
+    thread_id: request.thread_id,
+    user_id: caller.id,
+    role: caller.role,
+    ...(caller.key_id && { key_id: caller.key_id }),
+    at: new Date(),
+    ...meter.totals,
+    models,
+  };
+  // insertOne adds _id to the document it is given
+  await collection.insertOne({ ...record });
+  return record;
+}
+
+/**
+ * Selects the usage a caller's quota counts: each API key has its own
+ * budget, and JWT callers share one per user across their tokens
+ */
+export const quotaScope = (caller: Caller): Filter<UsageRecord> =>
+  caller.key_id !== undefined
+    ? { key_id: caller.key_id }
+    : { user_id: caller.id, key_id: { $exists: false } };
+
+/**
+ * Adds up the usage a quota counts since a point in time
+ * @param collection - Usage collection
+ * @param scope - The requests that count, from quotaScope
+ * @param since - Start of the period, usually midnight UTC
+ */
+export async function sumUsage(
+  collection: Collection<UsageRecord>,
+  scope: Filter<UsageRecord>,
+  since: Date
+): Promise<UsageTotals & { requests: number }> {
+  const [totals] = await collection
+    .aggregate<UsageTotals & { requests: number }>([
+      { $match: { ...scope, at: { $gte: since } } },
+      {
+        $group: {
+          _id: null,
+          requests: { $sum: 1 },
+          input_tokens: { $sum: "$input_tokens" },
+          output_tokens: { $sum: "$output_tokens" },
+          total_tokens: { $sum: "$total_tokens" },
+          cost_usd: { $sum: "$cost_usd" },
+        },
+      },
+      { $project: { _id: 0 } },
+    ])
+    .toArray();
+  return (
+    totals ?? {
+      requests: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      total_tokens: 0,
+      cost_usd: 0,
+    }
+  );
+}
+
+/**
+ * Rejects a caller who has used up a daily quota before a new run starts
+ * @throws QuotaExceededError once the caller's token or cost quota is used
+ */
+export async function enforceUsageQuota(
+  collection: Collection<UsageRecord>,
+  caller: Caller,
+  now: Date = new Date()
+): Promise<void> {
+  const quota = getQuota(caller);
+  if (!quota.tokens && !quota.cost_usd) {
+    return;
+  }
+  checkQuota(
+    await sumUsage(collection, quotaScope(caller), startOfUtcDay(now)),
+    quota,
+    now
+  );
+}
+
+/**
+ * Totals usage per day, thread, user or API key over a range of days,
+ * busiest first except for days, which run oldest first
+ * @param collection - Usage collection
+ * @param options - Grouping, day range and optional user or thread filter
+ */
+export async function reportUsage(
+  collection: Collection<UsageRecord>,
+  options: UsageReportOptions
+): Promise<UsageReportRow[]> {
+  const filter: Filter<UsageRecord> = {
+    at: {
+      $gte: startOfUtcDay(options.from),
+      $lt: new Date(startOfUtcDay(options.to).getTime() + DAY_MS),
+    },
+  };
+  if (options.user_id) filter.user_id = options.user_id;
+  if (options.thread_id) filter.thread_id = options.thread_id;
+
+  return collection
+    .aggregate<UsageReportRow>([
+      { $match: filter },
+      {
+        $group: {
+          _id: GROUP_KEYS[options.group_by],
+          requests: { $sum: 1 },
+          input_tokens: { $sum: "$input_tokens" },
+          output_tokens: { $sum: "$output_tokens" },
+          total_tokens: { $sum: "$total_tokens" },
+          cost_usd: { $sum: "$cost_usd" },
+        },
+      },
+      {
+        $sort:
+          options.group_by === "day"
+            ? { _id: 1 }
+            : { cost_usd: -1, total_tokens: -1, _id: 1 },
+      },
+      { $limit: options.limit },
+      {
+        $project: {
+          _id: 0,
+          group: "$_id",
+          requests: 1,
+          input_tokens: 1,
+          output_tokens: 1,
+          total_tokens: 1,
+          cost_usd: { $round: ["$cost_usd", 6] },
+        },
+      },
+    ])
+    .toArray();
+}
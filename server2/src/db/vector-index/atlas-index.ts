@@ -0,0 +1,111 @@
+import { Collection } from "mongodb";
+import { logger } from "../../utils/logger";
+import {
+  EmployeeVectorIndex,
+  EmployeeVectorMatch,
+  EmployeeVectorPoint,
+  EnsureIndexOptions,
+} from "./types";
+
+interface EmployeeVectorDocument {
+  employee_id: string;
+  summary: string;
+  embedding: number[];
+}
+
+/**
+ * Vector index stored in a MongoDB collection and queried with Atlas Vector
+ * Search ($vectorSearch). Requires an Atlas cluster.
+ */
+export class AtlasEmployeeVectorIndex implements EmployeeVectorIndex {
+  readonly backend = "atlas";
+
+  constructor(
+    private collection: Collection<EmployeeVectorDocument>,
+    private indexName: string,
+    readonly dimensions: number
+  ) {}
+
+  async ensureIndex(options: EnsureIndexOptions = {}): Promise<void> {
+    if (options.recreate) {
+      await this.collection.deleteMany({});
+    }
+    await this.collection.createIndex({ employee_id: 1 }, { unique: true });
+
+    const existing = await this.collection
+      .listSearchIndexes(this.indexName)
+      .toArray();
+    if (existing.length > 0) return;
+
+    await this.collection.createSearchIndex({
+      name: this.indexName,
+      type: "vectorSearch",
+      definition: {
+        fields: [
+          {
+            type: "vector",
+            path: "embedding",
+            numDimensions: this.dimensions,
+            similarity: "cosine",
+          },
+        ],
+      },
+    });
+    logger.info(
+      `Created Atlas vector search index "${this.indexName}" (${this.dimensions} dimensions)`
+    );
+  }
+
+  async upsert(points: EmployeeVectorPoint[]): Promise<void> {
+    if (points.length === 0) return;
+    await this.collection.bulkWrite(
+      points.map((point) => ({
+        replaceOne: {
+          filter: { employee_id: point.employee_id },
+          replacement: {
+            employee_id: point.employee_id,
+            summary: point.summary,
+            embedding: point.vector,
+          },
+          upsert: true,
+        },
+      }))
+    );
+  }
+
+  async search(
+    vector: number[],
+    limit: number
+  ): Promise<EmployeeVectorMatch[]> {
+    return this.collection
+      .aggregate<EmployeeVectorMatch>([
+        {
+          $vectorSearch: {
+            index: this.indexName,
+            path: "embedding",
+            queryVector: vector,
+            numCandidates: Math.max(limit * 10, 100),
+            limit,
+          },
+        },
+        {
+          $project: {
+            _id: 0,
+            employee_id: 1,
+            summary: 1,
+            score: { $meta: "vectorSearchScore" },
+          },
+        },
+      ])
+      .toArray();
+  }
+
+  async delete(employeeIds: string[]): Promise<void> {
+    if (employeeIds.length === 0) return;
+    await this.collection.deleteMany({ employee_id: { $in: employeeIds } });
+  }
+
+  async count(): Promise<number> {
+    return this.collection.countDocuments();
+  }
+}
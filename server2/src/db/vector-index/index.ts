@@ -0,0 +1,115 @@
+import { QdrantClient } from "@qdrant/js-client-rest";
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { MongoClient } from "mongodb";
+import { CONFIG } from "../../agent/config/config";
+import { ConfigurationError } from "../../agent/config/errors";
+import { createEmployeeSummary, Employee } from "../employee";
+import { AtlasEmployeeVectorIndex } from "./atlas-index";
+import { InMemoryEmployeeVectorIndex } from "./memory-index";
+import { MeteredEmployeeVectorIndex } from "./metered-index";
+import { QdrantEmployeeVectorIndex } from "./qdrant-index";
+import { EmployeeVectorIndex } from "./types";
+
+export * from "./types";
+export { pointIdForEmployee } from "./qdrant-index";
+
+// Environment variables needed by each backend, keyed by VECTOR_INDEX_BACKEND
+const REQUIRED_ENV: Record<string, string[]> = {
+  qdrant: ["QDRANT_URL", "QDRANT_API_KEY"],
+  atlas: [],
+  memory: [],
+};
+
+// The in-memory index lives for the whole process so every caller shares it
+let memoryIndex: EmployeeVectorIndex | undefined;
+
+/**
+ * Creates the employee vector index for the configured backend, with its
+ * operations timed for /metrics
+ * @param client - MongoDB client (used by the Atlas backend)
+ * @param dimensions - Vector size produced by the embeddings provider
+ * @param backend - Backend name, defaults to VECTOR_INDEX_BACKEND
+ * @throws ConfigurationError if the backend is unknown
+ */
+export function createEmployeeVectorIndex(
+  client: MongoClient,
+  dimensions: number,
+  backend: string = CONFIG.VECTOR_INDEX_BACKEND
+): EmployeeVectorIndex {
+  switch (backend) {
+    case "qdrant":
+      return new MeteredEmployeeVectorIndex(
+        new QdrantEmployeeVectorIndex(
+          new QdrantClient({
+            url: process.env.QDRANT_URL,
+            apiKey: process.env.QDRANT_API_KEY,
+          }),
+          CONFIG.QDRANT_COLLECTION_NAME,
+          dimensions
+        )
+      );
+    case "atlas":
+      return new MeteredEmployeeVectorIndex(
+        new AtlasEmployeeVectorIndex(
+          client
+            .db(CONFIG.DATABASE_NAME)
+            .collection(CONFIG.ATLAS_VECTOR_COLLECTION_NAME),
+          CONFIG.ATLAS_VECTOR_INDEX_NAME,
+          dimensions
+        )
+      );
+    case "memory":
+      if (!memoryIndex || memoryIndex.dimensions !== dimensions) {
+        memoryIndex = new MeteredEmployeeVectorIndex(
+          new InMemoryEmployeeVectorIndex(dimensions)
+        );
+      }
+      return memoryIndex;
+    default:
+      throw new ConfigurationError(
+        `Unknown vector index backend "${backend}". Expected one of: ${Object.keys(
+          REQUIRED_ENV
+        ).join(", ")}`
+      );
+  }
+}
+
+/**
+ * Lists the environment variables a vector index backend needs
+ * @param backend - Backend name
+ * @throws ConfigurationError if the backend is unknown
+ */
+export function getVectorIndexRequiredEnv(backend: string): string[] {
+  const requiredEnv = REQUIRED_ENV[backend];
+  if (!requiredEnv) {
+    throw new ConfigurationError(`Unknown vector index backend "${backend}"`);
+  }
+  return requiredEnv;
+}
+
+/**
+ * Embeds employee summaries in one batch and upserts them into the index
+ * @param index - Target vector index
+ * @param embeddings - Embeddings client matching the index dimension
+ * @param employees - Employee records to index
+ * @returns Number of points written
+ */
+export async function indexEmployees(
+  index: EmployeeVectorIndex,
+  embeddings: EmbeddingsInterface,
+  employees: Employee[]
+): Promise<number> {
+  if (employees.length === 0) return 0;
+
+  const summaries = await Promise.all(employees.map(createEmployeeSummary));
+  const vectors = await embeddings.embedDocuments(summaries);
+
+  await index.upsert(
+    employees.map((employee, i) => ({
+      employee_id: employee.employee_id,
+      summary: summaries[i],
+      vector: vectors[i],
+    }))
+  );
+  return employees.length;
+}
@@ -0,0 +1,71 @@
+import {
+  EmployeeVectorIndex,
+  EmployeeVectorMatch,
+  EmployeeVectorPoint,
+  EnsureIndexOptions,
+} from "./types";
+
+const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
+
+/**
+ * Process-local vector index with brute-force cosine search.
+ * Suitable for tests and small datasets; contents are lost on restart.
+ */
+export class InMemoryEmployeeVectorIndex implements EmployeeVectorIndex {
+  readonly backend = "memory";
+  private points = new Map<string, EmployeeVectorPoint>();
+
+  constructor(readonly dimensions: number) {}
+
+  async ensureIndex(options: EnsureIndexOptions = {}): Promise<void> {
+    if (options.recreate) {
+      this.points.clear();
+    }
+  }
+
+  async upsert(points: EmployeeVectorPoint[]): Promise<void> {
+    for (const point of points) {
+      if (point.vector.length !== this.dimensions) {
+        throw new Error(
+          `Vector for ${point.employee_id} has ${point.vector.length} dimensions, expected ${this.dimensions}`
+        );
+      }
+      this.points.set(point.employee_id, point);
+    }
+  }
+
+  async search(
+    vector: number[],
+    limit: number
+  ): Promise<EmployeeVectorMatch[]> {
+    return [...this.points.values()]
+      .map((point) => ({
+        employee_id: point.employee_id,
+        summary: point.summary,
+        score: cosineSimilarity(vector, point.vector),
+      }))
+      .sort(
+        (a, b) =>
+          b.score - a.score || a.employee_id.localeCompare(b.employee_id)
+      )
+      .slice(0, limit);
+  }
+
+  async delete(employeeIds: string[]): Promise<void> {
+    employeeIds.forEach((employeeId) => this.points.delete(employeeId));
+  }
+
+  async count(): Promise<number> {
+    return this.points.size;
+  }
+}
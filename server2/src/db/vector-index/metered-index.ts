@@ -0,0 +1,51 @@
+import { timeBackendQuery } from "../../utils/metrics";
+import {
+  EmployeeVectorIndex,
+  EmployeeVectorMatch,
+  EmployeeVectorPoint,
+  EnsureIndexOptions,
+} from "./types";
+
+/**
+ * Wraps a vector index so every operation is timed in the
+ * backend_query_duration_seconds metric under the index's backend name
+ */
+export class MeteredEmployeeVectorIndex implements EmployeeVectorIndex {
+  constructor(private readonly index: EmployeeVectorIndex) {}
+
+  get backend() {
+    return this.index.backend;
+  }
+
+  get dimensions() {
+    return this.index.dimensions;
+  }
+
+  ensureIndex(options?: EnsureIndexOptions): Promise<void> {
+    return timeBackendQuery(this.backend, "ensure_index", () =>
+      this.index.ensureIndex(options)
+    );
+  }
+
+  upsert(points: EmployeeVectorPoint[]): Promise<void> {
+    return timeBackendQuery(this.backend, "upsert", () =>
+      this.index.upsert(points)
+    );
+  }
+
+  search(vector: number[], limit: number): Promise<EmployeeVectorMatch[]> {
+    return timeBackendQuery(this.backend, "search", () =>
+      this.index.search(vector, limit)
+    );
+  }
+
+  delete(employeeIds: string[]): Promise<void> {
+    return timeBackendQuery(this.backend, "delete", () =>
+      this.index.delete(employeeIds)
+    );
+  }
+
+  count(): Promise<number> {
+    return timeBackendQuery(this.backend, "count", () => this.index.count());
+  }
+}
@@ -0,0 +1,103 @@
+import { createHash } from "crypto";
+import { QdrantClient } from "@qdrant/js-client-rest";
+import { ConfigurationError } from "../../agent/config/errors";
+import { logger } from "../../utils/logger";
+import {
+  EmployeeVectorIndex,
+  EmployeeVectorMatch,
+  EmployeeVectorPoint,
+  EnsureIndexOptions,
+} from "./types";
+
+/**
+ * Derives a stable Qdrant point id (UUID formatted) from an employee_id, so
+ * re-indexing an employee overwrites its point instead of adding a new one
+ */
+export function pointIdForEmployee(employeeId: string): string {
+  const hex = createHash("sha1").update(`employee:${employeeId}`).digest("hex");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20, 32),
+  ].join("-");
+}
+
+// Vector index stored in a Qdrant collection
+export class QdrantEmployeeVectorIndex implements EmployeeVectorIndex {
+  readonly backend = "qdrant";
+
+  constructor(
+    private client: QdrantClient,
+    private collectionName: string,
+    readonly dimensions: number
+  ) {}
+
+  async ensureIndex(options: EnsureIndexOptions = {}): Promise<void> {
+    const { exists } = await this.client.collectionExists(this.collectionName);
+
+    if (exists && options.recreate) {
+      await this.client.deleteCollection(this.collectionName);
+    } else if (exists) {
+      const info = await this.client.getCollection(this.collectionName);
+      const vectors = info.config.params.vectors as { size?: number };
+      if (vectors?.size !== undefined && vectors.size !== this.dimensions) {
+        throw new ConfigurationError(
+          `Qdrant collection "${this.collectionName}" has ${vectors.size} dimensions but the embeddings provider produces ${this.dimensions}. Re-seed the database.`
+        );
+      }
+      return;
+    }
+
+    await this.client.createCollection(this.collectionName, {
+      vectors: { size: this.dimensions, distance: "Cosine" },
+    });
+    logger.info(
+      `Created Qdrant collection "${this.collectionName}" (${this.dimensions} dimensions)`
+    );
+  }
+
+  async upsert(points: EmployeeVectorPoint[]): Promise<void> {
+    if (points.length === 0) return;
+    await this.client.upsert(this.collectionName, {
+      wait: true,
+      points: points.map((point) => ({
+        id: pointIdForEmployee(point.employee_id),
+        vector: point.vector,
+        payload: { employee_id: point.employee_id, summary: point.summary },
+      })),
+    });
+  }
+
+  async search(
+    vector: number[],
+    limit: number
+  ): Promise<EmployeeVectorMatch[]> {
+    const results = await this.client.search(this.collectionName, {
+      vector,
+      limit,
+      with_payload: true,
+    });
+    return results.map((point) => ({
+      employee_id: String(point.payload?.employee_id),
+      summary: String(point.payload?.summary ?? ""),
+      score: point.score,
+    }));
+  }
+
+  async delete(employeeIds: string[]): Promise<void> {
+    if (employeeIds.length === 0) return;
+    await this.client.delete(this.collectionName, {
+      wait: true,
+      points: employeeIds.map(pointIdForEmployee),
+    });
+  }
+
+  async count(): Promise<number> {
+    const result = await this.client.count(this.collectionName, {
+      exact: true,
+    });
+    return result.count;
+  }
+}
@@ -0,0 +1,32 @@
+// A vector stored for one employee, keyed by employee_id
+export interface EmployeeVectorPoint {
+  employee_id: string;
+  summary: string;
+  vector: number[];
+}
+
+// A search hit returned by a vector index
+export interface EmployeeVectorMatch {
+  employee_id: string;
+  summary: string;
+  score: number;
+}
+
+export interface EnsureIndexOptions {
+  // Drop existing vectors and recreate the index (used when re-seeding)
+  recreate?: boolean;
+}
+
+/**
+ * Storage backend for employee summary embeddings.
+ * Implementations key points by employee_id so upserts are idempotent.
+ */
+export interface EmployeeVectorIndex {
+  readonly backend: string;
+  readonly dimensions: number;
+  ensureIndex(options?: EnsureIndexOptions): Promise<void>;
+  upsert(points: EmployeeVectorPoint[]): Promise<void>;
+  search(vector: number[], limit: number): Promise<EmployeeVectorMatch[]>;
+  delete(employeeIds: string[]): Promise<void>;
+  count(): Promise<number>;
+}
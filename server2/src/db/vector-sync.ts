@@ -0,0 +1,335 @@
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import {
+  ChangeStream,
+  ChangeStreamDocument,
+  ChangeStreamUpdateDocument,
+  Collection,
+  Document,
+  ResumeToken,
+  Timestamp,
+} from "mongodb";
+import { CONFIG } from "../agent/config/config";
+import { logger } from "../utils/logger";
+import { Employee, EMPLOYEE_SUMMARY_FIELDS, EmployeeSchema } from "./employee";
+import { EmployeeVectorIndex, indexEmployees } from "./vector-index";
+
+// Change stream position of one watched collection
+export interface VectorSyncState {
+  _id: string;
+  resume_token: ResumeToken;
+  updated_at: Date;
+}
+
+// What one batch of changes did to the vector index, counted per employee
+export interface SyncCounts {
+  upserted: number;
+  deleted: number;
+  skipped: number;
+}
+
+// Fields the point key and the embedded summary are built from; updates
+// touching none of them keep the existing vector
+const INDEXED_FIELDS = ["employee_id", ...EMPLOYEE_SUMMARY_FIELDS];
+
+// Server errors for a resume token that fell off the oplog
+const HISTORY_LOST_CODES = [280, 286];
+
+const isHistoryLost = (error: unknown) =>
+  HISTORY_LOST_CODES.includes((error as { code?: number }).code ?? 0);
+
+const sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Tells whether an update changed a field the vector depends on. Paths are
+ * compared both ways, so replacing `job_details` counts as changing
+ * `job_details.job_title`.
+ */
+export function affectsVector(change: ChangeStreamUpdateDocument): boolean {
+  const {
+    updatedFields = {},
+    removedFields = [],
+    truncatedArrays = [],
+  } = change.updateDescription;
+  const paths = [
+    ...Object.keys(updatedFields),
+    ...removedFields,
+    ...truncatedArrays.map((array) => array.field),
+  ];
+  return paths.some((path) =>
+    INDEXED_FIELDS.some(
+      (field) =>
+        path === field ||
+        path.startsWith(`${field}.`) ||
+        field.startsWith(`${path}.`)
+    )
+  );
+}
+
+const validEmployee = (document: Document): Employee | null => {
+  const result = EmployeeSchema.safeParse(document);
+  if (!result.success) {
+    logger.warn(
+      `Not indexing employee ${document.employee_id ?? document._id}: ${result.error.issues
+        .map((issue) => `${issue.path.join(".")} ${issue.message}`)
+        .join(", ")}`
+    );
+    return null;
+  }
+  return result.data;
+};
+
+// The vector work one change asks for: the record to embed and/or the
+// employee_id whose point goes away. Null when the change needs nothing.
+function changeEffect(
+  change: ChangeStreamDocument
+): { employee?: Employee; removedId?: string } | null {
+  switch (change.operationType) {
+    case "insert":
+    case "replace":
+    case "update": {
+      if (change.operationType === "update" && !affectsVector(change)) {
+        return null;
+      }
+      // Deleted again before the lookup; its delete event follows
+      if (!change.fullDocument) {
+        return null;
+      }
+      const employee = validEmployee(change.fullDocument);
+      if (!employee) {
+        return null;
+      }
+      const previousId =
+        "fullDocumentBeforeChange" in change
+          ? change.fullDocumentBeforeChange?.employee_id
+          : undefined;
+      return previousId && previousId !== employee.employee_id
+        ? { employee, removedId: previousId }
+        : { employee };
+    }
+    case "delete": {
+      const employeeId = change.fullDocumentBeforeChange?.employee_id;
+      if (!employeeId) {
+        logger.warn(
+          `Cannot remove the vector of deleted document ${change.documentKey._id}: the change has no pre-image. Enable changeStreamPreAndPostImages on the collection or re-seed.`
+        );
+        return null;
+      }
+      return { removedId: employeeId };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Brings the vector index in line with a batch of changes to the employees
+ * collection: re-embeds inserted, replaced or updated employees in one
+ * embedDocuments call and removes the points of deleted ones. Only the last
+ * change to each employee_id counts.
+ * @param index - Target vector index
+ * @param embeddings - Embeddings client matching the index dimension
+ * @param changes - Events, in stream order, from a change stream opened with
+ * updateLookup and pre-images
+ */
+export async function applyEmployeeChanges(
+  index: EmployeeVectorIndex,
+  embeddings: EmbeddingsInterface,
+  changes: ChangeStreamDocument[]
+): Promise<SyncCounts> {
+  // Final state per employee_id: the record to embed, or null to remove
+  const pending = new Map<string, Employee | null>();
+  let skipped = 0;
+  for (const change of changes) {
+    const effect = changeEffect(change);
+    if (!effect) {
+      skipped++;
+      continue;
+    }
+    if (effect.removedId) pending.set(effect.removedId, null);
+    if (effect.employee) {
+      pending.set(effect.employee.employee_id, effect.employee);
+    }
+  }
+
+  const removed = [...pending]
+    .filter(([, employee]) => !employee)
+    .map(([employeeId]) => employeeId);
+  const upserts = [...pending.values()].filter(
+    (employee): employee is Employee => employee !== null
+  );
+  if (removed.length) {
+    await index.delete(removed);
+  }
+  await indexEmployees(index, embeddings, upserts);
+  return { upserted: upserts.length, deleted: removed.length, skipped };
+}
+
+/**
+ * Keeps the vector index in sync with the employees collection by following
+ * its change stream. The resume token of every processed change is stored
+ * in MongoDB, so a restarted server continues where the last one stopped.
+ * Without a usable token it captures the cluster time, re-indexes every
+ * employee and follows the changes made since.
+ */
+export class EmployeeVectorSync {
+  private stream?: ChangeStream;
+  private running?: Promise<void>;
+  private stopped = false;
+
+  constructor(
+    private readonly employees: Collection,
+    private readonly state: Collection<VectorSyncState>,
+    private readonly index: EmployeeVectorIndex,
+    private readonly embeddings: EmbeddingsInterface,
+    private readonly retryDelayMs: number = CONFIG.VECTOR_SYNC_RETRY_DELAY_MS
+  ) {}
+
+  private get stateId() {
+    return this.employees.collectionName;
+  }
+
+  /**
+   * Follows the change stream in the background until stopped, reopening
+   * it after errors
+   */
+  start(): void {
+    if (this.running) return;
+    this.stopped = false;
+    this.running = (async () => {
+      while (!this.stopped) {
+        try {
+          await this.syncChanges();
+        } catch (error) {
+          if (this.stopped) break;
+          if (isHistoryLost(error)) {
+            logger.warn("Vector sync resume token expired, re-indexing");
+            await this.state.deleteOne({ _id: this.stateId });
+            continue;
+          }
+          logger.error("Vector sync failed, restarting:", error);
+          await sleep(this.retryDelayMs);
+        }
+      }
+    })();
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    await this.stream?.close();
+    await this.running;
+    this.running = undefined;
+  }
+
+  /**
+   * Opens the change stream and applies its events in batches until it
+   * closes. The token is saved after each batch, so a failed batch is
+   * retried on restart.
+   */
+  async syncChanges(): Promise<void> {
+    const stream = await this.openStream();
+    this.stream = stream;
+    try {
+      while (!this.stopped && !stream.closed) {
+        const changes = await this.nextBatch(stream);
+        const { upserted, deleted, skipped } = await applyEmployeeChanges(
+          this.index,
+          this.embeddings,
+          changes
+        );
+        logger.debug(
+          `Vector sync applied ${changes.length} change(s): ${upserted} upserted, ${deleted} deleted, ${skipped} skipped`
+        );
+        if (changes.some((change) => change.operationType === "drop")) {
+          logger.warn(
+            `${this.stateId} was dropped; its vectors stay until the next re-seed`
+          );
+        }
+        await this.state.updateOne(
+          { _id: this.stateId },
+          {
+            $set: {
+              resume_token: changes[changes.length - 1]._id,
+              updated_at: new Date(),
+            },
+          },
+          { upsert: true }
+        );
+      }
+    } finally {
+      await stream.close();
+    }
+  }
+
+  // Waits for one change, then takes those already waiting, so bursts such
+  // as bulk imports are embedded together
+  private async nextBatch(
+    stream: ChangeStream
+  ): Promise<ChangeStreamDocument[]> {
+    const changes = [await stream.next()];
+    while (changes.length < CONFIG.EMBEDDING_BATCH_SIZE && !stream.closed) {
+      const change = await stream.tryNext();
+      if (!change) break;
+      changes.push(change);
+    }
+    return changes;
+  }
+
+  private async openStream(): Promise<ChangeStream> {
+    await this.enablePreImages();
+    const options = {
+      fullDocument: "updateLookup",
+      fullDocumentBeforeChange: "whenAvailable",
+    } as const;
+
+    const saved = await this.state.findOne({ _id: this.stateId });
+    if (saved) {
+      logger.info(`Resuming vector sync of ${this.stateId}`);
+      return this.employees.watch([], {
+        ...options,
+        startAfter: saved.resume_token,
+      });
+    }
+
+    // Changes made while re-indexing are picked up from this point on
+    const { operationTime } = await this.employees.db.command({ ping: 1 });
+    await this.reindexAll();
+    return this.employees.watch([], {
+      ...options,
+      startAtOperationTime: operationTime as Timestamp,
+    });
+  }
+
+  // Deletes need the pre-image to know which employee_id was removed
+  private async enablePreImages() {
+    try {
+      await this.employees.db.command({
+        collMod: this.stateId,
+        changeStreamPreAndPostImages: { enabled: true },
+      });
+    } catch (error) {
+      logger.warn(
+        `Could not enable pre-images on ${this.stateId}; deletes will not reach the vector index:`,
+        error
+      );
+    }
+  }
+
+  private async reindexAll() {
+    let batch: Employee[] = [];
+    let indexed = 0;
+    for await (const document of this.employees.find(
+      {},
+      { projection: { _id: 0 } }
+    )) {
+      const employee = validEmployee(document);
+      if (employee) batch.push(employee);
+      if (batch.length === CONFIG.EMBEDDING_BATCH_SIZE) {
+        indexed += await indexEmployees(this.index, this.embeddings, batch);
+        batch = [];
+      }
+    }
+    indexed += await indexEmployees(this.index, this.embeddings, batch);
+    logger.info(`Vector sync re-indexed ${indexed} employees`);
+  }
+}
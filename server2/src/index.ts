@@ -1,24 +1,63 @@
 import "dotenv/config";
 import express, { Express } from "express";
 import { MongoClient } from "mongodb";
+import { collectDefaultMetrics } from "prom-client";
 import { logger } from "./utils/logger";
+import { startTracing } from "./utils/tracing";
+import { metricsRegistry, observeMongoCommands } from "./utils/metrics";
 import {
+  metricsMiddleware,
+  requestContext,
   requestLogger,
+  tracingMiddleware,
   corsMiddleware,
+  createAuthenticator,
   responseFormatter,
   errorHandler,
 } from "./middleware";
 import indexRoutes from "./routes/index";
 import healthRoutes from "./routes/health";
+import metricsRoutes from "./routes/metrics";
 import chatRoutes, { setMongoClient } from "./routes/chat";
+import threadRoutes, {
+  setMongoClient as setThreadsMongoClient,
+} from "./routes/threads";
+import orgRoutes, { setMongoClient as setOrgMongoClient } from "./routes/org";
+import employeeRoutes, {
+  setMongoClient as setEmployeesMongoClient,
+} from "./routes/employees";
+import usageRoutes, {
+  setMongoClient as setUsageMongoClient,
+} from "./routes/usage";
 
 import { validateEnvironmentVariables } from "./agent/config/env-validation";
+import { CONFIG } from "./agent/config/config";
+import { createEmbeddingModel } from "./agent/providers/embeddings";
+import { createEmployeeVectorIndex, indexEmployees } from "./db/vector-index";
+import { Employee } from "./db/employee";
+import { ensureEmployeeTextIndex } from "./db/keyword-search";
+import { ensureEmployeeIdIndex } from "./db/employee-store";
+import { ensureReportingManagerIndex } from "./db/org-chart";
+import { EmployeeVectorSync, VectorSyncState } from "./db/vector-sync";
+import { ensureUsageIndexes, getUsageCollection } from "./db/usage";
+import {
+  ensureRateLimitIndexes,
+  getRateLimitCollection,
+} from "./db/rate-limits";
+
+// Register the tracer provider before any span can start
+const tracerProvider = startTracing();
 
 const app: Express = express();
 
 // Middleware
 app.use(express.json({ limit: "10mb" })); // Add payload size limit
+// After body parsing, whose stream callbacks would drop the active span
+// and request id
+app.use(tracingMiddleware);
+app.use(requestContext);
 app.use(requestLogger);
+app.use(metricsMiddleware);
 app.use(corsMiddleware);
 app.use(responseFormatter);
 
@@ -30,7 +69,11 @@ const client = new MongoClient(process.env.MONGODB_ATLAS_URI as string, {
   serverSelectionTimeoutMS: 5000, // How long to wait for server selection
   socketTimeoutMS: 45000, // How long to wait for socket operations
   connectTimeoutMS: 10000, // How long to wait for initial connection
+  monitorCommands: true, // Emit command events for the latency metrics
 });
+observeMongoCommands(client);
+// Process CPU, memory, event loop and GC metrics alongside the app's own
+collectDefaultMetrics({ register: metricsRegistry });
 
 async function startServer() {
   try {
@@ -43,13 +86,74 @@ async function startServer() {
       "Pinged your deployment. You successfully connected to MongoDB!"
     );
 
-    // Set MongoDB client for chat routes
+    const employeeCollection = client
+      .db(CONFIG.DATABASE_NAME)
+      .collection(CONFIG.EMPLOYEES_COLLECTION_NAME);
+    // Keyword leg of the hybrid employee search
+    await ensureEmployeeTextIndex(employeeCollection);
+    // employee_id is the key the API, tools and vector points use
+    await ensureEmployeeIdIndex(employeeCollection);
+    // Org charts look up each level of reports by their manager
+    await ensureReportingManagerIndex(employeeCollection);
+    // Quota checks run before every chat request
+    await ensureUsageIndexes(getUsageCollection(client));
+    // Expired rate limit windows are removed by a TTL index
+    if (CONFIG.RATE_LIMIT_STORE === "mongo") {
+      await ensureRateLimitIndexes(getRateLimitCollection(client));
+    }
+
+    // The memory vector index starts empty, so rebuild it from MongoDB
+    if (CONFIG.VECTOR_INDEX_BACKEND === "memory") {
+      const { embeddings, dimensions } = createEmbeddingModel();
+      const employees = await client
+        .db(CONFIG.DATABASE_NAME)
+        .collection<Employee>(CONFIG.EMPLOYEES_COLLECTION_NAME)
+        .find({}, { projection: { _id: 0 } })
+        .toArray();
+      const indexed = await indexEmployees(
+        createEmployeeVectorIndex(client, dimensions),
+        embeddings,
+        employees
+      );
+      logger.info(`Indexed ${indexed} employees into the memory vector index`);
+    }
+
+    // Re-embed employees as they change instead of waiting for a re-seed
+    let vectorSync: EmployeeVectorSync | undefined;
+    if (CONFIG.VECTOR_SYNC_ENABLED) {
+      const { embeddings, dimensions } = createEmbeddingModel();
+      const db = client.db(CONFIG.DATABASE_NAME);
+      vectorSync = new EmployeeVectorSync(
+        employeeCollection,
+        db.collection<VectorSyncState>(
+          CONFIG.VECTOR_SYNC_STATE_COLLECTION_NAME
+        ),
+        createEmployeeVectorIndex(client, dimensions),
+        embeddings
+      );
+      vectorSync.start();
+    }
+
+    // Built after validation so bad credentials config stops startup
+    const authenticate = createAuthenticator();
+
+    // Set MongoDB client for chat, thread, org chart, employee and usage
+    // routes
     setMongoClient(client);
+    setThreadsMongoClient(client);
+    setOrgMongoClient(client);
+    setEmployeesMongoClient(client);
+    setUsageMongoClient(client);
 
     // Mount routes
     app.use("/", indexRoutes);
     app.use("/health", healthRoutes);
-    app.use("/chat", chatRoutes);
+    app.use("/metrics", metricsRoutes);
+    app.use("/chat", authenticate, chatRoutes);
+    app.use("/threads", authenticate, threadRoutes);
+    app.use("/org", authenticate, orgRoutes);
+    app.use("/employees", authenticate, employeeRoutes);
+    app.use("/usage", authenticate, usageRoutes);
 
     // Error handling middleware (must be last)
     app.use(errorHandler);
@@ -66,8 +170,11 @@ async function startServer() {
       );
       server.close(async () => {
         console.log("HTTP server closed");
+        await vectorSync?.stop();
         await client.close();
         console.log("MongoDB connection closed");
+        // Export the spans still buffered in the batch processor
+        await tracerProvider?.shutdown();
         process.exit(0);
       });
     };
@@ -0,0 +1,140 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { CONFIG } from "../agent/config/config";
+import {
+  AuthenticationError,
+  ConfigurationError,
+} from "../agent/config/errors";
+import { ANONYMOUS_CALLER, Caller, isRole } from "../agent/policy/caller";
+import { loadPublicKey, verifyJwt } from "../utils/jwt";
+import { logger } from "../utils/logger";
+
+export interface AuthOptions {
+  // Static API keys as "key:user_id:role" entries
+  apiKeys: readonly string[];
+  hs256Secret?: string;
+  // PEM encoded public key, or a path to a file containing one
+  rs256PublicKey?: string;
+  issuer?: string;
+  audience?: string;
+  // Skip authentication and run every request as the anonymous caller
+  disabled?: boolean;
+}
+
+const hashApiKey = (key: string) =>
+  createHash("sha256").update(key).digest("hex");
+
+/**
+ * Parses "key:user_id:role" entries into a lookup keyed by the key's hash,
+ * so the map never holds raw keys and lookups do not compare secrets. Each
+ * caller carries the start of the hash as `key_id`, which attributes usage
+ * to the key without revealing it.
+ * @param entries - Configured API key entries; the role defaults to employee
+ * @throws ConfigurationError for malformed entries or unknown roles
+ */
+export function parseApiKeys(entries: readonly string[]): Map<string, Caller> {
+  const callers = new Map<string, Caller>();
+  for (const entry of entries) {
+    const [key, id, role = ANONYMOUS_CALLER.role] = entry.split(":");
+    if (!key || !id) {
+      throw new ConfigurationError(
+        'API_KEYS entries must look like "key:user_id:role"'
+      );
+    }
+    if (!isRole(role)) {
+      throw new ConfigurationError(`Unknown role "${role}" in API_KEYS`);
+    }
+    const hash = hashApiKey(key);
+    callers.set(hash, { id, role, key_id: hash.slice(0, 12) });
+  }
+  return callers;
+}
+
+const readPublicKey = (value: string) =>
+  loadPublicKey(
+    value.includes("-----BEGIN") ? value : readFileSync(value, "utf8")
+  );
+
+/**
+ * Creates middleware that authenticates a request from an `X-API-Key` header
+ * or an `Authorization: Bearer <jwt>` header and sets `req.caller`.
+ * JWTs carry the user id in `sub` and an optional `role` claim.
+ * @param options - Accepted credentials, defaults to the CONFIG settings
+ */
+export function createAuthenticator(
+  options: AuthOptions = {
+    apiKeys: CONFIG.API_KEYS,
+    hs256Secret: CONFIG.JWT_HS256_SECRET,
+    rs256PublicKey: CONFIG.JWT_RS256_PUBLIC_KEY,
+    issuer: CONFIG.JWT_ISSUER,
+    audience: CONFIG.JWT_AUDIENCE,
+    disabled: CONFIG.AUTH_DISABLED,
+  }
+): RequestHandler {
+  const apiKeys = parseApiKeys(options.apiKeys);
+  const jwtKeys = {
+    hs256Secret: options.hs256Secret,
+    rs256PublicKey: options.rs256PublicKey
+      ? readPublicKey(options.rs256PublicKey)
+      : undefined,
+  };
+  const acceptsJwt = Boolean(jwtKeys.hs256Secret || jwtKeys.rs256PublicKey);
+
+  const authenticateRequest = (req: Request): Caller => {
+    const apiKey = req.get("X-API-Key");
+    if (apiKey) {
+      const caller = apiKeys.get(hashApiKey(apiKey));
+      if (!caller) {
+        throw new AuthenticationError("Invalid API key");
+      }
+      return caller;
+    }
+
+    const [scheme, token] = (req.get("Authorization") ?? "").split(" ");
+    if (scheme?.toLowerCase() === "bearer" && token && acceptsJwt) {
+      const claims = verifyJwt(token, jwtKeys, {
+        issuer: options.issuer,
+        audience: options.audience,
+      });
+      const role = claims.role ?? ANONYMOUS_CALLER.role;
+      if (typeof claims.sub !== "string" || !claims.sub) {
+        throw new AuthenticationError("Token has no subject");
+      }
+      if (!isRole(role)) {
+        throw new AuthenticationError(`Unknown role "${String(role)}"`);
+      }
+      return { id: claims.sub, role };
+    }
+
+    throw new AuthenticationError();
+  };
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (options.disabled) {
+      req.caller = ANONYMOUS_CALLER;
+      next();
+      return;
+    }
+
+    try {
+      req.caller = authenticateRequest(req);
+    } catch (error) {
+      if (!(error instanceof AuthenticationError)) {
+        throw error;
+      }
+      logger.warn(`Rejected ${req.method} ${req.url}: ${error.message}`);
+      res.setHeader("WWW-Authenticate", 'Bearer realm="api"');
+      res.status(401).json({ error: "Unauthorized", message: error.message });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Returns the caller set by the authenticator, falling back to the least
+ * privileged caller on routes mounted without it
+ */
+export const getRequestCaller = (req: Request): Caller =>
+  req.caller ?? ANONYMOUS_CALLER;
@@ -1,5 +1,58 @@
 import { Request, Response, NextFunction } from "express";
+import { randomUUID } from "crypto";
+import {
+  context,
+  propagation,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from "@opentelemetry/api";
 import { logger } from "../utils/logger";
+import { CONFIG } from "../agent/config/config";
+import { ConfigurationError } from "../agent/config/errors";
+import { Caller } from "../agent/policy/caller";
+import { httpRequestDuration } from "../utils/metrics";
+import { tracer } from "../utils/tracing";
+import { runWithRequestContext } from "../utils/request-context";
+import { routeLabel } from "./route-label";
+
+export { routeLabel } from "./route-label";
+export {
+  createAuthenticator,
+  getRequestCaller,
+  parseApiKeys,
+} from "./auth";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Authenticated identity the agent applies access policies to
+      caller?: Caller;
+    }
+  }
+}
+
+// Caller-supplied ids are kept only when they are safe to log and echo
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Assigns each request an id, taken from a valid X-Request-Id header or
+ * generated, and echoes it in the response. Every log entry written while
+ * the request is handled, including from graph nodes and tools, carries
+ * the id as request_id.
+ */
+export const requestContext = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const header = req.get("X-Request-Id");
+  const requestId =
+    header && REQUEST_ID_PATTERN.test(header) ? header : randomUUID();
+  res.setHeader("X-Request-Id", requestId);
+  trace.getActiveSpan()?.setAttribute("http.request.id", requestId);
+  runWithRequestContext({ request_id: requestId }, next);
+};
 
 // Request logging middleware
 export const requestLogger = (
@@ -9,12 +62,14 @@ export const requestLogger = (
 ) => {
   const start = Date.now();
 
-  // Log request
+  // Log request; the body only at debug level, as it may hold employee data
   logger.info(`${req.method} ${req.url}`, {
     ip: req.ip,
     userAgent: req.get("User-Agent"),
-    body: req.method !== "GET" ? JSON.stringify(req.body) : undefined,
   });
+  if (req.method !== "GET" && req.body !== undefined) {
+    logger.debug(`${req.method} ${req.url} body`, { body: req.body });
+  }
 
   // Log response when finished
   res.on("finish", () => {
@@ -28,29 +83,104 @@ export const requestLogger = (
   next();
 };
 
-// CORS middleware
-export const corsMiddleware = (
+// Times every request into http_request_duration_seconds
+export const metricsMiddleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const end = httpRequestDuration.startTimer();
+  res.on("finish", () => {
+    end({
+      method: req.method,
+      route: routeLabel(req),
+      status_code: String(res.statusCode),
+    });
+  });
+  next();
+};
+
+/**
+ * Starts the server span every other span of a request nests under. A W3C
+ * traceparent header from the caller continues their trace. The span is
+ * renamed to the matched route pattern once the response is sent.
+ */
+export const tracingMiddleware = (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  // Allow all origins in development - in production, specify allowed origins
-  res.header("Access-Control-Allow-Origin", "*");
-  res.header("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
-  res.header(
-    "Access-Control-Allow-Headers",
-    "Origin, X-Requested-With, Content-Type, Accept, Authorization"
+  const parent = propagation.extract(context.active(), req.headers);
+  const span = tracer.startSpan(
+    `${req.method} ${req.path}`,
+    {
+      kind: SpanKind.SERVER,
+      attributes: {
+        "http.request.method": req.method,
+        "url.path": req.path,
+      },
+    },
+    parent
   );
+  res.on("finish", () => {
+    const route = routeLabel(req);
+    span.updateName(`${req.method} ${route}`);
+    span.setAttributes({
+      "http.route": route,
+      "http.response.status_code": res.statusCode,
+    });
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  });
+  context.with(trace.setSpan(parent, span), next);
+};
 
-  // Handle preflight requests
-  if (req.method === "OPTIONS") {
-    res.sendStatus(200);
-    return;
+/**
+ * Creates CORS middleware for a list of allowed origins. A listed request
+ * Origin is echoed back; others get no Access-Control-Allow-Origin header,
+ * so with an empty list no browser origin may call the API
+ * @param origins - Allowed origins, defaults to CONFIG.CORS_ORIGINS
+ * @throws ConfigurationError for "*", since every route takes credentials
+ */
+export const createCorsMiddleware = (
+  origins: readonly string[] = CONFIG.CORS_ORIGINS
+) => {
+  if (origins.includes("*")) {
+    throw new ConfigurationError(
+      'CORS_ORIGINS must list the allowed origins; "*" is not supported'
+    );
   }
+  return (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.get("Origin");
+    if (origin && origins.includes(origin)) {
+      res.header("Access-Control-Allow-Origin", origin);
+    }
+    res.header("Vary", "Origin");
+    res.header(
+      "Access-Control-Allow-Methods",
+      "GET, POST, PUT, PATCH, DELETE, OPTIONS"
+    );
+    res.header(
+      "Access-Control-Allow-Headers",
+      "Origin, X-Requested-With, Content-Type, Accept, Authorization, X-API-Key, X-Request-Id"
+    );
+    res.header("Access-Control-Expose-Headers", "X-Request-Id, Retry-After");
 
-  next();
+    // Handle preflight requests
+    if (req.method === "OPTIONS") {
+      res.sendStatus(200);
+      return;
+    }
+
+    next();
+  };
 };
 
+// CORS middleware
+export const corsMiddleware = createCorsMiddleware();
+
 // Response formatting middleware
 export const responseFormatter = (
   req: Request,
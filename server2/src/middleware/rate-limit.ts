@@ -0,0 +1,173 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { CONFIG } from "../agent/config/config";
+import { ConfigurationError } from "../agent/config/errors";
+import { RateLimitStore, WindowCounts } from "../db/rate-limits";
+import { logger } from "../utils/logger";
+import { routeLabel } from "./route-label";
+
+// Requests a client may make within any window of windowMs
+export interface RateLimit {
+  requests: number;
+  windowMs: number;
+}
+
+export interface RateLimitOptions {
+  enabled: boolean;
+  // Applies to routes without their own limit
+  defaultLimit: RateLimit;
+  // Keyed by method and route pattern, e.g. "POST /chat/:threadId"
+  routeLimits: Map<string, RateLimit>;
+  // Milliseconds since the epoch; replaced in tests
+  now?: () => number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // Seconds until a request would be allowed again, 0 when allowed
+  retryAfter: number;
+}
+
+const toRateLimit = (requests: number, seconds: number): RateLimit | null =>
+  Number.isInteger(requests) && requests > 0 && seconds > 0
+    ? { requests, windowMs: seconds * 1000 }
+    : null;
+
+/**
+ * Parses "METHOD /route:requests:window_seconds" entries, read from the
+ * right so route parameters such as :threadId keep their colons
+ * @throws ConfigurationError for malformed entries
+ */
+export function parseRateLimits(
+  entries: readonly string[]
+): Map<string, RateLimit> {
+  const limits = new Map<string, RateLimit>();
+  for (const entry of entries) {
+    const fields = entry.split(":");
+    const seconds = Number(fields.pop());
+    const requests = Number(fields.pop());
+    const [method, route] = fields.join(":").split(" ");
+    const limit = toRateLimit(requests, seconds);
+    if (!method || !route?.startsWith("/") || !limit) {
+      throw new ConfigurationError(
+        'RATE_LIMITS entries must look like "POST /chat:10:60"'
+      );
+    }
+    limits.set(`${method.toUpperCase()} ${route}`, limit);
+  }
+  return limits;
+}
+
+/**
+ * Reads the rate limits from CONFIG
+ * @throws ConfigurationError for malformed limits
+ */
+export function getRateLimitOptions(): RateLimitOptions {
+  const defaultLimit = toRateLimit(
+    CONFIG.RATE_LIMIT_REQUESTS,
+    CONFIG.RATE_LIMIT_WINDOW_SECONDS
+  );
+  if (!defaultLimit) {
+    throw new ConfigurationError(
+      "RATE_LIMIT_REQUESTS must be a positive integer and RATE_LIMIT_WINDOW_SECONDS positive"
+    );
+  }
+  return {
+    enabled: CONFIG.RATE_LIMIT_ENABLED,
+    defaultLimit,
+    routeLimits: parseRateLimits(CONFIG.RATE_LIMITS),
+  };
+}
+
+/**
+ * Decides a request with the sliding window estimate: the previous
+ * window's count, weighted by how much of it still overlaps the sliding
+ * window, plus the current window's count
+ * @param counts - Counts including the request being decided
+ * @param elapsedMs - Time since the current window started
+ */
+export function checkRateLimit(
+  counts: WindowCounts,
+  limit: RateLimit,
+  elapsedMs: number
+): RateLimitDecision {
+  const { requests, windowMs } = limit;
+  const overlap = 1 - elapsedMs / windowMs;
+  if (counts.previous * overlap + counts.current <= requests) {
+    return { allowed: true, retryAfter: 0 };
+  }
+  // Wait until one more request fits: later in this window if the current
+  // count leaves room as the previous window slides out, otherwise in the
+  // next window once enough of this one has slid out
+  const waitMs =
+    counts.current < requests
+      ? windowMs * (1 - (requests - counts.current - 1) / counts.previous) -
+        elapsedMs
+      : windowMs -
+        elapsedMs +
+        Math.max(0, windowMs * (1 - (requests - 1) / counts.current));
+  return {
+    allowed: false,
+    retryAfter: Math.max(1, Math.ceil(waitMs / 1000)),
+  };
+}
+
+/**
+ * Identifies the client a request is counted against: the API key it used,
+ * otherwise its IP address
+ */
+export const rateLimitKey = (req: Request): string =>
+  req.caller?.key_id ? `key:${req.caller.key_id}` : `ip:${req.ip}`;
+
+/**
+ * Creates middleware that limits each client to a number of requests per
+ * sliding window and answers 429 with Retry-After beyond it. Mount it on
+ * individual routes, after authentication, so the route pattern and API
+ * key are known. Rejected requests count too, so a client that keeps
+ * retrying stays limited. If the store fails, requests are let through.
+ * @param store - Where counts are kept
+ * @param options - Limits, defaults to the CONFIG settings
+ */
+export function createRateLimiter(
+  store: RateLimitStore,
+  options: RateLimitOptions = getRateLimitOptions()
+): RequestHandler {
+  const now = options.now ?? Date.now;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!options.enabled) {
+      next();
+      return;
+    }
+
+    const route = `${req.method} ${routeLabel(req)}`;
+    const limit = options.routeLimits.get(route) ?? options.defaultLimit;
+    const key = rateLimitKey(req);
+    const time = now();
+    const windowStart = time - (time % limit.windowMs);
+
+    let counts: WindowCounts;
+    try {
+      counts = await store.hit(`${route}|${key}`, windowStart, limit.windowMs);
+    } catch (error) {
+      logger.warn("Rate limit store failed, allowing the request:", error);
+      next();
+      return;
+    }
+
+    const { allowed, retryAfter } = checkRateLimit(
+      counts,
+      limit,
+      time - windowStart
+    );
+    if (allowed) {
+      next();
+      return;
+    }
+    logger.warn(`Rate limited ${route} for ${key}`);
+    res.setHeader("Retry-After", String(retryAfter));
+    res.status(429).json({
+      error: "Too many requests",
+      message: `Rate limit of ${limit.requests} requests per ${limit.windowMs / 1000}s exceeded. Retry in ${retryAfter}s.`,
+    });
+  };
+}
@@ -0,0 +1,14 @@
+import { Request } from "express";
+
+/**
+ * Returns the route pattern a request matched, such as /chat/:threadId,
+ * for metric labels, span names and rate limit rules. Requests no router
+ * claimed share one label, so arbitrary URLs cannot create new series.
+ */
+export const routeLabel = (req: Request): string => {
+  const pattern = `${req.baseUrl ?? ""}${req.route?.path ?? ""}`;
+  if (!pattern) {
+    return "unmatched";
+  }
+  return pattern.length > 1 ? pattern.replace(/\/$/, "") : pattern;
+};
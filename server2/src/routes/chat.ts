@@ -1,6 +1,33 @@
-import { Router, Request, Response } from "express";
+import { randomUUID } from "crypto";
+import {
+  Router,
+  Request,
+  Response,
+  NextFunction,
+  RequestHandler,
+} from "express";
 import { MongoClient } from "mongodb";
-import { callAgent } from "../agent/agent";
+import {
+  callAgent,
+  createCheckpointer,
+  getPendingApproval,
+  resumeAgent,
+  streamAgent,
+} from "../agent/agent";
+import { canApprove } from "../agent/approval";
+import {
+  QuotaExceededError,
+  ServerBusyError,
+} from "../agent/config/errors";
+import { getThreadHistory } from "../agent/history";
+import { Caller } from "../agent/policy/caller";
+import { RunLimiter } from "../agent/run-limiter";
+import { createRateLimitStore } from "../db/rate-limits";
+import { createThread, findThread, getThreadOwner } from "../db/threads";
+import { enforceUsageQuota, getUsageCollection } from "../db/usage";
+import { getRequestCaller } from "../middleware/auth";
+import { createRateLimiter } from "../middleware/rate-limit";
+import { logger } from "../utils/logger";
 import { z } from "zod";
 
 const router = Router();
@@ -18,48 +45,299 @@ const threadIdSchema = z
   .min(1, "Thread ID cannot be empty")
   .max(100, "Thread ID too long");
 
+const historyQuerySchema = z.object({
+  before: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+const toolCallArgsSchema = z.record(z.string(), z.unknown());
+
+const approvalDecisionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("approve") }),
+  z.object({
+    action: z.literal("edit"),
+    tool_calls: z
+      .array(z.object({ id: z.string().min(1), args: toolCallArgsSchema }))
+      .min(1, "Provide at least one edited tool call"),
+  }),
+  z.object({
+    action: z.literal("reject"),
+    reason: z.string().max(1000, "Reason too long").optional(),
+  }),
+]);
+
 // Middleware to attach MongoDB client to request
 // This will be set when mounting the router
 let mongoClient: MongoClient;
 
+// Created with the client, which the mongo rate limit store needs
+let rateLimiter: RequestHandler;
+
 // Function to set the MongoDB client
 export const setMongoClient = (client: MongoClient) => {
   mongoClient = client;
+  rateLimiter = createRateLimiter(createRateLimitStore(client));
+};
+
+// Limits the routes that start agent runs, per API key or IP
+const limitRate = (req: Request, res: Response, next: NextFunction) =>
+  rateLimiter(req, res, next);
+
+// Every agent run this process starts shares one concurrency cap
+const runLimiter = new RunLimiter();
+
+/**
+ * Finds a thread the caller may use: only its owner can, except that
+ * approvers may also review threads waiting on an approval
+ * @returns The thread, or null if it does not exist or is not visible to the
+ * caller
+ */
+const findAccessibleThread = (
+  threadId: string,
+  caller: Caller,
+  { allowApprovers = false } = {}
+) => {
+  const owner = allowApprovers && canApprove(caller) ? null : caller.id;
+  return findThread(mongoClient, threadId, owner);
+};
+
+const sendThreadNotFound = (res: Response) => {
+  res.status(404).json({ error: "Thread not found" });
+};
+
+// Every run is refused once the caller has used up a daily quota
+const enforceQuota = (caller: Caller) =>
+  enforceUsageQuota(getUsageCollection(mongoClient), caller);
+
+const handleError = (res: Response, error: unknown, context: string) => {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ error: "Invalid request", details: error.issues });
+  } else if (error instanceof QuotaExceededError) {
+    res.setHeader("Retry-After", String(error.retryAfter));
+    res.status(429).json({ error: "Quota exceeded", message: error.message });
+  } else if (error instanceof ServerBusyError) {
+    res.setHeader("Retry-After", String(error.retryAfter));
+    res.status(503).json({ error: "Server busy", message: error.message });
+  } else {
+    logger.error(`Error ${context}:`, error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Clients opt into Server-Sent Events with `Accept: text/event-stream`;
+// everything else keeps receiving a single JSON response
+const wantsEventStream = (req: Request) =>
+  req.accepts(["application/json", "text/event-stream"]) ===
+  "text/event-stream";
+
+// Streams an agent run to the client as Server-Sent Events
+const sendEventStream = async (
+  res: Response,
+  message: string,
+  threadId: string,
+  caller: Caller
+) => {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+
+  // Abort the run if the client goes away before it finishes
+  const controller = new AbortController();
+  res.on("close", () => controller.abort());
+
+  try {
+    for await (const event of streamAgent(
+      mongoClient,
+      message,
+      threadId,
+      caller,
+      controller.signal
+    )) {
+      if (controller.signal.aborted) break;
+      const { type, ...data } = event;
+      res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  } finally {
+    res.end();
+  }
 };
 
 // API endpoint to start a new conversation
-// curl -X POST -H "Content-Type: application/json" -d '{"message": "Build a team to make an iOS app, and tell me the talent gaps."}' http://localhost:3000/chat
-router.post("/", async (req: Request, res: Response) => {
+// curl -X POST -H "X-API-Key: $API_KEY" -H "Content-Type: application/json" -d '{"message": "Build a team to make an iOS app, and tell me the talent gaps."}' http://localhost:3000/chat
+// curl -N -X POST -H "X-API-Key: $API_KEY" -H "Accept: text/event-stream" -H "Content-Type: application/json" -d '{"message": "Who knows Swift?"}' http://localhost:3000/chat
+router.post("/", limitRate, async (req: Request, res: Response) => {
   try {
     const { message } = chatRequestSchema.parse(req.body);
-    const threadId = Date.now().toString(); // Simple thread ID generation
-    const response = await callAgent(mongoClient, message, threadId);
-    res.json({ threadId, response });
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      res.status(400).json({ error: "Invalid request", details: error.issues });
-    } else {
-      console.error("Error starting conversation:", error);
-      res.status(500).json({ error: "Internal server error" });
+    const caller = getRequestCaller(req);
+    await enforceQuota(caller);
+    // Unguessable ids, so thread ids leak nothing about other conversations
+    const threadId = randomUUID();
+    // The thread is only created once the run has a slot, so a busy server
+    // leaves no empty threads behind
+    const startThread = () =>
+      createThread(mongoClient, threadId, caller, message);
+    if (wantsEventStream(req)) {
+      await runLimiter.run(async () => {
+        await startThread();
+        await sendEventStream(res, message, threadId, caller);
+      });
+      return;
     }
+    const result = await runLimiter.run(async () => {
+      await startThread();
+      return callAgent(mongoClient, message, threadId, caller);
+    });
+    res.json({ threadId, ...result });
+  } catch (error) {
+    handleError(res, error, "starting conversation");
   }
 });
 
 // API endpoint to send a message in an existing conversation
-// curl -X POST -H "Content-Type: application/json" -d '{"message": "What team members did you recommend?"}' http://localhost:3000/chat/123456789
-router.post("/:threadId", async (req: Request, res: Response) => {
+// curl -X POST -H "X-API-Key: $API_KEY" -H "Content-Type: application/json" -d '{"message": "What team members did you recommend?"}' http://localhost:3000/chat/$THREAD_ID
+// curl -N -X POST -H "X-API-Key: $API_KEY" -H "Accept: text/event-stream" -H "Content-Type: application/json" -d '{"message": "What team members did you recommend?"}' http://localhost:3000/chat/$THREAD_ID
+router.post("/:threadId", limitRate, async (req: Request, res: Response) => {
   try {
     const threadId = threadIdSchema.parse(req.params.threadId);
     const { message } = chatRequestSchema.parse(req.body);
-    const response = await callAgent(mongoClient, message, threadId);
-    res.json({ response });
+    const caller = getRequestCaller(req);
+    if (!(await findAccessibleThread(threadId, caller))) {
+      sendThreadNotFound(res);
+      return;
+    }
+    // A message after unanswered tool calls would leave the thread in a
+    // state providers refuse, so the approval has to be decided first
+    if (await getPendingApproval(mongoClient, threadId)) {
+      res.status(409).json({
+        error: "A tool call is awaiting approval",
+        message: "Resolve it with POST /chat/:threadId/resume first",
+      });
+      return;
+    }
+    await enforceQuota(caller);
+    if (wantsEventStream(req)) {
+      await runLimiter.run(() =>
+        sendEventStream(res, message, threadId, caller)
+      );
+      return;
+    }
+    const result = await runLimiter.run(() =>
+      callAgent(mongoClient, message, threadId, caller)
+    );
+    res.json(result);
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      res.status(400).json({ error: "Invalid request", details: error.issues });
-    } else {
-      console.error("Error in chat:", error);
-      res.status(500).json({ error: "Internal server error" });
+    handleError(res, error, "in chat");
+  }
+});
+
+// API endpoint to see the sensitive tool calls a conversation is waiting on
+// curl -X GET -H "X-API-Key: $API_KEY" http://localhost:3000/chat/$THREAD_ID/pending
+router.get("/:threadId/pending", async (req: Request, res: Response) => {
+  try {
+    const threadId = threadIdSchema.parse(req.params.threadId);
+    const caller = getRequestCaller(req);
+    if (
+      !(await findAccessibleThread(threadId, caller, { allowApprovers: true }))
+    ) {
+      sendThreadNotFound(res);
+      return;
+    }
+    const pendingApproval = await getPendingApproval(mongoClient, threadId);
+    if (!pendingApproval) {
+      res.status(404).json({ error: "No tool call is awaiting approval" });
+      return;
     }
+    res.json({ threadId, pendingApproval });
+  } catch (error) {
+    handleError(res, error, "reading pending approval");
+  }
+});
+
+// API endpoint to approve, edit or reject pending tool calls and continue
+// curl -X POST -H "X-API-Key: $API_KEY" -H "Content-Type: application/json" -d '{"action": "approve"}' http://localhost:3000/chat/$THREAD_ID/resume
+// curl -X POST -H "X-API-Key: $API_KEY" -H "Content-Type: application/json" -d '{"action": "edit", "tool_calls": [{"id": "toolu_123", "args": {"query": "engineering headcount"}}]}' http://localhost:3000/chat/$THREAD_ID/resume
+// curl -X POST -H "X-API-Key: $API_KEY" -H "Content-Type: application/json" -d '{"action": "reject", "reason": "Salary data is out of scope"}' http://localhost:3000/chat/$THREAD_ID/resume
+router.post(
+  "/:threadId/resume",
+  limitRate,
+  async (req: Request, res: Response) => {
+    try {
+      const threadId = threadIdSchema.parse(req.params.threadId);
+      const decision = approvalDecisionSchema.parse(req.body);
+      const caller = getRequestCaller(req);
+      const thread = await findAccessibleThread(threadId, caller, {
+        allowApprovers: true,
+      });
+      if (!thread) {
+        sendThreadNotFound(res);
+        return;
+      }
+      // Owners may see what is pending, but only approvers can decide
+      if (!canApprove(caller)) {
+        res.status(403).json({
+          error: "Forbidden",
+          message: "Only hr or admin callers can approve tool calls",
+        });
+        return;
+      }
+      const pendingApproval = await getPendingApproval(mongoClient, threadId);
+      if (!pendingApproval) {
+        res.status(409).json({ error: "No tool call is awaiting approval" });
+        return;
+      }
+      if (decision.action === "edit") {
+        const pendingIds = new Set(
+          pendingApproval.tool_calls.map((call) => call.id)
+        );
+        const unknown = decision.tool_calls.filter(
+          (call) => !pendingIds.has(call.id)
+        );
+        if (unknown.length) {
+          res.status(400).json({
+            error: "Only pending tool calls can be edited",
+            details: unknown.map((call) => call.id),
+          });
+          return;
+        }
+      }
+      // The run continues on the owner's behalf and is charged to them
+      const owner = getThreadOwner(thread);
+      await enforceQuota(owner);
+      const result = await runLimiter.run(() =>
+        resumeAgent(mongoClient, threadId, decision, owner, caller)
+      );
+      res.json(result);
+    } catch (error) {
+      handleError(res, error, "resuming conversation");
+    }
+  }
+);
+
+// API endpoint to read a conversation back, newest page first
+// curl -X GET -H "X-API-Key: $API_KEY" "http://localhost:3000/chat/$THREAD_ID?limit=20"
+// curl -X GET -H "X-API-Key: $API_KEY" "http://localhost:3000/chat/$THREAD_ID?before=40&limit=20"
+router.get("/:threadId", async (req: Request, res: Response) => {
+  try {
+    const threadId = threadIdSchema.parse(req.params.threadId);
+    const { before, limit } = historyQuerySchema.parse(req.query);
+    if (!(await findAccessibleThread(threadId, getRequestCaller(req)))) {
+      sendThreadNotFound(res);
+      return;
+    }
+    const history = await getThreadHistory(
+      createCheckpointer(mongoClient),
+      threadId,
+      { before, limit }
+    );
+    if (!history) {
+      res.status(404).json({ error: "Thread not found" });
+      return;
+    }
+    res.json(history);
+  } catch (error) {
+    handleError(res, error, "reading conversation");
   }
 });
 
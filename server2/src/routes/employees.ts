@@ -0,0 +1,283 @@
+import { Router, Request, Response } from "express";
+import { MongoClient } from "mongodb";
+import { z } from "zod";
+import { CONFIG } from "../agent/config/config";
+import { AgentError } from "../agent/config/errors";
+import { getEmployeeSearch } from "../agent/agent";
+import { Caller, Role } from "../agent/policy/caller";
+import {
+  buildEmployeeFilter,
+  EmployeeFilterSchema,
+  findRestrictedCriteria,
+} from "../agent/tools/employee-filter";
+import { EmployeeSchema } from "../db/employee";
+import {
+  importEmployees,
+  IMPORT_FORMATS,
+  parseImportFile,
+} from "../db/employee-import";
+import {
+  createEmployee,
+  deleteEmployee,
+  EmployeeAuditEntry,
+  EmployeeStore,
+  getEmployee,
+  listEmployeeAudit,
+  listEmployees,
+  updateEmployee,
+} from "../db/employee-store";
+import { getRequestCaller } from "../middleware/auth";
+import { logger } from "../utils/logger";
+
+const router = Router();
+
+// Input validation schemas
+const employeeIdSchema = z
+  .string()
+  .min(1, "Employee ID cannot be empty")
+  .max(100, "Employee ID too long");
+
+const pageSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Same criteria as the employee_filter tool; skills are comma separated
+const listEmployeesQuerySchema = EmployeeFilterSchema.omit({
+  limit: true,
+}).extend({
+  is_remote: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+  skills: z
+    .string()
+    .transform((value) =>
+      value
+        .split(",")
+        .map((skill) => skill.trim())
+        .filter(Boolean)
+    )
+    .optional(),
+  ...pageSchema.shape,
+});
+
+const employeePatchSchema = z
+  .record(z.string(), z.unknown())
+  .refine((patch) => Object.keys(patch).length > 0, "Provide fields to update");
+
+// File contents travel as a string so CSV, JSON and JSONL share one body
+const importRequestSchema = z.object({
+  format: z.enum(IMPORT_FORMATS),
+  content: z.string().min(1, "content cannot be empty"),
+  // CSV header to field path, e.g. {"Salary": "job_details.salary"}
+  mapping: z.record(z.string(), z.string()).optional(),
+  dry_run: z.boolean().default(false),
+  upsert: z.boolean().default(false),
+});
+
+// Roles allowed to create, change and delete employee records
+const EDITOR_ROLES: readonly Role[] = ["hr", "admin"];
+
+const canEditEmployees = (caller: Caller) =>
+  EDITOR_ROLES.includes(caller.role);
+
+let mongoClient: MongoClient;
+
+// Function to set the MongoDB client
+export const setMongoClient = (client: MongoClient) => {
+  mongoClient = client;
+};
+
+// Collections behind the employee routes; reads need nothing else, so a
+// misconfigured embeddings provider only affects writes
+function getEmployeeCollections() {
+  const db = mongoClient.db(CONFIG.DATABASE_NAME);
+  return {
+    employees: db.collection(CONFIG.EMPLOYEES_COLLECTION_NAME),
+    audit: db.collection<EmployeeAuditEntry>(
+      CONFIG.EMPLOYEE_AUDIT_COLLECTION_NAME
+    ),
+  };
+}
+
+// Store for the write routes
+function getEmployeeStore(): EmployeeStore {
+  // The change stream indexer re-embeds writes when it is running
+  if (CONFIG.VECTOR_SYNC_ENABLED) return getEmployeeCollections();
+  const { embeddings, vectorIndex } = getEmployeeSearch(mongoClient);
+  return {
+    ...getEmployeeCollections(),
+    vectors: { index: vectorIndex, embeddings },
+  };
+}
+
+const handleError = (res: Response, error: unknown, context: string) => {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ error: "Invalid request", details: error.issues });
+  } else if (error instanceof AgentError && error.statusCode < 500) {
+    res.status(error.statusCode).json({ error: error.message });
+  } else {
+    logger.error(`Error ${context}:`, error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Answers 403 unless the caller may change employee records
+const requireEditor = (req: Request, res: Response): Caller | null => {
+  const caller = getRequestCaller(req);
+  if (!canEditEmployees(caller)) {
+    res
+      .status(403)
+      .json({ error: "Only HR and admins can change employee records" });
+    return null;
+  }
+  return caller;
+};
+
+// Every read only returns the fields the caller's role may see
+
+// API endpoint to list employees matching optional filters
+// curl -X GET -H "X-API-Key: $API_KEY" "http://localhost:3000/employees?department=Engineering&skills=Swift,Kotlin&limit=20&offset=0"
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const { limit, offset, ...criteria } = listEmployeesQuerySchema.parse(
+      req.query
+    );
+    const { role } = getRequestCaller(req);
+    const restricted = findRestrictedCriteria(role, criteria);
+    if (restricted.length) {
+      res.status(403).json({
+        error: `Your role cannot filter on: ${restricted.join(", ")}`,
+      });
+      return;
+    }
+    const { employees, total } = await listEmployees(
+      getEmployeeCollections().employees,
+      buildEmployeeFilter(criteria),
+      role,
+      { limit, offset }
+    );
+    res.json({ employees, total, limit, offset });
+  } catch (error) {
+    handleError(res, error, "listing employees");
+  }
+});
+
+// API endpoint to read one employee
+// curl -X GET -H "X-API-Key: $API_KEY" http://localhost:3000/employees/E001
+router.get("/:employeeId", async (req: Request, res: Response) => {
+  try {
+    const employeeId = employeeIdSchema.parse(req.params.employeeId);
+    const employee = await getEmployee(
+      getEmployeeCollections().employees,
+      employeeId,
+      getRequestCaller(req).role
+    );
+    if (!employee) {
+      res.status(404).json({ error: "Employee not found" });
+      return;
+    }
+    res.json(employee);
+  } catch (error) {
+    handleError(res, error, "reading employee");
+  }
+});
+
+// API endpoint to create an employee (HR and admins)
+// curl -X POST -H "X-API-Key: $API_KEY" -H "Content-Type: application/json" -d @employee.json http://localhost:3000/employees
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const caller = requireEditor(req, res);
+    if (!caller) return;
+    const employee = EmployeeSchema.parse(req.body);
+    res
+      .status(201)
+      .json(await createEmployee(getEmployeeStore(), employee, caller));
+  } catch (error) {
+    handleError(res, error, "creating employee");
+  }
+});
+
+// API endpoint to import employees from a CSV, JSON or JSONL file (HR and
+// admins). Valid rows are saved, invalid ones are listed in the report.
+// curl -X POST -H "X-API-Key: $API_KEY" -H "Content-Type: application/json" -d "$(jq -Rs '{format: "csv", content: ., dry_run: true, mapping: {"Salary": "job_details.salary"}}' employees.csv)" http://localhost:3000/employees/import
+router.post("/import", async (req: Request, res: Response) => {
+  try {
+    const caller = requireEditor(req, res);
+    if (!caller) return;
+    const { format, content, mapping, dry_run, upsert } =
+      importRequestSchema.parse(req.body);
+    const report = await importEmployees(
+      getEmployeeStore(),
+      parseImportFile(content, format, mapping),
+      caller,
+      { dryRun: dry_run, upsert }
+    );
+    res.json(report);
+  } catch (error) {
+    handleError(res, error, "importing employees");
+  }
+});
+
+// API endpoint to change some fields of an employee (HR and admins); nested
+// objects are merged, arrays are replaced
+// curl -X PATCH -H "X-API-Key: $API_KEY" -H "Content-Type: application/json" -d '{"job_details": {"job_title": "Staff Engineer"}}' http://localhost:3000/employees/E001
+router.patch("/:employeeId", async (req: Request, res: Response) => {
+  try {
+    const caller = requireEditor(req, res);
+    if (!caller) return;
+    const employeeId = employeeIdSchema.parse(req.params.employeeId);
+    const patch = employeePatchSchema.parse(req.body);
+    const employee = await updateEmployee(
+      getEmployeeStore(),
+      employeeId,
+      patch,
+      caller
+    );
+    if (!employee) {
+      res.status(404).json({ error: "Employee not found" });
+      return;
+    }
+    res.json(employee);
+  } catch (error) {
+    handleError(res, error, "updating employee");
+  }
+});
+
+// API endpoint to delete an employee who manages nobody (HR and admins)
+// curl -X DELETE -H "X-API-Key: $API_KEY" http://localhost:3000/employees/E001
+router.delete("/:employeeId", async (req: Request, res: Response) => {
+  try {
+    const caller = requireEditor(req, res);
+    if (!caller) return;
+    const employeeId = employeeIdSchema.parse(req.params.employeeId);
+    if (!(await deleteEmployee(getEmployeeStore(), employeeId, caller))) {
+      res.status(404).json({ error: "Employee not found" });
+      return;
+    }
+    res.status(204).end();
+  } catch (error) {
+    handleError(res, error, "deleting employee");
+  }
+});
+
+// API endpoint to read the write history of an employee (HR and admins)
+// curl -X GET -H "X-API-Key: $API_KEY" "http://localhost:3000/employees/E001/audit?limit=20"
+router.get("/:employeeId/audit", async (req: Request, res: Response) => {
+  try {
+    if (!requireEditor(req, res)) return;
+    const employeeId = employeeIdSchema.parse(req.params.employeeId);
+    const { limit, offset } = pageSchema.parse(req.query);
+    const entries = await listEmployeeAudit(
+      getEmployeeCollections().audit,
+      employeeId,
+      { limit, offset }
+    );
+    res.json({ entries, limit, offset });
+  } catch (error) {
+    handleError(res, error, "reading employee audit trail");
+  }
+});
+
+export default router;
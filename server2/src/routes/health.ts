@@ -1,7 +1,8 @@
 import { Router, Request, Response } from "express";
 import { MongoClient } from "mongodb";
-import { QdrantClient } from "@qdrant/js-client-rest";
 import { logger } from "../utils/logger";
+import { createEmbeddingModel } from "../agent/providers/embeddings";
+import { createEmployeeVectorIndex } from "../db/vector-index";
 
 const router = Router();
 
@@ -15,37 +16,43 @@ router.get("/", async (_: Request, res: Response) => {
       services: {},
     };
 
-    // Check MongoDB connection
-    try {
-      // We need to get the client from somewhere - this will be passed when mounting the router
-      // For now, we'll create a new client for health checks
-      const client = new MongoClient(process.env.MONGODB_ATLAS_URI as string);
-      await client.connect();
-      await client.db("admin").command({ ping: 1 });
-      await client.close();
-      healthStatus.services.mongo = { status: "healthy" };
-    } catch (error) {
-      healthStatus.services.mongo = {
-        status: "unhealthy",
-        error: (error as Error).message,
-      };
-      healthStatus.status = "degraded";
-    }
+    // We need to get the client from somewhere - this will be passed when mounting the router
+    // For now, we'll create a new client for health checks
+    const client = new MongoClient(process.env.MONGODB_ATLAS_URI as string);
 
-    // Check Qdrant connection
     try {
-      const qdrantClient = new QdrantClient({
-        url: process.env.QDRANT_URL,
-        apiKey: process.env.QDRANT_API_KEY,
-      });
-      await qdrantClient.getCollections();
-      healthStatus.services.qdrant = { status: "healthy" };
-    } catch (error) {
-      healthStatus.services.qdrant = {
-        status: "unhealthy",
-        error: (error as Error).message,
-      };
-      healthStatus.status = "degraded";
+      // Check MongoDB connection
+      try {
+        await client.connect();
+        await client.db("admin").command({ ping: 1 });
+        healthStatus.services.mongo = { status: "healthy" };
+      } catch (error) {
+        healthStatus.services.mongo = {
+          status: "unhealthy",
+          error: (error as Error).message,
+        };
+        healthStatus.status = "degraded";
+      }
+
+      // Check the vector index backend
+      try {
+        const { dimensions } = createEmbeddingModel();
+        const vectorIndex = createEmployeeVectorIndex(client, dimensions);
+        const points = await vectorIndex.count();
+        healthStatus.services.vector_index = {
+          status: "healthy",
+          backend: vectorIndex.backend,
+          points,
+        };
+      } catch (error) {
+        healthStatus.services.vector_index = {
+          status: "unhealthy",
+          error: (error as Error).message,
+        };
+        healthStatus.status = "degraded";
+      }
+    } finally {
+      await client.close();
     }
 
     // Return appropriate status code
@@ -0,0 +1,19 @@
+import { Router, Request, Response } from "express";
+import { logger } from "../utils/logger";
+import { metricsRegistry } from "../utils/metrics";
+
+const router = Router();
+
+// Prometheus scrape endpoint in the text exposition format
+// curl -X GET http://localhost:3000/metrics
+router.get("/", async (_: Request, res: Response) => {
+  try {
+    res.setHeader("Content-Type", metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
+  } catch (error) {
+    logger.error("Error collecting metrics:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,56 @@
+import { Router, Request, Response } from "express";
+import { MongoClient } from "mongodb";
+import { z } from "zod";
+import { CONFIG } from "../agent/config/config";
+import { getOrgChart } from "../db/org-chart";
+import { getRequestCaller } from "../middleware/auth";
+import { logger } from "../utils/logger";
+
+const router = Router();
+
+// Input validation schemas
+const employeeIdSchema = z
+  .string()
+  .min(1, "Employee ID cannot be empty")
+  .max(100, "Employee ID too long");
+
+const orgChartQuerySchema = z.object({
+  depth: z.coerce.number().int().min(0).max(CONFIG.ORG_MAX_DEPTH).default(1),
+});
+
+let mongoClient: MongoClient;
+
+// Function to set the MongoDB client
+export const setMongoClient = (client: MongoClient) => {
+  mongoClient = client;
+};
+
+// API endpoint to read the org chart around an employee
+// curl -X GET -H "X-API-Key: $API_KEY" "http://localhost:3000/org/E001?depth=2"
+router.get("/:employeeId", async (req: Request, res: Response) => {
+  try {
+    const employeeId = employeeIdSchema.parse(req.params.employeeId);
+    const { depth } = orgChartQuerySchema.parse(req.query);
+    const chart = await getOrgChart(
+      mongoClient
+        .db(CONFIG.DATABASE_NAME)
+        .collection(CONFIG.EMPLOYEES_COLLECTION_NAME),
+      employeeId,
+      { role: getRequestCaller(req).role, depth }
+    );
+    if (!chart) {
+      res.status(404).json({ error: "Employee not found" });
+      return;
+    }
+    res.json(chart);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: "Invalid request", details: error.issues });
+    } else {
+      logger.error("Error reading org chart:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,119 @@
+import { Router, Request, Response } from "express";
+import { MongoClient } from "mongodb";
+import { z } from "zod";
+import { deleteThread, listThreads, updateThread } from "../db/threads";
+import { getRequestCaller } from "../middleware/auth";
+import { logger } from "../utils/logger";
+
+const router = Router();
+
+// Input validation schemas
+const listThreadsQuerySchema = z.object({
+  archived: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const threadIdSchema = z
+  .string()
+  .min(1, "Thread ID cannot be empty")
+  .max(100, "Thread ID too long");
+
+const updateThreadSchema = z
+  .object({
+    title: z
+      .string()
+      .trim()
+      .min(1, "Title cannot be empty")
+      .max(200, "Title too long")
+      .optional(),
+    archived: z.boolean().optional(),
+  })
+  .refine(
+    (changes) => changes.title !== undefined || changes.archived !== undefined,
+    "Provide a title or archived flag"
+  );
+
+let mongoClient: MongoClient;
+
+// Function to set the MongoDB client
+export const setMongoClient = (client: MongoClient) => {
+  mongoClient = client;
+};
+
+const handleError = (res: Response, error: unknown, context: string) => {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ error: "Invalid request", details: error.issues });
+  } else {
+    logger.error(`Error ${context}:`, error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Every endpoint only sees threads started by the authenticated caller;
+// anyone else's threads are reported as not found
+
+// API endpoint to list conversations, most recently updated first
+// curl -X GET -H "X-API-Key: $API_KEY" "http://localhost:3000/threads?limit=20&offset=0"
+// curl -X GET -H "X-API-Key: $API_KEY" "http://localhost:3000/threads?archived=true"
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const options = listThreadsQuerySchema.parse(req.query);
+    const { threads, total } = await listThreads(
+      mongoClient,
+      getRequestCaller(req).id,
+      options
+    );
+    res.json({ threads, total, limit: options.limit, offset: options.offset });
+  } catch (error) {
+    handleError(res, error, "listing threads");
+  }
+});
+
+// API endpoint to rename and/or archive a conversation
+// curl -X PATCH -H "X-API-Key: $API_KEY" -H "Content-Type: application/json" -d '{"title": "iOS team"}' http://localhost:3000/threads/$THREAD_ID
+// curl -X PATCH -H "X-API-Key: $API_KEY" -H "Content-Type: application/json" -d '{"archived": true}' http://localhost:3000/threads/$THREAD_ID
+router.patch("/:threadId", async (req: Request, res: Response) => {
+  try {
+    const threadId = threadIdSchema.parse(req.params.threadId);
+    const changes = updateThreadSchema.parse(req.body);
+    const thread = await updateThread(
+      mongoClient,
+      threadId,
+      getRequestCaller(req).id,
+      changes
+    );
+    if (!thread) {
+      res.status(404).json({ error: "Thread not found" });
+      return;
+    }
+    res.json(thread);
+  } catch (error) {
+    handleError(res, error, "updating thread");
+  }
+});
+
+// API endpoint to delete a conversation and its checkpoints
+// curl -X DELETE -H "X-API-Key: $API_KEY" http://localhost:3000/threads/$THREAD_ID
+router.delete("/:threadId", async (req: Request, res: Response) => {
+  try {
+    const threadId = threadIdSchema.parse(req.params.threadId);
+    const deleted = await deleteThread(
+      mongoClient,
+      threadId,
+      getRequestCaller(req).id
+    );
+    if (!deleted) {
+      res.status(404).json({ error: "Thread not found" });
+      return;
+    }
+    res.status(204).end();
+  } catch (error) {
+    handleError(res, error, "deleting thread");
+  }
+});
+
+export default router;
@@ -0,0 +1,121 @@
+import { Router, Request, Response } from "express";
+import { MongoClient } from "mongodb";
+import { z } from "zod";
+import { Caller, Role } from "../agent/policy/caller";
+import { getQuota, startOfUtcDay } from "../agent/usage";
+import {
+  getUsageCollection,
+  quotaScope,
+  reportUsage,
+  sumUsage,
+  USAGE_GROUPS,
+} from "../db/usage";
+import { getRequestCaller } from "../middleware/auth";
+import { logger } from "../utils/logger";
+
+const router = Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Report periods default to the last 30 days, today included
+const DEFAULT_REPORT_DAYS = 30;
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// Input validation schemas
+const usageReportQuerySchema = z
+  .object({
+    group_by: z.enum(USAGE_GROUPS).default("day"),
+    from: z.iso.date().optional(),
+    to: z.iso.date().optional(),
+    user_id: z.string().min(1).max(100).optional(),
+    thread_id: z.string().min(1).max(100).optional(),
+    limit: z.coerce.number().int().min(1).max(1000).default(100),
+  })
+  .transform(({ from, to, ...options }) => {
+    const end = to ? new Date(to) : startOfUtcDay(new Date());
+    const start = from
+      ? new Date(from)
+      : new Date(end.getTime() - (DEFAULT_REPORT_DAYS - 1) * DAY_MS);
+    return { ...options, from: start, to: end };
+  })
+  .refine((options) => options.from <= options.to, "from must not be after to");
+
+// Roles allowed to see every user's usage; others only see their own
+const USAGE_ADMIN_ROLES: readonly Role[] = ["admin"];
+
+const canSeeAllUsage = (caller: Caller) =>
+  USAGE_ADMIN_ROLES.includes(caller.role);
+
+let mongoClient: MongoClient;
+
+// Function to set the MongoDB client
+export const setMongoClient = (client: MongoClient) => {
+  mongoClient = client;
+};
+
+const handleError = (res: Response, error: unknown, context: string) => {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ error: "Invalid request", details: error.issues });
+  } else {
+    logger.error(`Error ${context}:`, error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// API endpoint to total token usage and cost per day, thread, user or key
+// curl -X GET -H "X-API-Key: $API_KEY" "http://localhost:3000/usage?group_by=day&from=2025-01-01&to=2025-01-31"
+// curl -X GET -H "X-API-Key: $API_KEY" "http://localhost:3000/usage?group_by=thread&limit=20"
+// curl -X GET -H "X-API-Key: $ADMIN_API_KEY" "http://localhost:3000/usage?group_by=user"
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const options = usageReportQuerySchema.parse(req.query);
+    const caller = getRequestCaller(req);
+    if (!canSeeAllUsage(caller)) {
+      if (options.user_id && options.user_id !== caller.id) {
+        res
+          .status(403)
+          .json({ error: "Only admins can see other users' usage" });
+        return;
+      }
+      options.user_id = caller.id;
+    }
+    const rows = await reportUsage(getUsageCollection(mongoClient), options);
+    res.json({
+      group_by: options.group_by,
+      from: isoDay(options.from),
+      to: isoDay(options.to),
+      rows,
+    });
+  } catch (error) {
+    handleError(res, error, "reporting usage");
+  }
+});
+
+// API endpoint to show the caller's usage today against their daily quota
+// curl -X GET -H "X-API-Key: $API_KEY" http://localhost:3000/usage/quota
+router.get("/quota", async (req: Request, res: Response) => {
+  try {
+    const caller = getRequestCaller(req);
+    const today = startOfUtcDay(new Date());
+    const used = await sumUsage(
+      getUsageCollection(mongoClient),
+      quotaScope(caller),
+      today
+    );
+    res.json({
+      user_id: caller.id,
+      // Callers on an API key have a quota per key
+      ...(caller.key_id && { key_id: caller.key_id }),
+      day: isoDay(today),
+      used,
+      // 0 means unlimited
+      quota: getQuota(caller),
+      resets_at: new Date(today.getTime() + DAY_MS).toISOString(),
+    });
+  } catch (error) {
+    handleError(res, error, "reading usage quota");
+  }
+});
+
+export default router;
@@ -0,0 +1,92 @@
+import { appendFile, mkdir } from "fs/promises";
+import { dirname } from "path";
+import {
+  ExportResult,
+  ExportResultCode,
+  hrTimeToMilliseconds,
+} from "@opentelemetry/core";
+import { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+
+// One span as written to the trace file
+export interface SpanRecord {
+  trace_id: string;
+  span_id: string;
+  parent_span_id: string | null;
+  name: string;
+  kind: string;
+  start_time: string;
+  duration_ms: number;
+  status: { code: string; message?: string };
+  attributes: Record<string, unknown>;
+  events: { name: string; time: string; attributes: Record<string, unknown> }[];
+  service: unknown;
+}
+
+const toIso = (time: ReadableSpan["startTime"]) =>
+  new Date(hrTimeToMilliseconds(time)).toISOString();
+
+/**
+ * Converts a finished span to the record written to the trace file
+ */
+export function toSpanRecord(span: ReadableSpan): SpanRecord {
+  const { traceId, spanId } = span.spanContext();
+  return {
+    trace_id: traceId,
+    span_id: spanId,
+    parent_span_id: span.parentSpanContext?.spanId ?? null,
+    name: span.name,
+    kind: SpanKind[span.kind],
+    start_time: toIso(span.startTime),
+    duration_ms: hrTimeToMilliseconds(span.duration),
+    status: {
+      code: SpanStatusCode[span.status.code],
+      ...(span.status.message && { message: span.status.message }),
+    },
+    attributes: { ...span.attributes },
+    events: span.events.map((event) => ({
+      name: event.name,
+      time: toIso(event.time),
+      attributes: { ...event.attributes },
+    })),
+    service: span.resource.attributes["service.name"],
+  };
+}
+
+/**
+ * Appends finished spans to a local file, one JSON object per line, for
+ * development without an OpenTelemetry collector. Group lines by trace_id
+ * to rebuild a request: `jq -s 'group_by(.trace_id)' logs/traces.jsonl`.
+ */
+export class FileSpanExporter implements SpanExporter {
+  // Writes run one after another so lines never interleave
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void
+  ): void {
+    const lines = spans
+      .map((span) => `${JSON.stringify(toSpanRecord(span))}\n`)
+      .join("");
+    this.pending = this.pending
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        await appendFile(this.path, lines);
+      })
+      .then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        (error) => resultCallback({ code: ExportResultCode.FAILED, error })
+      );
+  }
+
+  forceFlush(): Promise<void> {
+    return this.pending;
+  }
+
+  shutdown(): Promise<void> {
+    return this.pending;
+  }
+}
@@ -0,0 +1,114 @@
+import {
+  createHmac,
+  createPublicKey,
+  KeyObject,
+  timingSafeEqual,
+  verify,
+} from "crypto";
+import { AuthenticationError } from "../agent/config/errors";
+
+// Keys used to check signatures; an algorithm without a key is rejected
+export interface JwtVerificationKeys {
+  hs256Secret?: string;
+  rs256PublicKey?: KeyObject;
+}
+
+export interface JwtVerificationOptions {
+  issuer?: string;
+  audience?: string;
+  // Allowed clock drift when checking exp and nbf, in seconds
+  clockToleranceSeconds?: number;
+  now?: () => number;
+}
+
+export type JwtClaims = Record<string, unknown> & {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+};
+
+const decodeSegment = (segment: string): unknown =>
+  JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+
+/**
+ * Loads an RS256 public key from PEM text, accepting "\n" escaped newlines
+ * so the key fits in a single environment variable
+ * @param pem - SPKI or PKCS#1 PEM encoded public key
+ */
+export function loadPublicKey(pem: string): KeyObject {
+  return createPublicKey(pem.replace(/\\n/g, "\n"));
+}
+
+/**
+ * Verifies a compact JWT signed with HS256 or RS256 and returns its claims
+ * @param token - The encoded token
+ * @param keys - Secret and/or public key the token may be signed with
+ * @param options - Expected issuer and audience
+ * @throws AuthenticationError if the token is malformed, badly signed,
+ * expired, not yet valid or meant for another issuer or audience
+ */
+export function verifyJwt(
+  token: string,
+  keys: JwtVerificationKeys,
+  options: JwtVerificationOptions = {}
+): JwtClaims {
+  const segments = token.split(".");
+  if (segments.length !== 3) {
+    throw new AuthenticationError("Malformed token");
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+
+  let header: { alg?: unknown };
+  let claims: JwtClaims;
+  try {
+    header = decodeSegment(encodedHeader) as { alg?: unknown };
+    claims = decodeSegment(encodedPayload) as JwtClaims;
+  } catch {
+    throw new AuthenticationError("Malformed token");
+  }
+  if (!claims || typeof claims !== "object") {
+    throw new AuthenticationError("Malformed token");
+  }
+
+  const signingInput = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+  const signature = Buffer.from(encodedSignature, "base64url");
+  let valid = false;
+  if (header.alg === "HS256" && keys.hs256Secret) {
+    const expected = createHmac("sha256", keys.hs256Secret)
+      .update(signingInput)
+      .digest();
+    valid =
+      expected.length === signature.length &&
+      timingSafeEqual(expected, signature);
+  } else if (header.alg === "RS256" && keys.rs256PublicKey) {
+    valid = verify("RSA-SHA256", signingInput, keys.rs256PublicKey, signature);
+  } else {
+    throw new AuthenticationError(
+      `Unsupported token algorithm: ${String(header.alg)}`
+    );
+  }
+  if (!valid) {
+    throw new AuthenticationError("Invalid token signature");
+  }
+
+  const now = Math.floor((options.now?.() ?? Date.now()) / 1000);
+  const tolerance = options.clockToleranceSeconds ?? 30;
+  if (typeof claims.exp === "number" && now - tolerance >= claims.exp) {
+    throw new AuthenticationError("Token has expired");
+  }
+  if (typeof claims.nbf === "number" && now + tolerance < claims.nbf) {
+    throw new AuthenticationError("Token is not yet valid");
+  }
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw new AuthenticationError("Token issuer is not accepted");
+  }
+  if (options.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new AuthenticationError("Token audience is not accepted");
+    }
+  }
+  return claims;
+}
@@ -0,0 +1,69 @@
+import winston from "winston";
+import { CONFIG } from "../agent/config/config";
+import { Redactor } from "./redaction";
+import { getRequestId } from "./request-context";
+
+// Define log levels
+export const levels = {
+  error: 0,
+  warn: 1,
+  info: 2,
+  http: 3,
+  debug: 4,
+};
+
+// Define colors for each level
+const colors = {
+  error: "red",
+  warn: "yellow",
+  info: "green",
+  http: "magenta",
+  debug: "white",
+};
+
+// Add colors to winston
+winston.addColors(colors);
+
+const redactor = new Redactor(CONFIG.LOG_REDACT_FIELDS);
+
+// Entry fields set by the logger itself, which hold no personal data
+const RESERVED_FIELDS = new Set(["level", "timestamp", "request_id"]);
+
+/**
+ * Applied to every entry before any transport: tags it with the id of the
+ * request being handled and masks personal data in the message and metadata
+ */
+export const entryFormat = winston.format.combine(
+  winston.format((info) => {
+    const requestId = getRequestId();
+    if (requestId && !info.request_id) {
+      info.request_id = requestId;
+    }
+    return info;
+  })(),
+  winston.format((info) => {
+    for (const key of Object.keys(info)) {
+      if (!RESERVED_FIELDS.has(key)) {
+        info[key] = redactor.redact(info[key]);
+      }
+    }
+    return info;
+  })()
+);
+
+// Console lines: timestamp, level, request id, message, then any metadata
+// as JSON and the stack of a logged error on the following lines
+export const consoleFormat = winston.format.combine(
+  winston.format.timestamp({ format: "YYYY-MM-DD HH:mm:ss:ms" }),
+  winston.format.colorize({ all: true }),
+  winston.format.printf((info: any) => {
+    const { timestamp, level, message, request_id, stack, ...metadata } =
+      info;
+    const requestId = request_id ? ` [${request_id}]` : "";
+    const details = Object.keys(metadata).length
+      ? ` ${JSON.stringify(metadata)}`
+      : "";
+    const trace = stack ? `\n${stack}` : "";
+    return `${timestamp} ${level}${requestId}: ${message}${details}${trace}`;
+  })
+);
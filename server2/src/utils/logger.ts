@@ -1,40 +1,11 @@
 import winston from "winston";
-
-// Define log levels
-const levels = {
-  error: 0,
-  warn: 1,
-  info: 2,
-  http: 3,
-  debug: 4,
-};
-
-// Define colors for each level
-const colors = {
-  error: "red",
-  warn: "yellow",
-  info: "green",
-  http: "magenta",
-  debug: "white",
-};
-
-// Add colors to winston
-winston.addColors(colors);
-
-// Define the format for logs
-const format = winston.format.combine(
-  winston.format.timestamp({ format: "YYYY-MM-DD HH:mm:ss:ms" }),
-  winston.format.colorize({ all: true }),
-  winston.format.printf(
-    (info: any) => `${info.timestamp} ${info.level}: ${info.message}`
-  )
-);
+import { consoleFormat, entryFormat, levels } from "./log-format";
 
 // Define transports
 const transports = [
   // Console transport for development
   new winston.transports.Console({
-    format,
+    format: consoleFormat,
   }),
 
   // Error log file
@@ -62,7 +33,7 @@ const transports = [
 export const logger = winston.createLogger({
   level: process.env.LOG_LEVEL || "info",
   levels,
-  format,
+  format: entryFormat,
   transports,
 });
 
@@ -0,0 +1,105 @@
+import { Counter, Histogram, Registry } from "prom-client";
+import { MongoClient } from "mongodb";
+
+// Every metric the server exposes on /metrics. Labels only take values
+// from small fixed sets (route patterns, tool names, outcomes), never ids.
+export const metricsRegistry = new Registry();
+
+// Buckets in seconds, from fast lookups to slow agent runs
+const LATENCY_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60,
+];
+
+export const httpRequestDuration = new Histogram({
+  name: "http_request_duration_seconds",
+  help: "HTTP request duration by route pattern and status code",
+  labelNames: ["method", "route", "status_code"] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+export const agentRunDuration = new Histogram({
+  name: "agent_run_duration_seconds",
+  help: "Agent run duration by mode (invoke, resume, stream) and outcome",
+  labelNames: ["mode", "outcome"] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+export const modelCallDuration = new Histogram({
+  name: "model_call_duration_seconds",
+  help: "Chat model call duration per attempt by provider and outcome",
+  labelNames: ["provider", "outcome"] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+export const retriesTotal = new Counter({
+  name: "agent_retries_total",
+  help: "Retried model calls and workflow runs",
+  labelNames: ["operation"] as const,
+  registers: [metricsRegistry],
+});
+
+export const toolCallsTotal = new Counter({
+  name: "tool_calls_total",
+  help: "Agent tool calls by tool and outcome",
+  labelNames: ["tool", "outcome"] as const,
+  registers: [metricsRegistry],
+});
+
+export const toolCallDuration = new Histogram({
+  name: "tool_call_duration_seconds",
+  help: "Agent tool call duration by tool",
+  labelNames: ["tool"] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+export const backendQueryDuration = new Histogram({
+  name: "backend_query_duration_seconds",
+  help: "MongoDB command and vector index operation duration",
+  labelNames: ["backend", "operation", "outcome"] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+/**
+ * Times an async operation on a backend, labelling it with its outcome
+ * @param backend - Backend name, e.g. qdrant
+ * @param operation - Operation name from a fixed set, e.g. search
+ */
+export async function timeBackendQuery<T>(
+  backend: string,
+  operation: string,
+  run: () => Promise<T>
+): Promise<T> {
+  const end = backendQueryDuration.startTimer({ backend, operation });
+  try {
+    const result = await run();
+    end({ outcome: "success" });
+    return result;
+  } catch (error) {
+    end({ outcome: "error" });
+    throw error;
+  }
+}
+
+/**
+ * Records the duration of every command a MongoDB client runs. The client
+ * must be created with `monitorCommands: true`.
+ */
+export function observeMongoCommands(client: MongoClient): void {
+  client.on("commandSucceeded", (event) =>
+    backendQueryDuration.observe(
+      { backend: "mongo", operation: event.commandName, outcome: "success" },
+      event.duration / 1000
+    )
+  );
+  client.on("commandFailed", (event) =>
+    backendQueryDuration.observe(
+      { backend: "mongo", operation: event.commandName, outcome: "error" },
+      event.duration / 1000
+    )
+  );
+}
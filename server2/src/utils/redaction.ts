@@ -0,0 +1,129 @@
+// Personal data masked in log entries before any transport writes them
+export const REDACTED = "[REDACTED]";
+
+// Field names whose values are always masked, on top of LOG_REDACT_FIELDS
+export const DEFAULT_REDACTED_FIELDS = [
+  "email",
+  "phone_number",
+  "salary",
+  "date_of_birth",
+];
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+// 555-0100, (030) 1234 5678, +49 30 1234-5678; not dates or ids
+const PHONE_PATTERN =
+  /(?<![\w-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\d{2,4}[\s.-])?\d{3,4}[\s.-]\d{4}(?![\w-])/g;
+// Amounts and dates in free text, e.g. a model answer
+const SALARY_PATTERN = /(\bsalar(?:y|ies)\b[^\d\n]{0,40}?)\d[\d,]*(?:\.\d+)?/gi;
+const BIRTH_DATE_PATTERN =
+  /(\b(?:born|date[ _]of[ _]birth|dob)\b[^\d\n]{0,20}?)(?:\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{2,4})/gi;
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Masks personal data in log entries: values of the listed fields in
+ * objects and in serialized JSON, plus emails, phone numbers, salaries and
+ * dates of birth in free text
+ */
+export class Redactor {
+  private readonly fields: Set<string>;
+  // "field": value pairs inside strings such as a logged request body
+  private readonly serializedField: RegExp;
+
+  /**
+   * @param fields - Extra field names to mask, matched case-insensitively
+   */
+  constructor(fields: readonly string[] = []) {
+    this.fields = new Set(
+      [...DEFAULT_REDACTED_FIELDS, ...fields].map((field) =>
+        field.toLowerCase()
+      )
+    );
+    const names = [...this.fields].map(escapeRegExp).join("|");
+    this.serializedField = new RegExp(
+      `("(?:${names})"\\s*:\\s*)(?:"(?:[^"\\\\]|\\\\.)*"|[^\\s,{}[\\]]+)`,
+      "gi"
+    );
+  }
+
+  redactText(text: string): string {
+    return text
+      .replace(this.serializedField, `$1"${REDACTED}"`)
+      .replace(EMAIL_PATTERN, REDACTED)
+      .replace(SALARY_PATTERN, `$1${REDACTED}`)
+      .replace(BIRTH_DATE_PATTERN, `$1${REDACTED}`)
+      .replace(PHONE_PATTERN, REDACTED);
+  }
+
+  /**
+   * Returns a masked copy of a value; objects passed in are left unchanged
+   */
+  redact(value: unknown, seen = new WeakSet<object>()): unknown {
+    if (typeof value === "string") {
+      return this.redactText(value);
+    }
+    if (!value || typeof value !== "object") {
+      return value;
+    }
+    if (value instanceof Error) {
+      return this.redactError(value, seen);
+    }
+    const prototype = Object.getPrototypeOf(value);
+    if (
+      !Array.isArray(value) &&
+      prototype !== Object.prototype &&
+      prototype !== null
+    ) {
+      // Dates, ObjectIds and the like carry no free text
+      return value;
+    }
+    if (seen.has(value)) {
+      return "[Circular]";
+    }
+    // Only the current path counts, so shared references are kept
+    seen.add(value);
+    try {
+      if (Array.isArray(value)) {
+        return value.map((item) => this.redact(item, seen));
+      }
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          this.fields.has(key.toLowerCase()) && item != null
+            ? REDACTED
+            : this.redact(item, seen),
+        ])
+      );
+    } finally {
+      seen.delete(value);
+    }
+  }
+
+  /**
+   * Copies an error with its message, stack and own fields masked, so
+   * format.errors({ stack: true }) can still print where it was thrown
+   */
+  private redactError(error: Error, seen: WeakSet<object>): unknown {
+    if (seen.has(error)) {
+      return "[Circular]";
+    }
+    seen.add(error);
+    try {
+      const copy: Error = Object.create(Object.getPrototypeOf(error));
+      Object.assign(copy, this.redact({ ...error }, seen));
+      for (const key of ["message", "stack"] as const) {
+        if (error[key] !== undefined) {
+          Object.defineProperty(copy, key, {
+            value: this.redactText(error[key]),
+            writable: true,
+            configurable: true,
+          });
+        }
+      }
+      return copy;
+    } finally {
+      seen.delete(error);
+    }
+  }
+}
@@ -0,0 +1,7 @@
+// Escapes regex metacharacters so a value is matched literally
+export const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Case-insensitive whole-value match
+export const equalsIgnoreCase = (value: string) =>
+  new RegExp(`^${escapeRegex(value.trim())}$`, "i");
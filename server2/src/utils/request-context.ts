@@ -0,0 +1,24 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// State of the HTTP request being handled, visible to everything it calls
+export interface RequestContext {
+  request_id: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs a function with the given request context. Code it calls,
+ * including graph nodes and tools, reads the context with getRequestId.
+ */
+export function runWithRequestContext<T>(
+  context: RequestContext,
+  run: () => T
+): T {
+  return storage.run(context, run);
+}
+
+// Id of the request being handled, undefined outside a request
+export function getRequestId(): string | undefined {
+  return storage.getStore()?.request_id;
+}
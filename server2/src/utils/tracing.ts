@@ -0,0 +1,91 @@
+import {
+  Attributes,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from "@opentelemetry/api";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+  BatchSpanProcessor,
+  SpanExporter,
+} from "@opentelemetry/sdk-trace-base";
+import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
+import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
+import { CONFIG } from "../agent/config/config";
+import { FileSpanExporter } from "./file-span-exporter";
+import { logger } from "./logger";
+
+// Spans are no-ops until startTracing registers a provider, so tests and
+// scripts can call withSpan freely
+export const tracer = trace.getTracer(CONFIG.SERVICE_NAME);
+
+/**
+ * Runs a function inside a new active span, so spans started within it
+ * become its children. The span ends when the function settles and is
+ * marked as failed, with the exception recorded, if it throws.
+ * @param name - Span name, e.g. "langgraph.node agent"
+ * @param attributes - Attributes known before the call starts
+ * @param run - Work to trace; receives the span to add attributes to
+ */
+export function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  run: (span: Span) => Promise<T>,
+  kind: SpanKind = SpanKind.INTERNAL
+): Promise<T> {
+  return tracer.startActiveSpan(
+    name,
+    { kind, attributes },
+    async (span: Span) => {
+      try {
+        return await run(span);
+      } catch (error) {
+        span.recordException(error as Error);
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      } finally {
+        span.end();
+      }
+    }
+  );
+}
+
+// OTLP needs a collector; a local JSON lines file is used without one
+function createSpanExporter(): SpanExporter {
+  if (
+    process.env.OTEL_EXPORTER_OTLP_ENDPOINT ||
+    process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+  ) {
+    logger.info("Exporting traces over OTLP");
+    // Reads the endpoint and headers from the standard OTEL_* variables
+    return new OTLPTraceExporter();
+  }
+  logger.info(`Writing traces to ${CONFIG.TRACE_FILE}`);
+  return new FileSpanExporter(CONFIG.TRACE_FILE);
+}
+
+/**
+ * Registers the global tracer provider with an AsyncLocalStorage context
+ * manager and W3C trace context propagation. Call once at startup, before
+ * any request is served.
+ * @returns The provider, to flush and shut down on exit, or undefined when
+ * TRACING_ENABLED is false
+ */
+export function startTracing(): NodeTracerProvider | undefined {
+  if (!CONFIG.TRACING_ENABLED) {
+    return undefined;
+  }
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: CONFIG.SERVICE_NAME,
+    }),
+    spanProcessors: [new BatchSpanProcessor(createSpanExporter())],
+  });
+  provider.register();
+  return provider;
+}
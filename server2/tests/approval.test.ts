@@ -0,0 +1,223 @@
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+} from "@langchain/core/messages";
+import { tool } from "@langchain/core/tools";
+import { Command, MemorySaver } from "@langchain/langgraph";
+import { z } from "zod";
+import { createWorkflow } from "../src/agent/agent";
+import { findSensitiveToolCalls } from "../src/agent/approval";
+import { ScriptedChatModel } from "../src/agent/providers/fake-chat-model";
+
+describe("findSensitiveToolCalls", () => {
+  test("should flag lookups that target restricted fields", () => {
+    const pending = findSensitiveToolCalls([
+      { id: "1", name: "employee_lookup", args: { query: "salary of Jane" } },
+      { id: "2", name: "employee_lookup", args: { query: "iOS developers" } },
+      { id: "3", name: "employee_lookup", args: { query: "Jane's DOB" } },
+    ]);
+
+    expect(pending.map((call) => call.id)).toEqual(["1", "3"]);
+    expect(pending[0].reason).toMatch(/restricted fields/);
+  });
+
+  test("should flag bulk exports", () => {
+    const pending = findSensitiveToolCalls([
+      {
+        id: "1",
+        name: "employee_lookup",
+        args: { query: "engineers", n: 500 },
+      },
+      { id: "2", name: "employee_lookup", args: { query: "export everyone" } },
+      { id: "3", name: "employee_lookup", args: { query: "engineers", n: 5 } },
+    ]);
+
+    expect(pending.map((call) => call.id)).toEqual(["1", "2"]);
+    expect(pending[0].reason).toBe("Bulk export of employee records");
+  });
+
+  test("should flag analytics reports that read restricted fields", () => {
+    const pending = findSensitiveToolCalls([
+      {
+        id: "1",
+        name: "hr_analytics",
+        args: { report: "salary_by_department" },
+      },
+      {
+        id: "2",
+        name: "hr_analytics",
+        args: { report: "headcount_by_department" },
+      },
+      { id: "3", name: "hr_analytics", args: { report: "unknown" } },
+    ]);
+
+    expect(pending.map((call) => call.id)).toEqual(["1"]);
+    expect(pending[0].reason).toMatch(/restricted fields/);
+  });
+
+  test("should ignore tools without rules", () => {
+    expect(
+      findSensitiveToolCalls([
+        { id: "1", name: "other_tool", args: { query: "salary" } },
+      ])
+    ).toEqual([]);
+  });
+});
+
+describe("Approval workflow", () => {
+  const config = { configurable: { thread_id: "approval-thread" } };
+  let lookupQueries: string[];
+
+  const createApp = () => {
+    lookupQueries = [];
+    const lookup = tool(
+      async (input: unknown) => {
+        lookupQueries.push((input as { query: string }).query);
+        return "lookup result";
+      },
+      {
+        name: "employee_lookup",
+        description: "Test lookup",
+        schema: z.object({ query: z.string() }),
+      }
+    );
+    return createWorkflow(
+      [lookup],
+      new ScriptedChatModel({
+        responses: [
+          {
+            toolCalls: [
+              { name: "employee_lookup", args: { query: "salaries in Sales" } },
+            ],
+          },
+        ],
+      }),
+      new MemorySaver()
+    );
+  };
+
+  const lastMessage = (state: { messages: BaseMessage[] }) =>
+    state.messages[state.messages.length - 1];
+
+  test("should pause before sensitive tool calls", async () => {
+    const app = createApp();
+
+    await app.invoke(
+      { messages: [new HumanMessage("Compare salaries in Sales")] },
+      config
+    );
+    const state = await app.getState(config);
+
+    expect(lookupQueries).toEqual([]);
+    expect(state.tasks[0].interrupts[0].value).toEqual({
+      tool_calls: [
+        expect.objectContaining({
+          id: "call_0_0",
+          name: "employee_lookup",
+          args: { query: "salaries in Sales" },
+        }),
+      ],
+    });
+  });
+
+  test("should run the tool call once approved", async () => {
+    const app = createApp();
+    await app.invoke({ messages: [new HumanMessage("Salaries?")] }, config);
+
+    const finalState = await app.invoke(
+      new Command({ resume: { action: "approve" } }),
+      config
+    );
+
+    expect(lookupQueries).toEqual(["salaries in Sales"]);
+    expect(lastMessage(finalState).content).toBe(
+      "FINAL ANSWER: lookup result"
+    );
+  });
+
+  test("should run edited arguments in place of the original", async () => {
+    const app = createApp();
+    await app.invoke({ messages: [new HumanMessage("Salaries?")] }, config);
+
+    const finalState = await app.invoke(
+      new Command({
+        resume: {
+          action: "edit",
+          tool_calls: [{ id: "call_0_0", args: { query: "Sales headcount" } }],
+        },
+      }),
+      config
+    );
+
+    expect(lookupQueries).toEqual(["Sales headcount"]);
+    const toolCallMessages = finalState.messages.filter(
+      (message: BaseMessage) => (message as AIMessage).tool_calls?.length
+    );
+    expect(toolCallMessages).toHaveLength(1);
+    expect((toolCallMessages[0] as AIMessage).tool_calls?.[0].args).toEqual({
+      query: "Sales headcount",
+    });
+  });
+
+  test("should pause before salary analytics reach the tools node", async () => {
+    const reports: string[] = [];
+    const analytics = tool(
+      async (input: unknown) => {
+        reports.push((input as { report: string }).report);
+        return "analytics result";
+      },
+      {
+        name: "hr_analytics",
+        description: "Test analytics",
+        schema: z.object({ report: z.string() }),
+      }
+    );
+    const app = createWorkflow(
+      [analytics],
+      new ScriptedChatModel({
+        responses: [
+          {
+            toolCalls: [
+              {
+                name: "hr_analytics",
+                args: { report: "salary_by_department" },
+              },
+            ],
+          },
+        ],
+      }),
+      new MemorySaver()
+    );
+
+    await app.invoke(
+      { messages: [new HumanMessage("Compare pay across departments")] },
+      config
+    );
+    const state = await app.getState(config);
+
+    expect(reports).toEqual([]);
+    expect(state.next).toEqual(["approval"]);
+    expect(state.tasks[0].interrupts[0].value.tool_calls).toEqual([
+      expect.objectContaining({ name: "hr_analytics" }),
+    ]);
+  });
+
+  test("should report rejections back to the agent", async () => {
+    const app = createApp();
+    await app.invoke({ messages: [new HumanMessage("Salaries?")] }, config);
+
+    const finalState = await app.invoke(
+      new Command({ resume: { action: "reject", reason: "Out of scope" } }),
+      config
+    );
+
+    expect(lookupQueries).toEqual([]);
+    const toolMessage = finalState.messages[finalState.messages.length - 2];
+    expect(toolMessage.getType()).toBe("tool");
+    expect(toolMessage.content).toContain(
+      "rejected by an approver: Out of scope"
+    );
+    expect(lastMessage(finalState).getType()).toBe("ai");
+  });
+});
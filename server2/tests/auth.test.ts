@@ -0,0 +1,178 @@
+import { createHmac, generateKeyPairSync, sign } from "crypto";
+import { Request, Response } from "express";
+import {
+  AuthOptions,
+  createAuthenticator,
+  parseApiKeys,
+} from "../src/middleware/auth";
+import { ConfigurationError } from "../src/agent/config/errors";
+import { verifyJwt } from "../src/utils/jwt";
+
+const SECRET = "test-secret";
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const signHs256 = (claims: object, secret = SECRET) => {
+  const input = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}`;
+  const signature = createHmac("sha256", secret)
+    .update(input)
+    .digest("base64url");
+  return `${input}.${signature}`;
+};
+
+const runAuthenticator = (
+  options: Partial<AuthOptions>,
+  headers: Record<string, string>
+) => {
+  const req = {
+    method: "GET",
+    url: "/chat",
+    get: (name: string) => headers[name],
+  } as unknown as Request;
+  const res = {
+    setHeader: jest.fn(),
+    status: jest.fn().mockReturnThis(),
+    json: jest.fn(),
+  };
+  const next = jest.fn();
+  createAuthenticator({ apiKeys: [], ...options })(
+    req,
+    res as unknown as Response,
+    next
+  );
+  return { req, res, next };
+};
+
+describe("parseApiKeys", () => {
+  test("should default the role to employee", () => {
+    const callers = [...parseApiKeys(["k1:alice", "k2:bob:hr"]).values()];
+
+    expect(callers).toEqual([
+      { id: "alice", role: "employee", key_id: expect.any(String) },
+      { id: "bob", role: "hr", key_id: expect.any(String) },
+    ]);
+  });
+
+  test("should reject malformed entries and unknown roles", () => {
+    expect(() => parseApiKeys(["k1"])).toThrow(ConfigurationError);
+    expect(() => parseApiKeys(["k1:alice:root"])).toThrow(ConfigurationError);
+  });
+});
+
+describe("verifyJwt", () => {
+  test("should verify HS256 tokens", () => {
+    const claims = verifyJwt(signHs256({ sub: "alice" }), {
+      hs256Secret: SECRET,
+    });
+
+    expect(claims.sub).toBe("alice");
+  });
+
+  test("should verify RS256 tokens", () => {
+    const { publicKey, privateKey } = generateKeyPairSync("rsa", {
+      modulusLength: 2048,
+    });
+    const input = `${encode({ alg: "RS256" })}.${encode({ sub: "bob" })}`;
+    const signature = sign("RSA-SHA256", Buffer.from(input), privateKey);
+    const token = `${input}.${signature.toString("base64url")}`;
+
+    expect(verifyJwt(token, { rs256PublicKey: publicKey }).sub).toBe("bob");
+  });
+
+  test("should reject bad signatures", () => {
+    expect(() =>
+      verifyJwt(signHs256({ sub: "alice" }, "other"), { hs256Secret: SECRET })
+    ).toThrow("Invalid token signature");
+  });
+
+  test("should reject algorithms without a configured key", () => {
+    const token = `${encode({ alg: "none" })}.${encode({ sub: "alice" })}.`;
+
+    expect(() => verifyJwt(token, { hs256Secret: SECRET })).toThrow(
+      "Unsupported token algorithm"
+    );
+  });
+
+  test("should check expiry, issuer and audience", () => {
+    const now = () => 1_700_000_000_000;
+    const keys = { hs256Secret: SECRET };
+
+    expect(() =>
+      verifyJwt(signHs256({ sub: "a", exp: 1_600_000_000 }), keys, { now })
+    ).toThrow("Token has expired");
+    expect(() =>
+      verifyJwt(signHs256({ sub: "a", iss: "other" }), keys, {
+        issuer: "hr-portal",
+      })
+    ).toThrow("issuer");
+    expect(
+      verifyJwt(signHs256({ sub: "a", aud: ["x", "hr-api"] }), keys, {
+        audience: "hr-api",
+      }).sub
+    ).toBe("a");
+  });
+});
+
+describe("createAuthenticator", () => {
+  test("should authenticate API keys", () => {
+    const { req, next } = runAuthenticator(
+      { apiKeys: ["k1:alice:manager"] },
+      { "X-API-Key": "k1" }
+    );
+
+    expect(req.caller).toEqual({
+      id: "alice",
+      role: "manager",
+      key_id: expect.stringMatching(/^[0-9a-f]{12}$/),
+    });
+    expect(req.caller?.key_id).not.toContain("k1");
+    expect(next).toHaveBeenCalled();
+  });
+
+  test("should take the caller from JWT claims", () => {
+    const { req } = runAuthenticator(
+      { hs256Secret: SECRET },
+      { Authorization: `Bearer ${signHs256({ sub: "carol", role: "hr" })}` }
+    );
+
+    expect(req.caller).toEqual({ id: "carol", role: "hr" });
+  });
+
+  test("should reject unknown keys with 401", () => {
+    const { res, next } = runAuthenticator(
+      { apiKeys: ["k1:alice"] },
+      { "X-API-Key": "k2" }
+    );
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.setHeader).toHaveBeenCalledWith(
+      "WWW-Authenticate",
+      expect.stringContaining("Bearer")
+    );
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  test("should reject requests without credentials", () => {
+    const { res, next } = runAuthenticator({ hs256Secret: SECRET }, {});
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  test("should reject tokens with unknown roles", () => {
+    const { res } = runAuthenticator(
+      { hs256Secret: SECRET },
+      { Authorization: `Bearer ${signHs256({ sub: "x", role: "root" })}` }
+    );
+
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  test("should use the anonymous caller when disabled", () => {
+    const { req, next } = runAuthenticator({ disabled: true }, {});
+
+    expect(req.caller).toEqual({ id: "anonymous", role: "employee" });
+    expect(next).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,72 @@
+import { CachedQueryEmbeddings } from "../src/agent/providers/cached-embeddings";
+
+const fakeEmbeddings = () => ({
+  embedQuery: jest.fn(async (text: string) => [text.length]),
+  embedDocuments: jest.fn(async (texts: string[]) =>
+    texts.map((text) => [text.length])
+  ),
+});
+
+describe("CachedQueryEmbeddings", () => {
+  test("should embed repeated queries once", async () => {
+    const inner = fakeEmbeddings();
+    const cached = new CachedQueryEmbeddings(inner, 10);
+
+    await cached.embedQuery("Who knows Swift?");
+    await cached.embedQuery("  Who knows   Swift? ");
+
+    expect(inner.embedQuery).toHaveBeenCalledTimes(1);
+    expect(cached.hits).toBe(1);
+    expect(cached.misses).toBe(1);
+  });
+
+  test("should share one call between concurrent requests", async () => {
+    const inner = fakeEmbeddings();
+    const cached = new CachedQueryEmbeddings(inner, 10);
+
+    await Promise.all([cached.embedQuery("a"), cached.embedQuery("a")]);
+
+    expect(inner.embedQuery).toHaveBeenCalledTimes(1);
+  });
+
+  test("should evict the least recently used query", async () => {
+    const inner = fakeEmbeddings();
+    const cached = new CachedQueryEmbeddings(inner, 2);
+
+    await cached.embedQuery("a");
+    await cached.embedQuery("b");
+    await cached.embedQuery("a");
+    await cached.embedQuery("c");
+    await cached.embedQuery("a");
+    await cached.embedQuery("b");
+
+    expect(cached.size).toBe(2);
+    expect(inner.embedQuery.mock.calls.map(([text]) => text)).toEqual([
+      "a",
+      "b",
+      "c",
+      "b",
+    ]);
+  });
+
+  test("should not cache failures", async () => {
+    const inner = fakeEmbeddings();
+    inner.embedQuery.mockRejectedValueOnce(new Error("rate limited"));
+    const cached = new CachedQueryEmbeddings(inner, 10);
+
+    await expect(cached.embedQuery("a")).rejects.toThrow("rate limited");
+    await expect(cached.embedQuery("a")).resolves.toEqual([1]);
+    expect(inner.embedQuery).toHaveBeenCalledTimes(2);
+  });
+
+  test("should pass documents straight through", async () => {
+    const inner = fakeEmbeddings();
+    const cached = new CachedQueryEmbeddings(inner, 10);
+
+    await cached.embedDocuments(["a", "b"]);
+    await cached.embedDocuments(["a", "b"]);
+
+    expect(inner.embedDocuments).toHaveBeenCalledTimes(2);
+    expect(cached.size).toBe(0);
+  });
+});
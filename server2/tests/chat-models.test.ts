@@ -0,0 +1,88 @@
+import { HumanMessage, AIMessage, BaseMessage } from "@langchain/core/messages";
+import { tool } from "@langchain/core/tools";
+import { MemorySaver } from "@langchain/langgraph";
+import { z } from "zod";
+import {
+  createChatModel,
+  getChatModelRequiredEnv,
+} from "../src/agent/providers/chat-models";
+import { ScriptedChatModel } from "../src/agent/providers/fake-chat-model";
+import { createWorkflow } from "../src/agent/agent";
+import { ConfigurationError } from "../src/agent/config/errors";
+
+describe("Chat model registry", () => {
+  test("should create the fake model without credentials", () => {
+    const model = createChatModel({ provider: "fake" });
+
+    expect(model).toBeInstanceOf(ScriptedChatModel);
+    expect(getChatModelRequiredEnv("fake")).toEqual([]);
+  });
+
+  test("should report provider credentials", () => {
+    expect(getChatModelRequiredEnv("anthropic")).toEqual(["ANTHROPIC_API_KEY"]);
+    expect(getChatModelRequiredEnv("openai")).toEqual(["OPENAI_API_KEY"]);
+  });
+
+  test("should reject unknown providers", () => {
+    expect(() => createChatModel({ provider: "unknown" })).toThrow(
+      ConfigurationError
+    );
+  });
+});
+
+describe("ScriptedChatModel", () => {
+  test("should replay scripted responses in order", async () => {
+    const model = new ScriptedChatModel({ responses: ["first", "second"] });
+
+    const first = await model.invoke([new HumanMessage("hi")]);
+    const second = await model.invoke([new HumanMessage("hi")]);
+
+    expect(first.content).toBe("first");
+    expect(second.content).toBe("second");
+  });
+
+  test("should emit scripted tool calls", async () => {
+    const model = new ScriptedChatModel({
+      responses: [{ toolCalls: [{ name: "lookup", args: { query: "swift" } }] }],
+    });
+
+    const result = await model.invoke([new HumanMessage("hi")]);
+
+    expect(result.tool_calls).toEqual([
+      expect.objectContaining({ name: "lookup", args: { query: "swift" } }),
+    ]);
+  });
+
+  test("should run a workflow end-to-end with tool calling", async () => {
+    const lookup = tool(
+      async (input: unknown) => `found: ${(input as { query: string }).query}`,
+      {
+        name: "employee_lookup",
+        description: "Test lookup",
+        schema: z.object({ query: z.string() }),
+      }
+    );
+    const app = createWorkflow(
+      [lookup],
+      new ScriptedChatModel(),
+      new MemorySaver()
+    );
+
+    const finalState = (await app.invoke(
+      { messages: [new HumanMessage("iOS developers")] },
+      { configurable: { thread_id: "test-thread" } }
+    )) as { messages: BaseMessage[] };
+
+    const messages = finalState.messages;
+    expect(messages.map((message) => message.getType())).toEqual([
+      "human",
+      "ai",
+      "tool",
+      "ai",
+    ]);
+    expect((messages[1] as AIMessage).tool_calls?.[0].name).toBe(
+      "employee_lookup"
+    );
+    expect(messages[3].content).toBe("FINAL ANSWER: found: iOS developers");
+  });
+});
@@ -0,0 +1,489 @@
+import { Writable } from "stream";
+import express, { NextFunction, Request, Response } from "express";
+import request from "supertest";
+import winston from "winston";
+import { MemorySaver } from "@langchain/langgraph";
+import { Document, MongoClient } from "mongodb";
+import { ServerBusyError } from "../src/agent/config/errors";
+import { Caller } from "../src/agent/policy/caller";
+import { ScriptedResponse } from "../src/agent/providers/fake-chat-model";
+import { RunLimiter } from "../src/agent/run-limiter";
+import { requestContext } from "../src/middleware";
+import chatRoutes, { setMongoClient } from "../src/routes/chat";
+import { entryFormat, levels } from "../src/utils/log-format";
+import { logger } from "../src/utils/logger";
+
+// Checkpoints shared by every run, so resumed runs find their thread
+const mockCheckpointer = new MemorySaver();
+jest.mock("@langchain/langgraph-checkpoint-mongodb", () => ({
+  MongoDBSaver: jest.fn(() => mockCheckpointer),
+}));
+
+// Script each run of the agent replays from its first turn
+let mockResponses: ScriptedResponse[] = [];
+jest.mock("../src/agent/providers/chat-models", () => {
+  const { ScriptedChatModel } = jest.requireActual(
+    "../src/agent/providers/fake-chat-model"
+  );
+  return {
+    ...jest.requireActual("../src/agent/providers/chat-models"),
+    createChatModel: () => ({
+      bindTools: (tools: unknown[]) =>
+        new ScriptedChatModel({ responses: mockResponses }).bindTools(tools),
+    }),
+  };
+});
+
+jest.mock("../src/agent/providers/embeddings", () => {
+  const { HashedNGramEmbeddings } = jest.requireActual(
+    "../src/agent/providers/hashed-embeddings"
+  );
+  return {
+    createEmbeddingModel: () => ({
+      embeddings: new HashedNGramEmbeddings({ dimensions: 16 }),
+      model: "hashed",
+      dimensions: 16,
+    }),
+  };
+});
+
+jest.mock("../src/db/vector-index", () => {
+  const { InMemoryEmployeeVectorIndex } = jest.requireActual(
+    "../src/db/vector-index/memory-index"
+  );
+  return {
+    createEmployeeVectorIndex: (_client: unknown, dimensions: number) =>
+      new InMemoryEmployeeVectorIndex(dimensions),
+  };
+});
+
+const matches = (doc: Document, filter: Document) =>
+  Object.entries(filter).every(([key, value]) => doc[key] === value);
+
+// Copies the dot-notation paths a projection includes
+const project = (doc: Document, projection?: Record<string, 0 | 1>) => {
+  const paths = Object.entries(projection ?? {})
+    .filter(([, include]) => include === 1)
+    .map(([path]) => path);
+  if (!paths.length) {
+    return { ...doc };
+  }
+  const copy: Document = {};
+  for (const path of paths) {
+    const keys = path.split(".");
+    let source: Document | undefined = doc;
+    let target = copy;
+    keys.forEach((key, index) => {
+      if (source?.[key] === undefined) {
+        source = undefined;
+        return;
+      }
+      if (index === keys.length - 1) {
+        target[key] = source[key];
+      } else {
+        target = target[key] ??= {};
+        source = source[key];
+      }
+    });
+  }
+  return copy;
+};
+
+// Collection backed by an array, matching filters by plain equality
+const fakeCollection = (docs: Document[] = []) => ({
+  docs,
+  insertOne: jest.fn(async (doc: Document) => {
+    docs.push({ ...doc });
+    return { acknowledged: true };
+  }),
+  findOne: jest.fn(async (filter: Document) => {
+    const doc = docs.find((candidate) => matches(candidate, filter));
+    return doc ? { ...doc } : null;
+  }),
+  updateOne: jest.fn(async (filter: Document, update: Document) => {
+    const doc = docs.find((candidate) => matches(candidate, filter));
+    Object.assign(doc ?? {}, update.$set);
+    return { matchedCount: doc ? 1 : 0 };
+  }),
+  find: jest.fn(
+    (_filter: Document, options?: { projection?: Record<string, 0 | 1> }) => {
+      const cursor = {
+        sort: () => cursor,
+        limit: () => cursor,
+        toArray: async () =>
+          docs.map((doc) => project(doc, options?.projection)),
+      };
+      return cursor;
+    }
+  ),
+});
+
+let collections: Map<string, ReturnType<typeof fakeCollection>>;
+const collection = (name: string) => {
+  if (!collections.has(name)) {
+    collections.set(name, fakeCollection());
+  }
+  return collections.get(name)!;
+};
+const client = {
+  db: () => ({ collection }),
+} as unknown as MongoClient;
+
+const CALLERS: Record<string, Caller> = {
+  alice: { id: "alice", role: "employee" },
+  hr: { id: "hr-1", role: "hr" },
+};
+
+const app = express();
+app.use(requestContext);
+app.use(express.json());
+app.use((req: Request, _res: Response, next: NextFunction) => {
+  req.caller = CALLERS[req.header("X-Test-User") ?? "alice"];
+  next();
+});
+app.use("/chat", chatRoutes);
+
+// Parses a Server-Sent Events body into its events
+const parseEvents = (body: string) =>
+  body
+    .split("\n\n")
+    .filter(Boolean)
+    .map((block) => {
+      const [eventLine, dataLine] = block.split("\n");
+      return {
+        type: eventLine.replace("event: ", ""),
+        data: JSON.parse(dataLine.replace("data: ", "")),
+      };
+    });
+
+const threads = () => collection("threads").docs;
+
+beforeAll(() => setMongoClient(client));
+
+beforeEach(() => {
+  collections = new Map();
+  mockResponses = [];
+});
+
+describe("POST /chat", () => {
+  test("should stream tokens and then the final event", async () => {
+    mockResponses = ["FINAL ANSWER: Jane Doe knows Swift."];
+
+    const res = await request(app)
+      .post("/chat")
+      .set("Accept", "text/event-stream")
+      .send({ message: "Who knows Swift?" });
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toMatch(/^text\/event-stream/);
+    const events = parseEvents(res.text);
+    expect(events.map((event) => event.type)).toEqual(["token", "final"]);
+    expect(events[0].data).toEqual({
+      content: "FINAL ANSWER: Jane Doe knows Swift.",
+    });
+    expect(events[1].data).toEqual({
+      threadId: threads()[0].thread_id,
+      response: "FINAL ANSWER: Jane Doe knows Swift.",
+    });
+    expect(threads()[0].message_count).toBe(2);
+  });
+
+  test("should end the stream with an error event when the run fails", async () => {
+    mockResponses = ["FINAL ANSWER: never saved"];
+    jest
+      .spyOn(mockCheckpointer, "put")
+      .mockRejectedValueOnce(new Error("checkpoint write failed"));
+
+    const res = await request(app)
+      .post("/chat")
+      .set("Accept", "text/event-stream")
+      .send({ message: "Who knows Swift?" });
+
+    const events = parseEvents(res.text);
+    expect(events[events.length - 1]).toEqual({
+      type: "error",
+      data: {
+        threadId: threads()[0].thread_id,
+        message:
+          "Sorry, something went wrong while processing your request. Please try again later.",
+      },
+    });
+    expect(threads()[0].message_count).toBe(0);
+  });
+
+  test("should not count a run paused for approval as an exchange", async () => {
+    mockResponses = [
+      {
+        toolCalls: [
+          { name: "employee_lookup", args: { query: "salary of Jane" } },
+        ],
+      },
+    ];
+
+    const res = await request(app)
+      .post("/chat")
+      .set("Accept", "text/event-stream")
+      .send({ message: "What is Jane's salary?" });
+
+    const events = parseEvents(res.text);
+    expect(events.map((event) => event.type)).toEqual(["final"]);
+    expect(events[0].data.pendingApproval.tool_calls).toEqual([
+      expect.objectContaining({ name: "employee_lookup" }),
+    ]);
+    expect(threads()[0].message_count).toBe(0);
+  });
+
+  test("should answer with JSON when the client does not ask for a stream", async () => {
+    mockResponses = ["FINAL ANSWER: Jane Doe knows Swift."];
+
+    const res = await request(app)
+      .post("/chat")
+      .send({ message: "Who knows Swift?" });
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toMatch(/^application\/json/);
+    expect(res.body).toEqual({
+      threadId: threads()[0].thread_id,
+      response: "FINAL ANSWER: Jane Doe knows Swift.",
+    });
+    expect(threads()[0].message_count).toBe(2);
+  });
+
+  test("should stream each tool call once, with its budgeted output", async () => {
+    collection("employees").docs.push(
+      ...Array.from({ length: 50 }, (_, index) => ({
+        employee_id: `E${String(index).padStart(3, "0")}`,
+        first_name: "Jane",
+        last_name: "Doe",
+        job_details: {
+          job_title: `iOS Developer ${"x".repeat(200)}`,
+          department: "Engineering",
+        },
+      }))
+    );
+    mockResponses = [
+      {
+        toolCalls: [
+          { name: "employee_filter", args: { department: "Engineering" } },
+        ],
+      },
+    ];
+
+    const res = await request(app)
+      .post("/chat")
+      .set("Accept", "text/event-stream")
+      .send({ message: "Who is in Engineering?" });
+
+    const events = parseEvents(res.text);
+    const toolEvents = events.filter((event) =>
+      event.type.startsWith("tool_")
+    );
+    expect(toolEvents.map((event) => event.type)).toEqual([
+      "tool_start",
+      "tool_end",
+    ]);
+    expect(toolEvents[0].data.tool).toBe("employee_filter");
+    expect(toolEvents[1].data.runId).toBe(toolEvents[0].data.runId);
+    const page = JSON.parse(toolEvents[1].data.output);
+    expect(page).toMatchObject({ tool: "employee_filter", total: 50 });
+    expect(page.results.length).toBeLessThan(50);
+    expect(events[events.length - 1].type).toBe("final");
+  });
+
+  test.each(["application/json", "text/event-stream"])(
+    "should not create a thread when the server is busy (%s)",
+    async (accept) => {
+      mockResponses = ["FINAL ANSWER: never sent"];
+      jest
+        .spyOn(RunLimiter.prototype, "run")
+        .mockRejectedValueOnce(new ServerBusyError("No slot", 5));
+
+      const res = await request(app)
+        .post("/chat")
+        .set("Accept", accept)
+        .send({ message: "Who knows Swift?" });
+
+      expect(res.status).toBe(503);
+      expect(res.headers["retry-after"]).toBe("5");
+      expect(threads()).toEqual([]);
+    }
+  );
+});
+
+describe("POST /chat/:threadId", () => {
+  test("should stream a reply in the caller's own thread", async () => {
+    mockResponses = ["FINAL ANSWER: Hello"];
+    const started = await request(app)
+      .post("/chat")
+      .send({ message: "Hi" });
+
+    mockResponses = ["FINAL ANSWER: You said hi."];
+    const res = await request(app)
+      .post(`/chat/${started.body.threadId}`)
+      .set("Accept", "text/event-stream")
+      .send({ message: "What did I say?" });
+
+    expect(parseEvents(res.text).map((event) => event.type)).toEqual([
+      "token",
+      "final",
+    ]);
+    expect(threads()[0].message_count).toBe(4);
+  });
+
+  test("should count tool calls and their results as messages", async () => {
+    mockResponses = [
+      {
+        toolCalls: [
+          { name: "employee_filter", args: { department: "Engineering" } },
+        ],
+      },
+    ];
+
+    await request(app)
+      .post("/chat")
+      .send({ message: "Who is in Engineering?" });
+
+    // human, AI tool call, tool result, AI answer
+    expect(threads()[0].message_count).toBe(4);
+  });
+
+  test("should refuse new messages while a tool call awaits approval", async () => {
+    mockResponses = [
+      {
+        toolCalls: [
+          { name: "employee_lookup", args: { query: "salary of Jane" } },
+        ],
+      },
+    ];
+    const started = await request(app)
+      .post("/chat")
+      .send({ message: "What is Jane's salary?" });
+
+    mockResponses = ["FINAL ANSWER: Hello"];
+    const res = await request(app)
+      .post(`/chat/${started.body.threadId}`)
+      .send({ message: "Never mind" });
+    const pending = await request(app)
+      .get(`/chat/${started.body.threadId}/pending`)
+      .set("X-Test-User", "hr");
+
+    expect(res.status).toBe(409);
+    expect(pending.body.pendingApproval.tool_calls).toEqual([
+      expect.objectContaining({ name: "employee_lookup" }),
+    ]);
+    expect(threads()[0].message_count).toBe(0);
+  });
+
+  test("should hide other users' threads", async () => {
+    mockResponses = ["FINAL ANSWER: Hello"];
+    const started = await request(app)
+      .post("/chat")
+      .send({ message: "Hi" });
+
+    const res = await request(app)
+      .post(`/chat/${started.body.threadId}`)
+      .set("X-Test-User", "hr")
+      .send({ message: "Let me in" });
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("POST /chat/:threadId/resume", () => {
+  test("should run approved tool calls with the thread owner's role", async () => {
+    collection("employees").docs.push({
+      employee_id: "E001",
+      first_name: "Jane",
+      last_name: "Doe",
+      date_of_birth: "1990-04-12",
+      job_details: {
+        job_title: "iOS Developer",
+        department: "Engineering",
+        salary: 98765,
+      },
+      notes: "Discussed relocation privately",
+    });
+    mockResponses = [
+      {
+        toolCalls: [
+          {
+            name: "employee_filter",
+            args: { department: "Engineering", limit: 60 },
+          },
+        ],
+      },
+    ];
+    const started = await request(app)
+      .post("/chat")
+      .send({ message: "List everyone in Engineering" });
+    expect(started.body.pendingApproval).toBeDefined();
+
+    // The resumed run answers with the tool output
+    mockResponses = [];
+    const res = await request(app)
+      .post(`/chat/${started.body.threadId}/resume`)
+      .set("X-Test-User", "hr")
+      .send({ action: "approve" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.response).toContain("Jane");
+    expect(res.body.response).not.toMatch(/98765|1990-04-12|relocation/);
+    const usage = collection("usage").docs;
+    expect(usage.map((record) => record.user_id)).toEqual(["alice", "alice"]);
+    expect(threads()[0].message_count).toBe(4);
+  });
+});
+
+describe("Route errors", () => {
+  test("should log failures through the logger, redacted and tagged with the request id", async () => {
+    // Sends what the mocked logger receives through the real entry format
+    const lines: string[] = [];
+    const capture = winston.createLogger({
+      levels,
+      format: winston.format.combine(
+        entryFormat,
+        winston.format.errors({ stack: true }),
+        winston.format.json()
+      ),
+      transports: [
+        new winston.transports.Stream({
+          stream: new Writable({
+            write(chunk, _encoding, done) {
+              lines.push(chunk.toString());
+              done();
+            },
+          }),
+        }),
+      ],
+    });
+    jest
+      .mocked(logger.error)
+      .mockImplementationOnce(capture.error.bind(capture));
+    collection("threads").insertOne.mockRejectedValueOnce(
+      new Error("Write failed for jane.doe@example.com")
+    );
+
+    const res = await request(app)
+      .post("/chat")
+      .set("X-Request-Id", "req-42")
+      .send({ message: "Who knows Swift?" });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(res.status).toBe(500);
+    expect(logger.error).toHaveBeenCalledWith(
+      "Error starting conversation:",
+      expect.any(Error)
+    );
+    expect(lines).toHaveLength(1);
+    const entry = JSON.parse(lines[0]);
+    expect(entry).toMatchObject({
+      level: "error",
+      request_id: "req-42",
+      message: "Error starting conversation: Write failed for [REDACTED]",
+    });
+    expect(entry.stack).toMatch(
+      /^Error: Write failed for \[REDACTED\]\n\s+at /
+    );
+    expect(lines[0]).not.toContain("jane.doe@example.com");
+  });
+});
@@ -30,4 +30,11 @@ describe("Config", () => {
     expect(CONFIG.MAX_QUERY_LENGTH).toBe(1000);
     expect(CONFIG.MAX_THREAD_ID_LENGTH).toBe(100);
   });
+
+  test("should have chat model defaults", () => {
+    expect(CONFIG.MODEL_PROVIDER).toBe("anthropic");
+    expect(CONFIG.MODEL_TEMPERATURE).toBe(0);
+    expect(CONFIG.MODEL_MAX_TOKENS).toBeGreaterThan(0);
+    expect(CONFIG.SEED_MODEL_PROVIDER).toBe("openai");
+  });
 });
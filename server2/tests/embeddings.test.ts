@@ -0,0 +1,70 @@
+import {
+  createEmbeddingModel,
+  getEmbeddingsRequiredEnv,
+} from "../src/agent/providers/embeddings";
+import { HashedNGramEmbeddings } from "../src/agent/providers/hashed-embeddings";
+import { ConfigurationError } from "../src/agent/config/errors";
+
+const cosine = (a: number[], b: number[]) =>
+  a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe("HashedNGramEmbeddings", () => {
+  const embeddings = new HashedNGramEmbeddings({ dimensions: 128 });
+
+  test("should produce vectors of the configured dimension", async () => {
+    const vector = await embeddings.embedQuery("iOS developer");
+
+    expect(vector).toHaveLength(128);
+  });
+
+  test("should be deterministic across instances", async () => {
+    const other = new HashedNGramEmbeddings({ dimensions: 128 });
+
+    expect(await embeddings.embedQuery("Swift engineer")).toEqual(
+      await other.embedQuery("Swift engineer")
+    );
+  });
+
+  test("should return unit-length vectors", async () => {
+    const vector = await embeddings.embedQuery("Data scientist in Berlin");
+    const norm = Math.sqrt(cosine(vector, vector));
+
+    expect(norm).toBeCloseTo(1, 6);
+  });
+
+  test("should rank related text above unrelated text", async () => {
+    const [query, related, unrelated] = await embeddings.embedDocuments([
+      "swift ios developer",
+      "Senior iOS developer skilled in Swift and SwiftUI",
+      "Payroll accountant handling quarterly tax filings",
+    ]);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  test("should return a zero vector for empty text", async () => {
+    const vector = await embeddings.embedQuery("");
+
+    expect(vector.every((value) => value === 0)).toBe(true);
+  });
+});
+
+describe("Embeddings registry", () => {
+  test("should take the vector dimension from the provider", () => {
+    expect(createEmbeddingModel({ provider: "local" }).dimensions).toBe(256);
+    expect(
+      createEmbeddingModel({ provider: "local", dimensions: 64 }).dimensions
+    ).toBe(64);
+  });
+
+  test("should report provider credentials", () => {
+    expect(getEmbeddingsRequiredEnv("local")).toEqual([]);
+    expect(getEmbeddingsRequiredEnv("openai")).toEqual(["OPENAI_API_KEY"]);
+  });
+
+  test("should reject unknown providers", () => {
+    expect(() => createEmbeddingModel({ provider: "unknown" })).toThrow(
+      ConfigurationError
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { Collection } from "mongodb";
+import {
+  buildEmployeeFilter,
+  employeeFilterTool,
+  findRestrictedCriteria,
+} from "../src/agent/tools/employee-filter";
+import { findSensitiveToolCalls } from "../src/agent/approval";
+
+describe("buildEmployeeFilter", () => {
+  test("should compile criteria into a query", () => {
+    const filter = buildEmployeeFilter({
+      department: "Engineering",
+      nearest_office: "Berlin",
+      is_remote: true,
+      hired_after: "2020-01-01",
+      manager: "E001",
+    });
+
+    expect(filter["job_details.department"]).toEqual(/^Engineering$/i);
+    expect(filter["work_location.nearest_office"]).toEqual(/^Berlin$/i);
+    expect(filter["work_location.is_remote"]).toBe(true);
+    expect(filter["job_details.hire_date"]).toEqual({ $gte: "2020-01-01" });
+    expect(filter.reporting_manager).toBe("E001");
+  });
+
+  test("should match any or all skills", () => {
+    expect(buildEmployeeFilter({ skills: ["Swift", "Kotlin"] }).skills).toEqual(
+      { $in: [/^Swift$/i, /^Kotlin$/i] }
+    );
+    expect(
+      buildEmployeeFilter({ skills: ["Swift"], skills_match: "all" }).skills
+    ).toEqual({ $all: [/^Swift$/i] });
+  });
+
+  test("should match values literally", () => {
+    const filter = buildEmployeeFilter({ job_title: "C++ (.*)" });
+
+    expect(filter["job_details.job_title"]).toEqual(/C\+\+ \(\.\*\)/i);
+    expect(
+      (filter["job_details.job_title"] as RegExp).test("Senior C++ (.*) Dev")
+    ).toBe(true);
+  });
+
+  test("should return an empty query without criteria", () => {
+    expect(buildEmployeeFilter({})).toEqual({});
+  });
+});
+
+describe("findRestrictedCriteria", () => {
+  test("should reject criteria on fields the role cannot see", () => {
+    const criteria = { department: "Sales", hired_after: "2020-01-01" };
+
+    expect(findRestrictedCriteria("employee", criteria)).toEqual([
+      "hired_after",
+    ]);
+    expect(findRestrictedCriteria("manager", criteria)).toEqual([]);
+  });
+});
+
+describe("employeeFilterTool", () => {
+  const employee = {
+    employee_id: "E002",
+    first_name: "Max",
+    job_details: {
+      job_title: "Engineer",
+      department: "Engineering",
+      hire_date: "2021-03-01",
+      salary: 90000,
+    },
+    work_location: { nearest_office: "Berlin", is_remote: true },
+  };
+  const cursor = {
+    sort: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    toArray: jest.fn(async () => [{ ...employee }]),
+  };
+  const find = jest.fn(() => cursor);
+  const filterTool = employeeFilterTool({ find } as unknown as Collection);
+
+  beforeEach(() => jest.clearAllMocks());
+
+  test("should run a projected, bounded find", async () => {
+    const result = JSON.parse(
+      await filterTool.invoke(
+        { department: "Engineering", is_remote: true },
+        { configurable: { caller: { id: "u1", role: "employee" } } }
+      )
+    );
+
+    const [, options] = find.mock.calls[0] as unknown as [
+      unknown,
+      { projection: Record<string, number> },
+    ];
+    expect(options.projection["job_details.salary"]).toBeUndefined();
+    expect(cursor.limit).toHaveBeenCalledWith(25);
+    expect(result).toEqual([
+      {
+        employee_id: "E002",
+        first_name: "Max",
+        job_details: { job_title: "Engineer", department: "Engineering" },
+        work_location: { nearest_office: "Berlin", is_remote: true },
+        department: "Engineering",
+      },
+    ]);
+  });
+
+  test("should refuse restricted criteria without querying", async () => {
+    const result = JSON.parse(
+      await filterTool.invoke(
+        { hired_after: "2020-01-01" },
+        { configurable: { caller: { id: "u1", role: "employee" } } }
+      )
+    );
+
+    expect(result.error).toContain("hired_after");
+    expect(find).not.toHaveBeenCalled();
+  });
+
+  test("should need approval for large result sets", () => {
+    expect(
+      findSensitiveToolCalls([
+        { id: "1", name: "employee_filter", args: { limit: 100 } },
+      ])
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,428 @@
+import { Collection, Document } from "mongodb";
+import { Employee } from "../src/db/employee";
+import {
+  importEmployees,
+  parseCsv,
+  parseImportFile,
+} from "../src/db/employee-import";
+import { EmployeeAuditEntry, EmployeeStore } from "../src/db/employee-store";
+import { InMemoryEmployeeVectorIndex } from "../src/db/vector-index/memory-index";
+import { HashedNGramEmbeddings } from "../src/agent/providers/hashed-embeddings";
+import { ValidationError } from "../src/agent/config/errors";
+import { Caller } from "../src/agent/policy/caller";
+
+const HR: Caller = { id: "hr-1", role: "hr" };
+
+const makeEmployee = (
+  employee_id: string,
+  reporting_manager: string | null = null
+): Employee => ({
+  employee_id,
+  first_name: "Test",
+  last_name: employee_id,
+  date_of_birth: "1990-01-01",
+  address: {
+    street: "1 Main St",
+    city: "Berlin",
+    state: "BE",
+    postal_code: "10115",
+    country: "Germany",
+  },
+  contact_details: { email: `${employee_id}@example.com`, phone_number: "1" },
+  job_details: {
+    job_title: "iOS Developer",
+    department: "Engineering",
+    hire_date: "2020-01-01",
+    employment_type: "Full-time",
+    salary: 100000,
+    currency: "EUR",
+  },
+  work_location: { nearest_office: "Berlin", is_remote: false },
+  reporting_manager,
+  skills: ["Swift"],
+  performance_reviews: [],
+  benefits: {
+    health_insurance: "Basic",
+    retirement_plan: "401k",
+    paid_time_off: 25,
+  },
+  emergency_contact: {
+    name: "Contact",
+    relationship: "Friend",
+    phone_number: "2",
+  },
+  notes: "",
+});
+
+const CSV_HEADER = [
+  "employee_id",
+  "first_name",
+  "last_name",
+  "date_of_birth",
+  "address.street",
+  "address.city",
+  "address.state",
+  "address.postal_code",
+  "address.country",
+  "contact_details.email",
+  "contact_details.phone_number",
+  "job_details.job_title",
+  "job_details.department",
+  "job_details.hire_date",
+  "job_details.employment_type",
+  "Salary",
+  "job_details.currency",
+  "work_location.nearest_office",
+  "work_location.is_remote",
+  "reporting_manager",
+  "skills",
+  "performance_reviews",
+  "benefits.health_insurance",
+  "benefits.retirement_plan",
+  "benefits.paid_time_off",
+  "emergency_contact.name",
+  "emergency_contact.relationship",
+  "emergency_contact.phone_number",
+  "notes",
+].join(",");
+
+const csvRow = (id: string, manager = "", salary = "95000") =>
+  [
+    id,
+    "Ada",
+    "Lovelace",
+    "1990-01-01",
+    '"1 Main St, Apt 2"',
+    "Berlin",
+    "BE",
+    "10115",
+    "Germany",
+    `${id}@example.com`,
+    "1",
+    "Engineer",
+    "Engineering",
+    "2020-01-01",
+    "Full-time",
+    salary,
+    "EUR",
+    "Berlin",
+    "yes",
+    manager,
+    "Swift; Kotlin",
+    '"[{""review_date"":""2024-01-01"",""rating"":4,""comments"":""Good""}]"',
+    "Basic",
+    "401k",
+    "25",
+    "Contact",
+    "Friend",
+    "2",
+    '"Line one\nline two"',
+  ].join(",");
+
+const MAPPING = { Salary: "job_details.salary" };
+
+// Employees collection backed by an array: find understands the $in filter
+// the import uses, bulkWrite the replaceOne upserts
+function makeStore(records: Employee[], withVectors = false) {
+  const docs: Document[] = records.map((record) => ({ ...record }));
+  const auditEntries: EmployeeAuditEntry[] = [];
+  const index = new InMemoryEmployeeVectorIndex(32);
+  const embeddings = new HashedNGramEmbeddings({ dimensions: 32 });
+  const employees = {
+    find: jest.fn((filter: Document) => {
+      const ids: string[] | undefined = filter.employee_id?.$in;
+      return docs
+        .filter((doc) => !ids || ids.includes(doc.employee_id))
+        .map((doc) => ({ ...doc }));
+    }),
+    bulkWrite: jest.fn(async (operations: Document[]) => {
+      for (const { replaceOne } of operations) {
+        const at = docs.findIndex(
+          (doc) => doc.employee_id === replaceOne.filter.employee_id
+        );
+        if (at >= 0) docs[at] = replaceOne.replacement;
+        else docs.push(replaceOne.replacement);
+      }
+    }),
+  };
+  const store: EmployeeStore = {
+    employees: employees as unknown as Collection,
+    audit: {
+      insertMany: jest.fn(async (entries: EmployeeAuditEntry[]) => {
+        auditEntries.push(...entries);
+      }),
+    } as unknown as Collection<EmployeeAuditEntry>,
+    ...(withVectors && { vectors: { index, embeddings } }),
+  };
+  return { store, docs, auditEntries, index, embeddings, employees };
+}
+
+const jsonl = (...records: unknown[]) =>
+  records.map((record) => JSON.stringify(record)).join("\n");
+
+describe("parseCsv", () => {
+  test("should handle quoted commas, quotes and line breaks", () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi""\nthere"\n')).toEqual([
+      ["a", "b"],
+      ["x, y", 'say "hi"\nthere'],
+    ]);
+  });
+
+  test("should reject unterminated quotes", () => {
+    expect(() => parseCsv('a,b\n"x,y\n')).toThrow(
+      "Unterminated quoted cell starting on row 2"
+    );
+  });
+});
+
+describe("parseImportFile", () => {
+  test("should map CSV columns to nested, typed fields", () => {
+    const { rows, warnings } = parseImportFile(
+      [CSV_HEADER, csvRow("E001", "", "95000")].join("\n"),
+      "csv",
+      MAPPING
+    );
+
+    expect(warnings).toEqual([]);
+    expect(rows).toEqual([{ row: 2, record: expect.any(Object) }]);
+    const record = rows[0].record as Employee;
+    expect(record.job_details.salary).toBe(95000);
+    expect(record.address.street).toBe("1 Main St, Apt 2");
+    expect(record.work_location.is_remote).toBe(true);
+    expect(record.reporting_manager).toBeNull();
+    expect(record.skills).toEqual(["Swift", "Kotlin"]);
+    expect(record.performance_reviews).toEqual([
+      { review_date: "2024-01-01", rating: 4, comments: "Good" },
+    ]);
+    expect(record.notes).toBe("Line one\nline two");
+  });
+
+  test("should warn about columns that match no field", () => {
+    const { warnings } = parseImportFile(
+      "employee_id,nickname\nE001,Ace",
+      "csv"
+    );
+
+    expect(warnings).toEqual([
+      'Ignoring column "nickname": no employee field "nickname"',
+    ]);
+  });
+
+  test("should reject mappings to unknown fields", () => {
+    expect(() =>
+      parseImportFile("Pay\n1", "csv", { Pay: "job_details.pay" })
+    ).toThrow(ValidationError);
+  });
+
+  test("should report short CSV rows and bad JSONL lines per row", () => {
+    expect(parseImportFile("employee_id,notes\nE001", "csv").rows).toEqual([
+      { row: 2, error: "Expected 2 cells, found 1" },
+    ]);
+
+    const { rows } = parseImportFile(
+      '{"employee_id":"E001"}\n\n{oops',
+      "jsonl"
+    );
+    expect(rows).toEqual([
+      { row: 1, record: { employee_id: "E001" } },
+      { row: 3, error: expect.stringContaining("Invalid JSON") },
+    ]);
+  });
+
+  test("should require a JSON array", () => {
+    expect(() => parseImportFile('{"employee_id":"E001"}', "json")).toThrow(
+      "A JSON import must be an array of employees"
+    );
+  });
+});
+
+describe("importEmployees", () => {
+  test("should insert valid rows and report invalid ones", async () => {
+    const { store, docs, auditEntries } = makeStore([]);
+    const invalid = { ...makeEmployee("E003"), skills: "Swift" };
+
+    const report = await importEmployees(
+      store,
+      parseImportFile(
+        jsonl(makeEmployee("E001"), makeEmployee("E002", "E001"), invalid),
+        "jsonl"
+      ),
+      HR
+    );
+
+    expect(report).toMatchObject({
+      dry_run: false,
+      total: 3,
+      inserted: 2,
+      updated: 0,
+      failed: 1,
+      errors: [
+        {
+          row: 3,
+          employee_id: "E003",
+          errors: [expect.stringContaining("skills:")],
+        },
+      ],
+    });
+    expect(docs.map((doc) => doc.employee_id)).toEqual(["E001", "E002"]);
+    expect(auditEntries.map((entry) => entry.action)).toEqual([
+      "create",
+      "create",
+    ]);
+  });
+
+  test("should write nothing in a dry run", async () => {
+    const { store, docs, employees, auditEntries } = makeStore([
+      makeEmployee("E001"),
+    ]);
+
+    const report = await importEmployees(
+      store,
+      parseImportFile(
+        JSON.stringify([
+          { ...makeEmployee("E001"), notes: "Changed" },
+          makeEmployee("E002"),
+        ]),
+        "json"
+      ),
+      HR,
+      { dryRun: true, upsert: true }
+    );
+
+    expect(report).toMatchObject({ dry_run: true, inserted: 1, updated: 1 });
+    expect(employees.bulkWrite).not.toHaveBeenCalled();
+    expect(auditEntries).toEqual([]);
+    expect(docs[0].notes).toBe("");
+  });
+
+  test("should only replace existing employees when upserting", async () => {
+    const changed = { ...makeEmployee("E001"), notes: "Changed" };
+
+    const rejected = makeStore([makeEmployee("E001")]);
+    const report = await importEmployees(
+      rejected.store,
+      parseImportFile(jsonl(changed), "jsonl"),
+      HR
+    );
+    expect(report.errors[0].errors).toEqual([
+      "Employee E001 already exists; import with upsert to replace it",
+    ]);
+
+    const upserted = makeStore([makeEmployee("E001"), makeEmployee("E002")]);
+    expect(
+      await importEmployees(
+        upserted.store,
+        parseImportFile(jsonl(changed, makeEmployee("E002")), "jsonl"),
+        HR,
+        { upsert: true }
+      )
+    ).toMatchObject({ updated: 1, unchanged: 1, failed: 0 });
+    expect(upserted.docs[0].notes).toBe("Changed");
+    expect(upserted.auditEntries).toEqual([
+      expect.objectContaining({
+        employee_id: "E001",
+        action: "update",
+        changed_fields: ["notes"],
+      }),
+    ]);
+  });
+
+  test("should reject duplicate ids within the file", async () => {
+    const { store } = makeStore([]);
+
+    const report = await importEmployees(
+      store,
+      parseImportFile(
+        jsonl(makeEmployee("E001"), makeEmployee("E001")),
+        "jsonl"
+      ),
+      HR
+    );
+
+    expect(report).toMatchObject({ inserted: 1, failed: 1 });
+    expect(report.errors[0]).toEqual({
+      row: 2,
+      employee_id: "E001",
+      errors: ["Duplicate employee_id, first used on row 1"],
+    });
+  });
+
+  test("should reject unknown managers, cycles and their reports", async () => {
+    const { store, docs } = makeStore([makeEmployee("E001", "E002")]);
+
+    const report = await importEmployees(
+      store,
+      parseImportFile(
+        jsonl(
+          makeEmployee("E002", "E001"),
+          makeEmployee("E003", "GONE"),
+          makeEmployee("E004", "E003"),
+          makeEmployee("E005", "E001")
+        ),
+        "jsonl"
+      ),
+      HR
+    );
+
+    expect(report.errors).toEqual([
+      {
+        row: 1,
+        employee_id: "E002",
+        errors: ["E001 reports to E002, so E002 cannot report to them"],
+      },
+      {
+        row: 2,
+        employee_id: "E003",
+        errors: ["Reporting manager GONE does not exist"],
+      },
+      {
+        row: 3,
+        employee_id: "E004",
+        errors: ["Reporting manager E003 does not exist"],
+      },
+    ]);
+    expect(docs.map((doc) => doc.employee_id)).toEqual(["E001", "E005"]);
+  });
+
+  test("should embed saved employees in batches", async () => {
+    const { store, index, embeddings } = makeStore([], true);
+    const embedDocuments = jest.spyOn(embeddings, "embedDocuments");
+
+    await importEmployees(
+      store,
+      parseImportFile(
+        jsonl(...["E001", "E002", "E003"].map((id) => makeEmployee(id))),
+        "jsonl"
+      ),
+      HR
+    );
+
+    expect(embedDocuments).toHaveBeenCalledTimes(1);
+    expect(embedDocuments.mock.calls[0][0]).toHaveLength(3);
+    expect(await index.count()).toBe(3);
+  });
+
+  test("should import a mapped CSV file", async () => {
+    const { store, docs } = makeStore([]);
+
+    const report = await importEmployees(
+      store,
+      parseImportFile(
+        [CSV_HEADER, csvRow("E001"), csvRow("E002", "E001", "lots")].join(
+          "\n"
+        ),
+        "csv",
+        MAPPING
+      ),
+      HR
+    );
+
+    expect(report).toMatchObject({ inserted: 1, failed: 1 });
+    expect(report.errors[0]).toMatchObject({
+      row: 3,
+      employee_id: "E002",
+      errors: [expect.stringContaining("job_details.salary:")],
+    });
+    expect(docs[0].job_details.salary).toBe(95000);
+  });
+});
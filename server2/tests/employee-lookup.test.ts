@@ -0,0 +1,273 @@
+import { Collection, MongoServerError } from "mongodb";
+import { employeeLookupTool } from "../src/agent/tools/employee-lookup";
+import { HashedNGramEmbeddings } from "../src/agent/providers/hashed-embeddings";
+import { InMemoryEmployeeVectorIndex } from "../src/db/vector-index/memory-index";
+import {
+  isFieldVisible,
+  MASKED_VALUE,
+} from "../src/agent/policy/field-access";
+import { ROLES } from "../src/agent/policy/caller";
+import {
+  EMPLOYEE_TEXT_INDEX_WEIGHTS,
+  ensureEmployeeTextIndex,
+} from "../src/db/keyword-search";
+
+const employee = {
+  employee_id: "E001",
+  first_name: "Jane",
+  last_name: "Doe",
+  date_of_birth: "1990-01-01",
+  job_details: {
+    job_title: "iOS Developer",
+    department: "Engineering",
+    hire_date: "2020-01-01",
+    employment_type: "Full-time",
+    salary: 120000,
+    currency: "USD",
+  },
+  work_location: { nearest_office: "Berlin", is_remote: true },
+  contact_details: { email: "jane@example.com", phone_number: "555-0100" },
+  skills: ["Swift"],
+  emergency_contact: {
+    name: "John",
+    relationship: "Spouse",
+    phone_number: "1",
+  },
+};
+
+const cursor = (documents: object[]) => ({
+  sort: jest.fn().mockReturnThis(),
+  limit: jest.fn().mockReturnThis(),
+  toArray: jest.fn(async () => documents),
+});
+
+// Answers keyword searches with the given matches and hydration queries with
+// full records whatever the projection, like a misconfigured query
+const fakeFind = (keywordMatches: object[] = []) =>
+  jest.fn((filter: any, _options?: any) =>
+    filter.$text
+      ? cursor(keywordMatches)
+      : cursor(
+          filter.employee_id.$in.map((employee_id: string) => ({
+            ...employee,
+            employee_id,
+          }))
+        )
+  );
+
+const LOOKUP_OPTIONS = {
+  vectorWeight: 1,
+  keywordWeight: 1,
+  k: 60,
+  minVectorScore: 0,
+};
+
+describe("employeeLookupTool", () => {
+  const embeddings = new HashedNGramEmbeddings({ dimensions: 32 });
+  const vectorIndex = new InMemoryEmployeeVectorIndex(32);
+  const find = fakeFind();
+  const collection = { find } as unknown as Collection;
+  const lookup = employeeLookupTool(
+    collection,
+    vectorIndex,
+    embeddings,
+    LOOKUP_OPTIONS
+  );
+
+  beforeAll(async () => {
+    await vectorIndex.upsert([
+      {
+        employee_id: "E001",
+        summary: "Jane Doe, born on 1990-01-01. Job: iOS Developer",
+        vector: await embeddings.embedQuery("Jane Doe iOS Developer"),
+      },
+    ]);
+  });
+
+  const runAs = async (role: string) =>
+    JSON.parse(
+      await lookup.invoke(
+        { query: "iOS developer", n: 5 },
+        { configurable: { caller: { id: "u1", role } } }
+      )
+    );
+
+  test("should only return fields an employee may see", async () => {
+    const [result] = await runAs("employee");
+
+    expect(result.summary).toBeUndefined();
+    expect(result.employee.job_details).toEqual({
+      job_title: "iOS Developer",
+      department: "Engineering",
+    });
+    expect(result.employee.department).toBe("Engineering");
+    expect(result.employee.contact_details).toEqual({
+      email: "jane@example.com",
+    });
+    expect(JSON.stringify(result)).not.toMatch(/120000|1990-01-01|Spouse/);
+  });
+
+  test("should hydrate hits with one projected $in query", async () => {
+    find.mockClear();
+    await runAs("employee");
+
+    expect(find).toHaveBeenCalledTimes(2);
+    expect(find).toHaveBeenLastCalledWith(
+      { employee_id: { $in: ["E001"] } },
+      {
+        projection: expect.not.objectContaining({ "job_details.salary": 1 }),
+      }
+    );
+  });
+
+  test("should mask salary for managers", async () => {
+    const [result] = await runAs("manager");
+
+    expect(result.employee.job_details.salary).toBe(MASKED_VALUE);
+    expect(JSON.stringify(result)).not.toContain("120000");
+  });
+
+  test("should return full records and summaries to HR", async () => {
+    const [result] = await runAs("hr");
+
+    expect(result.summary).toContain("born on");
+    expect(result.employee.job_details.salary).toBe(120000);
+  });
+
+  test("should treat calls without a caller as the employee role", async () => {
+    const [result] = JSON.parse(
+      await lookup.invoke({ query: "iOS developer", n: 5 })
+    );
+
+    expect(result.employee.job_details.salary).toBeUndefined();
+  });
+
+  test("should drop vector hits below the minimum score", async () => {
+    const strict = employeeLookupTool(collection, vectorIndex, embeddings, {
+      ...LOOKUP_OPTIONS,
+      minVectorScore: 0.99,
+    });
+
+    expect(JSON.parse(await strict.invoke({ query: "iOS developer" }))).toEqual(
+      []
+    );
+  });
+
+  test("should skip index entries for deleted employees", async () => {
+    const emptyFind = jest.fn(() => cursor([]));
+    const stale = employeeLookupTool(
+      { find: emptyFind } as unknown as Collection,
+      vectorIndex,
+      embeddings,
+      LOOKUP_OPTIONS
+    );
+
+    expect(JSON.parse(await stale.invoke({ query: "iOS developer" }))).toEqual(
+      []
+    );
+  });
+});
+
+describe("employeeLookupTool hybrid search", () => {
+  const embeddings = new HashedNGramEmbeddings({ dimensions: 32 });
+  const vectorIndex = new InMemoryEmployeeVectorIndex(32);
+  const keywordMatches = [
+    { employee_id: "E014", score: 11 },
+    { employee_id: "E001", score: 2.5 },
+  ];
+  const find = fakeFind(keywordMatches);
+  const collection = { find } as unknown as Collection;
+
+  beforeAll(async () => {
+    await vectorIndex.upsert([
+      {
+        employee_id: "E001",
+        summary: "Jane Doe. Job: iOS Developer",
+        vector: await embeddings.embedQuery("Jane Doe iOS Developer"),
+      },
+    ]);
+  });
+
+  const search = async (weights = { vectorWeight: 1, keywordWeight: 1 }) =>
+    JSON.parse(
+      await employeeLookupTool(collection, vectorIndex, embeddings, {
+        ...LOOKUP_OPTIONS,
+        ...weights,
+      }).invoke({ query: "E014 iOS developer", n: 5 })
+    );
+
+  test("should fuse both legs and show each leg's score", async () => {
+    const results = await search();
+
+    expect(results.map((r: any) => r.employee.employee_id)).toEqual([
+      "E001",
+      "E014",
+    ]);
+    expect(results[0].vector_score).toBeGreaterThan(0);
+    expect(results[0].keyword_score).toBe(2.5);
+    expect(results[0].score).toBeCloseTo(2 / 61);
+    expect(results[1]).toMatchObject({ vector_score: null, keyword_score: 11 });
+  });
+
+  test("should let weights favour the keyword leg", async () => {
+    find.mockImplementationOnce(() => cursor([keywordMatches[0]]));
+    const results = await search({ vectorWeight: 1, keywordWeight: 3 });
+
+    expect(results[0].employee.employee_id).toBe("E014");
+  });
+
+  test("should skip legs with a zero weight", async () => {
+    find.mockClear();
+    const results = await search({ vectorWeight: 1, keywordWeight: 0 });
+
+    expect(find).toHaveBeenCalledTimes(1);
+    expect(find.mock.calls[0][0]).not.toHaveProperty("$text");
+    expect(results).toHaveLength(1);
+    expect(results[0].keyword_score).toBeNull();
+  });
+
+  test("should fall back to vector results when keyword search fails", async () => {
+    find.mockImplementationOnce(() => {
+      throw new Error("text index required for $text query");
+    });
+    const results = await search();
+
+    expect(results.map((r: any) => r.employee.employee_id)).toEqual(["E001"]);
+  });
+});
+
+describe("ensureEmployeeTextIndex", () => {
+  test("should only index fields every role may read", () => {
+    const hidden = ROLES.flatMap((role) =>
+      Object.keys(EMPLOYEE_TEXT_INDEX_WEIGHTS)
+        .filter((field) => !isFieldVisible(role, field))
+        .map((field) => `${role}: ${field}`)
+    );
+
+    expect(hidden).toEqual([]);
+    expect(EMPLOYEE_TEXT_INDEX_WEIGHTS).not.toHaveProperty("notes");
+  });
+
+  test("should rebuild an index defined over other fields", async () => {
+    const collection = {
+      createIndex: jest
+        .fn()
+        .mockRejectedValueOnce(
+          new MongoServerError({
+            message: "Index already exists with different options",
+            code: 85,
+          })
+        )
+        .mockResolvedValueOnce("employee_text_index"),
+      dropIndex: jest.fn(async () => undefined),
+    };
+
+    await ensureEmployeeTextIndex(collection as unknown as Collection);
+
+    expect(collection.dropIndex).toHaveBeenCalledWith("employee_text_index");
+    expect(collection.createIndex).toHaveBeenCalledTimes(2);
+    expect(collection.createIndex.mock.calls[1][1].weights).toEqual(
+      EMPLOYEE_TEXT_INDEX_WEIGHTS
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import express, { NextFunction, Request, Response } from "express";
+import { Document, MongoClient } from "mongodb";
+import request from "supertest";
+import { getEmployeeSearch } from "../src/agent/agent";
+import { Caller } from "../src/agent/policy/caller";
+import employeeRoutes, { setMongoClient } from "../src/routes/employees";
+
+// Embeddings that cannot be built, e.g. a missing provider API key
+jest.mock("../src/agent/agent", () => ({
+  getEmployeeSearch: jest.fn(() => {
+    throw new Error("OPENAI_API_KEY is not set");
+  }),
+}));
+
+const EMPLOYEE = {
+  employee_id: "E001",
+  first_name: "Test",
+  last_name: "E001",
+  job_details: { job_title: "iOS Developer", department: "Engineering" },
+};
+
+// Just the collection methods the read routes use
+const fakeCollection = (docs: Document[]) => {
+  const cursor = {
+    sort: () => cursor,
+    skip: () => cursor,
+    limit: () => cursor,
+    toArray: async () => docs.map((doc) => ({ ...doc })),
+  };
+  return {
+    find: jest.fn(() => cursor),
+    findOne: jest.fn(async () => ({ ...docs[0] })),
+    countDocuments: jest.fn(async () => docs.length),
+  };
+};
+
+const collections: Record<string, ReturnType<typeof fakeCollection>> = {
+  employees: fakeCollection([EMPLOYEE]),
+  employee_audit: fakeCollection([]),
+};
+
+const client = {
+  db: () => ({ collection: (name: string) => collections[name] }),
+} as unknown as MongoClient;
+
+const HR: Caller = { id: "hr-1", role: "hr" };
+
+const app = express();
+app.use(express.json());
+app.use((req: Request, _res: Response, next: NextFunction) => {
+  req.caller = HR;
+  next();
+});
+app.use("/employees", employeeRoutes);
+
+beforeAll(() => setMongoClient(client));
+
+beforeEach(() => jest.mocked(getEmployeeSearch).mockClear());
+
+describe("Employee routes", () => {
+  test("should serve reads without the embeddings", async () => {
+    const list = await request(app).get("/employees");
+    const one = await request(app).get("/employees/E001");
+    const audit = await request(app).get("/employees/E001/audit");
+
+    expect(list.status).toBe(200);
+    expect(list.body.total).toBe(1);
+    expect(one.status).toBe(200);
+    expect(one.body.employee_id).toBe("E001");
+    expect(audit.status).toBe(200);
+    expect(getEmployeeSearch).not.toHaveBeenCalled();
+  });
+
+  test("should re-embed writes inline by default", async () => {
+    const res = await request(app)
+      .delete("/employees/E001")
+      .set("Content-Type", "application/json");
+
+    expect(res.status).toBe(500);
+    expect(getEmployeeSearch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,312 @@
+import { Collection, Document, MongoServerError } from "mongodb";
+import { ZodError } from "zod";
+import { Employee } from "../src/db/employee";
+import {
+  createEmployee,
+  deleteEmployee,
+  diffFields,
+  EmployeeAuditEntry,
+  EmployeeStore,
+  getEmployee,
+  mergeEmployeePatch,
+  updateEmployee,
+} from "../src/db/employee-store";
+import { InMemoryEmployeeVectorIndex } from "../src/db/vector-index/memory-index";
+import { HashedNGramEmbeddings } from "../src/agent/providers/hashed-embeddings";
+import { ConflictError, ValidationError } from "../src/agent/config/errors";
+import { Caller } from "../src/agent/policy/caller";
+
+const HR: Caller = { id: "hr-1", role: "hr" };
+
+const makeEmployee = (
+  employee_id: string,
+  reporting_manager: string | null = null
+): Employee => ({
+  employee_id,
+  first_name: "Test",
+  last_name: employee_id,
+  date_of_birth: "1990-01-01",
+  address: {
+    street: "1 Main St",
+    city: "Berlin",
+    state: "BE",
+    postal_code: "10115",
+    country: "Germany",
+  },
+  contact_details: { email: `${employee_id}@example.com`, phone_number: "1" },
+  job_details: {
+    job_title: "iOS Developer",
+    department: "Engineering",
+    hire_date: "2020-01-01",
+    employment_type: "Full-time",
+    salary: 100000,
+    currency: "EUR",
+  },
+  work_location: { nearest_office: "Berlin", is_remote: false },
+  reporting_manager,
+  skills: ["Swift"],
+  performance_reviews: [],
+  benefits: {
+    health_insurance: "Basic",
+    retirement_plan: "401k",
+    paid_time_off: 25,
+  },
+  emergency_contact: {
+    name: "Contact",
+    relationship: "Friend",
+    phone_number: "2",
+  },
+  notes: "",
+});
+
+// Employees collection backed by an array, with a unique employee_id and
+// the management chain lookup the manager check runs
+function fakeEmployees(records: Employee[]) {
+  const docs: Document[] = records.map((record) => ({ ...record }));
+  const byId = (id: string) => docs.find((doc) => doc.employee_id === id);
+  const strip = ({ _id, ...doc }: Document) => doc;
+
+  return {
+    docs,
+    collection: {
+      collectionName: "employees",
+      findOne: jest.fn(async (filter: Document) => {
+        const doc = byId(filter.employee_id);
+        return doc ? strip(doc) : null;
+      }),
+      insertOne: jest.fn(async (doc: Document) => {
+        if (byId(doc.employee_id)) {
+          throw new MongoServerError({ message: "E11000", code: 11000 });
+        }
+        docs.push(doc);
+      }),
+      replaceOne: jest.fn(async (filter: Document, doc: Document) => {
+        const index = docs.findIndex(
+          (existing) => existing.employee_id === filter.employee_id
+        );
+        if (index >= 0) docs[index] = doc;
+        return { matchedCount: index >= 0 ? 1 : 0 };
+      }),
+      deleteOne: jest.fn(async (filter: Document) => {
+        const index = docs.findIndex(
+          (doc) => doc.employee_id === filter.employee_id
+        );
+        if (index >= 0) docs.splice(index, 1);
+        return { deletedCount: index >= 0 ? 1 : 0 };
+      }),
+      countDocuments: jest.fn(
+        async (filter: Document) =>
+          docs.filter(
+            (doc) => doc.reporting_manager === filter.reporting_manager
+          ).length
+      ),
+      aggregate: jest.fn((pipeline: Document[]) => ({
+        toArray: async () => {
+          const root = byId(pipeline[0].$match.employee_id);
+          if (!root) return [];
+          const chain: Document[] = [];
+          let next = byId(root.reporting_manager);
+          while (next && !chain.includes(next)) {
+            chain.push(next);
+            next = byId(next.reporting_manager);
+          }
+          return [{ employee_id: root.employee_id, chain }];
+        },
+      })),
+    } as unknown as Collection,
+  };
+}
+
+function makeStore(records: Employee[]) {
+  const employees = fakeEmployees(records);
+  const auditEntries: EmployeeAuditEntry[] = [];
+  const index = new InMemoryEmployeeVectorIndex(32);
+  const store: EmployeeStore = {
+    employees: employees.collection,
+    audit: {
+      insertOne: jest.fn(async (entry: EmployeeAuditEntry) => {
+        auditEntries.push(entry);
+      }),
+    } as unknown as Collection<EmployeeAuditEntry>,
+    vectors: {
+      index,
+      embeddings: new HashedNGramEmbeddings({ dimensions: 32 }),
+    },
+  };
+  return { store, docs: employees.docs, auditEntries, index };
+}
+
+describe("mergeEmployeePatch", () => {
+  test("should merge nested objects and replace arrays", () => {
+    expect(
+      mergeEmployeePatch(
+        { job_details: { job_title: "Dev", salary: 1 }, skills: ["Swift"] },
+        { job_details: { job_title: "Lead" }, skills: ["Kotlin"] }
+      )
+    ).toEqual({
+      job_details: { job_title: "Lead", salary: 1 },
+      skills: ["Kotlin"],
+    });
+  });
+});
+
+describe("diffFields", () => {
+  test("should list changed paths", () => {
+    expect(
+      diffFields(
+        { job_details: { job_title: "Dev", salary: 1 }, skills: ["Swift"] },
+        { job_details: { job_title: "Dev", salary: 2 }, skills: ["Kotlin"] }
+      )
+    ).toEqual(["job_details.salary", "skills"]);
+  });
+});
+
+describe("getEmployee", () => {
+  test("should only return the fields the role may see", async () => {
+    const { store } = makeStore([makeEmployee("E001")]);
+
+    const employee = await getEmployee(store.employees, "E001", "employee");
+
+    expect(employee?.employee_id).toBe("E001");
+    expect(employee).not.toHaveProperty("date_of_birth");
+    expect(employee?.job_details).toEqual({
+      job_title: "iOS Developer",
+      department: "Engineering",
+    });
+  });
+});
+
+describe("createEmployee", () => {
+  test("should insert, index and audit the employee", async () => {
+    const { store, docs, auditEntries, index } = makeStore([
+      makeEmployee("E001"),
+    ]);
+
+    await createEmployee(store, makeEmployee("E002", "E001"), HR);
+
+    expect(docs.map((doc) => doc.employee_id)).toEqual(["E001", "E002"]);
+    expect(await index.count()).toBe(1);
+    expect(auditEntries).toEqual([
+      expect.objectContaining({
+        employee_id: "E002",
+        action: "create",
+        actor: { id: "hr-1", role: "hr" },
+      }),
+    ]);
+  });
+
+  test("should reject duplicate employee ids", async () => {
+    const { store, auditEntries } = makeStore([makeEmployee("E001")]);
+
+    await expect(
+      createEmployee(store, makeEmployee("E001"), HR)
+    ).rejects.toThrow(ConflictError);
+    expect(auditEntries).toEqual([]);
+  });
+
+  test("should reject unknown reporting managers", async () => {
+    const { store } = makeStore([]);
+
+    await expect(
+      createEmployee(store, makeEmployee("E002", "GONE"), HR)
+    ).rejects.toThrow("Reporting manager GONE does not exist");
+  });
+});
+
+describe("updateEmployee", () => {
+  test("should merge, save and audit the changed fields", async () => {
+    const { store, docs, auditEntries } = makeStore([makeEmployee("E001")]);
+
+    const updated = await updateEmployee(
+      store,
+      "E001",
+      { job_details: { salary: 120000 } },
+      HR
+    );
+
+    expect(updated?.job_details.salary).toBe(120000);
+    expect(updated?.job_details.job_title).toBe("iOS Developer");
+    expect(docs[0].job_details.salary).toBe(120000);
+    expect(auditEntries[0].changed_fields).toEqual(["job_details.salary"]);
+  });
+
+  test("should validate the merged record", async () => {
+    const { store } = makeStore([makeEmployee("E001")]);
+
+    await expect(
+      updateEmployee(store, "E001", { skills: "Swift" }, HR)
+    ).rejects.toThrow(ZodError);
+  });
+
+  test("should not change employee ids", async () => {
+    const { store } = makeStore([makeEmployee("E001")]);
+
+    await expect(
+      updateEmployee(store, "E001", { employee_id: "E002" }, HR)
+    ).rejects.toThrow(ValidationError);
+  });
+
+  test("should refuse managers that would close a cycle", async () => {
+    const { store } = makeStore([
+      makeEmployee("E001"),
+      makeEmployee("E002", "E001"),
+      makeEmployee("E003", "E002"),
+    ]);
+
+    await expect(
+      updateEmployee(store, "E001", { reporting_manager: "E003" }, HR)
+    ).rejects.toThrow("E003 reports to E001");
+    await expect(
+      updateEmployee(store, "E001", { reporting_manager: "E001" }, HR)
+    ).rejects.toThrow("cannot report to themselves");
+  });
+
+  test("should skip writes that change nothing", async () => {
+    const { store, auditEntries } = makeStore([makeEmployee("E001")]);
+
+    await updateEmployee(store, "E001", { skills: ["Swift"] }, HR);
+
+    expect(store.employees.replaceOne).not.toHaveBeenCalled();
+    expect(auditEntries).toEqual([]);
+  });
+
+  test("should return null for unknown employees", async () => {
+    const { store } = makeStore([]);
+
+    expect(await updateEmployee(store, "E001", { notes: "x" }, HR)).toBeNull();
+  });
+});
+
+describe("deleteEmployee", () => {
+  test("should delete, unindex and audit the employee", async () => {
+    const { store, docs, auditEntries, index } = makeStore([
+      makeEmployee("E001"),
+    ]);
+    await index.upsert([
+      { employee_id: "E001", summary: "", vector: new Array(32).fill(1) },
+    ]);
+
+    expect(await deleteEmployee(store, "E001", HR)).toBe(true);
+    expect(docs).toEqual([]);
+    expect(await index.count()).toBe(0);
+    expect(auditEntries[0].action).toBe("delete");
+  });
+
+  test("should refuse to delete managers with reports", async () => {
+    const { store, docs } = makeStore([
+      makeEmployee("E001"),
+      makeEmployee("E002", "E001"),
+    ]);
+
+    await expect(deleteEmployee(store, "E001", HR)).rejects.toThrow(
+      "still manages 1 employee(s)"
+    );
+    expect(docs).toHaveLength(2);
+  });
+
+  test("should report unknown employees", async () => {
+    const { store } = makeStore([]);
+
+    expect(await deleteEmployee(store, "E001", HR)).toBe(false);
+  });
+});
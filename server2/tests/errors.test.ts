@@ -3,6 +3,10 @@ import {
   ValidationError,
   ModelTimeoutError,
   WorkflowError,
+  ConfigurationError,
+  ConflictError,
+  QuotaExceededError,
+  ServerBusyError,
 } from "../src/agent/config/errors";
 
 describe("Error Classes", () => {
@@ -114,6 +118,55 @@ describe("Error Classes", () => {
     });
   });
 
+  describe("ConfigurationError", () => {
+    test("should create configuration error with correct defaults", () => {
+      const error = new ConfigurationError("Unknown provider");
+
+      expect(error.message).toBe("Unknown provider");
+      expect(error.code).toBe("CONFIGURATION_ERROR");
+      expect(error.statusCode).toBe(500);
+      expect(error.name).toBe("ConfigurationError");
+      expect(error instanceof AgentError).toBe(true);
+    });
+  });
+
+  describe("ConflictError", () => {
+    test("should create conflict error with correct defaults", () => {
+      const error = new ConflictError("Employee E001 already exists");
+
+      expect(error.message).toBe("Employee E001 already exists");
+      expect(error.code).toBe("CONFLICT");
+      expect(error.statusCode).toBe(409);
+      expect(error.name).toBe("ConflictError");
+      expect(error instanceof AgentError).toBe(true);
+    });
+  });
+
+  describe("QuotaExceededError", () => {
+    test("should create quota error with correct defaults", () => {
+      const error = new QuotaExceededError("Daily token quota exceeded", 60);
+
+      expect(error.message).toBe("Daily token quota exceeded");
+      expect(error.code).toBe("QUOTA_EXCEEDED");
+      expect(error.statusCode).toBe(429);
+      expect(error.retryAfter).toBe(60);
+      expect(error.name).toBe("QuotaExceededError");
+      expect(error instanceof AgentError).toBe(true);
+    });
+  });
+
+  describe("ServerBusyError", () => {
+    test("should create server busy error with correct defaults", () => {
+      const error = new ServerBusyError("Too many agent runs", 30);
+
+      expect(error.code).toBe("SERVER_BUSY");
+      expect(error.statusCode).toBe(503);
+      expect(error.retryAfter).toBe(30);
+      expect(error.name).toBe("ServerBusyError");
+      expect(error instanceof AgentError).toBe(true);
+    });
+  });
+
   describe("Error Hierarchy", () => {
     test("all error types should inherit from Error", () => {
       const agentError = new AgentError("test", "code");
@@ -0,0 +1,132 @@
+import {
+  buildProjection,
+  FieldAccessRule,
+  isFieldVisible,
+  MASKED_VALUE,
+  redactDocument,
+  resolveFieldAccess,
+} from "../src/agent/policy/field-access";
+import { getCaller, ANONYMOUS_CALLER, Role } from "../src/agent/policy/caller";
+
+const LOOKUP_FIELDS = ["employee_id", "job_details", "contact_details"];
+
+const employee = {
+  employee_id: "E001",
+  date_of_birth: "1990-01-01",
+  job_details: {
+    job_title: "iOS Developer",
+    department: "Engineering",
+    hire_date: "2020-01-01",
+    employment_type: "Full-time",
+    salary: 120000,
+    currency: "USD",
+  },
+  contact_details: { email: "jane@example.com", phone_number: "555-0100" },
+};
+
+describe("resolveFieldAccess", () => {
+  test("should narrow nested fields for employees", () => {
+    expect(resolveFieldAccess("employee", LOOKUP_FIELDS)).toEqual({
+      project: [
+        "employee_id",
+        "job_details.job_title",
+        "job_details.department",
+        "contact_details.email",
+      ],
+      mask: [],
+    });
+  });
+
+  test("should mask salary for managers", () => {
+    const access = resolveFieldAccess("manager", LOOKUP_FIELDS);
+
+    expect(access.mask).toEqual(["job_details.salary"]);
+    expect(access.project).not.toContain("job_details.salary");
+    expect(access.project).toContain("job_details.hire_date");
+    expect(access.project).toContain("contact_details.phone_number");
+  });
+
+  test("should grant whole sub-documents to HR and admins", () => {
+    const expected = { project: LOOKUP_FIELDS, mask: [] };
+
+    expect(resolveFieldAccess("hr", LOOKUP_FIELDS)).toEqual(expected);
+    expect(resolveFieldAccess("admin", LOOKUP_FIELDS)).toEqual(expected);
+  });
+
+  test("should accept a custom declarative policy", () => {
+    const policy = {
+      employee: { allow: ["employee_id"], mask: ["job_details"] },
+    } as Record<Role, FieldAccessRule>;
+
+    expect(resolveFieldAccess("employee", LOOKUP_FIELDS, policy)).toEqual({
+      project: ["employee_id"],
+      mask: ["job_details"],
+    });
+  });
+});
+
+describe("isFieldVisible", () => {
+  test("should follow the role policy", () => {
+    expect(isFieldVisible("employee", "date_of_birth")).toBe(false);
+    expect(isFieldVisible("manager", "job_details.salary")).toBe(false);
+    expect(isFieldVisible("manager", "performance_reviews")).toBe(true);
+    expect(isFieldVisible("hr", "emergency_contact.phone_number")).toBe(true);
+    expect(isFieldVisible("admin", "anything")).toBe(true);
+  });
+});
+
+describe("buildProjection", () => {
+  test("should include projected fields only and drop _id", () => {
+    expect(
+      buildProjection(resolveFieldAccess("manager", ["job_details"]))
+    ).toEqual({
+      "job_details.job_title": 1,
+      "job_details.department": 1,
+      "job_details.hire_date": 1,
+      "job_details.employment_type": 1,
+      _id: 0,
+    });
+  });
+});
+
+describe("redactDocument", () => {
+  test("should drop fields outside the projection", () => {
+    const redacted = redactDocument(
+      employee,
+      resolveFieldAccess("employee", LOOKUP_FIELDS)
+    );
+
+    expect(redacted).toEqual({
+      employee_id: "E001",
+      job_details: { job_title: "iOS Developer", department: "Engineering" },
+      contact_details: { email: "jane@example.com" },
+    });
+    expect(JSON.stringify(redacted)).not.toContain("120000");
+  });
+
+  test("should replace masked fields with a placeholder", () => {
+    const redacted = redactDocument(
+      employee,
+      resolveFieldAccess("manager", LOOKUP_FIELDS)
+    );
+
+    expect(redacted.job_details.salary).toBe(MASKED_VALUE);
+    expect(redacted.job_details.hire_date).toBe("2020-01-01");
+    expect(JSON.stringify(redacted)).not.toContain("120000");
+  });
+});
+
+describe("getCaller", () => {
+  test("should read the caller from the run config", () => {
+    const caller = { id: "u1", role: "hr" as const };
+
+    expect(getCaller({ configurable: { caller } })).toEqual(caller);
+  });
+
+  test("should fall back to the least privileged caller", () => {
+    expect(getCaller()).toEqual(ANONYMOUS_CALLER);
+    expect(
+      getCaller({ configurable: { caller: { id: "u1", role: "root" } } })
+    ).toEqual(ANONYMOUS_CALLER);
+  });
+});
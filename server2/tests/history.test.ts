@@ -0,0 +1,182 @@
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import { tool } from "@langchain/core/tools";
+import {
+  MemorySaver,
+  MessagesAnnotation,
+  StateGraph,
+} from "@langchain/langgraph";
+import { z } from "zod";
+import { createWorkflow } from "../src/agent/agent";
+import { getThreadHistory } from "../src/agent/history";
+import {
+  messageTimestamp,
+  timestampedMessagesReducer,
+} from "../src/agent/messages";
+import { ScriptedChatModel } from "../src/agent/providers/fake-chat-model";
+
+describe("getThreadHistory", () => {
+  let checkpointer: MemorySaver;
+
+  beforeAll(async () => {
+    const lookup = tool(async () => "E001 Jane Doe, iOS Developer", {
+      name: "employee_lookup",
+      description: "Test lookup",
+      schema: z.object({ query: z.string() }),
+    });
+    checkpointer = new MemorySaver();
+    const app = createWorkflow(
+      [lookup],
+      new ScriptedChatModel({
+        responses: [
+          { toolCalls: [{ name: "employee_lookup", args: { query: "iOS" } }] },
+          "FINAL ANSWER: Jane Doe",
+          "You asked about iOS developers.",
+        ],
+      }),
+      checkpointer
+    );
+    const config = { configurable: { thread_id: "thread-1" } };
+
+    await app.invoke(
+      { messages: [new HumanMessage("Who does iOS?")] },
+      config
+    );
+    await app.invoke(
+      { messages: [new HumanMessage("What did I ask?")] },
+      config
+    );
+  });
+
+  test("should return null for unknown threads", async () => {
+    expect(
+      await getThreadHistory(checkpointer, "missing", { limit: 10 })
+    ).toBeNull();
+  });
+
+  test("should serialise human, AI and tool messages in order", async () => {
+    const history = await getThreadHistory(checkpointer, "thread-1", {
+      limit: 50,
+    });
+
+    expect(history?.total).toBe(6);
+    expect(history?.hasMore).toBe(false);
+    expect(history?.nextBefore).toBeNull();
+    expect(history?.messages.map((message) => message.type)).toEqual([
+      "human",
+      "ai",
+      "tool",
+      "ai",
+      "human",
+      "ai",
+    ]);
+
+    const [human, toolCall, toolResult] = history!.messages;
+    expect(human).toMatchObject({ index: 0, content: "Who does iOS?" });
+    expect(toolCall.tool_calls).toEqual([
+      { id: "call_0_0", name: "employee_lookup", args: { query: "iOS" } },
+    ]);
+    expect(toolResult).toMatchObject({
+      tool_call_id: "call_0_0",
+      tool_name: "employee_lookup",
+      content: "E001 Jane Doe, iOS Developer",
+    });
+  });
+
+  test("should timestamp messages in checkpoint order", async () => {
+    const history = await getThreadHistory(checkpointer, "thread-1", {
+      limit: 50,
+    });
+    const timestamps = history!.messages.map((message) => message.timestamp!);
+
+    expect(
+      timestamps.every((timestamp) => !isNaN(Date.parse(timestamp)))
+    ).toBe(true);
+    expect([...timestamps].sort()).toEqual(timestamps);
+  });
+
+  test("should paginate backwards with before/limit", async () => {
+    const newest = await getThreadHistory(checkpointer, "thread-1", {
+      limit: 4,
+    });
+    expect(newest?.messages.map((message) => message.index)).toEqual([
+      2, 3, 4, 5,
+    ]);
+    expect(newest?.hasMore).toBe(true);
+    expect(newest?.nextBefore).toBe(2);
+
+    const older = await getThreadHistory(checkpointer, "thread-1", {
+      before: newest!.nextBefore!,
+      limit: 4,
+    });
+    expect(older?.messages.map((message) => message.index)).toEqual([0, 1]);
+    expect(older?.hasMore).toBe(false);
+  });
+
+  test("should read timestamps from the messages, not the checkpoints", async () => {
+    const list = jest.spyOn(checkpointer, "list");
+    try {
+      const history = await getThreadHistory(checkpointer, "thread-1", {
+        limit: 2,
+      });
+
+      expect(list).not.toHaveBeenCalled();
+      expect(history!.messages.every((message) => message.timestamp)).toBe(
+        true
+      );
+    } finally {
+      list.mockRestore();
+    }
+  });
+
+  test("should date unstamped messages of older threads from checkpoints", async () => {
+    const legacy = new MemorySaver();
+    const app = new StateGraph(MessagesAnnotation)
+      .addNode("agent", () => ({ messages: [new AIMessage("Hello")] }))
+      .addEdge("__start__", "agent")
+      .compile({ checkpointer: legacy });
+    await app.invoke(
+      { messages: [new HumanMessage("Hi")] },
+      { configurable: { thread_id: "legacy" } }
+    );
+
+    const history = await getThreadHistory(legacy, "legacy", { limit: 10 });
+    const timestamps = history!.messages.map((message) => message.timestamp!);
+
+    expect(timestamps).toHaveLength(2);
+    expect(
+      timestamps.every((timestamp) => !isNaN(Date.parse(timestamp)))
+    ).toBe(true);
+    expect([...timestamps].sort()).toEqual(timestamps);
+  });
+});
+
+describe("timestampedMessagesReducer", () => {
+  afterEach(() => jest.useRealTimers());
+
+  test("should stamp new messages and keep the time of replaced ones", () => {
+    jest.useFakeTimers({ now: new Date("2025-01-01T00:00:00Z") });
+    const [question, call] = timestampedMessagesReducer(
+      [],
+      [
+        new HumanMessage("Salaries?"),
+        new AIMessage({ id: "ai-1", content: "" }),
+      ]
+    );
+
+    jest.setSystemTime(new Date("2025-01-01T00:05:00Z"));
+    const messages = timestampedMessagesReducer(
+      [question, call],
+      [
+        new AIMessage({ id: "ai-1", content: "edited" }),
+        new HumanMessage("Thanks"),
+      ]
+    );
+
+    expect(messages.map(messageTimestamp)).toEqual([
+      "2025-01-01T00:00:00.000Z",
+      "2025-01-01T00:00:00.000Z",
+      "2025-01-01T00:05:00.000Z",
+    ]);
+    expect(messages[1].content).toBe("edited");
+  });
+});
@@ -0,0 +1,105 @@
+import { Collection } from "mongodb";
+import {
+  ANALYTICS_REPORTS,
+  buildAnalyticsPipeline,
+  findRestrictedReportFields,
+  hrAnalyticsTool,
+} from "../src/agent/tools/hr-analytics";
+
+const WRITE_STAGES = ["$out", "$merge"];
+
+describe("ANALYTICS_REPORTS", () => {
+  test.each(Object.entries(ANALYTICS_REPORTS))(
+    "%s should be a read-only pipeline",
+    (_name, report) => {
+      const stageNames = report.stages.flatMap((stage) => Object.keys(stage));
+
+      expect(stageNames.some((stage) => WRITE_STAGES.includes(stage))).toBe(
+        false
+      );
+      expect(report.columns.length).toBeGreaterThan(0);
+    }
+  );
+});
+
+describe("findRestrictedReportFields", () => {
+  test("should refuse salary statistics to roles with masked salaries", () => {
+    const report = ANALYTICS_REPORTS.salary_by_department;
+
+    expect(findRestrictedReportFields("manager", report)).toEqual([
+      "job_details.salary",
+      "job_details.currency",
+    ]);
+    expect(findRestrictedReportFields("hr", report)).toEqual([]);
+  });
+
+  test("should allow headcounts for every role", () => {
+    expect(
+      findRestrictedReportFields(
+        "employee",
+        ANALYTICS_REPORTS.headcount_by_department
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("buildAnalyticsPipeline", () => {
+  test("should prepend a literal department match", () => {
+    const [match] = buildAnalyticsPipeline(
+      ANALYTICS_REPORTS.headcount_by_office,
+      "R&D (.*)"
+    );
+
+    expect(match).toEqual({
+      $match: { "job_details.department": /^R&D \(\.\*\)$/i },
+    });
+  });
+});
+
+describe("hrAnalyticsTool", () => {
+  const aggregate = jest.fn(() => ({
+    toArray: async () => [
+      { department: "Engineering", headcount: 12 },
+      { department: "Sales", headcount: 4 },
+    ],
+  }));
+  const analytics = hrAnalyticsTool({ aggregate } as unknown as Collection);
+
+  beforeEach(() => jest.clearAllMocks());
+
+  const runAs = async (role: string, input: Record<string, unknown>) =>
+    JSON.parse(
+      await analytics.invoke(input, {
+        configurable: { caller: { id: "u1", role } },
+      })
+    );
+
+  test("should return a compact table", async () => {
+    const table = await runAs("employee", {
+      report: "headcount_by_department",
+    });
+
+    expect(table).toEqual({
+      report: "headcount_by_department",
+      columns: ["department", "headcount"],
+      rows: [
+        ["Engineering", 12],
+        ["Sales", 4],
+      ],
+    });
+  });
+
+  test("should refuse reports over restricted fields", async () => {
+    const result = await runAs("employee", { report: "salary_by_department" });
+
+    expect(result.error).toContain("job_details.salary");
+    expect(aggregate).not.toHaveBeenCalled();
+  });
+
+  test("should reject reports outside the whitelist", async () => {
+    await expect(
+      analytics.invoke({ report: "drop_everything" } as any)
+    ).rejects.toThrow();
+    expect(aggregate).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,16 @@
+import { HumanMessage } from "@langchain/core/messages";
+import { tool } from "@langchain/core/tools";
+import { MemorySaver } from "@langchain/langgraph";
+import winston from "winston";
+import { z } from "zod";
+import { createWorkflow } from "../src/agent/agent";
+import { ScriptedChatModel } from "../src/agent/providers/fake-chat-model";
 import { logger } from "../src/utils/logger";
+import { consoleFormat, entryFormat } from "../src/utils/log-format";
+import {
+  getRequestId,
+  runWithRequestContext,
+} from "../src/utils/request-context";
 
 describe("Logger", () => {
   beforeEach(() => {
@@ -72,3 +84,91 @@ describe("Logger", () => {
     });
   });
 });
+
+describe("Log entry formats", () => {
+  const LEVEL = Symbol.for("level");
+  const MESSAGE = Symbol.for("message");
+
+  // Runs an entry through the shared and console formats like winston does
+  const render = (entry: Record<string, unknown>) => {
+    const info = entryFormat.transform({
+      level: "info",
+      [LEVEL]: "info",
+      ...entry,
+    } as any);
+    const line = consoleFormat.transform(info as any) as any;
+    // Strip colors
+    return (line[MESSAGE] as string).replace(/\u001b\[\d+m/g, "");
+  };
+
+  test("should print metadata after the message", () => {
+    expect(render({ message: "GET /test 200", statusCode: 200 })).toMatch(
+      /^\S+ \S+ info: GET \/test 200 \{"statusCode":200\}$/
+    );
+  });
+
+  test("should tag entries with the current request id", () => {
+    const line = runWithRequestContext({ request_id: "req-7" }, () =>
+      render({ message: "Employee lookup tool called" })
+    );
+
+    expect(line).toMatch(/ info \[req-7\]: Employee lookup tool called$/);
+  });
+
+  test("should see the request id inside tools run by the graph", async () => {
+    const seen: (string | undefined)[] = [];
+    const lookup = tool(
+      async () => {
+        seen.push(getRequestId());
+        return "lookup result";
+      },
+      {
+        name: "employee_lookup",
+        description: "Test lookup",
+        schema: z.object({ query: z.string() }),
+      }
+    );
+    const app = createWorkflow(
+      [lookup],
+      new ScriptedChatModel(),
+      new MemorySaver()
+    );
+
+    await runWithRequestContext({ request_id: "req-8" }, () =>
+      app.invoke(
+        { messages: [new HumanMessage("Who knows Swift?")] },
+        { configurable: { thread_id: "logging-thread" } }
+      )
+    );
+
+    expect(seen).toEqual(["req-8"]);
+  });
+
+  test("should keep the masked stack of a logged error", () => {
+    const entry = winston.format
+      .combine(entryFormat, winston.format.errors({ stack: true }))
+      .transform({
+        level: "error",
+        [LEVEL]: "error",
+        message: new Error("Lookup failed for jane@example.com"),
+      } as any) as any;
+
+    expect(entry.message).toBe("Lookup failed for [REDACTED]");
+    expect(entry.stack).toMatch(
+      /^Error: Lookup failed for \[REDACTED\]\n\s+at /
+    );
+  });
+
+  test("should mask personal data in messages and metadata", () => {
+    const line = render({
+      message: "Final response: Jane's email is jane@example.com",
+      body: { employee_id: "E001", salary: 120000 },
+    });
+
+    expect(line).toContain("Jane's email is [REDACTED]");
+    expect(line).toContain(
+      '{"body":{"employee_id":"E001","salary":"[REDACTED]"}}'
+    );
+    expect(line).not.toContain("120000");
+  });
+});
@@ -0,0 +1,124 @@
+import { EventEmitter } from "events";
+import { tool } from "@langchain/core/tools";
+import { MongoClient } from "mongodb";
+import { z } from "zod";
+import { withToolMetrics } from "../src/agent/tool-metrics";
+import { InMemoryEmployeeVectorIndex } from "../src/db/vector-index/memory-index";
+import { MeteredEmployeeVectorIndex } from "../src/db/vector-index/metered-index";
+import { metricsRegistry, observeMongoCommands } from "../src/utils/metrics";
+
+// Prometheus text of one metric
+const exposition = (name: string) =>
+  metricsRegistry.getSingleMetricAsString(name);
+
+beforeEach(() => {
+  metricsRegistry.resetMetrics();
+});
+
+describe("withToolMetrics", () => {
+  const flaky = withToolMetrics(
+    tool(
+      async (input: unknown) => {
+        if ((input as { fail: boolean }).fail) {
+          throw new Error("backend down");
+        }
+        return "ok";
+      },
+      {
+        name: "flaky_tool",
+        description: "Fails on request",
+        schema: z.object({ fail: z.boolean() }),
+      }
+    )
+  );
+
+  test("should count calls by outcome and keep the tool's shape", async () => {
+    await flaky.invoke({ fail: false });
+    await expect(flaky.invoke({ fail: true })).rejects.toThrow("backend down");
+
+    expect(flaky.name).toBe("flaky_tool");
+    const calls = await exposition("tool_calls_total");
+    expect(calls).toContain(
+      'tool_calls_total{tool="flaky_tool",outcome="success"} 1'
+    );
+    expect(calls).toContain(
+      'tool_calls_total{tool="flaky_tool",outcome="error"} 1'
+    );
+    expect(await exposition("tool_call_duration_seconds")).toContain(
+      'tool_call_duration_seconds_count{tool="flaky_tool"} 2'
+    );
+  });
+
+  test("should count returned error payloads as errors", async () => {
+    const lookup = withToolMetrics(
+      tool(
+        async (input: unknown) =>
+          (input as { found: boolean }).found
+            ? JSON.stringify({ results: [] })
+            : JSON.stringify({ error: "No employee matched", query: "Jane" }),
+        {
+          name: "lookup_tool",
+          description: "Reports misses as an error payload",
+          schema: z.object({ found: z.boolean() }),
+        }
+      )
+    );
+
+    expect(await lookup.invoke({ found: false })).toBe(
+      JSON.stringify({ error: "No employee matched", query: "Jane" })
+    );
+    await lookup.invoke({ found: true });
+
+    const calls = await exposition("tool_calls_total");
+    expect(calls).toContain(
+      'tool_calls_total{tool="lookup_tool",outcome="error"} 1'
+    );
+    expect(calls).toContain(
+      'tool_calls_total{tool="lookup_tool",outcome="success"} 1'
+    );
+  });
+});
+
+describe("MeteredEmployeeVectorIndex", () => {
+  test("should time operations under the backend name", async () => {
+    const index = new MeteredEmployeeVectorIndex(
+      new InMemoryEmployeeVectorIndex(2)
+    );
+
+    await index.upsert([{ employee_id: "E001", summary: "a", vector: [1, 0] }]);
+    expect(await index.search([1, 0], 5)).toHaveLength(1);
+    await expect(
+      index.upsert([{ employee_id: "E002", summary: "b", vector: [1, 0, 0] }])
+    ).rejects.toThrow("expected 2");
+
+    expect(index.backend).toBe("memory");
+    const text = await exposition("backend_query_duration_seconds");
+    expect(text).toContain(
+      'backend_query_duration_seconds_count{backend="memory",operation="upsert",outcome="success"} 1'
+    );
+    expect(text).toContain(
+      'backend_query_duration_seconds_count{backend="memory",operation="upsert",outcome="error"} 1'
+    );
+    expect(text).toContain(
+      'backend_query_duration_seconds_count{backend="memory",operation="search",outcome="success"} 1'
+    );
+  });
+});
+
+describe("observeMongoCommands", () => {
+  test("should record command durations in seconds", async () => {
+    const client = new EventEmitter();
+    observeMongoCommands(client as unknown as MongoClient);
+
+    client.emit("commandSucceeded", { commandName: "find", duration: 20 });
+    client.emit("commandFailed", { commandName: "insert", duration: 5 });
+
+    const text = await exposition("backend_query_duration_seconds");
+    expect(text).toContain(
+      'backend_query_duration_seconds_sum{backend="mongo",operation="find",outcome="success"} 0.02'
+    );
+    expect(text).toContain(
+      'backend_query_duration_seconds_sum{backend="mongo",operation="insert",outcome="error"} 0.005'
+    );
+  });
+});
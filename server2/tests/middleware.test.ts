@@ -2,9 +2,16 @@ import { Request, Response, NextFunction } from "express";
 import {
   requestLogger,
   corsMiddleware,
+  createCorsMiddleware,
   responseFormatter,
   errorHandler,
+  metricsMiddleware,
+  requestContext,
+  routeLabel,
 } from "../src/middleware";
+import { ConfigurationError } from "../src/agent/config/errors";
+import { getRequestId } from "../src/utils/request-context";
+import { metricsRegistry } from "../src/utils/metrics";
 
 // Mock the logger
 jest.mock("../src/utils/logger", () => ({
@@ -68,13 +75,13 @@ describe("Middleware", () => {
       expect(logger.info).toHaveBeenCalledWith("GET /test", {
         ip: "127.0.0.1",
         userAgent: "test-agent",
-        body: undefined, // GET request, so body should be undefined
       });
+      expect(logger.debug).not.toHaveBeenCalled();
 
       expect(mockNext).toHaveBeenCalled();
     });
 
-    test("should log request body for non-GET methods", () => {
+    test("should log request body for non-GET methods at debug level", () => {
       mockReq.method = "POST";
 
       requestLogger(mockReq as Request, mockRes as Response, mockNext);
@@ -82,7 +89,9 @@ describe("Middleware", () => {
       expect(logger.info).toHaveBeenCalledWith("POST /test", {
         ip: "127.0.0.1",
         userAgent: "test-agent",
-        body: JSON.stringify({ test: "data" }),
+      });
+      expect(logger.debug).toHaveBeenCalledWith("POST /test body", {
+        body: { test: "data" },
       });
     });
 
@@ -105,21 +114,75 @@ describe("Middleware", () => {
     });
   });
 
+  describe("requestContext", () => {
+    const runWithHeader = (requestId?: string) => {
+      let seen: string | undefined;
+      const setHeader = jest.fn();
+      requestContext(
+        {
+          get: (header: string) =>
+            header === "X-Request-Id" ? requestId : undefined,
+        } as Request,
+        { setHeader } as unknown as Response,
+        () => {
+          seen = getRequestId();
+        }
+      );
+      return { seen, setHeader };
+    };
+
+    test("should keep the caller's request id", () => {
+      const { seen, setHeader } = runWithHeader("client-req.42");
+
+      expect(seen).toBe("client-req.42");
+      expect(setHeader).toHaveBeenCalledWith("X-Request-Id", "client-req.42");
+    });
+
+    test("should generate an id when none or an unsafe one is sent", () => {
+      const generated = runWithHeader().seen;
+      const replaced = runWithHeader("bad id\nINFO forged entry").seen;
+
+      expect(generated).toMatch(/^[0-9a-f-]{36}$/);
+      expect(replaced).toMatch(/^[0-9a-f-]{36}$/);
+      expect(replaced).not.toBe(generated);
+    });
+
+    test("should only expose the id while the request is handled", async () => {
+      let later: string | undefined;
+      requestContext(
+        { get: () => "req-1" } as unknown as Request,
+        { setHeader: jest.fn() } as unknown as Response,
+        () => {
+          setTimeout(() => (later = getRequestId()), 0);
+        }
+      );
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      expect(later).toBe("req-1");
+      expect(getRequestId()).toBeUndefined();
+    });
+  });
+
   describe("corsMiddleware", () => {
     test("should set CORS headers for regular requests", () => {
       corsMiddleware(mockReq as Request, mockRes as Response, mockNext);
 
-      expect(mockRes.header).toHaveBeenCalledWith(
+      // No origin is allowed unless CORS_ORIGINS lists it
+      expect(mockRes.header).not.toHaveBeenCalledWith(
         "Access-Control-Allow-Origin",
-        "*"
+        expect.anything()
       );
       expect(mockRes.header).toHaveBeenCalledWith(
         "Access-Control-Allow-Methods",
-        "GET, POST, PUT, DELETE, OPTIONS"
+        "GET, POST, PUT, PATCH, DELETE, OPTIONS"
       );
       expect(mockRes.header).toHaveBeenCalledWith(
         "Access-Control-Allow-Headers",
-        "Origin, X-Requested-With, Content-Type, Accept, Authorization"
+        "Origin, X-Requested-With, Content-Type, Accept, Authorization, X-API-Key, X-Request-Id"
+      );
+      expect(mockRes.header).toHaveBeenCalledWith(
+        "Access-Control-Expose-Headers",
+        "X-Request-Id, Retry-After"
       );
       expect(mockNext).toHaveBeenCalled();
       expect(mockRes.sendStatus).not.toHaveBeenCalled();
@@ -130,23 +193,62 @@ describe("Middleware", () => {
 
       corsMiddleware(mockReq as Request, mockRes as Response, mockNext);
 
-      expect(mockRes.header).toHaveBeenCalledWith(
-        "Access-Control-Allow-Origin",
-        "*"
-      );
       expect(mockRes.header).toHaveBeenCalledWith(
         "Access-Control-Allow-Methods",
-        "GET, POST, PUT, DELETE, OPTIONS"
+        "GET, POST, PUT, PATCH, DELETE, OPTIONS"
       );
       expect(mockRes.header).toHaveBeenCalledWith(
         "Access-Control-Allow-Headers",
-        "Origin, X-Requested-With, Content-Type, Accept, Authorization"
+        "Origin, X-Requested-With, Content-Type, Accept, Authorization, X-API-Key, X-Request-Id"
       );
       expect(mockRes.sendStatus).toHaveBeenCalledWith(200);
       expect(mockNext).not.toHaveBeenCalled();
     });
   });
 
+  describe("createCorsMiddleware", () => {
+    const withOrigin = (origin: string) =>
+      jest.fn().mockImplementation((header: string) =>
+        header === "Origin" ? origin : undefined
+      ) as any;
+
+    test("should echo allowed origins", () => {
+      mockReq.get = withOrigin("https://app.example.com");
+
+      createCorsMiddleware(["https://app.example.com"])(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockRes.header).toHaveBeenCalledWith(
+        "Access-Control-Allow-Origin",
+        "https://app.example.com"
+      );
+      expect(mockRes.header).toHaveBeenCalledWith("Vary", "Origin");
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    test("should refuse a wildcard origin", () => {
+      expect(() => createCorsMiddleware(["*"])).toThrow(ConfigurationError);
+    });
+
+    test("should not allow other origins", () => {
+      mockReq.get = withOrigin("https://evil.example.com");
+
+      createCorsMiddleware(["https://app.example.com"])(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockRes.header).not.toHaveBeenCalledWith(
+        "Access-Control-Allow-Origin",
+        expect.anything()
+      );
+    });
+  });
+
   describe("responseFormatter", () => {
     test("should override res.json method", () => {
       const originalJson = jest.fn();
@@ -271,4 +373,41 @@ describe("Middleware", () => {
       process.env.NODE_ENV = originalEnv;
     });
   });
+
+  describe("metricsMiddleware", () => {
+    test("should label requests with the matched route pattern", () => {
+      expect(
+        routeLabel({
+          baseUrl: "/chat",
+          route: { path: "/:threadId/resume" },
+        } as unknown as Request)
+      ).toBe("/chat/:threadId/resume");
+      expect(
+        routeLabel({ baseUrl: "/chat", route: { path: "/" } } as Request)
+      ).toBe("/chat");
+      expect(routeLabel({ baseUrl: "", route: { path: "/" } } as Request)).toBe(
+        "/"
+      );
+    });
+
+    test("should share one label for unmatched paths", () => {
+      expect(routeLabel({ baseUrl: "" } as Request)).toBe("unmatched");
+    });
+
+    test("should time the request when the response finishes", async () => {
+      metricsRegistry.resetMetrics();
+      mockReq = { ...mockReq, baseUrl: "/chat", route: { path: "/:threadId" } };
+
+      metricsMiddleware(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+      expect(
+        await metricsRegistry.getSingleMetricAsString(
+          "http_request_duration_seconds"
+        )
+      ).toContain(
+        'http_request_duration_seconds_count{method="GET",route="/chat/:threadId",status_code="200"} 1'
+      );
+    });
+  });
 });
@@ -0,0 +1,238 @@
+import { Collection, Document } from "mongodb";
+import {
+  ensureReportingManagerIndex,
+  findLowestCommonManager,
+  getOrgChart,
+} from "../src/db/org-chart";
+
+const person = (
+  employee_id: string,
+  reporting_manager: string | null,
+  job_title = "Engineer"
+) => ({
+  employee_id,
+  first_name: employee_id,
+  last_name: "Test",
+  job_details: { job_title, department: "Engineering", salary: 100000 },
+  reporting_manager,
+});
+
+// Copies the dot-notation paths a projection includes
+const project = (doc: Document, projection: Document): Document => {
+  const copy: Document = {};
+  for (const [path, include] of Object.entries(projection)) {
+    const [key, child] = path.split(".");
+    if (include !== 1 || doc[key] === undefined) continue;
+    copy[key] = child ? { ...copy[key], [child]: doc[key][child] } : doc[key];
+  }
+  return copy;
+};
+
+// Answers the chain pipeline the way $graphLookup would (breadth first,
+// each document once, with its depth) and the per-level report queries
+function fakeCollection(employees: Document[]) {
+  const chainOf = (root: Document): Document[] => {
+    const found = new Map<string, Document>();
+    let managerId = root.reporting_manager;
+    for (let depth = 0; managerId && !found.has(managerId); depth++) {
+      const manager = employees.find((doc) => doc.employee_id === managerId);
+      if (!manager) break;
+      found.set(managerId, { ...manager, depth });
+      managerId = manager.reporting_manager;
+    }
+    return [...found.values()];
+  };
+
+  const aggregate = jest.fn((pipeline: Document[]) => ({
+    toArray: async () => {
+      const root = employees.find(
+        (doc) => doc.employee_id === pipeline[0].$match.employee_id
+      );
+      return root ? [{ ...root, chain: chainOf(root) }] : [];
+    },
+  }));
+  const find = jest.fn(
+    (filter: Document, options: { projection: Document }) => ({
+      toArray: async () =>
+        employees
+          .filter((doc) =>
+            filter.reporting_manager.$in.includes(doc.reporting_manager)
+          )
+          .map((doc) => project(doc, options.projection)),
+    })
+  );
+  return {
+    aggregate,
+    find,
+    collectionName: "employees",
+  } as unknown as Collection & { find: jest.Mock };
+}
+
+const ORG = [
+  person("CEO", null, "Chief Executive"),
+  person("CTO", "CEO"),
+  person("ENG1", "CTO"),
+  person("ENG2", "CTO"),
+  person("DEV1", "ENG1"),
+  person("CFO", "CEO"),
+];
+
+describe("getOrgChart", () => {
+  test("should resolve the chain of command and reports", async () => {
+    const chart = await getOrgChart(fakeCollection(ORG), "CTO", {
+      role: "employee",
+      depth: 2,
+    });
+
+    expect(chart?.employee).toEqual({
+      employee_id: "CTO",
+      name: "CTO Test",
+      job_title: "Engineer",
+      department: "Engineering",
+      reporting_manager: "CEO",
+    });
+    expect(chart?.chain.map((p) => p.employee_id)).toEqual(["CEO"]);
+    expect(
+      chart?.reports.map((node) => [
+        node.employee_id,
+        node.reports.map((child) => child.employee_id),
+      ])
+    ).toEqual([
+      ["ENG1", ["DEV1"]],
+      ["ENG2", []],
+    ]);
+    expect(chart?.span_of_control).toEqual({ direct: 2, total: 3 });
+    expect(chart?.issues).toEqual([]);
+  });
+
+  test("should limit the tree but count every report", async () => {
+    const chart = await getOrgChart(fakeCollection(ORG), "CEO", {
+      role: "employee",
+      depth: 1,
+    });
+
+    expect(chart?.reports.every((node) => node.reports.length === 0)).toBe(
+      true
+    );
+    expect(chart?.span_of_control).toEqual({ direct: 2, total: 5 });
+  });
+
+  test("should fetch chart fields only down to the requested depth", async () => {
+    const collection = fakeCollection(ORG);
+
+    await getOrgChart(collection, "CEO", { role: "employee", depth: 1 });
+
+    // Direct reports with names, then ids only until no level is left
+    const projections = collection.find.mock.calls.map(
+      ([, options]) => options.projection
+    );
+    expect(projections).toHaveLength(4);
+    expect(projections[0]).toMatchObject({ first_name: 1, last_name: 1 });
+    projections.slice(1).forEach((projection) =>
+      expect(projection).toEqual({
+        _id: 0,
+        employee_id: 1,
+        reporting_manager: 1,
+      })
+    );
+    expect(collection.find.mock.calls[1][0]).toEqual({
+      reporting_manager: { $in: ["CTO", "CFO"] },
+    });
+  });
+
+  test("should never expose fields outside the org chart", async () => {
+    const chart = await getOrgChart(fakeCollection(ORG), "DEV1", {
+      role: "admin",
+    });
+
+    expect(JSON.stringify(chart)).not.toContain("salary");
+  });
+
+  test("should report dangling manager references", async () => {
+    const chart = await getOrgChart(
+      fakeCollection([person("A", "B"), person("B", "GONE")]),
+      "A",
+      { role: "employee" }
+    );
+
+    expect(chart?.chain.map((p) => p.employee_id)).toEqual(["B"]);
+    expect(chart?.issues).toEqual([
+      "Dangling reference: manager GONE does not exist",
+    ]);
+  });
+
+  test("should stop at reporting cycles", async () => {
+    const chart = await getOrgChart(
+      fakeCollection([person("A", "C"), person("B", "A"), person("C", "B")]),
+      "A",
+      { role: "employee", depth: 5 }
+    );
+
+    expect(chart?.chain.map((p) => p.employee_id)).toEqual(["C", "B"]);
+    expect(chart?.reports.map((node) => node.employee_id)).toEqual(["B"]);
+    expect(chart?.span_of_control).toEqual({ direct: 1, total: 2 });
+    expect(chart?.issues).toHaveLength(2);
+  });
+
+  test("should return null for unknown employees", async () => {
+    expect(
+      await getOrgChart(fakeCollection(ORG), "NOBODY", { role: "employee" })
+    ).toBeNull();
+  });
+});
+
+describe("findLowestCommonManager", () => {
+  test("should not walk reports to find a common manager", async () => {
+    const collection = fakeCollection(ORG);
+
+    await findLowestCommonManager(collection, "DEV1", "CFO", "employee");
+
+    expect(collection.find).not.toHaveBeenCalled();
+  });
+
+  test("should find the lowest shared manager", async () => {
+    const result = await findLowestCommonManager(
+      fakeCollection(ORG),
+      "DEV1",
+      "ENG2",
+      "employee"
+    );
+
+    expect(result?.manager?.employee_id).toBe("CTO");
+  });
+
+  test("should return the manager when one manages the other", async () => {
+    const result = await findLowestCommonManager(
+      fakeCollection(ORG),
+      "DEV1",
+      "CTO",
+      "employee"
+    );
+
+    expect(result?.manager?.employee_id).toBe("CTO");
+  });
+
+  test("should return no manager for separate hierarchies", async () => {
+    const result = await findLowestCommonManager(
+      fakeCollection([...ORG, person("X", null)]),
+      "DEV1",
+      "X",
+      "employee"
+    );
+
+    expect(result).toEqual({ manager: null, issues: [] });
+  });
+});
+
+describe("ensureReportingManagerIndex", () => {
+  test("should index the field reports are looked up by", async () => {
+    const collection = { createIndex: jest.fn(async () => "reporting_manager") };
+
+    await ensureReportingManagerIndex(collection as unknown as Collection);
+
+    expect(collection.createIndex).toHaveBeenCalledWith(
+      { reporting_manager: 1 },
+      { name: "reporting_manager" }
+    );
+  });
+});
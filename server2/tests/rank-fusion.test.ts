@@ -0,0 +1,54 @@
+import { reciprocalRankFusion } from "../src/db/rank-fusion";
+
+const leg = (name: string, ids: string[], weight = 1) => ({
+  name,
+  weight,
+  results: ids.map((employee_id, index) => ({
+    employee_id,
+    score: 1 - index / 10,
+  })),
+});
+
+describe("reciprocalRankFusion", () => {
+  test("should reward results found by both legs", () => {
+    const fused = reciprocalRankFusion(
+      [leg("vector", ["A", "B", "C"]), leg("keyword", ["C", "D"])],
+      60
+    );
+
+    expect(fused.map((result) => result.employee_id)).toEqual([
+      "C",
+      "A",
+      "B",
+      "D",
+    ]);
+    expect(fused[0].score).toBeCloseTo(1 / 63 + 1 / 61);
+    expect(fused[0].leg_scores).toEqual({ vector: 0.8, keyword: 1 });
+    expect(fused[3].leg_scores).toEqual({ vector: null, keyword: 0.9 });
+  });
+
+  test("should apply leg weights", () => {
+    const fused = reciprocalRankFusion(
+      [leg("vector", ["A"], 1), leg("keyword", ["B"], 2)],
+      60
+    );
+
+    expect(fused.map((result) => result.employee_id)).toEqual(["B", "A"]);
+  });
+
+  test("should break ties by employee_id", () => {
+    const fused = reciprocalRankFusion(
+      [leg("vector", ["B"]), leg("keyword", ["A"])],
+      60
+    );
+
+    expect(fused.map((result) => result.employee_id)).toEqual(["A", "B"]);
+  });
+
+  test("should count duplicates within a leg once", () => {
+    const fused = reciprocalRankFusion([leg("vector", ["A", "A"])], 60);
+
+    expect(fused).toHaveLength(1);
+    expect(fused[0].score).toBeCloseTo(1 / 61);
+  });
+});
@@ -0,0 +1,243 @@
+import { Request, Response } from "express";
+import { Collection, MongoServerError } from "mongodb";
+import { ConfigurationError } from "../src/agent/config/errors";
+import {
+  MemoryRateLimitStore,
+  MongoRateLimitStore,
+  RateLimitWindow,
+} from "../src/db/rate-limits";
+import {
+  checkRateLimit,
+  createRateLimiter,
+  parseRateLimits,
+  RateLimitOptions,
+} from "../src/middleware/rate-limit";
+
+const MINUTE = 60_000;
+
+describe("parseRateLimits", () => {
+  test("should key limits by method and route pattern", () => {
+    expect(
+      parseRateLimits(["POST /chat:10:60", "post /chat/:threadId/resume:5:30"])
+    ).toEqual(
+      new Map([
+        ["POST /chat", { requests: 10, windowMs: 60_000 }],
+        ["POST /chat/:threadId/resume", { requests: 5, windowMs: 30_000 }],
+      ])
+    );
+  });
+
+  test("should reject malformed entries", () => {
+    for (const entry of [
+      "/chat:10:60",
+      "POST chat:10:60",
+      "POST /chat:ten:60",
+      "POST /chat:0:60",
+      "POST /chat:10",
+    ]) {
+      expect(() => parseRateLimits([entry])).toThrow(ConfigurationError);
+    }
+  });
+});
+
+describe("checkRateLimit", () => {
+  const limit = { requests: 10, windowMs: MINUTE };
+
+  test("should weight the previous window by its remaining overlap", () => {
+    // 10 * 0.5 + 5 = 10 fits; one more does not
+    expect(
+      checkRateLimit({ previous: 10, current: 5 }, limit, MINUTE / 2)
+    ).toEqual({ allowed: true, retryAfter: 0 });
+    expect(
+      checkRateLimit({ previous: 10, current: 6 }, limit, MINUTE / 2)
+    ).toEqual({ allowed: false, retryAfter: 12 });
+  });
+
+  test("should wait for the next window when the current one is full", () => {
+    // 40s left in this window, then 11 * (1 - s/60) + 1 <= 10 after 11s
+    expect(
+      checkRateLimit({ previous: 0, current: 11 }, limit, 20_000)
+    ).toEqual({ allowed: false, retryAfter: 51 });
+  });
+});
+
+describe("MemoryRateLimitStore", () => {
+  test("should roll counts into the previous window", async () => {
+    const store = new MemoryRateLimitStore();
+
+    await store.hit("a", 0, MINUTE);
+    expect(await store.hit("a", 0, MINUTE)).toEqual({
+      current: 2,
+      previous: 0,
+    });
+    expect(await store.hit("b", 0, MINUTE)).toEqual({
+      current: 1,
+      previous: 0,
+    });
+    expect(await store.hit("a", MINUTE, MINUTE)).toEqual({
+      current: 1,
+      previous: 2,
+    });
+    // A whole idle window drops the old counts
+    expect(await store.hit("a", 3 * MINUTE, MINUTE)).toEqual({
+      current: 1,
+      previous: 0,
+    });
+  });
+});
+
+describe("MongoRateLimitStore", () => {
+  const fakeWindows = () => {
+    const docs = new Map<string, RateLimitWindow>();
+    const collection = {
+      findOneAndUpdate: jest.fn(
+        async (filter: { _id: string }, update: any) => {
+          const doc = docs.get(filter._id) ?? {
+            _id: filter._id,
+            count: 0,
+            ...update.$setOnInsert,
+          };
+          doc.count += update.$inc.count;
+          docs.set(filter._id, doc);
+          return doc;
+        }
+      ),
+      findOne: jest.fn(async (filter: { _id: string }) =>
+        docs.get(filter._id) ?? null
+      ),
+    };
+    return {
+      docs,
+      collection,
+      store: new MongoRateLimitStore(
+        collection as unknown as Collection<RateLimitWindow>
+      ),
+    };
+  };
+
+  test("should count per window and expire windows after two lengths", async () => {
+    const { docs, store } = fakeWindows();
+
+    await store.hit("POST /chat|ip:1", 0, MINUTE);
+    await store.hit("POST /chat|ip:1", 0, MINUTE);
+    expect(await store.hit("POST /chat|ip:1", MINUTE, MINUTE)).toEqual({
+      current: 1,
+      previous: 2,
+    });
+    expect(docs.get("POST /chat|ip:1|60000")).toEqual({
+      _id: "POST /chat|ip:1|60000",
+      count: 1,
+      expires_at: new Date(3 * MINUTE),
+    });
+  });
+
+  test("should retry once when a concurrent insert wins", async () => {
+    const { collection, store } = fakeWindows();
+    collection.findOneAndUpdate.mockRejectedValueOnce(
+      new MongoServerError({ message: "E11000 duplicate key", code: 11000 })
+    );
+
+    expect(await store.hit("k", 0, MINUTE)).toEqual({
+      current: 1,
+      previous: 0,
+    });
+    expect(collection.findOneAndUpdate).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("createRateLimiter", () => {
+  let time = 0;
+  const options = (overrides: Partial<RateLimitOptions> = {}) => ({
+    enabled: true,
+    defaultLimit: { requests: 2, windowMs: MINUTE },
+    routeLimits: new Map([
+      ["POST /chat/:threadId", { requests: 1, windowMs: MINUTE }],
+    ]),
+    now: () => time,
+    ...overrides,
+  });
+
+  const send = async (
+    limiter: ReturnType<typeof createRateLimiter>,
+    req: Partial<Request>
+  ) => {
+    const res = {
+      setHeader: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    const next = jest.fn();
+    await limiter(
+      {
+        method: "POST",
+        baseUrl: "/chat",
+        route: { path: "/" },
+        ip: "10.0.0.1",
+        ...req,
+      } as Request,
+      res as unknown as Response,
+      next
+    );
+    return { res, next };
+  };
+
+  beforeEach(() => {
+    time = 0;
+  });
+
+  test("should answer 429 with Retry-After once a client is over its limit", async () => {
+    const limiter = createRateLimiter(new MemoryRateLimitStore(), options());
+
+    expect((await send(limiter, {})).next).toHaveBeenCalled();
+    expect((await send(limiter, {})).next).toHaveBeenCalled();
+    time = 30_000;
+    const { res, next } = await send(limiter, {});
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(429);
+    // In the next window these 3 weigh 3 * (1 - s/60), so one more fits
+    // 40s into it
+    expect(res.setHeader).toHaveBeenCalledWith("Retry-After", "70");
+    expect(res.json).toHaveBeenCalledWith({
+      error: "Too many requests",
+      message: "Rate limit of 2 requests per 60s exceeded. Retry in 70s.",
+    });
+  });
+
+  test("should count API keys, IPs and routes separately", async () => {
+    const limiter = createRateLimiter(new MemoryRateLimitStore(), options());
+    const onThread = { route: { path: "/:threadId" } };
+    const withKey = {
+      caller: { id: "alice", role: "employee", key_id: "abc123" },
+    } as Partial<Request>;
+
+    expect((await send(limiter, onThread)).next).toHaveBeenCalled();
+    expect((await send(limiter, onThread)).next).not.toHaveBeenCalled();
+    expect(
+      (await send(limiter, { ...onThread, ...withKey })).next
+    ).toHaveBeenCalled();
+    expect(
+      (await send(limiter, { ...onThread, ip: "10.0.0.2" })).next
+    ).toHaveBeenCalled();
+    expect((await send(limiter, {})).next).toHaveBeenCalled();
+  });
+
+  test("should let requests through when disabled or the store fails", async () => {
+    const failing = {
+      hit: jest.fn(async () => {
+        throw new Error("connection reset");
+      }),
+    };
+    const disabled = createRateLimiter(
+      new MemoryRateLimitStore(),
+      options({ enabled: false, defaultLimit: { requests: 1, windowMs: 1 } })
+    );
+
+    for (let i = 0; i < 3; i++) {
+      expect((await send(disabled, {})).next).toHaveBeenCalled();
+    }
+    expect(
+      (await send(createRateLimiter(failing, options()), {})).next
+    ).toHaveBeenCalled();
+  });
+});
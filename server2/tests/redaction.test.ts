@@ -0,0 +1,94 @@
+import { REDACTED, Redactor } from "../src/utils/redaction";
+
+describe("Redactor", () => {
+  const redactor = new Redactor(["notes"]);
+
+  test("should mask emails, phone numbers, salaries and birth dates in text", () => {
+    expect(
+      redactor.redactText(
+        "Jane (jane.doe@example.com, +49 30 1234-5678) was born on 1990-01-01 and has a salary of $120,000"
+      )
+    ).toBe(
+      `Jane (${REDACTED}, ${REDACTED}) was born on ${REDACTED} and has a salary of $${REDACTED}`
+    );
+    expect(redactor.redactText("Call 555-0100 or (030) 1234 5678")).toBe(
+      `Call ${REDACTED} or ${REDACTED}`
+    );
+  });
+
+  test("should leave dates, times and ids alone", () => {
+    const text =
+      "Hired 2020-01-01 at 10:30:00, request 3f2b8c1e-1234-4abc-9def-123456789012, 1500 tokens";
+
+    expect(redactor.redactText(text)).toBe(text);
+  });
+
+  test("should mask listed fields in serialized JSON", () => {
+    const body = JSON.stringify({
+      employee_id: "E001",
+      job_details: { salary: 120000, department: "Engineering" },
+      notes: 'Said "hi"',
+      date_of_birth: "1990-01-01",
+    });
+
+    expect(JSON.parse(redactor.redactText(body))).toEqual({
+      employee_id: "E001",
+      job_details: { salary: REDACTED, department: "Engineering" },
+      notes: REDACTED,
+      date_of_birth: REDACTED,
+    });
+  });
+
+  test("should mask listed fields in objects without changing them", () => {
+    const employee = {
+      employee_id: "E001",
+      contact_details: { email: "jane@example.com", Phone_Number: "555-0100" },
+      Notes: ["Prefers email"],
+      manager_id: null,
+      hired: new Date("2020-01-01"),
+    };
+
+    expect(redactor.redact({ employee, count: 1 })).toEqual({
+      employee: {
+        employee_id: "E001",
+        contact_details: { email: REDACTED, Phone_Number: REDACTED },
+        Notes: REDACTED,
+        manager_id: null,
+        hired: employee.hired,
+      },
+      count: 1,
+    });
+    expect(employee.contact_details.email).toBe("jane@example.com");
+  });
+
+  test("should mask errors into a copy that keeps the stack", () => {
+    const error = Object.assign(
+      new TypeError("No employee with email jane@example.com"),
+      { code: "E_LOOKUP", body: { salary: 120000 } }
+    );
+
+    const redacted = redactor.redact(error) as typeof error;
+
+    expect(redacted).toBeInstanceOf(TypeError);
+    expect(redacted).not.toBe(error);
+    expect(redacted.message).toBe(`No employee with email ${REDACTED}`);
+    expect(redacted.stack).toMatch(
+      /^TypeError: No employee with email \[REDACTED\]\n\s+at /
+    );
+    expect(redacted.code).toBe("E_LOOKUP");
+    expect(redacted.body).toEqual({ salary: REDACTED });
+    expect(error.message).toBe("No employee with email jane@example.com");
+  });
+
+  test("should handle circular and shared references", () => {
+    const shared = { email: "a@b.co" };
+    const entry: Record<string, unknown> = { first: shared, second: shared };
+    entry.self = entry;
+
+    expect(redactor.redact(entry)).toEqual({
+      first: { email: REDACTED },
+      second: { email: REDACTED },
+      self: "[Circular]",
+    });
+  });
+});
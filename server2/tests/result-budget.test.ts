@@ -0,0 +1,207 @@
+import { tool } from "@langchain/core/tools";
+import { ToolMessage } from "@langchain/core/messages";
+import { z } from "zod";
+import {
+  countWithinBudget,
+  parseToolBudgets,
+  ResultCursorStore,
+  withResultBudget,
+} from "../src/agent/result-budget";
+import { fetchMoreResultsTool } from "../src/agent/tools/fetch-more-results";
+
+// 10 items of roughly 25 tokens each
+const ITEMS = Array.from({ length: 10 }, (_, index) => ({
+  employee_id: `E${String(index).padStart(3, "0")}`,
+  notes: "x".repeat(70),
+}));
+
+const asCaller = (id: string) => ({
+  configurable: { caller: { id, role: "employee" } },
+});
+
+const listTool = (output: unknown) =>
+  tool(async () => JSON.stringify(output), {
+    name: "employee_filter",
+    description: "Lists employees",
+    schema: z.object({}),
+  });
+
+describe("parseToolBudgets", () => {
+  test("should parse per-tool budgets", () => {
+    expect(
+      parseToolBudgets(["employee_lookup:500", "hr_analytics:100"])
+    ).toEqual(
+      new Map([
+        ["employee_lookup", 500],
+        ["hr_analytics", 100],
+      ])
+    );
+  });
+
+  test("should reject malformed entries", () => {
+    expect(() => parseToolBudgets(["employee_lookup"])).toThrow(
+      "TOOL_RESULT_TOKEN_BUDGETS"
+    );
+    expect(() => parseToolBudgets(["employee_lookup:0"])).toThrow();
+  });
+});
+
+describe("countWithinBudget", () => {
+  test("should count the items that fit", () => {
+    expect(countWithinBudget(ITEMS, 60)).toBe(2);
+    expect(countWithinBudget(ITEMS, 10_000)).toBe(10);
+  });
+
+  test("should always take the first item", () => {
+    expect(countWithinBudget(ITEMS, 1)).toBe(1);
+  });
+});
+
+describe("ResultCursorStore", () => {
+  test("should page through the results", () => {
+    const store = new ResultCursorStore(60_000, 10);
+    const first = store.save("u1", "employee_filter", ITEMS, 60);
+
+    expect(first.results).toEqual(ITEMS.slice(0, 2));
+    expect(first.total).toBe(10);
+    expect(first.summary).toContain(first.next_cursor);
+
+    const pages = [first];
+    while (pages[pages.length - 1].next_cursor) {
+      pages.push(store.fetch(pages[pages.length - 1].next_cursor!, "u1")!);
+    }
+    expect(pages.flatMap((page) => page.results)).toEqual(ITEMS);
+    expect(pages[pages.length - 1].summary).toContain("last results");
+  });
+
+  test("should return the same page for the same cursor", () => {
+    const store = new ResultCursorStore(60_000, 10);
+    const { next_cursor } = store.save("u1", "employee_filter", ITEMS, 60);
+
+    expect(store.fetch(next_cursor!, "u1")).toEqual(
+      store.fetch(next_cursor!, "u1")
+    );
+  });
+
+  test("should not share results with other callers", () => {
+    const store = new ResultCursorStore(60_000, 10);
+    const { next_cursor } = store.save("u1", "employee_filter", ITEMS, 60);
+
+    expect(store.fetch(next_cursor!, "u2")).toBeNull();
+  });
+
+  test("should reject malformed cursors", () => {
+    const store = new ResultCursorStore(60_000, 10);
+    const { next_cursor } = store.save("u1", "employee_filter", ITEMS, 60);
+    const [id] = next_cursor!.split(".");
+
+    expect(store.fetch(`${id}.99`, "u1")).toBeNull();
+    expect(store.fetch(`${id}.x`, "u1")).toBeNull();
+    expect(store.fetch("unknown.2", "u1")).toBeNull();
+  });
+
+  test("should expire results after the TTL", () => {
+    let now = 0;
+    const store = new ResultCursorStore(1000, 10, () => now);
+    const { next_cursor } = store.save("u1", "employee_filter", ITEMS, 60);
+
+    now = 1000;
+    expect(store.fetch(next_cursor!, "u1")).toBeNull();
+    expect(store.size).toBe(0);
+  });
+
+  test("should evict the oldest results beyond the limit", () => {
+    const store = new ResultCursorStore(60_000, 1);
+    const oldest = store.save("u1", "employee_filter", ITEMS, 60);
+    store.save("u1", "employee_filter", ITEMS, 60);
+
+    expect(store.size).toBe(1);
+    expect(store.fetch(oldest.next_cursor!, "u1")).toBeNull();
+  });
+});
+
+describe("withResultBudget", () => {
+  test("should pass outputs within the budget through", async () => {
+    const store = new ResultCursorStore(60_000, 10);
+    const budgeted = withResultBudget(listTool(ITEMS), store, 10_000);
+
+    expect(JSON.parse(await budgeted.invoke({}))).toEqual(ITEMS);
+    expect(store.size).toBe(0);
+  });
+
+  test("should truncate oversized outputs to a page and cursor", async () => {
+    const store = new ResultCursorStore(60_000, 10);
+    const budgeted = withResultBudget(listTool(ITEMS), store, 60);
+
+    const page = JSON.parse(await budgeted.invoke({}, asCaller("u1")));
+
+    expect(page).toMatchObject({
+      tool: "employee_filter",
+      results: ITEMS.slice(0, 2),
+      offset: 0,
+      total: 10,
+    });
+    expect(store.fetch(page.next_cursor, "u1")?.offset).toBe(2);
+  });
+
+  test("should keep the tool's name and answer tool calls", async () => {
+    const store = new ResultCursorStore(60_000, 10);
+    const budgeted = withResultBudget(listTool(ITEMS), store, 60);
+
+    const message = await budgeted.invoke(
+      { id: "call_1", name: "employee_filter", args: {}, type: "tool_call" },
+      asCaller("u1")
+    );
+
+    expect(budgeted.name).toBe("employee_filter");
+    expect(message).toBeInstanceOf(ToolMessage);
+    expect(message.tool_call_id).toBe("call_1");
+    expect(JSON.parse(message.content).total).toBe(10);
+  });
+
+  test("should report a call as one tool run with the budgeted output", async () => {
+    const store = new ResultCursorStore(60_000, 10);
+    const budgeted = withResultBudget(listTool(ITEMS), store, 60);
+
+    const events = [];
+    for await (const event of budgeted.streamEvents(
+      {},
+      { ...asCaller("u1"), version: "v2" }
+    )) {
+      events.push(event);
+    }
+
+    expect(events.map((event) => event.event)).toEqual([
+      "on_tool_start",
+      "on_tool_end",
+    ]);
+    expect(JSON.parse(events[1].data.output).total).toBe(10);
+  });
+
+  test("should leave outputs that are not lists intact", async () => {
+    const store = new ResultCursorStore(60_000, 10);
+    const report = { report: "x", rows: ITEMS };
+    const budgeted = withResultBudget(listTool(report), store, 60);
+
+    expect(JSON.parse(await budgeted.invoke({}))).toEqual(report);
+    expect(store.size).toBe(0);
+  });
+});
+
+describe("fetchMoreResultsTool", () => {
+  test("should return the next page for the caller", async () => {
+    const store = new ResultCursorStore(60_000, 10);
+    const fetchMore = fetchMoreResultsTool(store);
+    const { next_cursor } = store.save("u1", "employee_filter", ITEMS, 60);
+
+    const page = JSON.parse(
+      await fetchMore.invoke({ cursor: next_cursor! }, asCaller("u1"))
+    );
+    const denied = JSON.parse(
+      await fetchMore.invoke({ cursor: next_cursor! }, asCaller("u2"))
+    );
+
+    expect(page.results).toEqual(ITEMS.slice(2, 4));
+    expect(denied.error).toContain("Unknown or expired cursor");
+  });
+});
@@ -0,0 +1,118 @@
+import { ServerBusyError } from "../src/agent/config/errors";
+import { RunLimiter } from "../src/agent/run-limiter";
+
+// A task that finishes when the test calls finish
+const deferredTask = () => {
+  let finish: () => void = () => undefined;
+  const done = new Promise<void>((resolve) => (finish = resolve));
+  return { task: () => done, finish: () => finish() };
+};
+
+// Lets queued promise callbacks run
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("RunLimiter", () => {
+  test("should queue runs beyond the cap and start them in order", async () => {
+    const limiter = new RunLimiter({
+      maxConcurrent: 1,
+      maxQueued: 2,
+      queueTimeoutMs: 1000,
+    });
+    const first = deferredTask();
+    const started: string[] = [];
+
+    const running = limiter.run(first.task);
+    const queued = ["second", "third"].map((name) =>
+      limiter.run(async () => {
+        started.push(name);
+      })
+    );
+    await settle();
+
+    expect(limiter.running).toBe(1);
+    expect(limiter.waiting).toBe(2);
+    expect(started).toEqual([]);
+
+    first.finish();
+    await Promise.all([running, ...queued]);
+
+    expect(started).toEqual(["second", "third"]);
+    expect(limiter.running).toBe(0);
+    expect(limiter.waiting).toBe(0);
+  });
+
+  test("should refuse runs once the queue is full", async () => {
+    const limiter = new RunLimiter({
+      maxConcurrent: 1,
+      maxQueued: 1,
+      queueTimeoutMs: 2500,
+    });
+    const first = deferredTask();
+    const running = limiter.run(first.task);
+    const queued = limiter.run(async () => "queued");
+
+    const refused = limiter.run(async () => "refused");
+
+    await expect(refused).rejects.toThrow(ServerBusyError);
+    await expect(refused).rejects.toMatchObject({ retryAfter: 3 });
+    first.finish();
+    await expect(queued).resolves.toBe("queued");
+    await running;
+  });
+
+  test("should give up on runs that wait too long", async () => {
+    jest.useFakeTimers();
+    try {
+      const limiter = new RunLimiter({
+        maxConcurrent: 1,
+        maxQueued: 5,
+        queueTimeoutMs: 1000,
+      });
+      const first = deferredTask();
+      const running = limiter.run(first.task);
+      const queued = limiter.run(async () => "late");
+
+      jest.advanceTimersByTime(1000);
+
+      await expect(queued).rejects.toThrow(
+        "No agent run slot freed up within 1000ms"
+      );
+      expect(limiter.waiting).toBe(0);
+      first.finish();
+      await running;
+      expect(limiter.running).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test("should free the slot when a run fails", async () => {
+    const limiter = new RunLimiter({
+      maxConcurrent: 1,
+      maxQueued: 0,
+      queueTimeoutMs: 1000,
+    });
+
+    await expect(
+      limiter.run(async () => {
+        throw new Error("model down");
+      })
+    ).rejects.toThrow("model down");
+    await expect(limiter.run(async () => "next")).resolves.toBe("next");
+  });
+
+  test("should not limit runs when the cap is 0", async () => {
+    const limiter = new RunLimiter({
+      maxConcurrent: 0,
+      maxQueued: 0,
+      queueTimeoutMs: 1000,
+    });
+    const tasks = [deferredTask(), deferredTask(), deferredTask()];
+
+    const runs = tasks.map(({ task }) => limiter.run(task));
+
+    expect(limiter.running).toBe(3);
+    tasks.forEach(({ finish }) => finish());
+    await Promise.all(runs);
+  });
+});
@@ -0,0 +1,174 @@
+import { ZodError } from "zod";
+import { EmployeeSchema } from "../src/db/employee";
+import {
+  apportion,
+  createRandom,
+  generateEmployees,
+} from "../src/db/synthetic-data";
+
+describe("createRandom", () => {
+  test("should repeat the sequence for a seed", () => {
+    const [a, b] = [createRandom(7), createRandom(7)];
+    const first = Array.from({ length: 5 }, a);
+
+    expect(Array.from({ length: 5 }, b)).toEqual(first);
+    expect(first.every((value) => value >= 0 && value < 1)).toBe(true);
+    expect(Array.from({ length: 5 }, createRandom(8))).not.toEqual(first);
+  });
+});
+
+describe("apportion", () => {
+  test("should split a total by weight without losing any", () => {
+    expect(apportion(10, [1, 1, 1])).toEqual([4, 3, 3]);
+    expect(apportion(99, [40, 20, 12, 10, 8, 10])).toEqual([
+      39, 20, 12, 10, 8, 10,
+    ]);
+  });
+});
+
+describe("generateEmployees", () => {
+  test("should produce valid records", () => {
+    const employees = generateEmployees({ count: 50, seed: 3 });
+
+    expect(employees).toHaveLength(50);
+    for (const employee of employees) {
+      expect(EmployeeSchema.safeParse(employee).success).toBe(true);
+    }
+    const ids = new Set(employees.map((employee) => employee.employee_id));
+    const emails = new Set(
+      employees.map((employee) => employee.contact_details.email)
+    );
+    expect(ids.size).toBe(50);
+    expect(emails.size).toBe(50);
+  });
+
+  test("should be reproducible for a seed", () => {
+    expect(generateEmployees({ count: 30, seed: 42 })).toEqual(
+      generateEmployees({ count: 30, seed: 42 })
+    );
+    expect(generateEmployees({ count: 30, seed: 42 })).not.toEqual(
+      generateEmployees({ count: 30, seed: 43 })
+    );
+  });
+
+  test("should build one tree with existing managers and no cycles", () => {
+    const employees = generateEmployees({
+      count: 2000,
+      seed: 9,
+      max_direct_reports: 5,
+    });
+    const managers = new Map(
+      employees.map((employee) => [
+        employee.employee_id,
+        employee.reporting_manager,
+      ])
+    );
+
+    expect(
+      employees.filter((employee) => employee.reporting_manager === null)
+    ).toHaveLength(1);
+    for (const employee of employees) {
+      const seen = new Set<string>();
+      let current: string | null = employee.employee_id;
+      while (current) {
+        expect(managers.has(current)).toBe(true);
+        expect(seen.has(current)).toBe(false);
+        seen.add(current);
+        current = managers.get(current) ?? null;
+      }
+    }
+
+    const reports = new Map<string, number>();
+    for (const { reporting_manager } of employees) {
+      if (reporting_manager) {
+        const count = reports.get(reporting_manager) ?? 0;
+        reports.set(reporting_manager, count + 1);
+      }
+    }
+    // Only the CEO, who manages every department head, has more than five
+    expect(
+      [...reports].filter(([id, count]) => id !== "E0001" && count > 5)
+    ).toEqual([]);
+  });
+
+  test("should follow the department mix and office settings", () => {
+    const employees = generateEmployees({
+      count: 101,
+      seed: 1,
+      remote_ratio: 0,
+      departments: [
+        {
+          name: "Engineering",
+          weight: 3,
+          job_titles: ["Engineer"],
+          skills: [{ name: "Go" }],
+          base_salary: 100000,
+        },
+        {
+          name: "Sales",
+          weight: 1,
+          job_titles: ["Account Executive"],
+          skills: [{ name: "Negotiation" }],
+          base_salary: 60000,
+        },
+      ],
+      offices: [
+        {
+          name: "Lisbon",
+          city: "Lisbon",
+          state: "Lisbon",
+          postal_code: "1100-148",
+          country: "Portugal",
+          currency: "EUR",
+        },
+      ],
+      skills_per_employee: { min: 1, max: 1 },
+      reviews: { max_per_employee: 0, rating_weights: [1, 1, 1, 1, 1] },
+    });
+    const count = (department: string) =>
+      employees.filter(
+        (employee) => employee.job_details.department === department
+      ).length;
+
+    expect(count("Engineering")).toBe(75);
+    expect(count("Sales")).toBe(25);
+    expect(count("Executive")).toBe(1);
+    expect(
+      employees.every(
+        (employee) =>
+          employee.work_location.nearest_office === "Lisbon" &&
+          !employee.work_location.is_remote &&
+          employee.job_details.currency === "EUR" &&
+          employee.performance_reviews.length === 0
+      )
+    ).toBe(true);
+    expect(
+      employees.find(
+        (employee) => employee.job_details.department === "Sales"
+      )?.job_details.job_title
+    ).toBe("Head of Sales");
+  });
+
+  test("should give reviews on past anniversaries only", () => {
+    const employees = generateEmployees({
+      count: 200,
+      seed: 5,
+      reference_date: "2024-06-30",
+    });
+
+    for (const { job_details, performance_reviews } of employees) {
+      expect(performance_reviews.length).toBeLessThanOrEqual(3);
+      for (const review of performance_reviews) {
+        expect(review.review_date > job_details.hire_date).toBe(true);
+        expect(review.review_date <= "2024-06-30").toBe(true);
+        expect(review.rating).toBeGreaterThanOrEqual(1);
+        expect(review.rating).toBeLessThanOrEqual(5);
+      }
+    }
+  });
+
+  test("should reject org sizes outside 20 to 50,000", () => {
+    expect(() => generateEmployees({ count: 19 })).toThrow(ZodError);
+    expect(() => generateEmployees({ count: 50001 })).toThrow(ZodError);
+  });
+});
@@ -0,0 +1,222 @@
+import { Collection, Document } from "mongodb";
+import {
+  buildCandidatePipeline,
+  planTeam,
+  TeamBuilderSchema,
+  TeamCandidate,
+  teamBuilderTool,
+} from "../src/agent/tools/team-builder";
+
+const candidate = (
+  employee_id: string,
+  job_title: string,
+  skills: string[],
+  ratings: number[] = []
+): TeamCandidate => ({
+  employee_id,
+  first_name: employee_id,
+  last_name: "Test",
+  job_details: { job_title, department: "Engineering" },
+  skills,
+  performance_reviews: ratings.map((rating) => ({ rating })),
+});
+
+const CANDIDATES = [
+  candidate("E1", "iOS Developer", ["Swift", "UIKit"], [4]),
+  candidate("E2", "iOS Developer", ["Swift"], [5]),
+  candidate("E3", "Backend Engineer", ["Go", "Swift"], [3]),
+  candidate("E4", "Product Designer", ["Figma"], [4]),
+];
+
+const requirements = (input: unknown) => TeamBuilderSchema.parse(input).roles;
+
+describe("planTeam", () => {
+  test("should assign the best matches and list the gaps", () => {
+    const plan = planTeam(
+      requirements({
+        roles: [
+          { role: "iOS Developer", skills: ["Swift", "UIKit"], count: 2 },
+          { role: "Designer", skills: ["Figma", "Sketch"] },
+          { role: "QA Engineer", skills: ["Appium"] },
+        ],
+      }),
+      CANDIDATES,
+      true
+    );
+
+    expect(
+      plan.roles.map((role) => role.members.map((m) => m.employee_id))
+    ).toEqual([["E1", "E2"], ["E4"], []]);
+    expect(plan.roles[0].members[0]).toMatchObject({
+      matched_skills: ["Swift", "UIKit"],
+      missing_skills: [],
+      average_rating: 4,
+      score: 29,
+    });
+    expect(plan.skill_gaps).toEqual([
+      { role: "Designer", skill: "Sketch" },
+      { role: "QA Engineer", skill: "Appium" },
+    ]);
+    expect(plan.open_positions).toEqual([{ role: "QA Engineer", count: 1 }]);
+  });
+
+  test("should never book an employee twice", () => {
+    const plan = planTeam(
+      requirements({
+        roles: [
+          { role: "iOS Developer", skills: ["Swift"], count: 1 },
+          { role: "Mobile Engineer", skills: ["Swift"], count: 3 },
+        ],
+      }),
+      CANDIDATES,
+      true
+    );
+
+    const booked = plan.roles.flatMap((role) =>
+      role.members.map((member) => member.employee_id)
+    );
+    expect(new Set(booked).size).toBe(booked.length);
+    expect(plan.open_positions).toEqual([
+      { role: "Mobile Engineer", count: 1 },
+    ]);
+  });
+
+  test("should be deterministic whatever the candidate order", () => {
+    const roles = requirements({
+      roles: [{ role: "Developer", skills: ["Swift"], count: 2 }],
+    });
+
+    expect(planTeam(roles, [...CANDIDATES].reverse(), false)).toEqual(
+      planTeam(roles, CANDIDATES, false)
+    );
+  });
+
+  test("should ignore ratings the caller may not see", () => {
+    const plan = planTeam(
+      requirements({ roles: [{ role: "iOS Developer", skills: ["Swift"] }] }),
+      CANDIDATES,
+      false
+    );
+
+    // Without ratings E1 and E2 tie, so the lower employee_id wins
+    expect(plan.roles[0].members[0].employee_id).toBe("E1");
+    expect(plan.roles[0].members[0].average_rating).toBeUndefined();
+  });
+});
+
+describe("buildCandidatePipeline", () => {
+  test("should rank each role's candidates by relevance before the limit", () => {
+    const roles = requirements({
+      roles: [
+        { role: "iOS Developer", skills: [" Swift ", "UIKit"] },
+        { role: "Designer", skills: ["Figma"] },
+      ],
+    });
+
+    const [match, { $facet }] = buildCandidatePipeline(
+      roles,
+      undefined,
+      true,
+      100
+    );
+
+    expect(match.$match.$or).toHaveLength(2);
+    expect(Object.keys($facet)).toEqual(["role_0", "role_1"]);
+    const [addFields, sort, limit] = $facet.role_0;
+    const [skills, title, rating] = addFields.$addFields.relevance.$add;
+    expect(skills.$multiply[0].$size.$setIntersection[1]).toEqual([
+      "swift",
+      "uikit",
+    ]);
+    expect(title.$cond[0].$regexMatch.regex).toBe("ios developer");
+    expect(rating).toEqual({
+      $ifNull: [{ $avg: "$performance_reviews.rating" }, 0],
+    });
+    expect(sort).toEqual({ $sort: { relevance: -1, employee_id: 1 } });
+    expect(limit).toEqual({ $limit: 101 });
+  });
+});
+
+describe("teamBuilderTool", () => {
+  const collectionReturning = (pools: Record<string, TeamCandidate[]>) => {
+    const aggregate = jest.fn((_pipeline: Document[]) => ({
+      toArray: async () => [pools],
+    }));
+    return {
+      aggregate,
+      tool: teamBuilderTool({ aggregate } as unknown as Collection),
+    };
+  };
+
+  test("should only fetch ratings for roles that may see them", async () => {
+    const { aggregate, tool } = collectionReturning({ role_0: CANDIDATES });
+    const input = { roles: [{ role: "iOS Developer", skills: ["Swift"] }] };
+
+    await tool.invoke(input, {
+      configurable: { caller: { id: "u1", role: "employee" } },
+    });
+    await tool.invoke(input, {
+      configurable: { caller: { id: "u2", role: "manager" } },
+    });
+
+    const [employeeFacet, managerFacet] = aggregate.mock.calls.map(
+      ([pipeline]) => pipeline[1].$facet.role_0
+    );
+    const projection = (facet: Document[]) => facet[facet.length - 1].$project;
+    expect(projection(employeeFacet)).not.toHaveProperty([
+      "performance_reviews.rating",
+    ]);
+    expect(employeeFacet[0].$addFields.relevance.$add).toHaveLength(2);
+    expect(projection(managerFacet)).toHaveProperty(
+      ["performance_reviews.rating"],
+      1
+    );
+  });
+
+  test("should report when matches were left out of the candidate pool", async () => {
+    // One more than the 200 candidates a single role reads
+    const pool = Array.from({ length: 201 }, (_, index) =>
+      candidate(`E${index}`, "iOS Developer", ["Swift"])
+    );
+    const { tool } = collectionReturning({ role_0: pool });
+
+    const output = JSON.parse(
+      await tool.invoke(
+        { roles: [{ role: "iOS Developer", skills: ["Swift"] }] },
+        { configurable: { caller: { id: "u1", role: "employee" } } }
+      )
+    );
+
+    expect(output.roles[0].members).toHaveLength(1);
+    expect(output.candidate_pool).toMatchObject({
+      considered: 200,
+      truncated: true,
+    });
+  });
+
+  test("should merge the roles' pools without duplicates", async () => {
+    const { tool } = collectionReturning({
+      role_0: [CANDIDATES[0], CANDIDATES[1]],
+      role_1: [CANDIDATES[0], CANDIDATES[3]],
+    });
+
+    const output = JSON.parse(
+      await tool.invoke(
+        {
+          roles: [
+            { role: "iOS Developer", skills: ["Swift"], count: 2 },
+            { role: "Designer", skills: ["Figma", "Swift"] },
+          ],
+        },
+        { configurable: { caller: { id: "u1", role: "employee" } } }
+      )
+    );
+
+    expect(output.candidate_pool).toBeUndefined();
+    expect(
+      output.roles.flatMap((role: { members: { employee_id: string }[] }) =>
+        role.members.map((member) => member.employee_id)
+      )
+    ).toEqual(["E1", "E2", "E4"]);
+  });
+});
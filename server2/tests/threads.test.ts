@@ -0,0 +1,269 @@
+import express, { Express, NextFunction, Request, Response } from "express";
+import request from "supertest";
+import { Document, MongoClient } from "mongodb";
+import { Caller } from "../src/agent/policy/caller";
+import {
+  createThread,
+  generateThreadTitle,
+  getThreadOwner,
+  recordThreadExchange,
+  ThreadRecord,
+} from "../src/db/threads";
+import threadRoutes, { setMongoClient } from "../src/routes/threads";
+
+describe("generateThreadTitle", () => {
+  test("should use short messages as they are", () => {
+    expect(generateThreadTitle("Who knows Swift?")).toBe("Who knows Swift?");
+  });
+
+  test("should collapse whitespace", () => {
+    expect(generateThreadTitle("  Who   knows\n Swift? ")).toBe(
+      "Who knows Swift?"
+    );
+  });
+
+  test("should cut long messages at a word boundary", () => {
+    const title = generateThreadTitle(
+      "Build a team to make an iOS app, and tell me the talent gaps in the engineering department"
+    );
+
+    expect(title).toBe(
+      "Build a team to make an iOS app, and tell me the talent gaps…"
+    );
+    expect(title.length).toBeLessThanOrEqual(61);
+  });
+
+  test("should cut long single words", () => {
+    const title = generateThreadTitle("x".repeat(100));
+
+    expect(title).toBe(`${"x".repeat(60)}…`);
+  });
+
+  test("should fall back for empty messages", () => {
+    expect(generateThreadTitle("   ")).toBe("New conversation");
+  });
+});
+
+// Threads and checkpoint collections backed by arrays
+function fakeDatabase() {
+  const collections = new Map<string, Document[]>();
+  const docsOf = (name: string) => {
+    if (!collections.has(name)) {
+      collections.set(name, []);
+    }
+    return collections.get(name)!;
+  };
+  const matches = (doc: Document, filter: Document) =>
+    Object.entries(filter).every(([key, value]) => doc[key] === value);
+  const strip = ({ _id, ...doc }: Document) => doc;
+
+  const collection = (name: string) => {
+    const docs = docsOf(name);
+    return {
+      insertOne: jest.fn(async (doc: Document) => {
+        docs.push({ _id: docs.length, ...doc });
+      }),
+      updateOne: jest.fn(async (filter: Document, update: Document) => {
+        const doc = docs.find((candidate) => matches(candidate, filter));
+        Object.assign(doc ?? {}, update.$set);
+      }),
+      find: jest.fn((filter: Document) => {
+        let found = docs.filter((doc) => matches(doc, filter));
+        const cursor = {
+          sort: (order: Record<string, 1 | -1>) => {
+            const [[field, direction]] = Object.entries(order);
+            found = [...found].sort(
+              (a, b) => (a[field] - b[field]) * direction
+            );
+            return cursor;
+          },
+          skip: (count: number) => {
+            found = found.slice(count);
+            return cursor;
+          },
+          limit: (count: number) => {
+            found = found.slice(0, count);
+            return cursor;
+          },
+          toArray: async () => found.map(strip),
+        };
+        return cursor;
+      }),
+      countDocuments: jest.fn(
+        async (filter: Document) =>
+          docs.filter((doc) => matches(doc, filter)).length
+      ),
+      findOneAndUpdate: jest.fn(
+        async (filter: Document, update: Document) => {
+          const doc = docs.find((candidate) => matches(candidate, filter));
+          return doc ? strip(Object.assign(doc, update.$set)) : null;
+        }
+      ),
+      deleteOne: jest.fn(async (filter: Document) => {
+        const index = docs.findIndex((doc) => matches(doc, filter));
+        if (index >= 0) {
+          docs.splice(index, 1);
+        }
+        return { deletedCount: index >= 0 ? 1 : 0 };
+      }),
+      deleteMany: jest.fn(async (filter: Document) => {
+        const kept = docs.filter((doc) => !matches(doc, filter));
+        const deletedCount = docs.length - kept.length;
+        docs.splice(0, docs.length, ...kept);
+        return { deletedCount };
+      }),
+    };
+  };
+
+  return {
+    docsOf,
+    client: { db: () => ({ collection }) } as unknown as MongoClient,
+  };
+}
+
+describe("Thread endpoints", () => {
+  const ALICE: Caller = { id: "alice", role: "employee" };
+  const BOB: Caller = { id: "bob", role: "employee" };
+  let db: ReturnType<typeof fakeDatabase>;
+  let app: Express;
+
+  const as = (caller: Caller) => ({
+    get: (path: string) =>
+      request(app).get(path).set("X-Test-User", caller.id),
+    patch: (path: string) =>
+      request(app).patch(path).set("X-Test-User", caller.id),
+    delete: (path: string) =>
+      request(app).delete(path).set("X-Test-User", caller.id),
+  });
+
+  beforeEach(async () => {
+    db = fakeDatabase();
+    setMongoClient(db.client);
+    app = express();
+    app.use(express.json());
+    app.use((req: Request, _res: Response, next: NextFunction) => {
+      req.caller = [ALICE, BOB].find(
+        (caller) => caller.id === req.header("X-Test-User")
+      );
+      next();
+    });
+    app.use("/threads", threadRoutes);
+
+    jest.useFakeTimers({ now: new Date("2025-01-01T00:00:00Z") });
+    try {
+      for (const [threadId, owner] of [
+        ["t1", ALICE],
+        ["t2", BOB],
+        ["t3", ALICE],
+        ["t4", ALICE],
+      ] as const) {
+        await createThread(db.client, threadId, owner, `About ${threadId}`);
+        jest.advanceTimersByTime(1000);
+      }
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test("should list only the caller's threads, newest first, by page", async () => {
+    const first = await as(ALICE).get("/threads?limit=2");
+    const second = await as(ALICE).get("/threads?limit=2&offset=2");
+
+    expect(first.status).toBe(200);
+    expect(first.body.threads.map((thread: ThreadRecord) => thread.thread_id))
+      .toEqual(["t4", "t3"]);
+    expect(first.body).toMatchObject({ total: 3, limit: 2, offset: 0 });
+    expect(
+      second.body.threads.map((thread: ThreadRecord) => thread.thread_id)
+    ).toEqual(["t1"]);
+    expect(
+      (await as(BOB).get("/threads")).body.threads.map(
+        (thread: ThreadRecord) => thread.thread_id
+      )
+    ).toEqual(["t2"]);
+  });
+
+  test("should rename a thread", async () => {
+    const res = await as(ALICE)
+      .patch("/threads/t1")
+      .send({ title: "  iOS team  " });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ thread_id: "t1", title: "iOS team" });
+  });
+
+  test("should move archived threads to the archived list", async () => {
+    await as(ALICE).patch("/threads/t3").send({ archived: true });
+
+    const active = await as(ALICE).get("/threads");
+    const archived = await as(ALICE).get("/threads?archived=true");
+
+    expect(
+      active.body.threads.map((thread: ThreadRecord) => thread.thread_id)
+    ).toEqual(["t4", "t1"]);
+    expect(
+      archived.body.threads.map((thread: ThreadRecord) => thread.thread_id)
+    ).toEqual(["t3"]);
+  });
+
+  test("should not change other users' threads", async () => {
+    const res = await as(BOB).patch("/threads/t1").send({ title: "Mine" });
+
+    expect(res.status).toBe(404);
+    expect(db.docsOf("threads")[0].title).toBe("About t1");
+  });
+
+  test("should delete a thread with its checkpoints and pending writes", async () => {
+    for (const name of ["checkpoints", "checkpoint_writes"]) {
+      db.docsOf(name).push({ thread_id: "t1" }, { thread_id: "t3" });
+    }
+
+    const res = await as(ALICE).delete("/threads/t1");
+
+    expect(res.status).toBe(204);
+    expect(
+      db.docsOf("threads").map((thread) => thread.thread_id)
+    ).not.toContain("t1");
+    for (const name of ["checkpoints", "checkpoint_writes"]) {
+      expect(db.docsOf(name)).toEqual([{ thread_id: "t3" }]);
+    }
+  });
+
+  test("should not delete other users' threads or their checkpoints", async () => {
+    db.docsOf("checkpoints").push({ thread_id: "t1" });
+
+    const res = await as(BOB).delete("/threads/t1");
+
+    expect(res.status).toBe(404);
+    expect(db.docsOf("threads")).toHaveLength(4);
+    expect(db.docsOf("checkpoints")).toHaveLength(1);
+  });
+
+  test("should act for the owner's API key when resuming", async () => {
+    await createThread(
+      db.client,
+      "t5",
+      { id: "carol", role: "manager", key_id: "key-c" },
+      "Hi"
+    );
+    const thread = db.docsOf("threads").find(
+      (candidate) => candidate.thread_id === "t5"
+    ) as ThreadRecord;
+
+    expect(getThreadOwner(thread)).toEqual({
+      id: "carol",
+      role: "manager",
+      key_id: "key-c",
+    });
+    expect(getThreadOwner(db.docsOf("threads")[0] as ThreadRecord)).toEqual(
+      ALICE
+    );
+  });
+
+  test("should set the message count from the checkpointed messages", async () => {
+    await recordThreadExchange(db.client, "t1", 4);
+    await recordThreadExchange(db.client, "t1", 7);
+
+    expect(db.docsOf("threads")[0].message_count).toBe(7);
+  });
+});
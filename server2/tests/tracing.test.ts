@@ -0,0 +1,254 @@
+import { readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Request, Response } from "express";
+import { HumanMessage } from "@langchain/core/messages";
+import { tool } from "@langchain/core/tools";
+import { MemorySaver } from "@langchain/langgraph";
+import { context, SpanStatusCode, trace } from "@opentelemetry/api";
+import {
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
+import { Collection } from "mongodb";
+import { z } from "zod";
+import { createWorkflow } from "../src/agent/agent";
+import { ScriptedChatModel } from "../src/agent/providers/fake-chat-model";
+import { HashedNGramEmbeddings } from "../src/agent/providers/hashed-embeddings";
+import { employeeLookupTool } from "../src/agent/tools/employee-lookup";
+import { InMemoryEmployeeVectorIndex } from "../src/db/vector-index/memory-index";
+import { tracingMiddleware } from "../src/middleware";
+import {
+  FileSpanExporter,
+  toSpanRecord,
+} from "../src/utils/file-span-exporter";
+import { withSpan } from "../src/utils/tracing";
+
+const exporter = new InMemorySpanExporter();
+const provider = new NodeTracerProvider({
+  spanProcessors: [new SimpleSpanProcessor(exporter)],
+});
+
+beforeAll(() => provider.register());
+afterEach(() => exporter.reset());
+afterAll(async () => {
+  await provider.shutdown();
+  trace.disable();
+  context.disable();
+});
+
+const spanNamed = (name: string): ReadableSpan => {
+  const span = exporter.getFinishedSpans().find((span) => span.name === name);
+  if (!span) {
+    throw new Error(`No span named ${name}`);
+  }
+  return span;
+};
+
+const parentOf = (span: ReadableSpan) => span.parentSpanContext?.spanId;
+
+describe("withSpan", () => {
+  test("should nest spans started inside it", async () => {
+    await withSpan("outer", {}, () => withSpan("inner", {}, async () => 1));
+
+    expect(parentOf(spanNamed("inner"))).toBe(
+      spanNamed("outer").spanContext().spanId
+    );
+  });
+
+  test("should record errors and pass them on", async () => {
+    await expect(
+      withSpan("failing", {}, async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+
+    const span = spanNamed("failing");
+    expect(span.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: "boom",
+    });
+    expect(span.events.map((event) => event.name)).toEqual(["exception"]);
+  });
+});
+
+describe("workflow tracing", () => {
+  test("should trace each node run and model call in one trace", async () => {
+    const lookup = tool(async () => "lookup result", {
+      name: "employee_lookup",
+      description: "Test lookup",
+      schema: z.object({ query: z.string() }),
+    });
+    const app = createWorkflow(
+      [lookup],
+      new ScriptedChatModel(),
+      new MemorySaver()
+    );
+
+    await withSpan("request", {}, () =>
+      app.invoke(
+        { messages: [new HumanMessage("Who knows Swift?")] },
+        { configurable: { thread_id: "tracing-thread" } }
+      )
+    );
+
+    const spans = exporter.getFinishedSpans();
+    const request = spanNamed("request");
+    expect(new Set(spans.map((span) => span.spanContext().traceId))).toEqual(
+      new Set([request.spanContext().traceId])
+    );
+
+    // agent -> tools -> agent
+    const nodes = spans.filter((span) => span.name.startsWith("langgraph."));
+    expect(nodes.map((span) => span.name).sort()).toEqual([
+      "langgraph.node agent",
+      "langgraph.node agent",
+      "langgraph.node tools",
+    ]);
+
+    const attempts = spans.filter((span) => span.name === "chat attempt");
+    const modelCalls = spans.filter(
+      (span) => span.name.startsWith("chat ") && !attempts.includes(span)
+    );
+    expect(modelCalls).toHaveLength(2);
+    expect(attempts).toHaveLength(2);
+    attempts.forEach((attempt) => {
+      const call = modelCalls.find(
+        (span) => span.spanContext().spanId === parentOf(attempt)
+      );
+      expect(call?.attributes["gen_ai.usage.input_tokens"]).toBeGreaterThan(0);
+      expect(nodes.map((node) => node.spanContext().spanId)).toContain(
+        parentOf(call!)
+      );
+    });
+  });
+});
+
+describe("employeeLookupTool tracing", () => {
+  test("should trace the embedding, vector search and Mongo calls", async () => {
+    const embeddings = new HashedNGramEmbeddings({ dimensions: 16 });
+    const vectorIndex = new InMemoryEmployeeVectorIndex(16);
+    await vectorIndex.upsert([
+      {
+        employee_id: "E001",
+        summary: "Jane Doe. Job: iOS Developer",
+        vector: await embeddings.embedQuery("Jane Doe iOS Developer"),
+      },
+    ]);
+    const cursor = (documents: object[]) => ({
+      sort: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      toArray: jest.fn(async () => documents),
+    });
+    const collection = {
+      collectionName: "employees",
+      find: jest.fn((filter: any) =>
+        filter.$text
+          ? cursor([])
+          : cursor([{ employee_id: "E001", first_name: "Jane" }])
+      ),
+    } as unknown as Collection;
+    const lookup = employeeLookupTool(collection, vectorIndex, embeddings, {
+      vectorWeight: 1,
+      keywordWeight: 1,
+      k: 60,
+      minVectorScore: 0,
+    });
+
+    await withSpan("tool", {}, () =>
+      lookup.invoke(
+        { query: "iOS developer", n: 5 },
+        { configurable: { caller: { id: "u1", role: "hr" } } }
+      )
+    );
+
+    const toolSpanId = spanNamed("tool").spanContext().spanId;
+    const names = exporter
+      .getFinishedSpans()
+      .filter((span) => parentOf(span) === toolSpanId)
+      .map((span) => span.name);
+    expect(names).toEqual([
+      "embeddings embed_query",
+      "memory search",
+      "mongodb find employees",
+      "mongodb find employees",
+    ]);
+    expect(spanNamed("memory search").attributes).toEqual({
+      "db.system.name": "memory",
+      "db.operation.name": "search",
+      "db.query.limit": 5,
+    });
+  });
+});
+
+describe("tracingMiddleware", () => {
+  test("should continue the caller's trace and name the span by route", () => {
+    let finish: () => void = () => undefined;
+    const req = {
+      method: "POST",
+      path: "/chat/abc",
+      baseUrl: "/chat",
+      headers: {
+        traceparent: "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01",
+      },
+    } as unknown as Request;
+    const res = {
+      statusCode: 502,
+      on: jest.fn((_event: string, callback: () => void) => {
+        finish = callback;
+      }),
+    } as unknown as Response;
+    let activeTraceId: string | undefined;
+
+    tracingMiddleware(req, res, () => {
+      activeTraceId = trace.getActiveSpan()?.spanContext().traceId;
+    });
+    req.route = { path: "/:threadId" };
+    finish();
+
+    const span = spanNamed("POST /chat/:threadId");
+    expect(activeTraceId).toBe("0af7651916cd43dd8448eb211c80319c");
+    expect(span.spanContext().traceId).toBe(activeTraceId);
+    expect(parentOf(span)).toBe("b7ad6b7169203331");
+    expect(span.attributes["http.response.status_code"]).toBe(502);
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+  });
+});
+
+describe("FileSpanExporter", () => {
+  const path = join(tmpdir(), `traces-${process.pid}`, "traces.jsonl");
+
+  afterAll(() => rm(join(path, ".."), { recursive: true, force: true }));
+
+  test("should append one JSON record per span", async () => {
+    await withSpan("outer", { "app.answer": 42 }, () =>
+      withSpan("inner", {}, async () => undefined)
+    );
+    const spans = exporter.getFinishedSpans();
+    const fileExporter = new FileSpanExporter(path);
+    const results: number[] = [];
+
+    fileExporter.export(spans, (result) => results.push(result.code));
+    fileExporter.export(spans.slice(0, 1), (result) =>
+      results.push(result.code)
+    );
+    await fileExporter.forceFlush();
+
+    const lines = (await readFile(path, "utf8")).trim().split("\n");
+    const [inner, outer] = lines.map((line) => JSON.parse(line));
+    expect(results).toEqual([0, 0]);
+    expect(lines).toHaveLength(3);
+    expect(outer).toEqual(toSpanRecord(spans[1]));
+    expect(outer).toMatchObject({
+      name: "outer",
+      kind: "INTERNAL",
+      parent_span_id: null,
+      status: { code: "UNSET" },
+      attributes: { "app.answer": 42 },
+    });
+    expect(inner.parent_span_id).toBe(outer.span_id);
+    expect(inner.trace_id).toBe(outer.trace_id);
+  });
+});
@@ -0,0 +1,449 @@
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import { tool } from "@langchain/core/tools";
+import { MemorySaver } from "@langchain/langgraph";
+import { Collection, Document } from "mongodb";
+import { z } from "zod";
+import { createWorkflow } from "../src/agent/agent";
+import {
+  ConfigurationError,
+  QuotaExceededError,
+} from "../src/agent/config/errors";
+import { CachedQueryEmbeddings } from "../src/agent/providers/cached-embeddings";
+import { getChatModelName } from "../src/agent/providers/chat-models";
+import { ScriptedChatModel } from "../src/agent/providers/fake-chat-model";
+import { MeteredEmbeddings } from "../src/agent/providers/metered-embeddings";
+import * as usage from "../src/agent/usage";
+import {
+  checkQuota,
+  getQuota,
+  parseModelPrices,
+  parseUsageQuotas,
+  PriceTable,
+  readChatUsage,
+  UsageMeter,
+} from "../src/agent/usage";
+import {
+  enforceUsageQuota,
+  saveUsage,
+  UsageRecord,
+} from "../src/db/usage";
+
+const prices = () =>
+  new PriceTable(
+    new Map([
+      ["gpt-4o", { input: 2.5, output: 10 }],
+      ["gpt-4o-mini", { input: 0.15, output: 0.6 }],
+      ["embed", { input: 0.1, output: 0 }],
+    ])
+  );
+
+describe("parseModelPrices", () => {
+  test("should read prices from the last two fields", () => {
+    expect(parseModelPrices(["gpt-4o:2.5:10", "llama3.1:8b:0:0"])).toEqual(
+      new Map([
+        ["gpt-4o", { input: 2.5, output: 10 }],
+        ["llama3.1:8b", { input: 0, output: 0 }],
+      ])
+    );
+  });
+
+  test("should reject malformed entries and negative prices", () => {
+    expect(() => parseModelPrices(["gpt-4o:2.5"])).toThrow(ConfigurationError);
+    expect(() => parseModelPrices(["gpt-4o:x:10"])).toThrow(
+      ConfigurationError
+    );
+    expect(() => parseModelPrices(["gpt-4o:-1:10"])).toThrow(
+      ConfigurationError
+    );
+  });
+});
+
+describe("PriceTable", () => {
+  test("should price dated model names by their longest prefix", () => {
+    const table = prices();
+
+    expect(table.find("gpt-4o-mini-2024-07-18")).toEqual({
+      input: 0.15,
+      output: 0.6,
+    });
+    expect(table.find("gpt-4o-2024-08-06")).toEqual({ input: 2.5, output: 10 });
+    expect(table.cost("gpt-4o", 1_000_000, 500_000)).toBeCloseTo(7.5);
+  });
+
+  test("should record unknown models at no cost", () => {
+    expect(prices().cost("mystery-model", 1000, 1000)).toBe(0);
+  });
+});
+
+describe("UsageMeter", () => {
+  test("should add up calls per model", () => {
+    const meter = new UsageMeter(prices());
+
+    meter.record("chat", "gpt-4o", { input_tokens: 1000, output_tokens: 100 });
+    meter.record("chat", "gpt-4o", { input_tokens: 2000, output_tokens: 200 });
+    meter.record("embedding", "embed", {
+      input_tokens: 50,
+      output_tokens: 0,
+      estimated: true,
+    });
+
+    expect(meter.entries).toEqual([
+      {
+        kind: "chat",
+        model: "gpt-4o",
+        calls: 2,
+        input_tokens: 3000,
+        output_tokens: 300,
+        cost_usd: expect.closeTo(0.0105),
+        estimated: false,
+      },
+      {
+        kind: "embedding",
+        model: "embed",
+        calls: 1,
+        input_tokens: 50,
+        output_tokens: 0,
+        cost_usd: expect.closeTo(0.000005),
+        estimated: true,
+      },
+    ]);
+    expect(meter.totals).toEqual({
+      input_tokens: 3050,
+      output_tokens: 300,
+      total_tokens: 3350,
+      cost_usd: expect.closeTo(0.010505),
+    });
+  });
+});
+
+describe("readChatUsage", () => {
+  test("should use the usage the provider reported", () => {
+    const message = new AIMessage({
+      content: "Hi",
+      response_metadata: { model_name: "gpt-4o-mini-2024-07-18" },
+      usage_metadata: {
+        input_tokens: 120,
+        output_tokens: 8,
+        total_tokens: 128,
+      },
+    });
+
+    expect(readChatUsage(message, [], "gpt-4o-mini")).toEqual({
+      model: "gpt-4o-mini-2024-07-18",
+      input_tokens: 120,
+      output_tokens: 8,
+    });
+  });
+
+  test("should estimate usage the provider did not report", () => {
+    const usage = readChatUsage(
+      new AIMessage("x".repeat(40)),
+      [new HumanMessage("y".repeat(400))],
+      "scripted"
+    );
+
+    expect(usage).toEqual({
+      model: "scripted",
+      input_tokens: 100,
+      output_tokens: 11,
+      estimated: true,
+    });
+  });
+
+  test("should meter every model call of a workflow run", async () => {
+    const meter = new UsageMeter(prices());
+    const lookup = tool(async () => "lookup result", {
+      name: "employee_lookup",
+      description: "Test lookup",
+      schema: z.object({ query: z.string() }),
+    });
+    const app = createWorkflow(
+      [lookup],
+      new ScriptedChatModel(),
+      new MemorySaver(),
+      meter
+    );
+
+    await app.invoke(
+      { messages: [new HumanMessage("Who knows Swift?")] },
+      { configurable: { thread_id: "usage-thread" } }
+    );
+
+    expect(meter.entries).toEqual([
+      expect.objectContaining({
+        kind: "chat",
+        model: getChatModelName(),
+        calls: 2,
+        estimated: true,
+      }),
+    ]);
+    expect(meter.totals.total_tokens).toBeGreaterThan(0);
+  });
+});
+
+describe("MeteredEmbeddings", () => {
+  const fakeEmbeddings = () => ({
+    embedQuery: jest.fn(async (text: string) => [text.length]),
+    embedDocuments: jest.fn(async (texts: string[]) =>
+      texts.map((text) => [text.length])
+    ),
+  });
+
+  test("should estimate the tokens of documents and queries", async () => {
+    const meter = new UsageMeter(prices());
+    const embeddings = new MeteredEmbeddings(fakeEmbeddings(), "embed", meter);
+
+    await embeddings.embedDocuments(["a".repeat(40), "b".repeat(4)]);
+    await embeddings.embedQuery("c".repeat(8));
+
+    expect(meter.entries).toEqual([
+      expect.objectContaining({ calls: 2, input_tokens: 13, estimated: true }),
+    ]);
+  });
+
+  test("should not charge queries served from the cache", async () => {
+    const meter = new UsageMeter(prices());
+    const embeddings = new MeteredEmbeddings(
+      new CachedQueryEmbeddings(fakeEmbeddings(), 10),
+      "embed",
+      meter
+    );
+
+    await embeddings.embedQuery("Who knows Swift?");
+    await embeddings.embedQuery("  Who knows   Swift?");
+
+    expect(meter.entries).toEqual([
+      expect.objectContaining({ calls: 1, input_tokens: 4 }),
+    ]);
+  });
+});
+
+describe("parseUsageQuotas", () => {
+  const defaults = { tokens: 100000, cost_usd: 5 };
+
+  test("should keep defaults for empty fields", () => {
+    expect(
+      parseUsageQuotas(["alice:200000:", "bob::0", "carol:0:0"], defaults)
+    ).toEqual(
+      new Map([
+        ["alice", { tokens: 200000, cost_usd: 5 }],
+        ["bob", { tokens: 100000, cost_usd: 0 }],
+        ["carol", { tokens: 0, cost_usd: 0 }],
+      ])
+    );
+  });
+
+  test("should reject malformed entries", () => {
+    expect(() => parseUsageQuotas(["alice"], defaults)).toThrow(
+      ConfigurationError
+    );
+    expect(() => parseUsageQuotas(["alice:many:1"], defaults)).toThrow(
+      ConfigurationError
+    );
+  });
+});
+
+describe("getQuota", () => {
+  const quota = { tokens: 100000, cost_usd: 5 };
+  const quotas = parseUsageQuotas(["alice:200000:", "key-a:1000:"], quota);
+
+  test("should prefer the key's override, then the user's", () => {
+    const settings = { quotas, quota };
+
+    expect(
+      getQuota({ id: "alice", role: "employee", key_id: "key-a" }, settings)
+    ).toEqual({ tokens: 1000, cost_usd: 5 });
+    expect(
+      getQuota({ id: "alice", role: "employee", key_id: "key-b" }, settings)
+    ).toEqual({ tokens: 200000, cost_usd: 5 });
+    expect(getQuota({ id: "bob", role: "employee" }, settings)).toEqual(
+      quota
+    );
+  });
+});
+
+describe("checkQuota", () => {
+  const now = new Date("2025-03-10T18:00:00Z");
+
+  test("should allow callers under their quota", () => {
+    expect(() =>
+      checkQuota(
+        { total_tokens: 999, cost_usd: 0.5 },
+        { tokens: 1000, cost_usd: 1 },
+        now
+      )
+    ).not.toThrow();
+  });
+
+  test("should treat 0 as unlimited", () => {
+    expect(() =>
+      checkQuota(
+        { total_tokens: 5e9, cost_usd: 1e4 },
+        { tokens: 0, cost_usd: 0 },
+        now
+      )
+    ).not.toThrow();
+  });
+
+  test("should reject callers who used up a quota until midnight UTC", () => {
+    let error: unknown;
+    try {
+      checkQuota(
+        { total_tokens: 10, cost_usd: 1.25 },
+        { tokens: 0, cost_usd: 1 },
+        now
+      );
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect((error as QuotaExceededError).statusCode).toBe(429);
+    expect((error as QuotaExceededError).retryAfter).toBe(6 * 60 * 60);
+    expect((error as QuotaExceededError).message).toBe(
+      "Daily cost quota of $1.00 exceeded (used $1.2500). It resets at 2025-03-11T00:00:00.000Z."
+    );
+    expect(() =>
+      checkQuota(
+        { total_tokens: 1000, cost_usd: 0 },
+        { tokens: 1000, cost_usd: 0 },
+        now
+      )
+    ).toThrow("Daily token quota of 1000 exceeded (used 1000)");
+  });
+});
+
+describe("saveUsage", () => {
+  const fakeUsage = () => {
+    const docs: Document[] = [];
+    return {
+      docs,
+      collection: {
+        insertOne: jest.fn(async (doc: Document) => {
+          docs.push(doc);
+        }),
+      } as unknown as Collection<UsageRecord>,
+    };
+  };
+
+  test("should store totals and the per-model breakdown", async () => {
+    const { docs, collection } = fakeUsage();
+    const meter = new UsageMeter(prices());
+    meter.record("chat", "gpt-4o", { input_tokens: 1000, output_tokens: 100 });
+
+    await saveUsage(collection, meter, {
+      request_id: "req-1",
+      thread_id: "thread-1",
+      caller: { id: "alice", role: "manager", key_id: "abc123" },
+    });
+
+    expect(docs).toEqual([
+      {
+        request_id: "req-1",
+        thread_id: "thread-1",
+        user_id: "alice",
+        role: "manager",
+        key_id: "abc123",
+        at: expect.any(Date),
+        input_tokens: 1000,
+        output_tokens: 100,
+        total_tokens: 1100,
+        cost_usd: expect.closeTo(0.0035),
+        models: meter.entries,
+      },
+    ]);
+  });
+
+  test("should skip requests that used nothing", async () => {
+    const { docs, collection } = fakeUsage();
+
+    expect(
+      await saveUsage(collection, new UsageMeter(prices()), {
+        request_id: "req-1",
+        thread_id: "thread-1",
+        caller: { id: "carol", role: "hr" },
+      })
+    ).toBeNull();
+    expect(docs).toEqual([]);
+  });
+});
+
+describe("enforceUsageQuota", () => {
+  const now = new Date("2025-03-10T12:00:00Z");
+
+  // Usage records matched by equality, $exists and $gte, then summed
+  const usageOf = (records: Partial<UsageRecord>[]) => {
+    const matches = (record: Document, filter: Document) =>
+      Object.entries(filter).every(([key, condition]) => {
+        if (condition?.$exists !== undefined) {
+          return (record[key] !== undefined) === condition.$exists;
+        }
+        if (condition?.$gte !== undefined) {
+          return record[key] >= condition.$gte;
+        }
+        return record[key] === condition;
+      });
+    return {
+      aggregate: jest.fn(([{ $match }]: Document[]) => ({
+        toArray: async () => {
+          const found = records.filter((record) => matches(record, $match));
+          return found.length
+            ? [
+                {
+                  requests: found.length,
+                  input_tokens: 0,
+                  output_tokens: 0,
+                  total_tokens: found.reduce(
+                    (sum, record) => sum + (record.total_tokens ?? 0),
+                    0
+                  ),
+                  cost_usd: 0,
+                },
+              ]
+            : [];
+        },
+      })),
+    } as unknown as Collection<UsageRecord>;
+  };
+
+  beforeEach(() => {
+    jest
+      .spyOn(usage, "getQuota")
+      .mockReturnValue({ tokens: 1000, cost_usd: 0 });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  test("should give each of a user's API keys its own quota", async () => {
+    const collection = usageOf([
+      { user_id: "alice", key_id: "key-a", at: now, total_tokens: 1000 },
+      { user_id: "alice", key_id: "key-b", at: now, total_tokens: 400 },
+    ]);
+
+    await expect(
+      enforceUsageQuota(
+        collection,
+        { id: "alice", role: "employee", key_id: "key-a" },
+        now
+      )
+    ).rejects.toThrow(QuotaExceededError);
+    await expect(
+      enforceUsageQuota(
+        collection,
+        { id: "alice", role: "employee", key_id: "key-b" },
+        now
+      )
+    ).resolves.toBeUndefined();
+  });
+
+  test("should count JWT callers' usage per user, apart from their keys", async () => {
+    const collection = usageOf([
+      { user_id: "alice", key_id: "key-a", at: now, total_tokens: 1000 },
+      { user_id: "alice", at: now, total_tokens: 999 },
+    ]);
+
+    await expect(
+      enforceUsageQuota(collection, { id: "alice", role: "employee" }, now)
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,166 @@
+import { MongoClient } from "mongodb";
+import {
+  createEmployeeVectorIndex,
+  getVectorIndexRequiredEnv,
+  indexEmployees,
+  pointIdForEmployee,
+} from "../src/db/vector-index";
+import { InMemoryEmployeeVectorIndex } from "../src/db/vector-index/memory-index";
+import { HashedNGramEmbeddings } from "../src/agent/providers/hashed-embeddings";
+import { ConfigurationError } from "../src/agent/config/errors";
+import { Employee } from "../src/db/employee";
+
+const makeEmployee = (
+  employee_id: string,
+  job_title: string,
+  skills: string[]
+): Employee => ({
+  employee_id,
+  first_name: "Test",
+  last_name: employee_id,
+  date_of_birth: "1990-01-01",
+  address: {
+    street: "1 Main St",
+    city: "Berlin",
+    state: "BE",
+    postal_code: "10115",
+    country: "Germany",
+  },
+  contact_details: { email: `${employee_id}@example.com`, phone_number: "1" },
+  job_details: {
+    job_title,
+    department: "Engineering",
+    hire_date: "2020-01-01",
+    employment_type: "Full-time",
+    salary: 100000,
+    currency: "EUR",
+  },
+  work_location: { nearest_office: "Berlin", is_remote: false },
+  reporting_manager: null,
+  skills,
+  performance_reviews: [],
+  benefits: {
+    health_insurance: "Basic",
+    retirement_plan: "401k",
+    paid_time_off: 25,
+  },
+  emergency_contact: {
+    name: "Contact",
+    relationship: "Friend",
+    phone_number: "2",
+  },
+  notes: "",
+});
+
+describe("InMemoryEmployeeVectorIndex", () => {
+  let index: InMemoryEmployeeVectorIndex;
+
+  beforeEach(() => {
+    index = new InMemoryEmployeeVectorIndex(2);
+  });
+
+  test("should upsert points keyed by employee_id", async () => {
+    await index.upsert([
+      { employee_id: "E001", summary: "first", vector: [1, 0] },
+      { employee_id: "E001", summary: "updated", vector: [0, 1] },
+    ]);
+
+    expect(await index.count()).toBe(1);
+    const [match] = await index.search([0, 1], 1);
+    expect(match).toEqual({
+      employee_id: "E001",
+      summary: "updated",
+      score: 1,
+    });
+  });
+
+  test("should return matches ordered by cosine similarity", async () => {
+    await index.upsert([
+      { employee_id: "E001", summary: "a", vector: [1, 0] },
+      { employee_id: "E002", summary: "b", vector: [0.7, 0.7] },
+      { employee_id: "E003", summary: "c", vector: [0, 1] },
+    ]);
+
+    const matches = await index.search([1, 0.1], 2);
+
+    expect(matches.map((match) => match.employee_id)).toEqual([
+      "E001",
+      "E002",
+    ]);
+  });
+
+  test("should delete points and clear on recreate", async () => {
+    await index.upsert([
+      { employee_id: "E001", summary: "a", vector: [1, 0] },
+      { employee_id: "E002", summary: "b", vector: [0, 1] },
+    ]);
+
+    await index.delete(["E001"]);
+    expect(await index.count()).toBe(1);
+
+    await index.ensureIndex({ recreate: true });
+    expect(await index.count()).toBe(0);
+  });
+
+  test("should reject vectors of the wrong dimension", async () => {
+    await expect(
+      index.upsert([{ employee_id: "E001", summary: "a", vector: [1, 0, 0] }])
+    ).rejects.toThrow("expected 2");
+  });
+});
+
+describe("Vector index factory", () => {
+  const client = {} as MongoClient;
+
+  test("should share the memory index across callers", () => {
+    const first = createEmployeeVectorIndex(client, 8, "memory");
+    const second = createEmployeeVectorIndex(client, 8, "memory");
+
+    expect(first).toBe(second);
+    expect(first.backend).toBe("memory");
+  });
+
+  test("should report backend credentials", () => {
+    expect(getVectorIndexRequiredEnv("qdrant")).toEqual([
+      "QDRANT_URL",
+      "QDRANT_API_KEY",
+    ]);
+    expect(getVectorIndexRequiredEnv("memory")).toEqual([]);
+  });
+
+  test("should reject unknown backends", () => {
+    expect(() => createEmployeeVectorIndex(client, 8, "unknown")).toThrow(
+      ConfigurationError
+    );
+  });
+
+  test("should derive stable UUID point ids from employee ids", () => {
+    const id = pointIdForEmployee("E001");
+
+    expect(id).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+    );
+    expect(pointIdForEmployee("E001")).toBe(id);
+    expect(pointIdForEmployee("E002")).not.toBe(id);
+  });
+});
+
+describe("indexEmployees", () => {
+  test("should embed summaries and make employees searchable", async () => {
+    const embeddings = new HashedNGramEmbeddings({ dimensions: 64 });
+    const index = new InMemoryEmployeeVectorIndex(64);
+
+    const indexed = await indexEmployees(index, embeddings, [
+      makeEmployee("E001", "iOS Developer", ["Swift", "SwiftUI"]),
+      makeEmployee("E002", "Accountant", ["Payroll", "Tax"]),
+    ]);
+
+    expect(indexed).toBe(2);
+    const [top] = await index.search(
+      await embeddings.embedQuery("Swift iOS developer"),
+      1
+    );
+    expect(top.employee_id).toBe("E001");
+    expect(top.summary).toContain("iOS Developer in Engineering");
+  });
+});
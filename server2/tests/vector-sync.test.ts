@@ -0,0 +1,398 @@
+import { ChangeStreamDocument, Collection } from "mongodb";
+import { Employee } from "../src/db/employee";
+import { InMemoryEmployeeVectorIndex } from "../src/db/vector-index/memory-index";
+import { HashedNGramEmbeddings } from "../src/agent/providers/hashed-embeddings";
+import {
+  affectsVector,
+  applyEmployeeChanges,
+  EmployeeVectorSync,
+  VectorSyncState,
+} from "../src/db/vector-sync";
+
+const makeEmployee = (employee_id: string, skills = ["Swift"]): Employee => ({
+  employee_id,
+  first_name: "Test",
+  last_name: employee_id,
+  date_of_birth: "1990-01-01",
+  address: {
+    street: "1 Main St",
+    city: "Berlin",
+    state: "BE",
+    postal_code: "10115",
+    country: "Germany",
+  },
+  contact_details: { email: `${employee_id}@example.com`, phone_number: "1" },
+  job_details: {
+    job_title: "iOS Developer",
+    department: "Engineering",
+    hire_date: "2020-01-01",
+    employment_type: "Full-time",
+    salary: 100000,
+    currency: "EUR",
+  },
+  work_location: { nearest_office: "Berlin", is_remote: false },
+  reporting_manager: null,
+  skills,
+  performance_reviews: [],
+  benefits: {
+    health_insurance: "Basic",
+    retirement_plan: "401k",
+    paid_time_off: 25,
+  },
+  emergency_contact: {
+    name: "Contact",
+    relationship: "Friend",
+    phone_number: "2",
+  },
+  notes: "",
+});
+
+// Builds change events; the casts keep the fixtures to the fields used
+const insert = (employee: Employee) =>
+  ({
+    _id: { _data: `insert-${employee.employee_id}` },
+    operationType: "insert",
+    documentKey: { _id: employee.employee_id },
+    fullDocument: employee,
+  }) as unknown as ChangeStreamDocument;
+
+const update = (
+  employee: Employee,
+  updatedFields: Record<string, unknown>,
+  before?: Employee
+) =>
+  ({
+    _id: { _data: `update-${employee.employee_id}` },
+    operationType: "update",
+    documentKey: { _id: employee.employee_id },
+    updateDescription: { updatedFields, removedFields: [] },
+    fullDocument: employee,
+    fullDocumentBeforeChange: before,
+  }) as unknown as ChangeStreamDocument;
+
+const remove = (before?: Employee) =>
+  ({
+    _id: { _data: "delete" },
+    operationType: "delete",
+    documentKey: { _id: "oid" },
+    fullDocumentBeforeChange: before,
+  }) as unknown as ChangeStreamDocument;
+
+// A change stream over fixed events. It reports itself closed once drained,
+// unless held, in which case next() waits until the stream is closed.
+function fakeStream(events: ChangeStreamDocument[], hold = false) {
+  const queue = [...events];
+  let closed = false;
+  let release = () => {};
+  const released = new Promise<void>((resolve) => (release = resolve));
+  return {
+    get closed() {
+      return closed || (!hold && !queue.length);
+    },
+    next: jest.fn(async () => {
+      if (queue.length) return queue.shift();
+      await released;
+      throw new Error("ChangeStream is closed");
+    }),
+    tryNext: jest.fn(async () => queue.shift() ?? null),
+    close: jest.fn(async () => {
+      closed = true;
+      release();
+    }),
+  };
+}
+
+function fakeCollections(
+  streams: (ReturnType<typeof fakeStream> | Error)[],
+  documents: Employee[] = [],
+  saved?: VectorSyncState
+) {
+  let state = saved;
+  const watch = jest.fn(() => {
+    const next = streams.shift()!;
+    if (next instanceof Error) {
+      return {
+        closed: false,
+        next: () => Promise.reject(next),
+        close: jest.fn(async () => {}),
+      };
+    }
+    return next;
+  });
+  const employees = {
+    collectionName: "employees",
+    watch,
+    db: { command: jest.fn(async () => ({ ok: 1, operationTime: "T1" })) },
+    find: jest.fn(() =>
+      (async function* () {
+        yield* documents;
+      })()
+    ),
+  } as unknown as Collection;
+  const syncState = {
+    findOne: jest.fn(async () => state ?? null),
+    updateOne: jest.fn(async (_filter, { $set }) => {
+      state = { _id: "employees", ...$set };
+    }),
+    deleteOne: jest.fn(async () => {
+      state = undefined;
+    }),
+  };
+  return {
+    employees,
+    watch,
+    syncState,
+    state: syncState as unknown as Collection<VectorSyncState>,
+    savedState: () => state,
+  };
+}
+
+describe("affectsVector", () => {
+  test("should ignore fields outside the summary", () => {
+    const change = update(makeEmployee("E001"), {
+      "job_details.salary": 1,
+    }) as Parameters<typeof affectsVector>[0];
+
+    expect(affectsVector(change)).toBe(false);
+  });
+
+  test("should detect summary fields, nested or replaced whole", () => {
+    const employee = makeEmployee("E001");
+
+    for (const field of ["skills", "skills.0", "job_details", "employee_id"]) {
+      expect(
+        affectsVector(
+          update(employee, { [field]: 1 }) as Parameters<
+            typeof affectsVector
+          >[0]
+        )
+      ).toBe(true);
+    }
+  });
+});
+
+describe("applyEmployeeChanges", () => {
+  let index: InMemoryEmployeeVectorIndex;
+  const embeddings = new HashedNGramEmbeddings({ dimensions: 32 });
+  const apply = (...changes: ChangeStreamDocument[]) =>
+    applyEmployeeChanges(index, embeddings, changes);
+
+  beforeEach(() => {
+    index = new InMemoryEmployeeVectorIndex(32);
+  });
+
+  test("should embed inserted employees under their employee_id", async () => {
+    expect(await apply(insert(makeEmployee("E001")))).toEqual({
+      upserted: 1,
+      deleted: 0,
+      skipped: 0,
+    });
+
+    const [match] = await index.search(
+      await embeddings.embedQuery("Swift"),
+      1
+    );
+    expect(match.employee_id).toBe("E001");
+  });
+
+  test("should re-embed updates to summary fields only", async () => {
+    const embedDocuments = jest.spyOn(embeddings, "embedDocuments");
+    const employee = makeEmployee("E001", ["Kotlin"]);
+
+    expect(
+      await apply(update(employee, { "job_details.salary": 1 }))
+    ).toMatchObject({ upserted: 0, skipped: 1 });
+    expect(
+      await apply(update(employee, { skills: ["Kotlin"] }))
+    ).toMatchObject({ upserted: 1 });
+    expect(embedDocuments).toHaveBeenCalledTimes(1);
+    embedDocuments.mockRestore();
+  });
+
+  test("should embed a batch at once, keeping each employee's last change", async () => {
+    const embedDocuments = jest.spyOn(embeddings, "embedDocuments");
+
+    const counts = await apply(
+      insert(makeEmployee("E001")),
+      insert(makeEmployee("E002")),
+      update(makeEmployee("E001", ["Go"]), { skills: ["Go"] }),
+      insert(makeEmployee("E003")),
+      remove(makeEmployee("E003"))
+    );
+
+    expect(counts).toEqual({ upserted: 2, deleted: 1, skipped: 0 });
+    expect(embedDocuments).toHaveBeenCalledTimes(1);
+    expect(embedDocuments.mock.calls[0][0]).toHaveLength(2);
+    const [match] = await index.search(await embeddings.embedQuery("Go"), 1);
+    expect(match.employee_id).toBe("E001");
+    expect(await index.count()).toBe(2);
+    embedDocuments.mockRestore();
+  });
+
+  test("should move the point when the employee_id changes", async () => {
+    await apply(insert(makeEmployee("E001")));
+
+    await apply(
+      update(
+        makeEmployee("E100"),
+        { employee_id: "E100" },
+        makeEmployee("E001")
+      )
+    );
+
+    const matches = await index.search(await embeddings.embedQuery("x"), 10);
+    expect(matches.map((match) => match.employee_id)).toEqual(["E100"]);
+  });
+
+  test("should delete the point of deleted employees", async () => {
+    await apply(insert(makeEmployee("E001")));
+
+    expect(await apply(remove(makeEmployee("E001")))).toMatchObject({
+      deleted: 1,
+    });
+    expect(await index.count()).toBe(0);
+  });
+
+  test("should skip deletes without a pre-image", async () => {
+    await apply(insert(makeEmployee("E001")));
+
+    expect(await apply(remove())).toMatchObject({ deleted: 0, skipped: 1 });
+    expect(await index.count()).toBe(1);
+  });
+
+  test("should skip records that are not valid employees", async () => {
+    const invalid = { ...makeEmployee("E001"), skills: "Swift" };
+
+    expect(
+      await apply(insert(invalid as unknown as Employee))
+    ).toMatchObject({ upserted: 0, skipped: 1 });
+    expect(await index.count()).toBe(0);
+  });
+});
+
+describe("EmployeeVectorSync", () => {
+  const embeddings = new HashedNGramEmbeddings({ dimensions: 32 });
+
+  test("should re-index everything, then follow later changes", async () => {
+    const index = new InMemoryEmployeeVectorIndex(32);
+    const { employees, watch, state, savedState } = fakeCollections(
+      [fakeStream([insert(makeEmployee("E002"))])],
+      [makeEmployee("E001")]
+    );
+
+    await new EmployeeVectorSync(
+      employees,
+      state,
+      index,
+      embeddings
+    ).syncChanges();
+
+    expect(watch).toHaveBeenCalledWith(
+      [],
+      expect.objectContaining({
+        fullDocument: "updateLookup",
+        fullDocumentBeforeChange: "whenAvailable",
+        startAtOperationTime: "T1",
+      })
+    );
+    expect(await index.count()).toBe(2);
+    expect(savedState()?.resume_token).toEqual({ _data: "insert-E002" });
+  });
+
+  test("should resume after the saved token without re-indexing", async () => {
+    const index = new InMemoryEmployeeVectorIndex(32);
+    const { employees, watch, state } = fakeCollections(
+      [fakeStream([])],
+      [makeEmployee("E001")],
+      {
+        _id: "employees",
+        resume_token: { _data: "saved" },
+        updated_at: new Date(),
+      }
+    );
+
+    await new EmployeeVectorSync(
+      employees,
+      state,
+      index,
+      embeddings
+    ).syncChanges();
+
+    expect(watch).toHaveBeenCalledWith(
+      [],
+      expect.objectContaining({ startAfter: { _data: "saved" } })
+    );
+    expect(await index.count()).toBe(0);
+  });
+
+  test("should save the token of the last change in a batch", async () => {
+    const index = new InMemoryEmployeeVectorIndex(32);
+    const stream = fakeStream([
+      insert(makeEmployee("E001")),
+      insert(makeEmployee("E002")),
+    ]);
+    const { employees, syncState, state, savedState } = fakeCollections(
+      [stream],
+      [],
+      {
+        _id: "employees",
+        resume_token: { _data: "saved" },
+        updated_at: new Date(),
+      }
+    );
+
+    await new EmployeeVectorSync(
+      employees,
+      state,
+      index,
+      embeddings
+    ).syncChanges();
+
+    expect(stream.tryNext).toHaveBeenCalled();
+    expect(syncState.updateOne).toHaveBeenCalledTimes(1);
+    expect(savedState()?.resume_token).toEqual({ _data: "insert-E002" });
+    expect(await index.count()).toBe(2);
+  });
+
+  test("should not save the token of a change that failed", async () => {
+    const index = new InMemoryEmployeeVectorIndex(32);
+    jest.spyOn(index, "upsert").mockRejectedValueOnce(new Error("down"));
+    const { employees, state, savedState } = fakeCollections(
+      [fakeStream([insert(makeEmployee("E002"))])],
+      []
+    );
+    const sync = new EmployeeVectorSync(employees, state, index, embeddings);
+
+    await expect(sync.syncChanges()).rejects.toThrow("down");
+    expect(savedState()).toBeUndefined();
+  });
+
+  test("should re-index when the resume token has expired", async () => {
+    const index = new InMemoryEmployeeVectorIndex(32);
+    const held = fakeStream([], true);
+    const { employees, watch, syncState, state } = fakeCollections(
+      [Object.assign(new Error("history lost"), { code: 286 }), held],
+      [makeEmployee("E001")],
+      {
+        _id: "employees",
+        resume_token: { _data: "expired" },
+        updated_at: new Date(),
+      }
+    );
+    const sync = new EmployeeVectorSync(employees, state, index, embeddings, 0);
+
+    sync.start();
+    while (watch.mock.calls.length < 2) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    await sync.stop();
+
+    expect(syncState.deleteOne).toHaveBeenCalled();
+    expect(watch).toHaveBeenLastCalledWith(
+      [],
+      expect.objectContaining({ startAtOperationTime: "T1" })
+    );
+    expect(await index.count()).toBe(1);
+    expect(held.close).toHaveBeenCalled();
+  });
+});